@@ -1,5 +1,10 @@
 import dotenv from 'dotenv';
 dotenv.config();
+// TimescaleDB migrations only run when it is the configured metric storage. Switching back to plain
+// Postgres needs them rolled back first, or knex reports the missing files.
+const migrationDirectories = (root) => process.env.METRICS_STORAGE === 'timescale'
+    ? [`${root}/migrations`, `${root}/timescale-migrations`]
+    : [`${root}/migrations`];
 const config = {
     development: {
         client: 'postgresql',
@@ -15,7 +20,7 @@ const config = {
             max: 10,
         },
         migrations: {
-            directory: './src/database/migrations',
+            directory: migrationDirectories('./src/database'),
             extension: 'ts',
         },
         seeds: {
@@ -37,7 +42,7 @@ const config = {
             max: 10,
         },
         migrations: {
-            directory: './src/database/migrations',
+            directory: migrationDirectories('./src/database'),
             extension: 'ts',
         },
         seeds: {
@@ -60,7 +65,7 @@ const config = {
             max: 20,
         },
         migrations: {
-            directory: './dist/database/migrations',
+            directory: migrationDirectories('./dist/database'),
             extension: 'js',
         },
         seeds: {
@@ -3,6 +3,13 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// TimescaleDB migrations only run when it is the configured metric storage. Switching back to plain
+// Postgres needs them rolled back first, or knex reports the missing files.
+const migrationDirectories = (root: string): string[] =>
+    process.env.METRICS_STORAGE === 'timescale'
+        ? [`${root}/migrations`, `${root}/timescale-migrations`]
+        : [`${root}/migrations`];
+
 const config: { [key: string]: Knex.Config } = {
     development: {
         client: 'postgresql',
@@ -18,7 +25,7 @@ const config: { [key: string]: Knex.Config } = {
             max: 10,
         },
         migrations: {
-            directory: './src/database/migrations',
+            directory: migrationDirectories('./src/database'),
             extension: 'ts',
         },
         seeds: {
@@ -41,7 +48,7 @@ const config: { [key: string]: Knex.Config } = {
             max: 10,
         },
         migrations: {
-            directory: './src/database/migrations',
+            directory: migrationDirectories('./src/database'),
             extension: 'ts',
         },
         seeds: {
@@ -65,7 +72,7 @@ const config: { [key: string]: Knex.Config } = {
             max: 20,
         },
         migrations: {
-            directory: './dist/database/migrations',
+            directory: migrationDirectories('./dist/database'),
             extension: 'js',
         },
         seeds: {
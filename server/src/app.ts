@@ -12,10 +12,29 @@ import {rateLimiter} from './middleware/rateLimiter';
 import {requestValidator} from './middleware/requestValidator';
 import projectRoutes from './routes/projectRoutes';
 import metricRoutes from './routes/metricRoutes';
+import queryRoutes from './routes/queryRoutes';
 import alertRoutes from './routes/alertRoutes';
+import alertRuleRoutes from './routes/alertRuleRoutes';
+import silenceRoutes from './routes/silenceRoutes';
+import alertGroupRoutes from './routes/alertGroupRoutes';
+import onCallRoutes from './routes/onCallRoutes';
+import notificationChannelRoutes from './routes/notificationChannelRoutes';
+import notificationTemplateRoutes from './routes/notificationTemplateRoutes';
+import webhookDeliveryRoutes from './routes/webhookDeliveryRoutes';
 import authRoutes from './routes/authRoutes';
 import webhookRoutes from './routes/webhookRoutes';
+import metricsExportRoutes from './routes/metricsExportRoutes';
+import otlpRoutes from './routes/otlpRoutes';
 import {testConnection} from './database/connection';
+import {AlertEvaluatorService} from './services/AlertEvaluatorService';
+import {BaselineService} from './services/BaselineService';
+import {AlertGroupingService} from './services/AlertGroupingService';
+import {EscalationService} from './services/EscalationService';
+import {NotificationOutboxService} from './services/NotificationOutboxService';
+import {StatsDService} from './services/StatsDService';
+import {MetricCatalogService} from './services/MetricCatalogService';
+import {MetricRollupService} from './services/MetricRollupService';
+import {metricStorage} from './repositories/MetricRepositoryFactory';
 
 dotenv.config();
 
@@ -24,6 +43,13 @@ export class App {
     public server: HttpServer;
     public io: Server;
     private port: number;
+    private alertEvaluator: AlertEvaluatorService;
+    private baselines: BaselineService;
+    private alertGrouping: AlertGroupingService;
+    private escalation: EscalationService;
+    private notificationOutbox: NotificationOutboxService;
+    private metricRollups: MetricRollupService;
+    private statsd: StatsDService | null = null;
 
     constructor() {
         this.app = express();
@@ -37,6 +63,13 @@ export class App {
             },
         });
 
+        this.alertEvaluator = new AlertEvaluatorService(this.io);
+        this.baselines = new BaselineService();
+        this.alertGrouping = new AlertGroupingService(this.io);
+        this.escalation = new EscalationService(this.io);
+        this.notificationOutbox = new NotificationOutboxService(this.io);
+        this.metricRollups = new MetricRollupService();
+
         this.initializeMiddlewares();
         this.initializeRoutes();
         this.initializeSocketIO();
@@ -91,9 +124,23 @@ export class App {
         this.app.use('/api/auth', authRoutes);
         this.app.use('/api/projects', projectRoutes);
         this.app.use('/api/metrics', metricRoutes);
+        this.app.use('/api/query', queryRoutes);
         this.app.use('/api/alerts', alertRoutes);
+        this.app.use('/api/alert-rules', alertRuleRoutes);
+        this.app.use('/api/silences', silenceRoutes);
+        this.app.use('/api/alert-groups', alertGroupRoutes);
+        this.app.use('/api/oncall', onCallRoutes);
+        this.app.use('/api/notification-channels', notificationChannelRoutes);
+        this.app.use('/api/notification-templates', notificationTemplateRoutes);
+        this.app.use('/api/webhook-deliveries', webhookDeliveryRoutes);
         this.app.use('/api/webhooks', webhookRoutes);
 
+        // Prometheus scrape endpoint, outside /api so scrapes are not rate limited
+        this.app.use('/metrics', metricsExportRoutes);
+
+        // OpenTelemetry exporters post to /v1/metrics on the configured endpoint
+        this.app.use('/v1', otlpRoutes);
+
         // API documentation route
         this.app.get('/api', (req, res) => {
             res.json({
@@ -103,9 +150,19 @@ export class App {
                     auth: '/api/auth',
                     projects: '/api/projects',
                     metrics: '/api/metrics',
+                    query: '/api/query',
                     alerts: '/api/alerts',
+                    alertRules: '/api/alert-rules',
+                    silences: '/api/silences',
+                    alertGroups: '/api/alert-groups',
+                    oncall: '/api/oncall',
+                    notificationChannels: '/api/notification-channels',
+                    notificationTemplates: '/api/notification-templates',
+                    webhookDeliveries: '/api/webhook-deliveries',
                     webhooks: '/api/webhooks',
                     health: '/health',
+                    prometheus: '/metrics',
+                    otlp: '/v1/metrics',
                 },
             });
         });
@@ -154,6 +211,27 @@ export class App {
                 console.warn('Some features may not work without database connection.');
             } else {
                 console.log('Database connection successful');
+
+                console.log(`Metric storage: ${metricStorage()}`);
+                const registered = await new MetricCatalogService().load();
+                console.log(`Loaded ${registered} metric catalog entries`);
+
+                // Alert rules are stored in the database, so only evaluate them when it is reachable
+                this.alertEvaluator.startEvaluation(process.env.ALERT_EVALUATION_INTERVAL);
+                this.alertGrouping.startFlushing(process.env.ALERT_GROUP_FLUSH_INTERVAL);
+                this.escalation.startEscalation(process.env.ALERT_ESCALATION_INTERVAL);
+                this.notificationOutbox.startProcessing(process.env.NOTIFICATION_OUTBOX_INTERVAL);
+                this.baselines.startLearning(process.env.BASELINE_LEARNING_INTERVAL);
+                this.metricRollups.startRollups(process.env.METRIC_ROLLUP_INTERVAL);
+
+                // The StatsD listener is opt-in; invalid project rules stop the server here
+                if (process.env.STATSD_PORT) {
+                    this.statsd = new StatsDService(this.io);
+                    this.statsd.startListening(
+                        parseInt(process.env.STATSD_PORT, 10),
+                        parseInt(process.env.STATSD_FLUSH_INTERVAL || '10', 10)
+                    );
+                }
             }
 
             // Start server regardless of database connection
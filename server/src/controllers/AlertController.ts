@@ -1,7 +1,11 @@
 import {NextFunction, Request, Response} from 'express';
 import {AlertRepository} from '../repositories/AlertRepository';
+import {AlertEventRepository} from '../repositories/AlertEventRepository';
+import {AlertGroupRepository} from '../repositories/AlertGroupRepository';
+import {AlertNotificationRepository} from '../repositories/AlertNotificationRepository';
 import {Server} from 'socket.io';
-import {AlertSeverity, AlertStatus} from '../entities/Alert';
+import {NotificationOutboxService} from '../services/NotificationOutboxService';
+import {AlertNotificationStatus, AlertSeverity, AlertStatus} from '../entities/Alert';
 
 export interface AuthRequest extends Request {
     user?: {
@@ -14,9 +18,17 @@ export interface AuthRequest extends Request {
 
 export class AlertController {
     private alertRepo: AlertRepository;
+    private alertEventRepo: AlertEventRepository;
+    private alertGroupRepo: AlertGroupRepository;
+    private alertNotificationRepo: AlertNotificationRepository;
+    private notificationOutbox: NotificationOutboxService;
 
     constructor() {
         this.alertRepo = new AlertRepository();
+        this.alertEventRepo = new AlertEventRepository();
+        this.alertGroupRepo = new AlertGroupRepository();
+        this.alertNotificationRepo = new AlertNotificationRepository();
+        this.notificationOutbox = new NotificationOutboxService();
     }
 
     async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -78,11 +90,36 @@ export class AlertController {
         }
     }
 
-    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    async update(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
+            if (!req.user) {
+                res.status(401).json({
+                    error: {
+                        code: 'UNAUTHORIZED',
+                        message: 'Authentication required',
+                        status: 401,
+                    },
+                });
+                return;
+            }
+
+            const {status, ...changes} = req.body;
+
+            // Acknowledging here must record who did it and notify, exactly like POST /:id/acknowledge
+            if (status === 'acknowledged') {
+                const acknowledged = await this.alertRepo.acknowledge(req.params.id as string, req.user.userId);
+                if (acknowledged) {
+                    await this.notificationOutbox.enqueueAlertEvent(acknowledged, 'alert.acknowledged');
+                }
+            } else if (status) {
+                await this.alertRepo.transition(req.params.id as string, status as AlertStatus, {
+                    actorId: req.user.userId,
+                });
+            }
+
             const alert = await this.alertRepo.update({
-                id: req.params.id,
-                ...req.body,
+                id: req.params.id as string,
+                ...changes,
             });
 
             if (!alert) {
@@ -96,6 +133,11 @@ export class AlertController {
                 return;
             }
 
+            // Let the alert's group notification reflect the new status
+            if (status !== undefined && alert.group_id) {
+                await this.alertGroupRepo.scheduleFlush(alert.group_id);
+            }
+
             // Emit real-time update via WebSocket
             const io = req.app.get('io') as Server;
             io.to(`project-${alert.project_id}`).emit('alert:updated', alert);
@@ -120,7 +162,7 @@ export class AlertController {
                 return;
             }
 
-            const alert = await this.alertRepo.acknowledge(req.params.id, req.user.userId);
+            const alert = await this.alertRepo.acknowledge(req.params.id as string, req.user.userId, req.body?.note);
 
             if (!alert) {
                 res.status(404).json({
@@ -133,6 +175,8 @@ export class AlertController {
                 return;
             }
 
+            await this.notificationOutbox.enqueueAlertEvent(alert, 'alert.acknowledged');
+
             // Emit real-time update via WebSocket
             const io = req.app.get('io') as Server;
             io.to(`project-${alert.project_id}`).emit('alert:acknowledged', alert);
@@ -143,9 +187,12 @@ export class AlertController {
         }
     }
 
-    async resolve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    async resolve(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
         try {
-            const alert = await this.alertRepo.resolve(req.params.id);
+            const alert = await this.alertRepo.resolve(req.params.id as string, {
+                actorId: req.user?.userId,
+                note: req.body?.note,
+            });
 
             if (!alert) {
                 res.status(404).json({
@@ -158,6 +205,10 @@ export class AlertController {
                 return;
             }
 
+            if (alert.group_id) {
+                await this.alertGroupRepo.scheduleFlush(alert.group_id);
+            }
+
             // Emit real-time update via WebSocket
             const io = req.app.get('io') as Server;
             io.to(`project-${alert.project_id}`).emit('alert:resolved', alert);
@@ -168,6 +219,106 @@ export class AlertController {
         }
     }
 
+    async getTimeline(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const alert = await this.alertRepo.findById(req.params.id as string);
+
+            if (!alert) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_NOT_FOUND',
+                        message: 'Alert not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            const events = await this.alertEventRepo.findByAlertId(alert.id);
+
+            res.json({
+                data: events,
+                meta: {
+                    count: events.length,
+                    status: alert.status,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getNotifications(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const alert = await this.alertRepo.findById(req.params.id as string);
+
+            if (!alert) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_NOT_FOUND',
+                        message: 'Alert not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            const notifications = await this.alertNotificationRepo.findByAlertId(alert.id, {
+                status: req.query.status as AlertNotificationStatus | undefined,
+                channel: req.query.channel as string | undefined,
+            });
+
+            const byStatus: Record<string, number> = {};
+            for (const notification of notifications) {
+                byStatus[notification.status] = (byStatus[notification.status] || 0) + 1;
+            }
+
+            res.json({
+                data: notifications,
+                meta: {
+                    count: notifications.length,
+                    byStatus,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async retryNotification(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const notification = await this.alertNotificationRepo.findById(req.params.notificationId as string);
+
+            if (!notification || !notification.alert_ids.includes(req.params.id as string)) {
+                res.status(404).json({
+                    error: {
+                        code: 'NOTIFICATION_NOT_FOUND',
+                        message: 'Notification not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            const requeued = await this.alertNotificationRepo.requeue(notification.id);
+
+            if (!requeued) {
+                res.status(409).json({
+                    error: {
+                        code: 'NOTIFICATION_NOT_RETRYABLE',
+                        message: `Only failed or dead-lettered notifications can be retried (status: ${notification.status})`,
+                        status: 409,
+                    },
+                });
+                return;
+            }
+
+            res.json({data: requeued});
+        } catch (error) {
+            next(error);
+        }
+    }
+
     async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const deleted = await this.alertRepo.delete(req.params.id);
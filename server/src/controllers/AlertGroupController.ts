@@ -0,0 +1,62 @@
+import {NextFunction, Request, Response} from 'express';
+import {AlertGroupRepository} from '../repositories/AlertGroupRepository';
+import {AlertRepository} from '../repositories/AlertRepository';
+import {AlertGroupStatus} from '../entities/AlertGroup';
+
+export class AlertGroupController {
+    private alertGroupRepo: AlertGroupRepository;
+    private alertRepo: AlertRepository;
+
+    constructor() {
+        this.alertGroupRepo = new AlertGroupRepository();
+        this.alertRepo = new AlertRepository();
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                projectId: req.query.projectId as string,
+                status: req.query.status as AlertGroupStatus | undefined,
+            };
+
+            const groups = await this.alertGroupRepo.findAll(filters);
+
+            res.json({
+                data: groups,
+                meta: {
+                    count: groups.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const group = await this.alertGroupRepo.findById(req.params.id as string);
+
+            if (!group) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_GROUP_NOT_FOUND',
+                        message: 'Alert group not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            const alerts = await this.alertRepo.findAll({groupId: group.id});
+
+            res.json({
+                data: {
+                    ...group,
+                    alerts,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
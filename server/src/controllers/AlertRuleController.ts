@@ -0,0 +1,266 @@
+import {NextFunction, Request, Response} from 'express';
+import {Server} from 'socket.io';
+import {AlertRuleRepository} from '../repositories/AlertRuleRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {AlertCondition, AlertRuleEntity, AlertSeverity} from '../entities/Alert';
+import {AlertExpressionParser, InvalidAlertExpressionError} from '../entities/AlertExpression';
+import {MetricQueryParser} from '../entities/MetricQueryLanguage';
+import {AuthRequest} from './AlertController';
+
+export class AlertRuleController {
+    private alertRuleRepo: AlertRuleRepository;
+    private projectRepo: ProjectRepository;
+
+    constructor() {
+        this.alertRuleRepo = new AlertRuleRepository();
+        this.projectRepo = new ProjectRepository();
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                projectId: req.query.projectId as string,
+                enabled: req.query.enabled !== undefined ? req.query.enabled === 'true' : undefined,
+                severity: req.query.severity as AlertSeverity | undefined,
+                metricType: req.query.metricType as string,
+            };
+
+            const rules = await this.alertRuleRepo.findAll(filters);
+
+            res.json({
+                data: rules,
+                meta: {
+                    count: rules.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const rule = await this.alertRuleRepo.findById(req.params.id as string);
+
+            if (!rule) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_RULE_NOT_FOUND',
+                        message: 'Alert rule not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.json({data: rule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const errors = new AlertRuleEntity({
+                project_id: req.body.projectId,
+                name: req.body.name,
+                condition: req.body.condition,
+                cooldown_minutes: req.body.cooldownMinutes,
+            }).validate();
+
+            if (errors.length === 0) {
+                errors.push(...await this.validateReferencedProjects(req.body.condition));
+            }
+
+            if (errors.length > 0) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_ALERT_RULE',
+                        message: 'Invalid alert rule',
+                        status: 400,
+                        details: errors,
+                    },
+                });
+                return;
+            }
+
+            const rule = await this.alertRuleRepo.create({
+                ...req.body,
+                condition: this.normalizeCondition(req.body.condition),
+                createdBy: req.user?.userId,
+            });
+
+            // Emit real-time update via WebSocket
+            const io = req.app.get('io') as Server;
+            io.to(`project-${rule.project_id}`).emit('alert-rule:created', rule);
+
+            res.status(201).json({data: rule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.alertRuleRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_RULE_NOT_FOUND',
+                        message: 'Alert rule not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            const errors = new AlertRuleEntity({
+                ...existing,
+                name: req.body.name ?? existing.name,
+                condition: req.body.condition ?? existing.condition,
+                cooldown_minutes: req.body.cooldownMinutes ?? existing.cooldown_minutes,
+            }).validate();
+
+            if (errors.length === 0 && req.body.condition) {
+                errors.push(...await this.validateReferencedProjects(req.body.condition));
+            }
+
+            if (errors.length > 0) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_ALERT_RULE',
+                        message: 'Invalid alert rule',
+                        status: 400,
+                        details: errors,
+                    },
+                });
+                return;
+            }
+
+            const rule = await this.alertRuleRepo.update({
+                ...req.body,
+                condition: req.body.condition ? this.normalizeCondition(req.body.condition) : undefined,
+                id: existing.id,
+            });
+
+            if (!rule) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_RULE_NOT_FOUND',
+                        message: 'Alert rule not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            // Emit real-time update via WebSocket
+            const io = req.app.get('io') as Server;
+            io.to(`project-${rule.project_id}`).emit('alert-rule:updated', rule);
+
+            res.json({data: rule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.alertRuleRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                res.status(404).json({
+                    error: {
+                        code: 'ALERT_RULE_NOT_FOUND',
+                        message: 'Alert rule not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Lets the rule builder check a composite expression before the rule is saved
+    async validateExpression(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            let expression;
+
+            try {
+                expression = AlertExpressionParser.parse(req.body.expression);
+            } catch (error) {
+                if (!(error instanceof InvalidAlertExpressionError)) {
+                    throw error;
+                }
+
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_ALERT_EXPRESSION',
+                        message: 'Invalid alert expression',
+                        status: 400,
+                        details: [error.message],
+                        position: error.position,
+                    },
+                });
+                return;
+            }
+
+            res.json({
+                data: {
+                    expression: AlertExpressionParser.format(expression),
+                    references: AlertExpressionParser.references(expression),
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Composite conditions are stored in canonical form. Composite and query conditions get
+    // metric_type set to the first metric they read so rules can still be listed by metric.
+    private normalizeCondition(condition: AlertCondition): AlertCondition {
+        if (condition.kind === 'query' && condition.query) {
+            const [first] = MetricQueryParser.selectors(MetricQueryParser.parse(condition.query));
+            return {...condition, metric_type: first?.selector.metric || condition.metric_type};
+        }
+
+        if (condition.kind !== 'composite' || !condition.expression) {
+            return condition;
+        }
+
+        const expression = AlertExpressionParser.parse(condition.expression);
+        const [first] = AlertExpressionParser.references(expression);
+
+        return {
+            ...condition,
+            metric_type: first.metric_type,
+            expression: AlertExpressionParser.format(expression),
+        };
+    }
+
+    private async validateReferencedProjects(condition: AlertCondition): Promise<string[]> {
+        if (condition.kind !== 'composite' || !condition.expression) {
+            return [];
+        }
+
+        const projectIds = new Set(
+            AlertExpressionParser.references(AlertExpressionParser.parse(condition.expression))
+                .map(reference => reference.project_id)
+                .filter((projectId): projectId is string => !!projectId)
+        );
+        const errors: string[] = [];
+
+        for (const projectId of projectIds) {
+            if (!await this.projectRepo.findById(projectId)) {
+                errors.push(`Expression references unknown project: ${projectId}`);
+            }
+        }
+
+        return errors;
+    }
+}
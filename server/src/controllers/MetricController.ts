@@ -1,17 +1,60 @@
 import {Request, Response, NextFunction} from 'express';
-import {MetricRepository} from '../repositories/MetricRepository';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {CreateMetricDTO, IMetricRepository, TagQuery} from '../repositories/interfaces/IMetricRepository';
 import {Server} from 'socket.io';
-import {MetricType} from '../entities/Metric';
+import {Metric, MetricType} from '../entities/Metric';
+import {MetricCatalogEntity} from '../entities/MetricCatalog';
+import {ForecastMethod} from '../entities/Forecast';
+import {AnomalyDirection} from '../entities/MetricBaseline';
+import {
+    GapFillPolicy,
+    MAX_TIME_SERIES_POINTS,
+    TimeSeriesGapFill,
+    TimeSeriesGroups,
+    TimeSeriesIntervals,
+    TimeSeriesLimitError,
+} from '../entities/TimeSeries';
+import {BaselineService} from '../services/BaselineService';
+import {ForecastService} from '../services/ForecastService';
+import {PrometheusIngestService} from '../services/PrometheusIngestService';
+import {MetricCatalogService} from '../services/MetricCatalogService';
+import {MetricRollupService} from '../services/MetricRollupService';
+import {parseDuration} from '../utils/duration';
+import {parseGroupBy, parseTagFilters, withoutGroup} from '../utils/metricTags';
+import {IngestRequest} from '../middleware/ingestAuth';
 
 export class MetricController {
-    private metricRepo: MetricRepository;
+    private metricRepo: IMetricRepository;
+    private baselineService: BaselineService;
+    private forecastService: ForecastService;
+    private prometheusIngestService: PrometheusIngestService;
+    private metricCatalogService: MetricCatalogService;
+    private metricRollupService: MetricRollupService;
 
     constructor() {
-        this.metricRepo = new MetricRepository();
+        this.metricRepo = createMetricRepository();
+        this.baselineService = new BaselineService();
+        this.forecastService = new ForecastService();
+        this.prometheusIngestService = new PrometheusIngestService();
+        this.metricCatalogService = new MetricCatalogService();
+        this.metricRollupService = new MetricRollupService();
     }
 
     async create(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
+            const errors = this.metricCatalogService.validateMetric(req.body);
+            if (errors.length > 0) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_METRIC',
+                        message: 'Invalid metric',
+                        status: 400,
+                        details: errors,
+                    },
+                });
+                return;
+            }
+
             const metric = await this.metricRepo.create(req.body);
 
             // Emit real-time update via WebSocket
@@ -26,6 +69,20 @@ export class MetricController {
 
     async createBatch(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
+            const errors = (req.body.metrics as CreateMetricDTO[]).flatMap((metric, index) =>
+                this.metricCatalogService.validateMetric(metric).map(error => `metrics[${index}]: ${error}`));
+            if (errors.length > 0) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_METRIC',
+                        message: 'Invalid metrics',
+                        status: 400,
+                        details: errors,
+                    },
+                });
+                return;
+            }
+
             const metrics = await this.metricRepo.createBatch(req.body.metrics);
 
             // Emit real-time updates via WebSocket
@@ -48,13 +105,59 @@ export class MetricController {
         }
     }
 
+    // Prometheus expects a 2xx once samples are stored; 4xx responses are dropped by the sender, 5xx retried
+    async remoteWrite(req: IngestRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (req.headers['content-encoding'] !== 'snappy') {
+                res.status(415).json({
+                    error: {
+                        code: 'UNSUPPORTED_ENCODING',
+                        message: 'Remote-write requests must be snappy-compressed',
+                        status: 415,
+                    },
+                });
+                return;
+            }
+
+            // The ingest token decides the project; ?project= is still accepted when it names the same one
+            const projectId = req.ingestProject!.id;
+            if (req.query.project) {
+                const named = await this.prometheusIngestService.resolveProject(req.query.project as string);
+                if (named !== projectId) {
+                    res.status(403).json({
+                        error: {
+                            code: 'PROJECT_MISMATCH',
+                            message: 'The ingest token belongs to another project',
+                            status: 403,
+                        },
+                    });
+                    return;
+                }
+            }
+
+            const result = await this.prometheusIngestService.remoteWrite(req.body as Buffer, projectId);
+
+            const io = req.app.get('io') as Server;
+            result.projectIds.forEach(id => {
+                io.to(`project-${id}`).emit('metrics:updated', {projectId: id, timestamp: new Date()});
+            });
+
+            res.status(204).send();
+        } catch (error) {
+            next(error); // Malformed requests carry a 400 status for the error handler
+        }
+    }
+
     async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
+            const tagQuery = this.tagQuery(req);
+
             const filters = {
                 projectId: req.query.projectId as string,
                 type: req.query.type as MetricType,
                 startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
                 endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+                tags: tagQuery.tags,
             };
 
             const limit = parseInt(req.query.limit as string) || 100;
@@ -75,15 +178,17 @@ export class MetricController {
     async getAggregated(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const {projectId, type, startDate, endDate} = req.query;
+            const tagQuery = this.tagQuery(req);
 
-            const aggregation = await this.metricRepo.aggregate(
+            const groups = await this.metricRepo.aggregateGroups(
                 projectId as string,
                 type as MetricType,
                 new Date(startDate as string),
-                new Date(endDate as string)
+                new Date(endDate as string),
+                tagQuery
             );
 
-            if (!aggregation) {
+            if (groups.length === 0) {
                 res.status(404).json({
                     error: {
                         code: 'NO_METRICS_FOUND',
@@ -94,7 +199,13 @@ export class MetricController {
                 return;
             }
 
-            res.json({data: aggregation});
+            // Grouped requests get one aggregation per group
+            if (tagQuery.groupBy.length > 0) {
+                res.json({data: groups, meta: {count: groups.length, groupBy: tagQuery.groupBy}});
+                return;
+            }
+
+            res.json({data: withoutGroup(groups[0])});
         } catch (error) {
             next(error);
         }
@@ -102,21 +213,168 @@ export class MetricController {
 
     async getTimeSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const {projectId, type, startDate, endDate, interval} = req.query;
+            const projectId = req.query.projectId as string;
+            const type = req.query.type as MetricType;
+            const startDate = new Date(req.query.startDate as string);
+            const endDate = new Date(req.query.endDate as string);
+            const interval = (req.query.interval as string) || 'hour';
+            const fill = (req.query.fill as GapFillPolicy) || 'null';
+            const tagQuery = this.tagQuery(req);
 
-            const timeSeries = await this.metricRepo.getTimeSeries(
-                projectId as string,
-                type as MetricType,
-                new Date(startDate as string),
-                new Date(endDate as string),
-                interval as string
+            const spec = TimeSeriesIntervals.parse(interval);
+            const pointCount = spec ? TimeSeriesIntervals.pointCount(spec, startDate, endDate) : 0;
+            if (pointCount > MAX_TIME_SERIES_POINTS) {
+                throw new TimeSeriesLimitError(pointCount);
+            }
+
+            const timeSeries = await this.metricRollupService.getTimeSeries(
+                projectId,
+                type,
+                startDate,
+                endDate,
+                interval,
+                new Date(),
+                tagQuery
             );
+            const fillGaps = (points: Metric[]) =>
+                TimeSeriesGapFill.fill(points, projectId, type, startDate, endDate, timeSeries.interval, fill);
+            const meta = {interval: timeSeries.interval.name, fill, source: timeSeries.source};
+
+            // Grouped requests get one series per group
+            const groupBy = tagQuery.groupBy;
+            if (groupBy.length > 0) {
+                const groups = TimeSeriesGroups.split(timeSeries.points, groupBy);
+                if (groups.length * pointCount > MAX_TIME_SERIES_POINTS) {
+                    throw new TimeSeriesLimitError(groups.length * pointCount);
+                }
+
+                res.json({
+                    data: groups.map(({group, points}) => ({group, points: fillGaps(points)})),
+                    meta: {count: groups.length, groupBy, ...meta},
+                });
+                return;
+            }
+
+            const points = fillGaps(timeSeries.points);
+            res.json({data: points, meta: {count: points.length, ...meta}});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getAnomalies(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+            const startDate = req.query.startDate
+                ? new Date(req.query.startDate as string)
+                : new Date(endDate.getTime() - 24 * 60 * 60 * 1000);
+            const minSigma = req.query.minSigma ? parseFloat(req.query.minSigma as string) : 3;
+            const tagQuery = this.tagQuery(req);
+
+            const anomalies = await this.baselineService.findAnomalies({
+                projectId: req.query.projectId as string,
+                type: req.query.type as MetricType,
+                startDate,
+                endDate,
+                minSigma,
+                direction: req.query.direction as AnomalyDirection | undefined,
+                tags: tagQuery.tags,
+            });
+
+            res.json({
+                data: anomalies,
+                meta: {
+                    count: anomalies.length,
+                    startDate,
+                    endDate,
+                    minSigma,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getBaselines(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const baselines = await this.baselineService.getBaselines({
+                projectId: req.query.projectId as string,
+                metricType: req.query.type as string,
+            });
+
+            res.json({
+                data: baselines,
+                meta: {
+                    count: baselines.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getForecast(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const horizonSeconds = parseDuration((req.query.horizon as string) || '24h') as number;
+            const historySeconds = parseDuration((req.query.history as string) || '7d') as number;
+            const tagQuery = this.tagQuery(req);
+
+            const forecast = await this.forecastService.forecast({
+                projectId: req.query.projectId as string,
+                type: req.query.type as MetricType,
+                horizonSeconds,
+                historySeconds,
+                method: (req.query.method as ForecastMethod) || 'linear',
+                tags: tagQuery.tags,
+            });
 
             res.json({
-                data: timeSeries,
+                data: {
+                    actual: forecast.actual,
+                    predictions: forecast.predictions,
+                },
                 meta: {
-                    count: timeSeries.length,
-                    interval: interval || '1 hour',
+                    method: forecast.method,
+                    horizonSeconds,
+                    historySeconds,
+                    count: forecast.predictions.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Projects when the metric's trend reaches the limit, e.g. days until disk_usage hits 100%
+    async getCapacity(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const limit = req.query.limit !== undefined ? parseFloat(req.query.limit as string) : 100;
+            const historySeconds = parseDuration((req.query.history as string) || '7d') as number;
+            const tagQuery = this.tagQuery(req);
+
+            const projection = await this.forecastService.projectToLimit({
+                projectId: req.query.projectId as string,
+                type: req.query.type as MetricType,
+                limit,
+                historySeconds,
+                tags: tagQuery.tags,
+            });
+
+            if (!projection) {
+                res.status(404).json({
+                    error: {
+                        code: 'NO_METRICS_FOUND',
+                        message: 'Not enough metrics to project a trend',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.json({
+                data: {
+                    ...projection,
+                    daysUntilLimit: projection.secondsUntilLimit !== null ? projection.secondsUntilLimit / 86400 : null,
                 },
             });
         } catch (error) {
@@ -140,4 +398,80 @@ export class MetricController {
             next(error);
         }
     }
-}
\ No newline at end of file
+
+    async getCatalog(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const definitions = this.metricCatalogService.list();
+
+            res.json({
+                data: definitions,
+                meta: {
+                    count: definitions.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getCatalogEntry(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const definition = this.metricCatalogService.get(req.params.name as string);
+
+            if (!definition) {
+                res.status(404).json({
+                    error: {
+                        code: 'METRIC_NOT_FOUND',
+                        message: 'Metric not found in the catalog',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.json({data: definition});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Registers a metric name, or replaces the definition of one that exists
+    async registerCatalogEntry(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const definition = new MetricCatalogEntity({
+                name: req.params.name as string,
+                kind: req.body.kind,
+                unit: req.body.unit,
+                description: req.body.description,
+                min_value: req.body.minValue,
+                max_value: req.body.maxValue,
+            });
+
+            const errors = definition.validate();
+            if (errors.length > 0) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_METRIC_DEFINITION',
+                        message: 'Invalid metric definition',
+                        status: 400,
+                        details: errors,
+                    },
+                });
+                return;
+            }
+
+            const [stored] = await this.metricCatalogService.register([{...definition}]);
+            res.json({data: stored});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // tags[key]=value filters and groupBy=tags.key from the query string, checked by the routes
+    private tagQuery(req: Request): Required<TagQuery> {
+        return {
+            tags: parseTagFilters(req.query.tags) || {},
+            groupBy: parseGroupBy(req.query.groupBy) || [],
+        };
+    }
+}
@@ -0,0 +1,47 @@
+import {NextFunction, Request, Response} from 'express';
+import {Server} from 'socket.io';
+import {timingSafeEqual} from 'crypto';
+import {MetricsExportService} from '../services/MetricsExportService';
+import {EXPOSITION_CONTENT_TYPE} from '../entities/PrometheusExposition';
+
+export class MetricsExportController {
+    private metricsExportService: MetricsExportService;
+
+    constructor() {
+        this.metricsExportService = new MetricsExportService();
+    }
+
+    async export(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            if (!this.authorized(req)) {
+                res.status(401).json({
+                    error: {
+                        code: 'UNAUTHORIZED',
+                        message: 'A valid bearer token is required to scrape metrics',
+                        status: 401,
+                    },
+                });
+                return;
+            }
+
+            const io = req.app.get('io') as Server | undefined;
+            const body = await this.metricsExportService.render(io);
+
+            res.set('Content-Type', EXPOSITION_CONTENT_TYPE).send(body);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Scraping is open unless METRICS_EXPORT_TOKEN is set, in which case Prometheus must send it as a bearer token
+    private authorized(req: Request): boolean {
+        const token = process.env.METRICS_EXPORT_TOKEN;
+        if (!token) {
+            return true;
+        }
+
+        const expected = Buffer.from(`Bearer ${token}`);
+        const actual = Buffer.from(req.headers.authorization || '');
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+}
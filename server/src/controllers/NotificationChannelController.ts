@@ -0,0 +1,259 @@
+import {NextFunction, Request, Response} from 'express';
+import {NotificationChannelRepository} from '../repositories/NotificationChannelRepository';
+import {Alert} from '../entities/Alert';
+import {ProjectNotificationChannel} from '../entities/NotificationChannel';
+import {NotificationChannelService} from '../services/NotificationChannelService';
+import {ChannelConfig, ChannelMessage} from '../services/channels/NotificationChannel';
+
+const SECRET_MASK = '********';
+
+export class NotificationChannelController {
+    private notificationChannelRepo: NotificationChannelRepository;
+    private notificationChannelService: NotificationChannelService;
+
+    constructor() {
+        this.notificationChannelRepo = new NotificationChannelRepository();
+        this.notificationChannelService = new NotificationChannelService();
+    }
+
+    async getTypes(_req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const types = this.notificationChannelService.getRegistry().list().map(channel => ({
+                type: channel.type,
+                name: channel.displayName,
+                secretFields: channel.secretFields,
+            }));
+
+            res.json({data: types});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                projectId: req.query.projectId as string,
+                type: req.query.type as string,
+            };
+
+            const channels = await this.notificationChannelRepo.findAll(filters);
+
+            res.json({
+                data: channels.map(channel => this.present(channel)),
+                meta: {
+                    count: channels.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const channel = await this.notificationChannelRepo.findById(req.params.id as string);
+
+            if (!channel) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: this.present(channel)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const config: ChannelConfig = req.body.config || {};
+            const errors = this.validate(req.body.type, config);
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const channel = await this.notificationChannelRepo.create({
+                projectId: req.body.projectId,
+                name: req.body.name,
+                type: req.body.type,
+                config,
+                enabled: req.body.enabled,
+            });
+
+            res.status(201).json({data: this.present(channel)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.notificationChannelRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                this.notFound(res);
+                return;
+            }
+
+            const type = req.body.type ?? existing.type;
+            const config = req.body.config !== undefined
+                ? this.mergeConfig(type === existing.type ? existing.config : {}, req.body.config)
+                : existing.config;
+            const errors = this.validate(type, config);
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const channel = await this.notificationChannelRepo.update({
+                id: existing.id,
+                name: req.body.name,
+                type,
+                config,
+                enabled: req.body.enabled,
+            });
+
+            if (!channel) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: this.present(channel)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.notificationChannelRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                this.notFound(res);
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Sends a sample alert straight through the adapter, bypassing the outbox
+    async test(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const channel = await this.notificationChannelRepo.findById(req.params.id as string);
+
+            if (!channel) {
+                this.notFound(res);
+                return;
+            }
+
+            try {
+                await this.notificationChannelService.send(channel, this.testMessage(channel));
+            } catch (error) {
+                res.status(502).json({
+                    error: {
+                        code: 'CHANNEL_TEST_FAILED',
+                        message: error instanceof Error ? error.message : 'Unknown error',
+                        status: 502,
+                    },
+                });
+                return;
+            }
+
+            res.json({data: {success: true}});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private validate(type: string, config: ChannelConfig): string[] {
+        const adapter = this.notificationChannelService.getRegistry().get(type);
+
+        if (!adapter) {
+            return [`Unknown channel type: ${type}`];
+        }
+
+        return adapter.validateConfig(config);
+    }
+
+    // Masked secrets sent back unchanged keep their stored value
+    private mergeConfig(existing: ChannelConfig, submitted: ChannelConfig): ChannelConfig {
+        const config: ChannelConfig = {...submitted};
+
+        for (const [field, value] of Object.entries(submitted)) {
+            if (value === SECRET_MASK && existing[field] !== undefined) {
+                config[field] = existing[field];
+            }
+        }
+
+        return config;
+    }
+
+    private present(channel: ProjectNotificationChannel) {
+        const adapter = this.notificationChannelService.getRegistry().get(channel.type);
+        const config: ChannelConfig = {...channel.config};
+
+        for (const field of adapter?.secretFields || []) {
+            if (config[field]) {
+                config[field] = SECRET_MASK;
+            }
+        }
+
+        return {...channel, config};
+    }
+
+    private testMessage(channel: ProjectNotificationChannel): ChannelMessage {
+        const alert: Alert = {
+            id: `test-${channel.id}`,
+            project_id: channel.project_id,
+            type: 'threshold_breach',
+            title: 'Test Alert',
+            description: `Test notification for channel ${channel.name}`,
+            severity: 'info',
+            status: 'firing',
+            metric_type: 'cpu_usage',
+            metric_value: 85,
+            threshold_value: 80,
+            triggered_at: new Date(),
+            notification_sent: false,
+            notification_channels: [channel.id],
+        };
+
+        return {
+            kind: 'alert',
+            context: {
+                alert,
+                currentValue: 85,
+                threshold: 80,
+                timestamp: new Date(),
+            },
+        };
+    }
+
+    private notFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'NOTIFICATION_CHANNEL_NOT_FOUND',
+                message: 'Notification channel not found',
+                status: 404,
+            },
+        });
+    }
+
+    private invalid(res: Response, details: string[]): void {
+        res.status(400).json({
+            error: {
+                code: 'INVALID_NOTIFICATION_CHANNEL',
+                message: 'Invalid notification channel',
+                status: 400,
+                details,
+            },
+        });
+    }
+}
@@ -0,0 +1,218 @@
+import {NextFunction, Request, Response} from 'express';
+import {AlertRepository} from '../repositories/AlertRepository';
+import {NotificationTemplateRepository} from '../repositories/NotificationTemplateRepository';
+import {NotificationTemplateEvent} from '../entities/NotificationTemplate';
+import {NotificationOutboxService} from '../services/NotificationOutboxService';
+import {NotificationTemplateRenderer} from '../services/NotificationTemplateRenderer';
+import {NotificationChannelRegistry} from '../services/channels/NotificationChannelRegistry';
+import {ChannelMessage} from '../services/channels/NotificationChannel';
+
+export class NotificationTemplateController {
+    private alertRepo: AlertRepository;
+    private notificationTemplateRepo: NotificationTemplateRepository;
+    private notificationOutbox: NotificationOutboxService;
+    private registry: NotificationChannelRegistry;
+
+    constructor() {
+        this.alertRepo = new AlertRepository();
+        this.notificationTemplateRepo = new NotificationTemplateRepository();
+        this.notificationOutbox = new NotificationOutboxService();
+        this.registry = NotificationChannelRegistry.withDefaults();
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                projectId: req.query.projectId as string,
+                channel: req.query.channel as string,
+                event: req.query.event as NotificationTemplateEvent | undefined,
+            };
+
+            const templates = await this.notificationTemplateRepo.findAll(filters);
+
+            res.json({
+                data: templates,
+                meta: {
+                    count: templates.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const template = await this.notificationTemplateRepo.findById(req.params.id as string);
+
+            if (!template) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: template});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const errors = this.validate(req.body.channel, req.body.subject, req.body.body);
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const template = await this.notificationTemplateRepo.create({
+                projectId: req.body.projectId,
+                channel: req.body.channel,
+                event: req.body.event,
+                subject: req.body.subject,
+                body: req.body.body,
+            });
+
+            res.status(201).json({data: template});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.notificationTemplateRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                this.notFound(res);
+                return;
+            }
+
+            const subject = req.body.subject !== undefined ? req.body.subject : existing.subject;
+            const body = req.body.body ?? existing.body;
+            const errors = this.validate(existing.channel, subject, body);
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const template = await this.notificationTemplateRepo.update({
+                id: existing.id,
+                subject: subject ?? null,
+                body,
+            });
+
+            if (!template) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: template});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.notificationTemplateRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                this.notFound(res);
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // Renders a stored template, or one submitted in the body, against a real alert or the sample alert
+    async preview(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const stored = req.body.templateId
+                ? await this.notificationTemplateRepo.findById(req.body.templateId)
+                : null;
+
+            if (req.body.templateId && !stored) {
+                this.notFound(res);
+                return;
+            }
+
+            const template = {
+                channel: stored?.channel ?? req.body.channel,
+                event: (stored?.event ?? req.body.event) as NotificationTemplateEvent,
+                subject: req.body.subject ?? stored?.subject,
+                body: req.body.body ?? stored?.body,
+            };
+
+            const errors = this.validate(template.channel, template.subject, template.body);
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            let message: ChannelMessage = NotificationTemplateRenderer.sampleMessage();
+
+            if (req.body.alertId) {
+                const alert = await this.alertRepo.findById(req.body.alertId);
+
+                if (!alert) {
+                    res.status(404).json({
+                        error: {
+                            code: 'ALERT_NOT_FOUND',
+                            message: 'Alert not found',
+                            status: 404,
+                        },
+                    });
+                    return;
+                }
+
+                message = {kind: 'alert', context: await this.notificationOutbox.alertContext(alert)};
+            }
+
+            const variables = NotificationTemplateRenderer.variablesFor(message, template.event);
+
+            res.json({
+                data: {
+                    ...NotificationTemplateRenderer.render(template, variables),
+                    variables,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private validate(channel: string, subject: string | undefined, body: string): string[] {
+        if (!this.registry.has(channel)) {
+            return [`Unknown channel type: ${channel}`];
+        }
+
+        return NotificationTemplateRenderer.validate({channel, subject, body});
+    }
+
+    private notFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'NOTIFICATION_TEMPLATE_NOT_FOUND',
+                message: 'Notification template not found',
+                status: 404,
+            },
+        });
+    }
+
+    private invalid(res: Response, details: string[]): void {
+        res.status(400).json({
+            error: {
+                code: 'INVALID_NOTIFICATION_TEMPLATE',
+                message: 'Invalid notification template',
+                status: 400,
+                details,
+            },
+        });
+    }
+}
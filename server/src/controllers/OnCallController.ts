@@ -0,0 +1,360 @@
+import {NextFunction, Request, Response} from 'express';
+import {OnCallScheduleRepository} from '../repositories/OnCallScheduleRepository';
+import {OnCallOverrideRepository} from '../repositories/OnCallOverrideRepository';
+import {EscalationPolicyRepository} from '../repositories/EscalationPolicyRepository';
+import {EscalationPolicyEntity, OnCallScheduleEntity} from '../entities/OnCall';
+import {OnCallService} from '../services/OnCallService';
+import {AuthRequest} from './AlertController';
+
+export class OnCallController {
+    private scheduleRepo: OnCallScheduleRepository;
+    private overrideRepo: OnCallOverrideRepository;
+    private escalationPolicyRepo: EscalationPolicyRepository;
+    private onCallService: OnCallService;
+
+    constructor() {
+        this.scheduleRepo = new OnCallScheduleRepository();
+        this.overrideRepo = new OnCallOverrideRepository();
+        this.escalationPolicyRepo = new EscalationPolicyRepository();
+        this.onCallService = new OnCallService();
+    }
+
+    async getCurrent(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const at = req.query.at ? new Date(req.query.at as string) : new Date();
+            const assignments = await this.onCallService.whoIsOnCallForProject(req.query.projectId as string, at);
+
+            res.json({
+                data: assignments,
+                meta: {
+                    count: assignments.length,
+                    at,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const schedules = await this.scheduleRepo.findAll({projectId: req.query.projectId as string});
+
+            res.json({
+                data: schedules,
+                meta: {
+                    count: schedules.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const schedule = await this.scheduleRepo.findById(req.params.id as string);
+
+            if (!schedule) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            res.json({data: schedule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getScheduleCurrent(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const schedule = await this.scheduleRepo.findById(req.params.id as string);
+
+            if (!schedule) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            const at = req.query.at ? new Date(req.query.at as string) : new Date();
+            res.json({data: await this.onCallService.whoIsOnCall(schedule, at)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const errors = new OnCallScheduleEntity({
+                project_id: req.body.projectId,
+                name: req.body.name,
+                timezone: req.body.timezone,
+                rotations: req.body.rotations,
+            }).validate();
+
+            if (errors.length > 0) {
+                this.invalid(res, 'INVALID_ONCALL_SCHEDULE', 'Invalid on-call schedule', errors);
+                return;
+            }
+
+            const schedule = await this.scheduleRepo.create(req.body);
+            res.status(201).json({data: schedule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updateSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.scheduleRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            const errors = new OnCallScheduleEntity({
+                ...existing,
+                name: req.body.name ?? existing.name,
+                timezone: req.body.timezone ?? existing.timezone,
+                rotations: req.body.rotations ?? existing.rotations,
+            }).validate();
+
+            if (errors.length > 0) {
+                this.invalid(res, 'INVALID_ONCALL_SCHEDULE', 'Invalid on-call schedule', errors);
+                return;
+            }
+
+            const schedule = await this.scheduleRepo.update({
+                ...req.body,
+                id: existing.id,
+            });
+
+            res.json({data: schedule});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deleteSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.scheduleRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getOverrides(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const schedule = await this.scheduleRepo.findById(req.params.id as string);
+
+            if (!schedule) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            // Past overrides are only returned when asked for
+            const from = req.query.includePast === 'true' ? undefined : new Date();
+            const overrides = await this.overrideRepo.findBySchedule(schedule.id, from);
+
+            res.json({
+                data: overrides,
+                meta: {
+                    count: overrides.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createOverride(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const schedule = await this.scheduleRepo.findById(req.params.id as string);
+
+            if (!schedule) {
+                this.scheduleNotFound(res);
+                return;
+            }
+
+            const startsAt = new Date(req.body.startsAt);
+            const endsAt = new Date(req.body.endsAt);
+
+            if (endsAt <= startsAt) {
+                this.invalid(res, 'INVALID_ONCALL_OVERRIDE', 'Invalid on-call override', [
+                    'Override end must be after its start',
+                ]);
+                return;
+            }
+
+            const override = await this.overrideRepo.create({
+                scheduleId: schedule.id,
+                userId: req.body.userId,
+                startsAt,
+                endsAt,
+                reason: req.body.reason,
+                createdBy: req.user?.userId,
+            });
+
+            res.status(201).json({data: override});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deleteOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.overrideRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                res.status(404).json({
+                    error: {
+                        code: 'ONCALL_OVERRIDE_NOT_FOUND',
+                        message: 'On-call override not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getPolicies(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const policies = await this.escalationPolicyRepo.findAll({projectId: req.query.projectId as string});
+
+            res.json({
+                data: policies,
+                meta: {
+                    count: policies.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const policy = await this.escalationPolicyRepo.findById(req.params.id as string);
+
+            if (!policy) {
+                this.policyNotFound(res);
+                return;
+            }
+
+            res.json({data: policy});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async createPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const errors = new EscalationPolicyEntity({
+                project_id: req.body.projectId,
+                name: req.body.name,
+                steps: req.body.steps,
+                repeat_count: req.body.repeatCount,
+            }).validate();
+
+            if (errors.length > 0) {
+                this.invalid(res, 'INVALID_ESCALATION_POLICY', 'Invalid escalation policy', errors);
+                return;
+            }
+
+            const policy = await this.escalationPolicyRepo.create(req.body);
+            res.status(201).json({data: policy});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async updatePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.escalationPolicyRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                this.policyNotFound(res);
+                return;
+            }
+
+            const errors = new EscalationPolicyEntity({
+                ...existing,
+                name: req.body.name ?? existing.name,
+                steps: req.body.steps ?? existing.steps,
+                repeat_count: req.body.repeatCount ?? existing.repeat_count,
+            }).validate();
+
+            if (errors.length > 0) {
+                this.invalid(res, 'INVALID_ESCALATION_POLICY', 'Invalid escalation policy', errors);
+                return;
+            }
+
+            const policy = await this.escalationPolicyRepo.update({
+                ...req.body,
+                id: existing.id,
+            });
+
+            res.json({data: policy});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async deletePolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.escalationPolicyRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                this.policyNotFound(res);
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private scheduleNotFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'ONCALL_SCHEDULE_NOT_FOUND',
+                message: 'On-call schedule not found',
+                status: 404,
+            },
+        });
+    }
+
+    private policyNotFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'ESCALATION_POLICY_NOT_FOUND',
+                message: 'Escalation policy not found',
+                status: 404,
+            },
+        });
+    }
+
+    private invalid(res: Response, code: string, message: string, details: string[]): void {
+        res.status(400).json({
+            error: {
+                code,
+                message,
+                status: 400,
+                details,
+            },
+        });
+    }
+}
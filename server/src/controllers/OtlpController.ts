@@ -0,0 +1,50 @@
+import {NextFunction, Response} from 'express';
+import {Server} from 'socket.io';
+import {OtlpDecoder, OtlpResourceMetrics, OtlpResponse} from '../entities/Otlp';
+import {OtlpIngestService} from '../services/OtlpIngestService';
+import {IngestRequest} from '../middleware/ingestAuth';
+
+export class OtlpController {
+    private otlpIngestService: OtlpIngestService;
+
+    constructor() {
+        this.otlpIngestService = new OtlpIngestService();
+    }
+
+    // Replies in the encoding of the request, as OTLP/HTTP requires; rejected points are reported as a partial success
+    async exportMetrics(req: IngestRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const protobuf = req.is('application/x-protobuf') === 'application/x-protobuf';
+
+            if (!protobuf && !req.is('application/json')) {
+                res.status(415).json({
+                    error: {
+                        code: 'UNSUPPORTED_MEDIA_TYPE',
+                        message: 'OTLP requests must be application/json or application/x-protobuf',
+                        status: 415,
+                    },
+                });
+                return;
+            }
+
+            const resources: OtlpResourceMetrics[] = protobuf
+                ? OtlpDecoder.fromProtobuf(req.body as Buffer)
+                : OtlpDecoder.fromJson(req.body);
+            const result = await this.otlpIngestService.ingest(resources, req.ingestProject!);
+
+            const io = req.app.get('io') as Server;
+            result.projectIds.forEach(projectId => {
+                io.to(`project-${projectId}`).emit('metrics:updated', {projectId, timestamp: new Date()});
+            });
+
+            const message = result.errors.join('; ');
+            if (protobuf) {
+                res.status(200).type('application/x-protobuf').send(OtlpResponse.protobuf(result.rejected, message));
+            } else {
+                res.status(200).json(OtlpResponse.json(result.rejected, message));
+            }
+        } catch (error) {
+            next(error); // Malformed payloads carry a 400 status for the error handler
+        }
+    }
+}
@@ -1,19 +1,24 @@
 import {NextFunction, Request, Response} from 'express';
 import {ProjectRepository} from '../repositories/ProjectRepository';
-import {MetricRepository} from '../repositories/MetricRepository';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
 import {AlertRepository} from '../repositories/AlertRepository';
 import {Server} from 'socket.io';
 import {MetricType} from '../entities/Metric';
 import {AlertStatus} from '../entities/Alert';
+import {IngestTokens} from '../entities/IngestToken';
+import {Project, ScrapeTarget} from '../entities/Project';
+
+const SECRET_MASK = '********';
 
 export class ProjectController {
     private projectRepo: ProjectRepository;
-    private metricRepo: MetricRepository;
+    private metricRepo: IMetricRepository;
     private alertRepo: AlertRepository;
 
     constructor() {
         this.projectRepo = new ProjectRepository();
-        this.metricRepo = new MetricRepository();
+        this.metricRepo = createMetricRepository();
         this.alertRepo = new AlertRepository();
     }
 
@@ -28,7 +33,7 @@ export class ProjectController {
             const count = await this.projectRepo.count(filters);
 
             res.json({
-                data: projects,
+                data: projects.map(project => this.present(project)),
                 meta: {
                     total: count,
                     count: projects.length,
@@ -54,7 +59,7 @@ export class ProjectController {
                 return;
             }
 
-            res.json({data: project});
+            res.json({data: this.present(project)});
         } catch (error) {
             next(error);
         }
@@ -62,7 +67,7 @@ export class ProjectController {
 
     async create(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const project = await this.projectRepo.create(req.body);
+            const project = this.present(await this.projectRepo.create(req.body));
 
             // Emit event via WebSocket
             const io = req.app.get('io') as Server;
@@ -76,10 +81,21 @@ export class ProjectController {
 
     async update(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
-            const project = await this.projectRepo.update({
+            const changes = {...req.body};
+
+            if (changes.settings?.scrape_targets) {
+                const existing = await this.projectRepo.findById(req.params.id as string);
+                changes.settings = {
+                    ...changes.settings,
+                    scrape_targets: this.mergeScrapeTargets(existing?.settings?.scrape_targets || [], changes.settings.scrape_targets),
+                };
+            }
+
+            const updated = await this.projectRepo.update({
                 id: req.params.id,
-                ...req.body,
+                ...changes,
             });
+            const project = updated && this.present(updated);
 
             if (!project) {
                 res.status(404).json({
@@ -127,6 +143,30 @@ export class ProjectController {
         }
     }
 
+    // The token is only returned here; issuing a new one revokes the previous one
+    async issueIngestToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const projectId = req.params.id as string;
+            const token = IngestTokens.generate();
+            const updated = await this.projectRepo.setIngestTokenHash(projectId, IngestTokens.hash(token));
+
+            if (!updated) {
+                res.status(404).json({
+                    error: {
+                        code: 'PROJECT_NOT_FOUND',
+                        message: 'Project not found',
+                        status: 404,
+                    },
+                });
+                return;
+            }
+
+            res.status(201).json({data: {projectId, token}});
+        } catch (error) {
+            next(error);
+        }
+    }
+
     async getMetrics(req: Request, res: Response, next: NextFunction): Promise<void> {
         try {
             const filters = {
@@ -168,4 +208,25 @@ export class ProjectController {
             next(error);
         }
     }
+
+    // A masked bearer token sent back unchanged keeps the token stored for the same URL
+    private mergeScrapeTargets(existing: ScrapeTarget[], submitted: ScrapeTarget[]): ScrapeTarget[] {
+        return submitted.map(target => {
+            if (target.bearer_token !== SECRET_MASK) {
+                return target;
+            }
+            return {...target, bearer_token: existing.find(stored => stored.url === target.url)?.bearer_token};
+        });
+    }
+
+    private present(project: Project): Project {
+        if (!project.settings?.scrape_targets) {
+            return project;
+        }
+
+        const scrapeTargets = project.settings.scrape_targets.map(target =>
+            target.bearer_token ? {...target, bearer_token: SECRET_MASK} : target);
+
+        return {...project, settings: {...project.settings, scrape_targets: scrapeTargets}};
+    }
 }
\ No newline at end of file
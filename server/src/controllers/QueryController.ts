@@ -0,0 +1,98 @@
+import {NextFunction, Request, Response} from 'express';
+import {InvalidMetricQueryError, QueryResult} from '../entities/MetricQueryLanguage';
+import {MetricQueryService} from '../services/MetricQueryService';
+import {parseDuration} from '../utils/duration';
+
+export class QueryController {
+    private metricQueryService: MetricQueryService;
+
+    constructor() {
+        this.metricQueryService = new MetricQueryService();
+    }
+
+    // Evaluates the query at a single point in time, defaulting to now
+    async instant(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const query = req.query.query as string;
+            const time = req.query.time ? new Date(req.query.time as string) : new Date();
+            const result = await this.metricQueryService.instant(query, time);
+
+            res.json({
+                data: this.present(result),
+                meta: {
+                    query,
+                    time,
+                },
+            });
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    }
+
+    async range(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const query = req.query.query as string;
+            const start = new Date(req.query.start as string);
+            const end = new Date(req.query.end as string);
+            const step = this.stepSeconds(req.query.step as string);
+
+            if (end < start) {
+                res.status(400).json({
+                    error: {
+                        code: 'INVALID_QUERY_RANGE',
+                        message: 'end must not be before start',
+                        status: 400,
+                    },
+                });
+                return;
+            }
+
+            const result = await this.metricQueryService.range(query, {start, end, step_seconds: step});
+
+            res.json({
+                data: this.present(result),
+                meta: {
+                    query,
+                    start,
+                    end,
+                    step,
+                },
+            });
+        } catch (error) {
+            this.handleError(error, res, next);
+        }
+    }
+
+    // Instant results carry one point per series; range results carry every step
+    private present(result: QueryResult) {
+        if (result.type === 'scalar') {
+            return {resultType: 'scalar', result: result.points};
+        }
+
+        return {
+            resultType: 'vector',
+            result: result.series.map(series => ({metric: series.labels, values: series.points})),
+        };
+    }
+
+    // Accepts a duration such as 30s or 5m, or a number of seconds
+    private stepSeconds(step: string): number {
+        return parseDuration(step) ?? parseFloat(step);
+    }
+
+    private handleError(error: unknown, res: Response, next: NextFunction): void {
+        if (error instanceof InvalidMetricQueryError) {
+            res.status(400).json({
+                error: {
+                    code: error.code,
+                    message: error.message,
+                    status: 400,
+                    position: error.position,
+                },
+            });
+            return;
+        }
+
+        next(error);
+    }
+}
@@ -0,0 +1,233 @@
+import {NextFunction, Request, Response} from 'express';
+import {Server} from 'socket.io';
+import {SilenceRepository} from '../repositories/SilenceRepository';
+import {
+    InvalidSilenceMatcherError,
+    Silence,
+    SilenceEntity,
+    SilenceMatcher,
+    SilenceMatcherParser,
+    SilenceState,
+} from '../entities/Silence';
+import {AuthRequest} from './AlertController';
+
+export class SilenceController {
+    private silenceRepo: SilenceRepository;
+
+    constructor() {
+        this.silenceRepo = new SilenceRepository();
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                projectId: req.query.projectId as string,
+                state: req.query.state as SilenceState | undefined,
+            };
+
+            const silences = await this.silenceRepo.findAll(filters);
+
+            res.json({
+                data: silences.map(silence => this.present(silence)),
+                meta: {
+                    count: silences.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const silence = await this.silenceRepo.findById(req.params.id as string);
+
+            if (!silence) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: this.present(silence)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const {matchers, errors} = this.parseMatchers(req.body.matchers);
+            const candidate = new SilenceEntity({
+                project_id: req.body.projectId,
+                matchers,
+                starts_at: req.body.startsAt ? new Date(req.body.startsAt) : new Date(),
+                ends_at: new Date(req.body.endsAt),
+                recurrence: req.body.recurrence,
+                comment: req.body.comment,
+            });
+
+            errors.push(...candidate.validate());
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const silence = await this.silenceRepo.create({
+                projectId: candidate.project_id,
+                matchers: candidate.matchers,
+                startsAt: candidate.starts_at,
+                endsAt: candidate.ends_at,
+                recurrence: candidate.recurrence,
+                comment: candidate.comment,
+                createdBy: req.user?.userId,
+            });
+
+            this.emit(req, 'silence:created', silence);
+
+            res.status(201).json({data: this.present(silence)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const existing = await this.silenceRepo.findById(req.params.id as string);
+
+            if (!existing) {
+                this.notFound(res);
+                return;
+            }
+
+            const parsed = req.body.matchers !== undefined
+                ? this.parseMatchers(req.body.matchers)
+                : {matchers: existing.matchers, errors: [] as string[]};
+            const candidate = new SilenceEntity({
+                ...existing,
+                matchers: parsed.matchers,
+                starts_at: req.body.startsAt ? new Date(req.body.startsAt) : existing.starts_at,
+                ends_at: req.body.endsAt ? new Date(req.body.endsAt) : existing.ends_at,
+                recurrence: req.body.recurrence !== undefined ? req.body.recurrence || undefined : existing.recurrence,
+                comment: req.body.comment ?? existing.comment,
+            });
+
+            const errors = [...parsed.errors, ...candidate.validate()];
+
+            if (errors.length > 0) {
+                this.invalid(res, errors);
+                return;
+            }
+
+            const silence = await this.silenceRepo.update({
+                id: existing.id,
+                matchers: candidate.matchers,
+                startsAt: candidate.starts_at,
+                endsAt: candidate.ends_at,
+                recurrence: candidate.recurrence || null,
+                comment: candidate.comment,
+            });
+
+            if (!silence) {
+                this.notFound(res);
+                return;
+            }
+
+            this.emit(req, 'silence:updated', silence);
+
+            res.json({data: this.present(silence)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async expire(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const silence = await this.silenceRepo.expire(req.params.id as string);
+
+            if (!silence) {
+                this.notFound(res);
+                return;
+            }
+
+            this.emit(req, 'silence:expired', silence);
+
+            res.json({data: this.present(silence)});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const deleted = await this.silenceRepo.delete(req.params.id as string);
+
+            if (!deleted) {
+                this.notFound(res);
+                return;
+            }
+
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private parseMatchers(expressions: string[]): { matchers: SilenceMatcher[]; errors: string[] } {
+        const matchers: SilenceMatcher[] = [];
+        const errors: string[] = [];
+
+        for (const expression of expressions || []) {
+            try {
+                matchers.push(SilenceMatcherParser.parse(expression));
+            } catch (error) {
+                if (!(error instanceof InvalidSilenceMatcherError)) {
+                    throw error;
+                }
+                errors.push(error.message);
+            }
+        }
+
+        return {matchers, errors};
+    }
+
+    // Matchers are returned in the same expression form they are submitted in
+    private present(silence: Silence) {
+        return {
+            ...silence,
+            matchers: silence.matchers.map(matcher => SilenceMatcherParser.format(matcher)),
+            state: new SilenceEntity(silence).getState(),
+        };
+    }
+
+    private emit(req: Request, event: string, silence: Silence): void {
+        const io = req.app.get('io') as Server;
+        const payload = this.present(silence);
+
+        if (silence.project_id) {
+            io.to(`project-${silence.project_id}`).emit(event, payload);
+        } else {
+            io.emit(event, payload);
+        }
+    }
+
+    private notFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'SILENCE_NOT_FOUND',
+                message: 'Silence not found',
+                status: 404,
+            },
+        });
+    }
+
+    private invalid(res: Response, details: string[]): void {
+        res.status(400).json({
+            error: {
+                code: 'INVALID_SILENCE',
+                message: 'Invalid silence',
+                status: 400,
+                details,
+            },
+        });
+    }
+}
@@ -0,0 +1,76 @@
+import {NextFunction, Request, Response} from 'express';
+import {WebhookDeliveryRepository} from '../repositories/WebhookDeliveryRepository';
+import {WebhookDeliveryService} from '../services/WebhookDeliveryService';
+
+export class WebhookDeliveryController {
+    private webhookDeliveryRepo: WebhookDeliveryRepository;
+    private webhookDeliveryService: WebhookDeliveryService;
+
+    constructor() {
+        this.webhookDeliveryRepo = new WebhookDeliveryRepository();
+        this.webhookDeliveryService = new WebhookDeliveryService();
+    }
+
+    async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const filters = {
+                notificationId: req.query.notificationId as string,
+                channelId: req.query.channelId as string,
+                success: req.query.success !== undefined ? req.query.success === 'true' : undefined,
+                limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+            };
+
+            const deliveries = await this.webhookDeliveryRepo.findAll(filters);
+
+            res.json({
+                data: deliveries,
+                meta: {
+                    count: deliveries.length,
+                },
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const delivery = await this.webhookDeliveryRepo.findById(req.params.id as string);
+
+            if (!delivery) {
+                this.notFound(res);
+                return;
+            }
+
+            res.json({data: delivery});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    // The new delivery is returned whether or not the receiver accepted it; check its success flag
+    async redeliver(req: Request, res: Response, next: NextFunction): Promise<void> {
+        try {
+            const delivery = await this.webhookDeliveryService.redeliver(req.params.id as string);
+
+            if (!delivery) {
+                this.notFound(res);
+                return;
+            }
+
+            res.status(201).json({data: delivery});
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    private notFound(res: Response): void {
+        res.status(404).json({
+            error: {
+                code: 'WEBHOOK_DELIVERY_NOT_FOUND',
+                message: 'Webhook delivery not found',
+                status: 404,
+            },
+        });
+    }
+}
@@ -0,0 +1,37 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('alert_rules', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 255).notNullable();
+        table.text('description');
+        table.boolean('enabled').defaultTo(true);
+        table.enum('type', [
+            'threshold_breach',
+            'service_down',
+            'deployment_failed',
+            'security_issue',
+            'performance_degradation',
+            'error_spike',
+            'custom'
+        ]).defaultTo('threshold_breach');
+        table.enum('severity', ['critical', 'high', 'medium', 'low', 'info']).notNullable();
+        table.jsonb('condition').notNullable();
+        table.jsonb('notification_channels').defaultTo('[]');
+        table.integer('cooldown_minutes');
+        table.boolean('auto_resolve').defaultTo(true);
+        table.integer('auto_resolve_minutes');
+        table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['project_id', 'enabled']);
+        table.index(['enabled']);
+        table.index(['created_at']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('alert_rules');
+}
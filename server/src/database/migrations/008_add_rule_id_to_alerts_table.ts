@@ -0,0 +1,24 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('alerts', (table) => {
+        table.uuid('rule_id').references('id').inTable('alert_rules').onDelete('SET NULL');
+        table.decimal('metric_value', 20, 6);
+
+        // Alerts fired by a rule take their condition from the rule
+        table.setNullable('condition');
+        table.setNullable('threshold');
+
+        table.index(['rule_id', 'status']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('alerts', (table) => {
+        table.dropIndex(['rule_id', 'status']);
+        table.dropColumn('rule_id');
+        table.dropColumn('metric_value');
+        table.dropNullable('condition');
+        table.dropNullable('threshold');
+    });
+}
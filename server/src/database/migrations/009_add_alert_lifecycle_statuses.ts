@@ -0,0 +1,33 @@
+import {Knex} from 'knex';
+
+const LIFECYCLE_STATUSES = ['inactive', 'pending', 'firing', 'acknowledged', 'resolved', 'silenced'];
+const LEGACY_STATUSES = ['active', 'inactive', 'acknowledged', 'resolved'];
+
+// Status lists are constants, so they can be inlined into the DDL (which cannot take bindings)
+const statusCheck = (statuses: string[]): string =>
+    `ALTER TABLE alerts ADD CONSTRAINT alerts_status_check CHECK (status IN (${statuses.map(s => `'${s}'`).join(', ')}))`;
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.raw('ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check');
+    await knex('alerts').where({status: 'active'}).update({status: 'firing'});
+    await knex.raw(statusCheck(LIFECYCLE_STATUSES));
+    await knex.raw(`ALTER TABLE alerts ALTER COLUMN status SET DEFAULT 'firing'`);
+
+    return knex.schema.alterTable('alerts', (table) => {
+        table.timestamp('pending_at');
+        table.uuid('resolved_by').references('id').inTable('users').onDelete('SET NULL');
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alerts', (table) => {
+        table.dropColumn('pending_at');
+        table.dropColumn('resolved_by');
+    });
+
+    await knex.raw('ALTER TABLE alerts DROP CONSTRAINT IF EXISTS alerts_status_check');
+    await knex('alerts').whereIn('status', ['pending', 'firing']).update({status: 'active'});
+    await knex('alerts').where({status: 'silenced'}).update({status: 'acknowledged'});
+    await knex.raw(statusCheck(LEGACY_STATUSES));
+    await knex.raw(`ALTER TABLE alerts ALTER COLUMN status SET DEFAULT 'active'`);
+}
@@ -0,0 +1,24 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('alert_events', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('alert_id').notNullable().references('id').inTable('alerts').onDelete('CASCADE');
+        table.string('from_status', 50);
+        table.string('to_status', 50).notNullable();
+        table.enum('actor_type', ['system', 'user']).notNullable().defaultTo('system');
+        table.uuid('actor_id').references('id').inTable('users').onDelete('SET NULL');
+        table.decimal('metric_value', 20, 6);
+        table.text('note');
+        table.jsonb('metadata').defaultTo('{}');
+        table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+        // Indexes
+        table.index(['alert_id', 'created_at']);
+        table.index(['created_at']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('alert_events');
+}
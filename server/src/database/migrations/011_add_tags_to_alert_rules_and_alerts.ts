@@ -0,0 +1,22 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.jsonb('tags').defaultTo('[]');
+    });
+
+    // Alerts copy the tags of the rule that fired them so silences can match on them
+    await knex.schema.alterTable('alerts', (table) => {
+        table.jsonb('tags').defaultTo('[]');
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alerts', (table) => {
+        table.dropColumn('tags');
+    });
+
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.dropColumn('tags');
+    });
+}
@@ -0,0 +1,24 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('silences', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').references('id').inTable('projects').onDelete('CASCADE');
+        table.jsonb('matchers').notNullable().defaultTo('[]');
+        table.timestamp('starts_at').notNullable();
+        table.timestamp('ends_at').notNullable();
+        table.jsonb('recurrence');
+        table.text('comment').notNullable();
+        table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['project_id']);
+        table.index(['starts_at', 'ends_at']);
+        table.index(['created_at']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('silences');
+}
@@ -0,0 +1,51 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('alert_groups', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.string('group_key', 1000).notNullable();
+        table.uuid('project_id').references('id').inTable('projects').onDelete('CASCADE');
+        table.jsonb('labels').notNullable().defaultTo('{}');
+        table.enum('status', ['open', 'resolved']).notNullable().defaultTo('open');
+        table.jsonb('notified_alerts').notNullable().defaultTo('{}');
+        table.integer('notification_count').notNullable().defaultTo(0);
+        table.integer('group_interval_seconds').notNullable().defaultTo(300);
+        table.timestamp('next_flush_at');
+        table.timestamp('last_notified_at');
+        table.timestamp('resolved_at');
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['status', 'next_flush_at']);
+        table.index(['project_id']);
+        table.index(['created_at']);
+    });
+
+    // Only one open group per key; resolved groups are kept for history
+    await knex.raw(`CREATE UNIQUE INDEX alert_groups_open_key_unique ON alert_groups (group_key) WHERE status = 'open'`);
+
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.jsonb('affected_services').defaultTo('[]');
+    });
+
+    await knex.schema.alterTable('alerts', (table) => {
+        table.uuid('group_id').references('id').inTable('alert_groups').onDelete('SET NULL');
+        table.jsonb('affected_services').defaultTo('[]');
+
+        table.index(['group_id']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alerts', (table) => {
+        table.dropIndex(['group_id']);
+        table.dropColumn('group_id');
+        table.dropColumn('affected_services');
+    });
+
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.dropColumn('affected_services');
+    });
+
+    await knex.schema.dropTable('alert_groups');
+}
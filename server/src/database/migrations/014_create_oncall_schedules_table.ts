@@ -0,0 +1,21 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('oncall_schedules', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 255).notNullable();
+        table.text('description');
+        table.string('timezone', 100).notNullable().defaultTo('UTC');
+        table.jsonb('rotations').notNullable().defaultTo('[]');
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['project_id']);
+        table.index(['name']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('oncall_schedules');
+}
@@ -0,0 +1,22 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('oncall_overrides', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('schedule_id').notNullable().references('id').inTable('oncall_schedules').onDelete('CASCADE');
+        table.uuid('user_id').notNullable().references('id').inTable('users').onDelete('CASCADE');
+        table.timestamp('starts_at').notNullable();
+        table.timestamp('ends_at').notNullable();
+        table.text('reason');
+        table.uuid('created_by').references('id').inTable('users').onDelete('SET NULL');
+        table.timestamp('created_at').notNullable().defaultTo(knex.fn.now());
+
+        // Indexes
+        table.index(['schedule_id', 'starts_at', 'ends_at']);
+        table.index(['user_id']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('oncall_overrides');
+}
@@ -0,0 +1,20 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('escalation_policies', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 255).notNullable();
+        table.text('description');
+        table.jsonb('steps').notNullable().defaultTo('[]');
+        table.integer('repeat_count').notNullable().defaultTo(0);
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['project_id']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('escalation_policies');
+}
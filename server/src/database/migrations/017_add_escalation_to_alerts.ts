@@ -0,0 +1,31 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.uuid('escalation_policy_id').references('id').inTable('escalation_policies').onDelete('SET NULL');
+    });
+
+    // Escalation progress lives on the alert so acknowledging it is enough to stop paging
+    await knex.schema.alterTable('alerts', (table) => {
+        table.uuid('escalation_policy_id').references('id').inTable('escalation_policies').onDelete('SET NULL');
+        table.integer('escalation_step').notNullable().defaultTo(0);
+        table.integer('escalation_repeat').notNullable().defaultTo(0);
+        table.timestamp('next_escalation_at');
+
+        table.index(['status', 'next_escalation_at']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alerts', (table) => {
+        table.dropIndex(['status', 'next_escalation_at']);
+        table.dropColumn('escalation_policy_id');
+        table.dropColumn('escalation_step');
+        table.dropColumn('escalation_repeat');
+        table.dropColumn('next_escalation_at');
+    });
+
+    await knex.schema.alterTable('alert_rules', (table) => {
+        table.dropColumn('escalation_policy_id');
+    });
+}
@@ -0,0 +1,33 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('alert_notifications', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('alert_id').references('id').inTable('alerts').onDelete('CASCADE');
+        table.uuid('group_id').references('id').inTable('alert_groups').onDelete('SET NULL');
+        table.jsonb('alert_ids').notNullable().defaultTo('[]');
+        table.string('channel', 50).notNullable();
+        table.string('event', 100).notNullable();
+        table.jsonb('destination').notNullable().defaultTo('[]');
+        table.jsonb('payload').notNullable().defaultTo('{}');
+        table.enum('status', ['pending', 'sent', 'failed', 'dead_letter']).notNullable().defaultTo('pending');
+        table.text('error');
+        table.integer('retry_count').notNullable().defaultTo(0);
+        table.timestamp('next_retry');
+        table.timestamp('sent_at');
+        table.timestamps(true, true);
+
+        // Indexes
+        table.index(['status', 'next_retry']);
+        table.index(['alert_id']);
+        table.index(['group_id']);
+        table.index(['created_at']);
+    });
+
+    // Looked up by alert for GET /api/alerts/:id/notifications
+    await knex.raw('CREATE INDEX alert_notifications_alert_ids_index ON alert_notifications USING GIN (alert_ids)');
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('alert_notifications');
+}
@@ -0,0 +1,30 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('notification_channels', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('name', 255).notNullable();
+        table.string('type', 50).notNullable();
+        table.jsonb('config').notNullable().defaultTo('{}');
+        table.boolean('enabled').notNullable().defaultTo(true);
+        table.timestamps(true, true);
+
+        // Indexes
+        table.unique(['project_id', 'name']);
+        table.index(['project_id', 'type']);
+    });
+
+    await knex.schema.alterTable('alert_notifications', (table) => {
+        table.uuid('channel_id').references('id').inTable('notification_channels').onDelete('SET NULL');
+        table.index(['channel_id']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.alterTable('alert_notifications', (table) => {
+        table.dropColumn('channel_id');
+    });
+
+    return knex.schema.dropTable('notification_channels');
+}
@@ -0,0 +1,27 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('notification_templates', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('project_id').references('id').inTable('projects').onDelete('CASCADE');
+        table.string('channel', 50).notNullable();
+        table.enum('event', ['triggered', 'resolved', 'acknowledged', 'escalated']).notNullable();
+        table.text('subject');
+        table.text('body').notNullable();
+        table.timestamps(true, true);
+
+        // Indexes
+        table.unique(['project_id', 'channel', 'event']);
+    });
+
+    // NULLs are distinct in unique constraints, so server-wide templates need their own index
+    await knex.raw(`
+        CREATE UNIQUE INDEX notification_templates_global_unique
+        ON notification_templates (channel, event)
+        WHERE project_id IS NULL
+    `);
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('notification_templates');
+}
@@ -0,0 +1,30 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('webhook_deliveries', (table) => {
+        table.uuid('id').primary().defaultTo(knex.raw('gen_random_uuid()'));
+        table.uuid('notification_id').references('id').inTable('alert_notifications').onDelete('SET NULL');
+        table.uuid('channel_id').references('id').inTable('notification_channels').onDelete('SET NULL');
+        table.uuid('redelivery_of').references('id').inTable('webhook_deliveries').onDelete('SET NULL');
+        table.text('url').notNullable();
+        table.string('event', 100).notNullable();
+        table.jsonb('request_headers').notNullable().defaultTo('{}');
+        table.text('request_body').notNullable();
+        table.integer('response_status');
+        table.jsonb('response_headers');
+        table.text('response_body');
+        table.text('error');
+        table.boolean('success').notNullable().defaultTo(false);
+        table.integer('duration_ms').notNullable().defaultTo(0);
+        table.timestamp('created_at').defaultTo(knex.fn.now());
+
+        // Indexes
+        table.index(['notification_id']);
+        table.index(['channel_id', 'created_at']);
+        table.index(['created_at']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('webhook_deliveries');
+}
@@ -0,0 +1,19 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.createTable('metric_baselines', (table) => {
+        table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+        table.string('metric_type', 50).notNullable();
+        table.smallint('hour_of_week').notNullable(); // 0-167, UTC
+        table.integer('sample_count').notNullable().defaultTo(0);
+        table.double('mean').notNullable().defaultTo(0);
+        table.double('stddev').notNullable().defaultTo(0);
+        table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+        table.primary(['project_id', 'metric_type', 'hour_of_week']);
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.dropTable('metric_baselines');
+}
@@ -0,0 +1,14 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('metrics', (table) => {
+        // Bucket bounds and counts for samples ingested as histograms; value holds their mean
+        table.jsonb('histogram');
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('metrics', (table) => {
+        table.dropColumn('histogram');
+    });
+}
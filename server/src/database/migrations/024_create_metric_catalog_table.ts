@@ -0,0 +1,55 @@
+import {Knex} from 'knex';
+
+// The types metrics.type was limited to before the catalog
+const LEGACY_TYPES = [
+    'cpu_usage', 'memory_usage', 'disk_usage', 'network_in', 'network_out', 'response_time', 'error_rate',
+    'uptime', 'deployment_frequency', 'lead_time', 'mttr', 'change_failure_rate', 'custom',
+];
+
+// A copy of BUILT_IN_METRICS at the time of this migration, so later changes to the code do not alter it
+const BUILT_IN_METRICS = [
+    {name: 'cpu_usage', kind: 'gauge', unit: '%', description: 'CPU utilisation', min_value: 0, max_value: 100},
+    {name: 'memory_usage', kind: 'gauge', unit: '%', description: 'Memory utilisation', min_value: 0, max_value: 100},
+    {name: 'disk_usage', kind: 'gauge', unit: '%', description: 'Disk utilisation', min_value: 0, max_value: 100},
+    {name: 'network_in', kind: 'gauge', description: 'Inbound network traffic'},
+    {name: 'network_out', kind: 'gauge', description: 'Outbound network traffic'},
+    {name: 'response_time', kind: 'gauge', unit: 'ms', description: 'Response time', min_value: 0},
+    {name: 'error_rate', kind: 'gauge', unit: '%', description: 'Share of requests that failed', min_value: 0, max_value: 100},
+    {name: 'request_count', kind: 'counter', description: 'Requests served', min_value: 0},
+    {name: 'active_connections', kind: 'gauge', description: 'Open connections', min_value: 0},
+    {name: 'deployment_frequency', kind: 'gauge', description: 'Deployments per day', min_value: 0},
+    {name: 'lead_time', kind: 'gauge', description: 'Time from commit to deployment', min_value: 0},
+    {name: 'mttr', kind: 'gauge', description: 'Mean time to recovery', min_value: 0},
+    {name: 'change_failure_rate', kind: 'gauge', unit: '%', description: 'Share of deployments that failed', min_value: 0, max_value: 100},
+    {name: 'uptime', kind: 'gauge', unit: '%', description: 'Share of time the service was up', min_value: 0, max_value: 100},
+    {name: 'custom', kind: 'gauge', description: 'Samples without a catalog entry; the source name is in metadata.metric_name'},
+];
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.schema.createTable('metric_catalog', (table) => {
+        table.string('name', 100).primary();
+        table.enum('kind', ['gauge', 'counter', 'histogram']).notNullable().defaultTo('gauge');
+        table.string('unit', 50);
+        table.text('description');
+        table.double('min_value');
+        table.double('max_value');
+        table.timestamps(true, true);
+    });
+
+    await knex('metric_catalog').insert(BUILT_IN_METRICS);
+
+    // Metric names are no longer a fixed list
+    await knex.raw('ALTER TABLE metrics DROP CONSTRAINT IF EXISTS metrics_type_check');
+    return knex.schema.alterTable('metrics', (table) => {
+        table.string('type', 100).notNullable().alter();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.schema.dropTable('metric_catalog');
+
+    // NOT VALID keeps rows written with newer names; only new rows are checked
+    await knex.raw(
+        `ALTER TABLE metrics ADD CONSTRAINT metrics_type_check CHECK (type IN (${LEGACY_TYPES.map(t => `'${t}'`).join(', ')})) NOT VALID`
+    );
+}
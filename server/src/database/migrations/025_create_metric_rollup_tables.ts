@@ -0,0 +1,32 @@
+import {Knex} from 'knex';
+
+const ROLLUP_TABLES = ['metrics_1m', 'metrics_1h', 'metrics_1d'];
+
+export async function up(knex: Knex): Promise<void> {
+    for (const name of ROLLUP_TABLES) {
+        await knex.schema.createTable(name, (table) => {
+            table.uuid('project_id').notNullable().references('id').inTable('projects').onDelete('CASCADE');
+            table.string('type', 100).notNullable();
+            table.timestamp('bucket').notNullable(); // Start of the bucket, UTC
+            table.double('min').notNullable();
+            table.double('max').notNullable();
+            table.double('avg').notNullable();
+            table.double('sum').notNullable();
+            table.bigInteger('count').notNullable();
+            table.double('p50');
+            table.double('p90');
+            table.double('p95');
+            table.double('p99');
+            table.timestamp('updated_at').defaultTo(knex.fn.now());
+
+            table.primary(['project_id', 'type', 'bucket']);
+            table.index(['bucket']);
+        });
+    }
+}
+
+export async function down(knex: Knex): Promise<void> {
+    for (const name of [...ROLLUP_TABLES].reverse()) {
+        await knex.schema.dropTable(name);
+    }
+}
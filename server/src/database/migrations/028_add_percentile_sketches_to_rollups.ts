@@ -0,0 +1,56 @@
+import {Knex} from 'knex';
+
+const ROLLUP_TABLES = ['metrics_1m', 'metrics_1h', 'metrics_1d'];
+
+// Adds two histograms with the same bounds, like HistogramMath.merge; one with other bounds is left out.
+// min and max are only kept when both histograms have them.
+const HISTOGRAM_ADD = `
+    CREATE OR REPLACE FUNCTION metric_histogram_add(state jsonb, histogram jsonb) RETURNS jsonb
+    LANGUAGE sql IMMUTABLE AS $$
+        SELECT CASE
+            WHEN histogram IS NULL THEN state
+            WHEN state IS NULL THEN histogram
+            WHEN state -> 'bounds' <> histogram -> 'bounds' THEN state
+            ELSE jsonb_strip_nulls(jsonb_build_object(
+                'bounds', state -> 'bounds',
+                'counts', (
+                    SELECT jsonb_agg(a.n::numeric + b.n::numeric ORDER BY a.i)
+                    FROM jsonb_array_elements_text(state -> 'counts') WITH ORDINALITY AS a(n, i)
+                    JOIN jsonb_array_elements_text(histogram -> 'counts') WITH ORDINALITY AS b(n, i) ON a.i = b.i
+                ),
+                'count', (state ->> 'count')::numeric + (histogram ->> 'count')::numeric,
+                'sum', (state ->> 'sum')::numeric + (histogram ->> 'sum')::numeric,
+                'min', CASE WHEN state ->> 'min' IS NOT NULL AND histogram ->> 'min' IS NOT NULL
+                    THEN LEAST((state ->> 'min')::numeric, (histogram ->> 'min')::numeric) END,
+                'max', CASE WHEN state ->> 'max' IS NOT NULL AND histogram ->> 'max' IS NOT NULL
+                    THEN GREATEST((state ->> 'max')::numeric, (histogram ->> 'max')::numeric) END
+            ))
+        END
+    $$
+`;
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.raw(HISTOGRAM_ADD);
+    await knex.raw('CREATE AGGREGATE metric_histogram_merge(jsonb) (SFUNC = metric_histogram_add, STYPE = jsonb)');
+
+    for (const name of ROLLUP_TABLES) {
+        await knex.schema.alterTable(name, (table) => {
+            // Quantile sketch of the bucket's values (see QuantileSketch), so percentiles can span several buckets
+            table.jsonb('sketch');
+            // Merged buckets of the histogram samples in the bucket, which give their real percentiles
+            table.jsonb('histogram');
+        });
+    }
+}
+
+export async function down(knex: Knex): Promise<void> {
+    for (const name of [...ROLLUP_TABLES].reverse()) {
+        await knex.schema.alterTable(name, (table) => {
+            table.dropColumn('histogram');
+            table.dropColumn('sketch');
+        });
+    }
+
+    await knex.raw('DROP AGGREGATE IF EXISTS metric_histogram_merge(jsonb)');
+    await knex.raw('DROP FUNCTION IF EXISTS metric_histogram_add(jsonb, jsonb)');
+}
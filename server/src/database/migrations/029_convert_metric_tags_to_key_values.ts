@@ -0,0 +1,37 @@
+import {Knex} from 'knex';
+
+// Turns the "key:value" (or "key=value") strings tags were stored as into an object, like parseTags.
+// A tag without a value keeps its key with an empty value.
+const TAGS_TO_OBJECT = `
+    UPDATE metrics SET tags = COALESCE((
+        SELECT jsonb_object_agg(
+            CASE WHEN tag ~ '^[^:=]+[:=]' THEN substring(tag from '^([^:=]+)[:=]') ELSE tag END,
+            CASE WHEN tag ~ '^[^:=]+[:=]' THEN substring(tag from '^[^:=]+[:=](.*)$') ELSE '' END
+        )
+        FROM jsonb_array_elements_text(tags) AS tag
+        WHERE tag <> ''
+    ), '{}'::jsonb)
+    WHERE jsonb_typeof(tags) = 'array'
+`;
+
+const TAGS_TO_ARRAY = `
+    UPDATE metrics SET tags = COALESCE((
+        SELECT jsonb_agg(CASE WHEN value = '' THEN key ELSE key || ':' || value END)
+        FROM jsonb_each_text(tags)
+    ), '[]'::jsonb)
+    WHERE jsonb_typeof(tags) = 'object'
+`;
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.raw(TAGS_TO_OBJECT);
+    await knex.raw(`ALTER TABLE metrics ALTER COLUMN tags SET DEFAULT '{}'::jsonb`);
+
+    // Serves tag filters, which are containment queries (tags @> '{"region": "eu-west-1"}')
+    await knex.raw('CREATE INDEX metrics_tags_gin ON metrics USING GIN (tags jsonb_path_ops)');
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.raw('DROP INDEX IF EXISTS metrics_tags_gin');
+    await knex.raw(`ALTER TABLE metrics ALTER COLUMN tags SET DEFAULT '[]'::jsonb`);
+    await knex.raw(TAGS_TO_ARRAY);
+}
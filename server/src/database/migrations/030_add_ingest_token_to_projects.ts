@@ -0,0 +1,14 @@
+import {Knex} from 'knex';
+
+export async function up(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('projects', (table) => {
+        // SHA-256 of the project's ingest token (see IngestTokens); the token itself is only shown when issued
+        table.string('ingest_token_hash', 64).unique();
+    });
+}
+
+export async function down(knex: Knex): Promise<void> {
+    return knex.schema.alterTable('projects', (table) => {
+        table.dropColumn('ingest_token_hash');
+    });
+}
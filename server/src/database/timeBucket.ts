@@ -0,0 +1,18 @@
+import {Knex} from 'knex';
+import {db} from './connection';
+import {TimeSeriesInterval} from '../entities/TimeSeries';
+
+// The start of the time series point a column's time falls in, as a bound expression; it matches
+// TimeSeriesIntervals.bucketStart. Since the binding makes each use of the expression a different one
+// to Postgres, queries group by its alias rather than repeating it.
+export function timeBucket(interval: TimeSeriesInterval, column: string, alias: string): Knex.Raw {
+    if (interval.calendar) {
+        return db.raw(`date_trunc(?, ?? AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' as ??`, [interval.calendar, column, alias]);
+    }
+
+    return db.raw(`date_bin(?::interval, ??, TIMESTAMPTZ '1970-01-01 00:00:00+00') as ??`, [
+        `${interval.seconds} seconds`,
+        column,
+        alias,
+    ]);
+}
@@ -0,0 +1,50 @@
+import {Knex} from 'knex';
+
+// Converting a populated table rewrites it into chunks, which is too much for one transaction
+export const config = {transaction: false};
+
+const CHUNK_INTERVAL = process.env.TIMESCALE_CHUNK_INTERVAL || '1 day';
+const COMPRESS_AFTER = process.env.TIMESCALE_COMPRESS_AFTER || '7 days';
+
+export async function up(knex: Knex): Promise<void> {
+    await knex.raw('CREATE EXTENSION IF NOT EXISTS timescaledb');
+
+    // Unique indexes on a hypertable must include the time column
+    await knex.raw('ALTER TABLE metrics DROP CONSTRAINT metrics_pkey');
+    await knex.raw('ALTER TABLE metrics ADD PRIMARY KEY (id, timestamp)');
+
+    await knex.raw(
+        `SELECT create_hypertable('metrics', 'timestamp', chunk_time_interval => ?::interval, migrate_data => true)`,
+        [CHUNK_INTERVAL]
+    );
+
+    // Chunks are compressed per project and metric, which is how every query filters them
+    await knex.raw(`
+        ALTER TABLE metrics SET (
+            timescaledb.compress,
+            timescaledb.compress_segmentby = 'project_id, type',
+            timescaledb.compress_orderby = 'timestamp DESC'
+        )
+    `);
+    await knex.raw(`SELECT add_compression_policy('metrics', ?::interval)`, [COMPRESS_AFTER]);
+}
+
+// Copies the data back into a plain table, since a hypertable cannot be turned back into one
+export async function down(knex: Knex): Promise<void> {
+    await knex.raw(`SELECT remove_compression_policy('metrics', if_exists => true)`);
+    await knex.raw(`SELECT decompress_chunk(chunk, true) FROM show_chunks('metrics') AS chunk`);
+
+    await knex.raw('CREATE TABLE metrics_plain (LIKE metrics INCLUDING DEFAULTS INCLUDING CONSTRAINTS)');
+    await knex.raw('INSERT INTO metrics_plain SELECT * FROM metrics');
+    await knex.raw('DROP TABLE metrics');
+    await knex.raw('ALTER TABLE metrics_plain RENAME TO metrics');
+
+    await knex.schema.alterTable('metrics', (table) => {
+        table.primary(['id']);
+        table.foreign('project_id').references('id').inTable('projects').onDelete('CASCADE');
+        table.index(['project_id', 'type', 'timestamp']);
+        table.index(['project_id', 'timestamp']);
+        table.index(['type', 'timestamp']);
+        table.index(['timestamp']);
+    });
+}
@@ -0,0 +1,33 @@
+import {Knex} from 'knex';
+
+// refresh_continuous_aggregate cannot run inside a transaction
+export const config = {transaction: false};
+
+// Hourly sums that re-aggregate over any set of whole hours: mean and standard deviation come from the sum, the
+// sum of squares and the count. It is real-time, so hours that are not materialized yet are computed from the
+// hypertable at query time, and it keeps hours whose raw samples were dropped by retention.
+export async function up(knex: Knex): Promise<void> {
+    await knex.raw(`
+        CREATE MATERIALIZED VIEW metrics_hourly WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+        SELECT project_id, type, time_bucket(INTERVAL '1 hour', timestamp) AS bucket,
+               MIN(value) AS min, MAX(value) AS max, SUM(value) AS sum, SUM(value * value) AS sum_squares,
+               COUNT(*) AS count
+        FROM metrics
+        GROUP BY project_id, type, bucket
+        WITH NO DATA
+    `);
+
+    await knex.raw(`
+        SELECT add_continuous_aggregate_policy('metrics_hourly',
+            start_offset => INTERVAL '3 days',
+            end_offset => INTERVAL '1 hour',
+            schedule_interval => INTERVAL '30 minutes')
+    `);
+
+    // Materialize the data that was in the table before the conversion
+    await knex.raw(`CALL refresh_continuous_aggregate('metrics_hourly', NULL, NULL)`);
+}
+
+export async function down(knex: Knex): Promise<void> {
+    await knex.raw('DROP MATERIALIZED VIEW IF EXISTS metrics_hourly');
+}
@@ -1,5 +1,16 @@
+import { AlertExpressionParser, InvalidAlertExpressionError } from './AlertExpression';
+import { AnomalyDirection } from './MetricBaseline';
+import { InvalidMetricQueryError, MetricQueryParser } from './MetricQueryLanguage';
+
 export type AlertSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
-export type AlertStatus = 'active' | 'acknowledged' | 'resolved' | 'silenced';
+export type AlertStatus =
+  | 'inactive'
+  | 'pending'
+  | 'firing'
+  | 'acknowledged'
+  | 'resolved'
+  | 'silenced';
+export type AlertEventActorType = 'system' | 'user';
 export type AlertType = 
   | 'threshold_breach'
   | 'service_down'
@@ -12,6 +23,8 @@ export type AlertType =
 export interface Alert {
   id: string;
   project_id: string;
+  rule_id?: string;
+  group_id?: string;
   type: AlertType;
   severity: AlertSeverity;
   status: AlertStatus;
@@ -20,12 +33,17 @@ export interface Alert {
   metric_type?: string;
   metric_value?: number;
   threshold_value?: number;
+  pending_at?: Date;
   triggered_at: Date;
   acknowledged_at?: Date;
   resolved_at?: Date;
   resolved_by?: string;
   acknowledged_by?: string;
   silence_until?: Date;
+  escalation_policy_id?: string;
+  escalation_step?: number;
+  escalation_repeat?: number;
+  next_escalation_at?: Date;
   tags?: string[];
     metadata?: Record<string, unknown>;
   affected_services?: string[];
@@ -47,33 +65,138 @@ export interface AlertRule {
   cooldown_minutes?: number;
   auto_resolve?: boolean;
   auto_resolve_minutes?: number;
+  tags?: string[];
+  affected_services?: string[];
+  escalation_policy_id?: string;
+  created_by?: string;
   created_at: Date;
   updated_at: Date;
 }
 
+// threshold compares the aggregated value itself; anomaly compares how many standard
+// deviations it sits from the metric's learned baseline for the current hour of the week;
+// predictive compares the value the recent trend projects `horizon_seconds` from now;
+// composite combines comparisons on several metrics, possibly across projects, in `expression`;
+// query compares each series a metric query returns, the same language dashboards use
+export type AlertConditionKind = 'threshold' | 'anomaly' | 'predictive' | 'composite' | 'query';
+
 export interface AlertCondition {
+  kind?: AlertConditionKind; // defaults to threshold
   metric_type: string;
   operator: 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
-  threshold: number;
+  threshold: number; // for anomaly conditions, the number of standard deviations
   duration_seconds?: number;
-  aggregation?: 'avg' | 'min' | 'max' | 'sum';
-  window_seconds?: number;
+  aggregation?: AlertAggregation;
+  window_seconds?: number; // for predictive conditions, the history the trend is fitted over
+  direction?: AnomalyDirection; // anomaly conditions only; defaults to both
+  horizon_seconds?: number; // predictive conditions only
+  expression?: string; // composite conditions only, e.g. error_rate > 5 AND request_count > 100
+  query?: string; // query conditions only, e.g. sum by (region) (rate(request_count[5m]))
+}
+
+export type AlertAggregation = 'avg' | 'min' | 'max' | 'sum' | 'p95' | 'p99';
+
+export interface AlertSample {
+  value: number;
+  timestamp: Date;
+}
+
+// The windowed aggregate at one evaluation step; null when the window held no samples
+export interface AlertStepValue {
+  at: Date;
+  value: number | null;
 }
 
+export type AlertNotificationStatus = 'pending' | 'sent' | 'failed' | 'dead_letter';
+
 export interface AlertNotification {
   id: string;
-  alert_id: string;
-  channel: string;
-  sent_at: Date;
-  status: 'pending' | 'sent' | 'failed';
+  alert_id?: string;
+  group_id?: string;
+  alert_ids: string[]; // every alert the message reports on
+  channel: string; // channel type, e.g. pagerduty
+  channel_id?: string; // project notification channel; unset when the server defaults are used
+  event: string;
+  destination: string[]; // default email recipients or webhook URL when no project channel is used
+  payload: Record<string, unknown>;
+  sent_at?: Date;
+  status: AlertNotificationStatus;
   error?: string;
   retry_count: number;
   next_retry?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class NotificationBackoff {
+  static readonly BASE_SECONDS = 30;
+  static readonly MAX_SECONDS = 3600;
+
+  // 30s, 1m, 2m, 4m ... capped at an hour; null once the notification should be dead-lettered
+  static nextRetryAt(retryCount: number, maxRetries: number, now: Date = new Date()): Date | null {
+    if (retryCount >= maxRetries) {
+      return null;
+    }
+
+    const delaySeconds = Math.min(this.BASE_SECONDS * Math.pow(2, retryCount - 1), this.MAX_SECONDS);
+    return new Date(now.getTime() + delaySeconds * 1000);
+  }
+}
+
+export interface AlertEvent {
+  id: string;
+  alert_id: string;
+  from_status?: AlertStatus;
+  to_status: AlertStatus;
+  actor_type: AlertEventActorType;
+  actor_id?: string;
+  actor_name?: string;
+  metric_value?: number;
+  note?: string;
+  metadata?: Record<string, unknown>;
+  created_at: Date;
+}
+
+export class InvalidAlertTransitionError extends Error {
+  status = 409;
+  code = 'INVALID_ALERT_TRANSITION';
+
+  constructor(from: AlertStatus, to: AlertStatus) {
+    super(`Cannot move alert from ${from} to ${to}`);
+    this.name = 'InvalidAlertTransitionError';
+  }
+}
+
+export class AlertStateMachine {
+  private static transitions: Record<AlertStatus, AlertStatus[]> = {
+    inactive: ['pending'],
+    pending: ['firing', 'inactive'],
+    firing: ['acknowledged', 'resolved', 'silenced'],
+    acknowledged: ['resolved'],
+    silenced: ['firing', 'resolved'],
+    resolved: [],
+  };
+
+  static canTransition(from: AlertStatus, to: AlertStatus): boolean {
+    return this.transitions[from]?.includes(to) ?? false;
+  }
+
+  static assertTransition(from: AlertStatus, to: AlertStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new InvalidAlertTransitionError(from, to);
+    }
+  }
+
+  static isOpen(status: AlertStatus): boolean {
+    return ['pending', 'firing', 'acknowledged', 'silenced'].includes(status);
+  }
 }
 
 export class AlertEntity implements Alert {
   id: string;
   project_id: string;
+  rule_id?: string;
+  group_id?: string;
   type: AlertType;
   severity: AlertSeverity;
   status: AlertStatus;
@@ -82,12 +205,17 @@ export class AlertEntity implements Alert {
   metric_type?: string;
   metric_value?: number;
   threshold_value?: number;
+  pending_at?: Date;
   triggered_at: Date;
   acknowledged_at?: Date;
   resolved_at?: Date;
   resolved_by?: string;
   acknowledged_by?: string;
   silence_until?: Date;
+  escalation_policy_id?: string;
+  escalation_step?: number;
+  escalation_repeat?: number;
+  next_escalation_at?: Date;
   tags?: string[];
     metadata?: Record<string, unknown>;
   affected_services?: string[];
@@ -98,20 +226,27 @@ export class AlertEntity implements Alert {
   constructor(data: Partial<Alert>) {
     this.id = data.id || '';
     this.project_id = data.project_id || '';
+    this.rule_id = data.rule_id;
+    this.group_id = data.group_id;
     this.type = data.type || 'custom';
     this.severity = data.severity || 'info';
-    this.status = data.status || 'active';
+    this.status = data.status || 'firing';
     this.title = data.title || '';
     this.description = data.description || '';
     this.metric_type = data.metric_type;
     this.metric_value = data.metric_value;
     this.threshold_value = data.threshold_value;
+    this.pending_at = data.pending_at;
     this.triggered_at = data.triggered_at || new Date();
     this.acknowledged_at = data.acknowledged_at;
     this.resolved_at = data.resolved_at;
     this.resolved_by = data.resolved_by;
     this.acknowledged_by = data.acknowledged_by;
     this.silence_until = data.silence_until;
+    this.escalation_policy_id = data.escalation_policy_id;
+    this.escalation_step = data.escalation_step ?? 0;
+    this.escalation_repeat = data.escalation_repeat ?? 0;
+    this.next_escalation_at = data.next_escalation_at;
     this.tags = data.tags || [];
     this.metadata = data.metadata || {};
     this.affected_services = data.affected_services || [];
@@ -147,9 +282,7 @@ export class AlertEntity implements Alert {
   }
 
   acknowledge(userId: string): void {
-    if (this.status !== 'active') {
-      throw new Error('Only active alerts can be acknowledged');
-    }
+    AlertStateMachine.assertTransition(this.status, 'acknowledged');
     
     this.status = 'acknowledged';
     this.acknowledged_at = new Date();
@@ -157,9 +290,7 @@ export class AlertEntity implements Alert {
   }
 
   resolve(userId: string): void {
-    if (this.status === 'resolved') {
-      throw new Error('Alert is already resolved');
-    }
+    AlertStateMachine.assertTransition(this.status, 'resolved');
     
     this.status = 'resolved';
     this.resolved_at = new Date();
@@ -171,12 +302,13 @@ export class AlertEntity implements Alert {
       throw new Error('Silence until date must be in the future');
     }
     
+    AlertStateMachine.assertTransition(this.status, 'silenced');
     this.status = 'silenced';
     this.silence_until = until;
   }
 
   isActive(): boolean {
-    return this.status === 'active' && !this.isSilenced();
+    return this.status === 'firing' && !this.isSilenced();
   }
 
   isSilenced(): boolean {
@@ -196,6 +328,159 @@ export class AlertEntity implements Alert {
   }
 }
 
+export class AlertRuleEntity implements AlertRule {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  type: AlertType;
+  severity: AlertSeverity;
+  condition: AlertCondition;
+  notification_channels: string[];
+  cooldown_minutes?: number;
+  auto_resolve?: boolean;
+  auto_resolve_minutes?: number;
+  tags?: string[];
+  affected_services?: string[];
+  escalation_policy_id?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: Partial<AlertRule>) {
+    this.id = data.id || '';
+    this.project_id = data.project_id || '';
+    this.name = data.name || '';
+    this.description = data.description;
+    this.enabled = data.enabled ?? true;
+    this.type = data.type || 'threshold_breach';
+    this.severity = data.severity || 'medium';
+    this.condition = data.condition || {
+      metric_type: '',
+      operator: 'gt',
+      threshold: 0,
+    };
+    this.notification_channels = data.notification_channels || [];
+    this.cooldown_minutes = data.cooldown_minutes;
+    this.auto_resolve = data.auto_resolve ?? true;
+    this.auto_resolve_minutes = data.auto_resolve_minutes;
+    this.tags = data.tags || [];
+    this.affected_services = data.affected_services || [];
+    this.escalation_policy_id = data.escalation_policy_id;
+    this.created_by = data.created_by;
+    this.created_at = data.created_at || new Date();
+    this.updated_at = data.updated_at || new Date();
+  }
+
+  validate(): string[] {
+    const errors: string[] = [];
+    const operators: AlertCondition['operator'][] = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'];
+
+    if (!this.project_id) {
+      errors.push('Project ID is required');
+    }
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Rule name is required');
+    }
+
+    if (this.name && this.name.length > 200) {
+      errors.push('Rule name must be less than 200 characters');
+    }
+
+    if (this.condition.kind === 'composite') {
+      errors.push(...this.validateExpression());
+    } else {
+      if (!this.condition.metric_type && this.condition.kind !== 'query') {
+        errors.push('Condition metric type is required');
+      }
+
+      if (!operators.includes(this.condition.operator)) {
+        errors.push(`Invalid condition operator: ${this.condition.operator}`);
+      }
+
+      if (typeof this.condition.threshold !== 'number' || isNaN(this.condition.threshold)) {
+        errors.push('Condition threshold must be a valid number');
+      }
+    }
+
+    if (this.condition.window_seconds !== undefined && this.condition.window_seconds <= 0) {
+      errors.push('Condition window must be greater than 0 seconds');
+    }
+
+    if (this.condition.kind !== undefined && !['threshold', 'anomaly', 'predictive', 'composite', 'query'].includes(this.condition.kind)) {
+      errors.push(`Invalid condition kind: ${this.condition.kind}`);
+    }
+
+    if (this.condition.kind === 'anomaly') {
+      if (!(this.condition.threshold > 0)) {
+        errors.push('Anomaly conditions need a positive number of standard deviations');
+      }
+
+      if (this.condition.direction !== undefined && !['above', 'below', 'both'].includes(this.condition.direction)) {
+        errors.push(`Invalid anomaly direction: ${this.condition.direction}`);
+      }
+    }
+
+    if (this.condition.kind === 'predictive') {
+      if (!['gt', 'gte', 'lt', 'lte'].includes(this.condition.operator)) {
+        errors.push('Predictive conditions need a gt, gte, lt or lte operator');
+      }
+
+      if (!this.condition.horizon_seconds || this.condition.horizon_seconds <= 0) {
+        errors.push('Predictive conditions need a horizon greater than 0 seconds');
+      }
+    }
+
+    if (this.condition.kind === 'query') {
+      errors.push(...this.validateQuery());
+    }
+
+    if (this.cooldown_minutes !== undefined && this.cooldown_minutes < 0) {
+      errors.push('Cooldown must not be negative');
+    }
+
+    return errors;
+  }
+
+  private validateExpression(): string[] {
+    if (typeof this.condition.expression !== 'string' || this.condition.expression.trim().length === 0) {
+      return ['Composite conditions need an expression'];
+    }
+
+    try {
+      AlertExpressionParser.parse(this.condition.expression);
+    } catch (error) {
+      if (error instanceof InvalidAlertExpressionError) {
+        return [error.message];
+      }
+      throw error;
+    }
+
+    return [];
+  }
+
+  private validateQuery(): string[] {
+    if (typeof this.condition.query !== 'string' || this.condition.query.trim().length === 0) {
+      return ['Query conditions need a query'];
+    }
+
+    try {
+      if (MetricQueryParser.valueType(MetricQueryParser.parse(this.condition.query)) !== 'vector') {
+        return ['Query conditions need a query that returns series, not a number'];
+      }
+    } catch (error) {
+      if (error instanceof InvalidMetricQueryError) {
+        return [error.message];
+      }
+      throw error;
+    }
+
+    return [];
+  }
+}
+
 export class AlertRuleEvaluator {
   static evaluate(rule: AlertRule, metricValue: number): boolean {
     const { condition } = rule;
@@ -225,21 +510,81 @@ export class AlertRuleEvaluator {
   ): boolean {
     if (!rule.enabled) return false;
     
-    // Check cooldown period
-    if (rule.cooldown_minutes) {
-      const recentAlert = existingAlerts.find(alert => 
-        alert.triggered_at > new Date(Date.now() - rule.cooldown_minutes! * 60 * 1000)
-      );
-      
-      if (recentAlert) return false;
-    }
+    if (this.isInCooldown(rule, existingAlerts)) return false;
     
     // Evaluate condition
     const aggregatedValue = this.aggregate(metrics, rule.condition.aggregation || 'avg');
     return this.evaluate(rule, aggregatedValue);
   }
+
+  static isInCooldown(rule: AlertRule, existingAlerts: Alert[], now: Date = new Date()): boolean {
+    if (!rule.cooldown_minutes) return false;
+
+    const cooldownStart = new Date(now.getTime() - rule.cooldown_minutes * 60 * 1000);
+    return existingAlerts.some(alert => alert.triggered_at > cooldownStart);
+  }
+
+  // Re-evaluates the windowed aggregate at each step back from `now` over the samples given
+  static breachStartedAt(
+    rule: AlertRule,
+    samples: AlertSample[],
+    now: Date,
+    stepSeconds: number,
+    score: (value: number, at: Date) => number | null = value => value
+  ): Date | null {
+    return this.breachStartedAtSteps(rule, this.windowedSteps(rule, samples, now, stepSeconds), score);
+  }
+
+  // The windowed aggregate at each step back from `now` over the duration, newest first
+  static windowedSteps(rule: AlertRule, samples: AlertSample[], now: Date, stepSeconds: number): AlertStepValue[] {
+    const { condition } = rule;
+    const windowMs = (condition.window_seconds || 300) * 1000;
+    const lookbackMs = (condition.duration_seconds || 0) * 1000;
+    const stepMs = Math.max(stepSeconds, 1) * 1000;
+    const steps: AlertStepValue[] = [];
+
+    for (let offset = 0; offset <= lookbackMs; offset += stepMs) {
+      const pointInTime = now.getTime() - offset;
+      const values = samples
+        .filter(sample => {
+          const time = new Date(sample.timestamp).getTime();
+          return time > pointInTime - windowMs && time <= pointInTime;
+        })
+        .map(sample => sample.value);
+
+      steps.push({
+        at: new Date(pointInTime),
+        value: values.length > 0 ? this.aggregate(values, condition.aggregation || 'avg') : null,
+      });
+    }
+
+    return steps;
+  }
+
+  // Walks the steps newest first. A step with no samples or no breach ends the walk,
+  // so gaps in the data reset the pending period. `score` turns the aggregate into the
+  // compared value, e.g. sigmas from a baseline; returning null (nothing to compare
+  // against) also ends the walk.
+  static breachStartedAtSteps(
+    rule: AlertRule,
+    steps: AlertStepValue[],
+    score: (value: number, at: Date) => number | null = value => value
+  ): Date | null {
+    let breachStart: Date | null = null;
+
+    for (const step of steps) {
+      if (step.value === null) break;
+
+      const value = score(step.value, step.at);
+      if (value === null || !this.evaluate(rule, value)) break;
+
+      breachStart = step.at;
+    }
+
+    return breachStart;
+  }
   
-  private static aggregate(values: number[], method: 'avg' | 'min' | 'max' | 'sum'): number {
+  static aggregate(values: number[], method: AlertAggregation): number {
     if (values.length === 0) return 0;
     
     switch (method) {
@@ -251,8 +596,22 @@ export class AlertRuleEvaluator {
         return Math.max(...values);
       case 'sum':
         return values.reduce((a, b) => a + b, 0);
+      case 'p95':
+        return this.percentile(values, 95);
+      case 'p99':
+        return this.percentile(values, 99);
       default:
         return 0;
     }
   }
+
+  // Linear interpolation between closest ranks, matching Postgres percentile_cont
+  private static percentile(values: number[], percentile: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = (percentile / 100) * (sorted.length - 1);
+    const lower = sorted[Math.floor(index)];
+    const upper = sorted[Math.ceil(index)];
+
+    return lower + (upper - lower) * (index % 1);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,391 @@
+import { AlertAggregation, AlertCondition } from './Alert';
+
+export type AlertExpressionOperator = AlertCondition['operator'];
+
+// One metric a composite condition reads; the project defaults to the rule's own
+export interface MetricReference {
+  metric_type: string;
+  aggregation?: AlertAggregation; // defaults to the condition's aggregation
+  project_id?: string;
+}
+
+export type AlertExpressionNode =
+  | { type: 'and' | 'or'; left: AlertExpressionNode; right: AlertExpressionNode }
+  | { type: 'not'; operand: AlertExpressionNode }
+  | { type: 'comparison'; metric: MetricReference; operator: AlertExpressionOperator; threshold: number };
+
+export type AlertExpressionComparison = Extract<AlertExpressionNode, { type: 'comparison' }>;
+
+export class InvalidAlertExpressionError extends Error {
+  position: number;
+
+  constructor(position: number, reason: string) {
+    super(`Invalid expression at column ${position + 1}: ${reason}`);
+    this.name = 'InvalidAlertExpressionError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'identifier' | 'number' | 'string' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const AGGREGATIONS: AlertAggregation[] = ['avg', 'min', 'max', 'sum', 'p95', 'p99'];
+const KEYWORDS = ['and', 'or', 'not'];
+const SELECTOR_LABELS = ['project'];
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const OPERATORS: Record<string, AlertExpressionOperator> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  '==': 'eq',
+  '!=': 'neq',
+};
+
+const SYMBOLS = Object.fromEntries(Object.entries(OPERATORS).map(([symbol, operator]) => [operator, symbol]));
+
+// Each reference costs a query per evaluation, so expressions are kept small
+export const MAX_EXPRESSION_LENGTH = 1000;
+export const MAX_EXPRESSION_REFERENCES = 10;
+
+export class AlertExpressionParser {
+  // Parses expressions such as
+  //   error_rate > 5 AND request_count > 100
+  //   max(cpu_usage) > 90 OR memory_usage{project="<uuid>"} > 95
+  // AND binds tighter than OR; NOT and parentheses work as usual. Keywords are case-insensitive.
+  static parse(expression: string): AlertExpressionNode {
+    if (expression.length > MAX_EXPRESSION_LENGTH) {
+      throw new InvalidAlertExpressionError(MAX_EXPRESSION_LENGTH, `expression must be at most ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    const parser = new ExpressionParser(tokenize(expression));
+    const node = parser.parseExpression();
+    parser.expectEnd();
+
+    if (this.references(node).length > MAX_EXPRESSION_REFERENCES) {
+      throw new InvalidAlertExpressionError(0, `expression may reference at most ${MAX_EXPRESSION_REFERENCES} metrics`);
+    }
+
+    return node;
+  }
+
+  // Canonical form: upper-case keywords, single spaces and only the parentheses precedence needs
+  static format(node: AlertExpressionNode): string {
+    switch (node.type) {
+      case 'comparison':
+        return `${this.formatReference(node.metric)} ${SYMBOLS[node.operator]} ${node.threshold}`;
+      case 'not':
+        return `NOT ${node.operand.type === 'comparison' || node.operand.type === 'not'
+          ? this.format(node.operand)
+          : `(${this.format(node.operand)})`}`;
+      case 'and':
+        return [node.left, node.right]
+          .map(side => (side.type === 'or' ? `(${this.format(side)})` : this.format(side)))
+          .join(' AND ');
+      case 'or':
+        return `${this.format(node.left)} OR ${this.format(node.right)}`;
+    }
+  }
+
+  static formatReference(reference: MetricReference): string {
+    const selector = reference.project_id ? `{project="${reference.project_id}"}` : '';
+    const metric = `${reference.metric_type}${selector}`;
+
+    return reference.aggregation ? `${reference.aggregation}(${metric})` : metric;
+  }
+
+  // Distinct metrics in the order they first appear
+  static references(node: AlertExpressionNode): MetricReference[] {
+    const references = new Map<string, MetricReference>();
+
+    for (const comparison of this.comparisons(node)) {
+      references.set(referenceKey(comparison.metric), comparison.metric);
+    }
+
+    return [...references.values()];
+  }
+
+  static comparisons(node: AlertExpressionNode): AlertExpressionComparison[] {
+    switch (node.type) {
+      case 'comparison':
+        return [node];
+      case 'not':
+        return this.comparisons(node.operand);
+      default:
+        return [...this.comparisons(node.left), ...this.comparisons(node.right)];
+    }
+  }
+}
+
+export class AlertExpressionEvaluator {
+  // Three-valued: a comparison whose metric has no data is unknown (null). AND is false when
+  // any side is false and OR is true when any side is true, so one quiet metric does not
+  // hide a breach the rest of the expression already decides; otherwise the result is unknown.
+  static evaluate(
+    node: AlertExpressionNode,
+    lookup: (reference: MetricReference) => number | undefined
+  ): boolean | null {
+    switch (node.type) {
+      case 'comparison': {
+        const value = lookup(node.metric);
+        return value === undefined ? null : compare(value, node.operator, node.threshold);
+      }
+      case 'not': {
+        const operand = this.evaluate(node.operand, lookup);
+        return operand === null ? null : !operand;
+      }
+      case 'and': {
+        const left = this.evaluate(node.left, lookup);
+        const right = this.evaluate(node.right, lookup);
+        if (left === false || right === false) return false;
+        return left === null || right === null ? null : true;
+      }
+      case 'or': {
+        const left = this.evaluate(node.left, lookup);
+        const right = this.evaluate(node.right, lookup);
+        if (left === true || right === true) return true;
+        return left === null || right === null ? null : false;
+      }
+    }
+  }
+}
+
+export function referenceKey(reference: MetricReference): string {
+  return [reference.project_id || '', reference.metric_type, reference.aggregation || ''].join('|');
+}
+
+function compare(value: number, operator: AlertExpressionOperator, threshold: number): boolean {
+  switch (operator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+    case 'neq':
+      return value !== threshold;
+    default:
+      return false;
+  }
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /([A-Za-z_][A-Za-z0-9_.]*)|(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)|"((?:[^"\\]|\\.)*)"|(>=|<=|==|!=|>|<|=)|([(){},])/iy;
+  let position = 0;
+
+  for (;;) {
+    while (position < expression.length && /\s/.test(expression[position])) position++;
+    if (position >= expression.length) break;
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new InvalidAlertExpressionError(position, `unexpected character "${expression[position]}"`);
+    }
+
+    if (match[1] !== undefined) tokens.push({ type: 'identifier', value: match[1], position });
+    else if (match[2] !== undefined) tokens.push({ type: 'number', value: match[2], position });
+    else if (match[3] !== undefined) tokens.push({ type: 'string', value: match[3].replace(/\\(.)/g, '$1'), position });
+    else if (match[4] !== undefined) tokens.push({ type: 'operator', value: match[4], position });
+    else tokens.push({ type: 'punctuation', value: match[5], position });
+
+    position = pattern.lastIndex;
+  }
+
+  tokens.push({ type: 'end', value: '', position: expression.length });
+  return tokens;
+}
+
+// Recursive descent over:
+//   or         := and ("OR" and)*
+//   and        := unary ("AND" unary)*
+//   unary      := "NOT" unary | "(" or ")" | comparison
+//   comparison := reference operator number
+//   reference  := aggregation "(" selector ")" | selector
+//   selector   := metric ("{" label "=" string ("," label "=" string)* "}")?
+class ExpressionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseExpression(): AlertExpressionNode {
+    let node = this.parseAnd();
+
+    while (this.isKeyword('or')) {
+      this.index++;
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+
+    return node;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new InvalidAlertExpressionError(token.position, `expected AND, OR or the end of the expression but found "${token.value}"`);
+    }
+  }
+
+  private parseAnd(): AlertExpressionNode {
+    let node = this.parseUnary();
+
+    while (this.isKeyword('and')) {
+      this.index++;
+      node = { type: 'and', left: node, right: this.parseUnary() };
+    }
+
+    return node;
+  }
+
+  private parseUnary(): AlertExpressionNode {
+    if (this.isKeyword('not')) {
+      this.index++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+
+    if (this.isPunctuation('(')) {
+      this.index++;
+      const node = this.parseExpression();
+      this.expectPunctuation(')');
+      return node;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): AlertExpressionNode {
+    const metric = this.parseReference();
+
+    const operatorToken = this.next();
+    if (operatorToken.type !== 'operator' || !OPERATORS[operatorToken.value]) {
+      throw new InvalidAlertExpressionError(
+        operatorToken.position,
+        `expected a comparison operator (>, >=, <, <=, ==, !=) after ${metric.metric_type}`
+      );
+    }
+
+    const thresholdToken = this.next();
+    if (thresholdToken.type !== 'number') {
+      throw new InvalidAlertExpressionError(thresholdToken.position, 'expected a number to compare against');
+    }
+
+    return {
+      type: 'comparison',
+      metric,
+      operator: OPERATORS[operatorToken.value],
+      threshold: parseFloat(thresholdToken.value),
+    };
+  }
+
+  private parseReference(): MetricReference {
+    const token = this.next();
+
+    if (token.type !== 'identifier' || KEYWORDS.includes(token.value.toLowerCase())) {
+      throw new InvalidAlertExpressionError(token.position, token.type === 'end'
+        ? 'expected a metric but the expression ended'
+        : `expected a metric but found "${token.value}"`);
+    }
+
+    if (this.isPunctuation('(')) {
+      const aggregation = token.value.toLowerCase() as AlertAggregation;
+      if (!AGGREGATIONS.includes(aggregation)) {
+        throw new InvalidAlertExpressionError(
+          token.position,
+          `unknown aggregation "${token.value}"; expected one of ${AGGREGATIONS.join(', ')}`
+        );
+      }
+
+      this.index++;
+      const reference = this.parseSelector(this.next());
+      this.expectPunctuation(')');
+      return { ...reference, aggregation };
+    }
+
+    return this.parseSelector(token);
+  }
+
+  private parseSelector(token: Token): MetricReference {
+    if (token.type !== 'identifier' || KEYWORDS.includes(token.value.toLowerCase())) {
+      throw new InvalidAlertExpressionError(token.position, 'expected a metric name');
+    }
+
+    const reference: MetricReference = { metric_type: token.value };
+
+    if (!this.isPunctuation('{')) {
+      return reference;
+    }
+
+    this.index++;
+    for (;;) {
+      const label = this.next();
+      if (label.type !== 'identifier' || !SELECTOR_LABELS.includes(label.value)) {
+        throw new InvalidAlertExpressionError(label.position, `expected a selector label (${SELECTOR_LABELS.join(', ')})`);
+      }
+
+      const equals = this.next();
+      if (equals.type !== 'operator' || equals.value !== '=') {
+        throw new InvalidAlertExpressionError(equals.position, `expected = after ${label.value}`);
+      }
+
+      const value = this.next();
+      if (value.type !== 'string') {
+        throw new InvalidAlertExpressionError(value.position, `expected a quoted value for ${label.value}`);
+      }
+
+      if (!UUID.test(value.value)) {
+        throw new InvalidAlertExpressionError(value.position, 'project must be a project ID');
+      }
+
+      reference.project_id = value.value.toLowerCase();
+
+      if (!this.isPunctuation(',')) break;
+      this.index++;
+    }
+
+    this.expectPunctuation('}');
+    return reference;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new InvalidAlertExpressionError(token.position, token.type === 'end'
+        ? `expected "${value}" but the expression ended`
+        : `expected "${value}" but found "${token.value}"`);
+    }
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === 'identifier' && token.value.toLowerCase() === keyword;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+}
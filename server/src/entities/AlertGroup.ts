@@ -0,0 +1,141 @@
+import { Alert, AlertStatus } from './Alert';
+import { Project } from './Project';
+
+export type AlertGroupLabel = 'project' | 'environment' | 'affected_services';
+export type AlertGroupStatus = 'open' | 'resolved';
+
+export interface AlertGroupingConfig {
+  group_by: AlertGroupLabel[];
+  group_wait_seconds: number;
+  group_interval_seconds: number;
+}
+
+export interface AlertGroup {
+  id: string;
+  group_key: string;
+  project_id?: string;
+  labels: Record<string, string>;
+  status: AlertGroupStatus;
+  notified_alerts: Record<string, AlertStatus>; // alert id -> status in the last notification
+  notification_count: number;
+  group_interval_seconds: number;
+  next_flush_at?: Date;
+  last_notified_at?: Date;
+  resolved_at?: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AlertGroupSummary {
+  firing: Alert[];
+  resolved: Alert[];
+  changed: boolean;
+}
+
+export const ALERT_GROUP_LABELS: AlertGroupLabel[] = ['project', 'environment', 'affected_services'];
+
+export const DEFAULT_ALERT_GROUPING: AlertGroupingConfig = {
+  group_by: ['project'],
+  group_wait_seconds: 30,
+  group_interval_seconds: 300,
+};
+
+export class AlertGrouper {
+  // Project settings may hold a partial or hand-edited config, so fall back field by field
+  static configFor(project?: Pick<Project, 'settings'> | null): AlertGroupingConfig {
+    const config: Partial<AlertGroupingConfig> = project?.settings?.alert_grouping || {};
+    const groupBy = (config.group_by || []).filter(label => ALERT_GROUP_LABELS.includes(label));
+
+    return {
+      group_by: groupBy.length > 0 ? groupBy : DEFAULT_ALERT_GROUPING.group_by,
+      group_wait_seconds: this.nonNegative(config.group_wait_seconds, DEFAULT_ALERT_GROUPING.group_wait_seconds),
+      group_interval_seconds: this.nonNegative(
+        config.group_interval_seconds,
+        DEFAULT_ALERT_GROUPING.group_interval_seconds
+      ),
+    };
+  }
+
+  static labelsFor(
+    alert: Alert,
+    project: Pick<Project, 'id' | 'environment'> | null,
+    config: AlertGroupingConfig
+  ): Record<string, string> {
+    const labels: Record<string, string> = {};
+
+    for (const label of config.group_by) {
+      switch (label) {
+        case 'project':
+          labels.project = alert.project_id;
+          break;
+        case 'environment':
+          labels.environment = project?.environment || 'unknown';
+          break;
+        case 'affected_services':
+          labels.affected_services = [...(alert.affected_services || [])].sort().join(',');
+          break;
+      }
+    }
+
+    return labels;
+  }
+
+  static keyFor(labels: Record<string, string>): string {
+    return Object.keys(labels)
+      .sort()
+      .map(label => `${label}=${labels[label]}`)
+      .join(';');
+  }
+
+  // group_wait delays the first notification so related alerts can join the group
+  static firstFlushAt(config: AlertGroupingConfig, now: Date = new Date()): Date {
+    return new Date(now.getTime() + config.group_wait_seconds * 1000);
+  }
+
+  // After the first notification, changes are batched so a group notifies at most once per group_interval
+  static nextFlushAt(
+    group: Pick<AlertGroup, 'next_flush_at' | 'last_notified_at' | 'group_interval_seconds'>,
+    now: Date = new Date()
+  ): Date {
+    if (group.next_flush_at) {
+      return group.next_flush_at;
+    }
+
+    if (!group.last_notified_at) {
+      return now;
+    }
+
+    const earliest = group.last_notified_at.getTime() + group.group_interval_seconds * 1000;
+    return new Date(Math.max(now.getTime(), earliest));
+  }
+
+  // Pending and silenced alerts stay out of notifications until they fire
+  static summarize(group: Pick<AlertGroup, 'notified_alerts'>, alerts: Alert[]): AlertGroupSummary {
+    const firing = alerts.filter(alert => alert.status === 'firing' || alert.status === 'acknowledged');
+    const resolved = alerts.filter(alert =>
+      alert.status === 'resolved' && group.notified_alerts[alert.id] !== undefined
+      && group.notified_alerts[alert.id] !== 'resolved'
+    );
+
+    const changed = resolved.length > 0
+      || firing.some(alert => group.notified_alerts[alert.id] === undefined)
+      || Object.entries(group.notified_alerts).some(([id, status]) =>
+        status !== 'resolved' && !firing.some(alert => alert.id === id) && !resolved.some(alert => alert.id === id)
+      );
+
+    return { firing, resolved, changed };
+  }
+
+  static snapshot(summary: AlertGroupSummary): Record<string, AlertStatus> {
+    const notified: Record<string, AlertStatus> = {};
+
+    for (const alert of summary.firing) notified[alert.id] = alert.status;
+    for (const alert of summary.resolved) notified[alert.id] = 'resolved';
+
+    return notified;
+  }
+
+  private static nonNegative(value: unknown, fallback: number): number {
+    return typeof value === 'number' && isFinite(value) && value >= 0 ? value : fallback;
+  }
+}
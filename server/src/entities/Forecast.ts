@@ -0,0 +1,244 @@
+import { Alert, AlertSample } from './Alert';
+
+export type ForecastMethod = 'linear' | 'holt_winters';
+
+// Shaped like the dashboard's PredictionData
+export interface ForecastPoint {
+  timestamp: Date;
+  predictedValue: number;
+  confidence: number; // level of the upper/lower prediction interval, e.g. 0.95
+  upperBound: number;
+  lowerBound: number;
+}
+
+export interface LinearTrend {
+  origin: number; // epoch ms that x = 0 refers to
+  slope: number; // change per second
+  intercept: number;
+  residualStddev: number;
+  count: number;
+  meanX: number;
+  sxx: number;
+}
+
+export interface LimitProjection {
+  currentValue: number; // the fitted value now, not the last raw sample
+  limit: number;
+  ratePerDay: number;
+  secondsUntilLimit: number | null; // null when the trend never reaches the limit
+  projectedAt: Date | null;
+}
+
+// Stored in a predictive alert's metadata so notifications can say when the limit will be crossed
+export interface AlertProjection {
+  limit: number;
+  projected_at: string | null; // ISO timestamp
+  seconds_until_limit: number | null;
+  rate_per_day: number;
+  horizon_seconds: number;
+}
+
+export function projectionOf(alert: Alert): AlertProjection | null {
+  const projection = alert.metadata?.projection as AlertProjection | undefined;
+  return projection && typeof projection.limit === 'number' ? projection : null;
+}
+
+interface HoltWintersFit {
+  level: number;
+  trend: number;
+  seasonal: number[];
+  errorStddev: number;
+}
+
+const Z_95 = 1.96;
+const HW_ALPHAS = [0.2, 0.4, 0.6, 0.8];
+const HW_BETAS = [0.01, 0.1, 0.2];
+const HW_GAMMAS = [0.1, 0.3, 0.5];
+
+export class Forecaster {
+  static readonly CONFIDENCE = 0.95;
+
+  // Ordinary least squares over (time, value)
+  static linearTrend(samples: AlertSample[]): LinearTrend | null {
+    if (samples.length < 2) return null;
+
+    const origin = Math.min(...samples.map(sample => new Date(sample.timestamp).getTime()));
+    const xs = samples.map(sample => (new Date(sample.timestamp).getTime() - origin) / 1000);
+    const ys = samples.map(sample => sample.value);
+    const count = samples.length;
+    const meanX = xs.reduce((a, b) => a + b, 0) / count;
+    const meanY = ys.reduce((a, b) => a + b, 0) / count;
+
+    let sxx = 0;
+    let sxy = 0;
+    for (let i = 0; i < count; i++) {
+      sxx += (xs[i] - meanX) ** 2;
+      sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    }
+
+    if (sxx === 0) return null; // every sample at the same instant
+
+    const slope = sxy / sxx;
+    const intercept = meanY - slope * meanX;
+    const sse = xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slope * x)) ** 2, 0);
+    const residualStddev = count > 2 ? Math.sqrt(sse / (count - 2)) : 0;
+
+    return { origin, slope, intercept, residualStddev, count, meanX, sxx };
+  }
+
+  static linear(samples: AlertSample[], from: Date, horizonSeconds: number, stepSeconds: number): ForecastPoint[] {
+    const trend = this.linearTrend(samples);
+    if (!trend) return [];
+
+    return this.steps(from, horizonSeconds, stepSeconds).map(timestamp => {
+      const x = (timestamp.getTime() - trend.origin) / 1000;
+      const predictedValue = trend.intercept + trend.slope * x;
+      // Prediction interval widens with distance from the centre of the history
+      const margin = Z_95 * trend.residualStddev
+        * Math.sqrt(1 + 1 / trend.count + (x - trend.meanX) ** 2 / trend.sxx);
+
+      return this.point(timestamp, predictedValue, margin);
+    });
+  }
+
+  // Additive Holt-Winters over evenly spaced samples; needs two full seasons, otherwise falls back to linear
+  static holtWinters(
+    samples: AlertSample[],
+    seasonLength: number,
+    from: Date,
+    horizonSeconds: number,
+    stepSeconds: number
+  ): ForecastPoint[] {
+    const values = this.regularize(samples, stepSeconds);
+    if (values.length < seasonLength * 2) {
+      return this.linear(samples, from, horizonSeconds, stepSeconds);
+    }
+
+    let best: HoltWintersFit | null = null;
+    for (const alpha of HW_ALPHAS) {
+      for (const beta of HW_BETAS) {
+        for (const gamma of HW_GAMMAS) {
+          const fit = this.fitHoltWinters(values, seasonLength, alpha, beta, gamma);
+          if (!best || fit.errorStddev < best.errorStddev) best = fit;
+        }
+      }
+    }
+
+    const fit = best as HoltWintersFit;
+    const lastTime = new Date(samples[samples.length - 1].timestamp).getTime();
+
+    return this.steps(from, horizonSeconds, stepSeconds).map(timestamp => {
+      const h = Math.max(1, Math.round((timestamp.getTime() - lastTime) / (stepSeconds * 1000)));
+      const season = fit.seasonal[(values.length + h - 1) % seasonLength];
+      const predictedValue = fit.level + h * fit.trend + season;
+
+      return this.point(timestamp, predictedValue, Z_95 * fit.errorStddev * Math.sqrt(h));
+    });
+  }
+
+  // When the fitted trend crosses `limit` going up (or down); already past it counts as now
+  static projectToLimit(
+    samples: AlertSample[],
+    limit: number,
+    now: Date = new Date(),
+    direction: 'up' | 'down' = 'up'
+  ): LimitProjection | null {
+    const trend = this.linearTrend(samples);
+    if (!trend) return null;
+
+    const currentValue = trend.intercept + trend.slope * ((now.getTime() - trend.origin) / 1000);
+    const projection: LimitProjection = {
+      currentValue,
+      limit,
+      ratePerDay: trend.slope * 86400,
+      secondsUntilLimit: null,
+      projectedAt: null,
+    };
+
+    const sign = direction === 'up' ? 1 : -1;
+    if ((currentValue - limit) * sign >= 0) {
+      return { ...projection, secondsUntilLimit: 0, projectedAt: now };
+    }
+    if (trend.slope * sign <= 0) {
+      return projection; // flat or moving away from the limit
+    }
+
+    const secondsUntilLimit = (limit - currentValue) / trend.slope;
+    return { ...projection, secondsUntilLimit, projectedAt: new Date(now.getTime() + secondsUntilLimit * 1000) };
+  }
+
+  // The trend's value `seconds` after the projection was made
+  static valueAfter(projection: LimitProjection, seconds: number): number {
+    return projection.currentValue + (projection.ratePerDay / 86400) * seconds;
+  }
+
+  // Buckets samples onto a fixed step, carrying the previous value across empty buckets
+  static regularize(samples: AlertSample[], stepSeconds: number): number[] {
+    if (samples.length === 0) return [];
+
+    const stepMs = stepSeconds * 1000;
+    const sorted = [...samples].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const start = new Date(sorted[0].timestamp).getTime();
+    const buckets: number[][] = [];
+
+    for (const sample of sorted) {
+      const index = Math.floor((new Date(sample.timestamp).getTime() - start) / stepMs);
+      (buckets[index] = buckets[index] || []).push(sample.value);
+    }
+
+    const values: number[] = [];
+    for (let i = 0; i < buckets.length; i++) {
+      const bucket = buckets[i];
+      values.push(bucket ? bucket.reduce((a, b) => a + b, 0) / bucket.length : values[i - 1]);
+    }
+
+    return values;
+  }
+
+  private static fitHoltWinters(
+    values: number[],
+    seasonLength: number,
+    alpha: number,
+    beta: number,
+    gamma: number
+  ): HoltWintersFit {
+    const mean = (slice: number[]) => slice.reduce((a, b) => a + b, 0) / slice.length;
+    const firstSeason = values.slice(0, seasonLength);
+    const secondSeason = values.slice(seasonLength, seasonLength * 2);
+
+    let level = mean(firstSeason);
+    let trend = (mean(secondSeason) - level) / seasonLength;
+    const seasonal = firstSeason.map(value => value - level);
+    let sse = 0;
+    let errors = 0;
+
+    for (let t = seasonLength; t < values.length; t++) {
+      const season = seasonal[t % seasonLength];
+      const error = values[t] - (level + trend + season);
+      sse += error * error;
+      errors++;
+
+      const previousLevel = level;
+      level = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * trend;
+      seasonal[t % seasonLength] = gamma * (values[t] - level) + (1 - gamma) * season;
+    }
+
+    return { level, trend, seasonal, errorStddev: Math.sqrt(sse / Math.max(errors, 1)) };
+  }
+
+  private static steps(from: Date, horizonSeconds: number, stepSeconds: number): Date[] {
+    const count = Math.max(1, Math.floor(horizonSeconds / stepSeconds));
+    return Array.from({ length: count }, (_, i) => new Date(from.getTime() + (i + 1) * stepSeconds * 1000));
+  }
+
+  private static point(timestamp: Date, predictedValue: number, margin: number): ForecastPoint {
+    return {
+      timestamp,
+      predictedValue,
+      confidence: this.CONFIDENCE,
+      upperBound: predictedValue + margin,
+      lowerBound: predictedValue - margin,
+    };
+  }
+}
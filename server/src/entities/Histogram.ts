@@ -0,0 +1,179 @@
+// Explicit-bucket histograms, as sent by OpenTelemetry. counts has one more entry than bounds: bucket i holds
+// observations in (bounds[i - 1], bounds[i]], and the last bucket everything above the last bound.
+export interface MetricHistogram {
+    bounds: number[];
+    counts: number[];
+    count: number;
+    sum?: number;
+    min?: number;
+    max?: number;
+}
+
+// Plain samples (ones without a histogram) that fall in one bucket of a histogram
+export interface HistogramBucketSamples {
+    bucket: number;
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+}
+
+export class HistogramMath {
+    static isValid(histogram: MetricHistogram): boolean {
+        const {bounds, counts} = histogram;
+        return counts.length === bounds.length + 1
+            && bounds.every((bound, index) => Number.isFinite(bound) && (index === 0 || bound > bounds[index - 1]))
+            && counts.every(count => Number.isInteger(count) && count >= 0);
+    }
+
+    // Adds histograms that share the bounds of the first; histograms with other bounds are left out
+    static merge(histograms: MetricHistogram[]): MetricHistogram | null {
+        if (histograms.length === 0) {
+            return null;
+        }
+
+        const bounds = histograms[0].bounds;
+        const compatible = histograms.filter(histogram => this.sameBounds(histogram.bounds, bounds));
+        const defined = (values: (number | undefined)[]) => values.filter((value): value is number => value !== undefined);
+        const mins = defined(compatible.map(histogram => histogram.min));
+        const maxes = defined(compatible.map(histogram => histogram.max));
+        const sums = compatible.map(histogram => histogram.sum);
+
+        return {
+            bounds,
+            counts: histograms[0].counts.map((_, index) => compatible.reduce((total, histogram) => total + histogram.counts[index], 0)),
+            count: compatible.reduce((total, histogram) => total + histogram.count, 0),
+            sum: sums.every(sum => sum !== undefined) ? sums.reduce((total, sum) => total! + sum!, 0) : undefined,
+            min: mins.length === compatible.length ? Math.min(...mins) : undefined,
+            max: maxes.length === compatible.length ? Math.max(...maxes) : undefined,
+        };
+    }
+
+    // Counts plain samples, already sorted into the histogram's buckets, as observations of the histogram.
+    // min and max stay unknown when the histogram's are.
+    static addSamples(histogram: MetricHistogram, samples: HistogramBucketSamples[]): MetricHistogram {
+        const counts = [...histogram.counts];
+        for (const {bucket, count} of samples) {
+            counts[bucket] += count;
+        }
+
+        const added = samples.reduce((total, {count}) => total + count, 0);
+        const addedSum = samples.reduce((total, {sum}) => total + sum, 0);
+
+        return {
+            bounds: histogram.bounds,
+            counts,
+            count: histogram.count + added,
+            sum: histogram.sum !== undefined ? histogram.sum + addedSum : undefined,
+            min: histogram.min !== undefined ? Math.min(histogram.min, ...samples.map(({min}) => min)) : undefined,
+            max: histogram.max !== undefined ? Math.max(histogram.max, ...samples.map(({max}) => max)) : undefined,
+        };
+    }
+
+    // Estimates a quantile by interpolating linearly inside the bucket it falls in, like Prometheus'
+    // histogram_quantile. The lowest bucket starts at min (or 0), and the overflow bucket ends at max
+    // (or the last bound). Null when the histogram is empty.
+    static quantile(histogram: MetricHistogram, q: number): number | null {
+        const {bounds, counts, count} = histogram;
+        if (count === 0) {
+            return null;
+        }
+
+        const rank = q * count;
+        let cumulative = 0;
+
+        for (let index = 0; index < counts.length; index++) {
+            const inBucket = counts[index];
+            if (inBucket === 0 || cumulative + inBucket < rank) {
+                cumulative += inBucket;
+                continue;
+            }
+
+            const lower = index === 0 ? Math.min(histogram.min ?? 0, bounds[0] ?? 0) : bounds[index - 1];
+            const upper = index === bounds.length ? histogram.max ?? bounds[bounds.length - 1] ?? lower : bounds[index];
+            const estimate = lower + (upper - lower) * ((rank - cumulative) / inBucket);
+
+            return this.clamp(estimate, histogram);
+        }
+
+        return this.clamp(bounds[bounds.length - 1] ?? 0, histogram);
+    }
+
+    // The observations made between two cumulative snapshots of the same series, or null when the
+    // counts went down (the series restarted)
+    static subtract(current: MetricHistogram, previous: MetricHistogram): MetricHistogram | null {
+        if (!this.sameBounds(current.bounds, previous.bounds) || current.count < previous.count) {
+            return null;
+        }
+
+        const counts = current.counts.map((count, index) => count - previous.counts[index]);
+        if (counts.some(count => count < 0)) {
+            return null;
+        }
+
+        return {
+            bounds: current.bounds,
+            counts,
+            count: current.count - previous.count,
+            sum: current.sum !== undefined && previous.sum !== undefined ? current.sum - previous.sum : undefined,
+        };
+    }
+
+    static mean(histogram: MetricHistogram): number | null {
+        if (histogram.count === 0) {
+            return null;
+        }
+        return histogram.sum !== undefined ? histogram.sum / histogram.count : this.quantile(histogram, 0.5);
+    }
+
+    private static sameBounds(a: number[], b: number[]): boolean {
+        return a.length === b.length && a.every((bound, index) => bound === b[index]);
+    }
+
+    private static clamp(value: number, histogram: MetricHistogram): number {
+        const low = histogram.min ?? -Infinity;
+        const high = histogram.max ?? Infinity;
+        return Math.min(Math.max(value, low), high);
+    }
+}
+
+interface CumulativeSnapshot {
+    startTime: number;
+    histogram: MetricHistogram;
+    seenAt: number;
+}
+
+// Turns cumulative histograms into per-interval ones by remembering the last snapshot of each series.
+// The first snapshot of a series only sets the baseline: what it counted before then is unknown.
+export class CumulativeHistogramTracker {
+    private snapshots = new Map<string, CumulativeSnapshot>();
+    private maxAgeMs: number;
+
+    constructor(maxAgeMs = 60 * 60 * 1000) {
+        this.maxAgeMs = maxAgeMs;
+    }
+
+    delta(series: string, startTime: number, histogram: MetricHistogram, now: number): MetricHistogram | null {
+        const previous = this.snapshots.get(series);
+        this.snapshots.set(series, {startTime, histogram, seenAt: now});
+
+        if (!previous) {
+            return null;
+        }
+
+        // A new start time, or counts that went down, mean the source restarted and counts again from zero
+        if (previous.startTime !== startTime) {
+            return histogram;
+        }
+        return HistogramMath.subtract(histogram, previous.histogram) ?? histogram;
+    }
+
+    // Forgets series that have stopped reporting
+    prune(now: number): void {
+        for (const [series, snapshot] of this.snapshots) {
+            if (now - snapshot.seenAt > this.maxAgeMs) {
+                this.snapshots.delete(series);
+            }
+        }
+    }
+}
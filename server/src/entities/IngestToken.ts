@@ -0,0 +1,21 @@
+import {createHash, randomBytes} from 'crypto';
+
+// Push endpoints (Prometheus remote-write, OTLP) authenticate with a per-project ingest token, sent as a
+// bearer token. Only its SHA-256 hash is stored, so a token can be shown once and never read back.
+export class IngestTokens {
+    static readonly PREFIX = 'ddi_';
+
+    static generate(): string {
+        return `${this.PREFIX}${randomBytes(24).toString('hex')}`;
+    }
+
+    static hash(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+    // The token of an "Authorization: Bearer <token>" header; null for other schemes and other tokens
+    static fromHeader(header: string | undefined): string | null {
+        const match = /^Bearer\s+(\S+)$/i.exec(header?.trim() || '');
+        return match && match[1].startsWith(this.PREFIX) ? match[1] : null;
+    }
+}
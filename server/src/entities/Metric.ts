@@ -1,19 +1,9 @@
-export type MetricType = 
-  | 'cpu_usage'
-  | 'memory_usage'
-  | 'disk_usage'
-  | 'network_in'
-  | 'network_out'
-  | 'response_time'
-  | 'error_rate'
-  | 'request_count'
-  | 'active_connections'
-  | 'deployment_frequency'
-  | 'lead_time'
-  | 'mttr' // Mean Time To Recovery
-  | 'change_failure_rate'
-  | 'uptime'
-  | 'custom';
+import { HistogramMath, MetricHistogram } from './Histogram';
+import { MetricDefinition } from './MetricCatalog';
+import { QuantileSketch, QuantileSketches } from './QuantileSketch';
+
+// A metric catalog name, such as cpu_usage (see MetricCatalog)
+export type MetricType = string;
 
 export interface Metric {
   id: string;
@@ -28,6 +18,7 @@ export interface Metric {
   source?: string;
   environment?: string;
   aggregation_period?: number; // in seconds
+  histogram?: MetricHistogram; // Set for samples ingested as histograms
 }
 
 export interface MetricAggregation {
@@ -46,6 +37,11 @@ export interface MetricAggregation {
   p99?: number;
 }
 
+// The percentiles the metric API reports, by name
+export const METRIC_PERCENTILES = { p50: 0.5, p90: 0.9, p95: 0.95, p99: 0.99 } as const;
+
+export type MetricPercentile = keyof typeof METRIC_PERCENTILES;
+
 export interface MetricQuery {
   project_id?: string;
   types?: MetricType[];
@@ -71,6 +67,7 @@ export class MetricEntity implements Metric {
   source?: string;
   environment?: string;
   aggregation_period?: number;
+  histogram?: MetricHistogram;
 
   constructor(data: Partial<Metric>) {
     this.id = data.id || '';
@@ -85,9 +82,12 @@ export class MetricEntity implements Metric {
     this.source = data.source;
     this.environment = data.environment;
     this.aggregation_period = data.aggregation_period;
+    this.histogram = data.histogram;
   }
 
-  validate(): string[] {
+  // Bounds come from the metric's catalog definition, and only apply when the sample uses the
+  // definition's unit (a cpu_usage sample in cores is not a percentage)
+  validate(definition?: MetricDefinition): string[] {
     const errors: string[] = [];
     
     if (!this.project_id) {
@@ -102,27 +102,21 @@ export class MetricEntity implements Metric {
       errors.push('Metric value must be a valid number');
     }
     
-    if (this.value < 0 && !this.isNegativeAllowed()) {
-      errors.push(`Negative values are not allowed for metric type: ${this.type}`);
+    if (!definition || (definition.unit && this.unit && definition.unit !== this.unit)) {
+      return errors;
+    }
+    
+    if (definition.min_value !== undefined && this.value < definition.min_value) {
+      errors.push(`${this.type} values must be at least ${definition.min_value}`);
     }
     
-    if (this.isPercentageMetric() && (this.value < 0 || this.value > 100)) {
-      errors.push(`Percentage metrics must be between 0 and 100`);
+    if (definition.max_value !== undefined && this.value > definition.max_value) {
+      errors.push(`${this.type} values must be at most ${definition.max_value}`);
     }
     
     return errors;
   }
 
-  private isNegativeAllowed(): boolean {
-    const negativeAllowedTypes = ['custom', 'network_in', 'network_out'];
-    return negativeAllowedTypes.includes(this.type);
-  }
-
-  private isPercentageMetric(): boolean {
-    const percentageTypes = ['cpu_usage', 'memory_usage', 'disk_usage', 'error_rate', 'uptime', 'change_failure_rate'];
-    return percentageTypes.includes(this.type) && this.unit === '%';
-  }
-
   toAggregation(period: 'minute' | 'hour' | 'day' | 'week' | 'month'): Partial<MetricAggregation> {
     return {
       project_id: this.project_id,
@@ -162,6 +156,29 @@ export class MetricAggregator {
     };
   }
   
+  // Percentiles of histogram samples from their merged buckets
+  static histogramPercentiles(histogram: MetricHistogram): Partial<Record<MetricPercentile, number>> {
+    return this.percentilesOf(q => HistogramMath.quantile(histogram, q));
+  }
+
+  // Percentiles from a quantile sketch of the values, kept within the known min and max
+  static sketchPercentiles(sketch: QuantileSketch, min?: number, max?: number): Partial<Record<MetricPercentile, number>> {
+    return this.percentilesOf(q => QuantileSketches.quantile(sketch, q, min, max));
+  }
+
+  private static percentilesOf(quantile: (q: number) => number | null): Partial<Record<MetricPercentile, number>> {
+    const percentiles: Partial<Record<MetricPercentile, number>> = {};
+
+    for (const [name, q] of Object.entries(METRIC_PERCENTILES)) {
+      const value = quantile(q);
+      if (value !== null) {
+        percentiles[name as MetricPercentile] = value;
+      }
+    }
+
+    return percentiles;
+  }
+
   private static percentile(sortedValues: number[], percentile: number): number {
     const index = (percentile / 100) * (sortedValues.length - 1);
     
@@ -0,0 +1,117 @@
+import { AlertSample } from './Alert';
+
+export type AnomalyDirection = 'above' | 'below' | 'both';
+export type AnomalySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Learned mean and spread of a metric for one hour of the week (UTC), from the last few weeks of samples
+export interface MetricBaseline {
+  project_id: string;
+  metric_type: string;
+  hour_of_week: number; // 0 = Sunday 00:00-01:00 UTC, 167 = Saturday 23:00-24:00 UTC
+  sample_count: number;
+  mean: number;
+  stddev: number;
+  updated_at: Date;
+}
+
+// Shaped like the dashboard's AnomalyData so it can be rendered as-is
+export interface Anomaly {
+  projectId: string;
+  metricType: string;
+  timestamp: Date;
+  value: number;
+  expectedValue: number;
+  stddev: number;
+  sigma: number; // signed number of standard deviations from the baseline mean
+  deviation: number; // percent difference from the expected value
+  severity: AnomalySeverity;
+}
+
+export class BaselineModel {
+  static readonly HOURS_PER_WEEK = 168;
+  static readonly MIN_SAMPLES = 10;
+
+  static hourOfWeek(date: Date): number {
+    return date.getUTCDay() * 24 + date.getUTCHours();
+  }
+
+  // The whole UTC hours in [start, end], which hourly aggregates can answer for; null when there are none
+  static wholeHours(start: Date, end: Date): { from: Date; to: Date } | null {
+    const hour = 60 * 60 * 1000;
+    const from = new Date(Math.ceil(start.getTime() / hour) * hour);
+    const to = new Date(Math.floor(end.getTime() / hour) * hour);
+
+    return from < to ? { from, to } : null;
+  }
+
+  // Slots with too few samples are treated as unknown rather than scored against a noisy mean
+  static forTime(baselines: MetricBaseline[], at: Date): MetricBaseline | null {
+    const hour = this.hourOfWeek(at);
+    const baseline = baselines.find(candidate => candidate.hour_of_week === hour);
+
+    return baseline && baseline.sample_count >= this.MIN_SAMPLES ? baseline : null;
+  }
+
+  static sigma(baseline: MetricBaseline, value: number): number {
+    // A perfectly flat history would make every change infinitely anomalous
+    const stddev = Math.max(baseline.stddev, Math.abs(baseline.mean) * 0.01, 1e-6);
+    return (value - baseline.mean) / stddev;
+  }
+
+  // The value an anomaly condition compares with its threshold
+  static score(baseline: MetricBaseline, value: number, direction: AnomalyDirection = 'both'): number {
+    const sigma = this.sigma(baseline, value);
+
+    switch (direction) {
+      case 'above':
+        return sigma;
+      case 'below':
+        return -sigma;
+      default:
+        return Math.abs(sigma);
+    }
+  }
+
+  static severity(sigma: number): AnomalySeverity {
+    const magnitude = Math.abs(sigma);
+
+    if (magnitude >= 6) return 'critical';
+    if (magnitude >= 4.5) return 'high';
+    if (magnitude >= 3) return 'medium';
+    return 'low';
+  }
+
+  static detect(
+    samples: AlertSample[],
+    baselines: MetricBaseline[],
+    minSigma: number,
+    direction: AnomalyDirection = 'both'
+  ): Anomaly[] {
+    const anomalies: Anomaly[] = [];
+
+    for (const sample of samples) {
+      const timestamp = new Date(sample.timestamp);
+      const baseline = this.forTime(baselines, timestamp);
+
+      if (!baseline || this.score(baseline, sample.value, direction) < minSigma) {
+        continue;
+      }
+
+      const sigma = this.sigma(baseline, sample.value);
+
+      anomalies.push({
+        projectId: baseline.project_id,
+        metricType: baseline.metric_type,
+        timestamp,
+        value: sample.value,
+        expectedValue: baseline.mean,
+        stddev: baseline.stddev,
+        sigma,
+        deviation: baseline.mean !== 0 ? ((sample.value - baseline.mean) / Math.abs(baseline.mean)) * 100 : 0,
+        severity: this.severity(sigma),
+      });
+    }
+
+    return anomalies.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+}
@@ -0,0 +1,110 @@
+export type MetricKind = 'gauge' | 'counter' | 'histogram';
+
+export const METRIC_KINDS: MetricKind[] = ['gauge', 'counter', 'histogram'];
+
+// Metric names are open-ended, but stay identifier-like so they work as query selectors and label values
+export const METRIC_NAME = /^[a-z][a-z0-9_]*$/;
+export const MAX_METRIC_NAME_LENGTH = 100;
+
+export interface MetricDefinition {
+    name: string;
+    kind: MetricKind;
+    unit?: string;
+    description?: string;
+    min_value?: number; // Bounds that samples in the definition's unit must stay within
+    max_value?: number;
+    created_at?: Date;
+    updated_at?: Date;
+}
+
+export const BUILT_IN_METRICS: MetricDefinition[] = [
+    {name: 'cpu_usage', kind: 'gauge', unit: '%', description: 'CPU utilisation', min_value: 0, max_value: 100},
+    {name: 'memory_usage', kind: 'gauge', unit: '%', description: 'Memory utilisation', min_value: 0, max_value: 100},
+    {name: 'disk_usage', kind: 'gauge', unit: '%', description: 'Disk utilisation', min_value: 0, max_value: 100},
+    {name: 'network_in', kind: 'gauge', description: 'Inbound network traffic'},
+    {name: 'network_out', kind: 'gauge', description: 'Outbound network traffic'},
+    {name: 'response_time', kind: 'gauge', unit: 'ms', description: 'Response time', min_value: 0},
+    {name: 'error_rate', kind: 'gauge', unit: '%', description: 'Share of requests that failed', min_value: 0, max_value: 100},
+    {name: 'request_count', kind: 'counter', description: 'Requests served', min_value: 0},
+    {name: 'active_connections', kind: 'gauge', description: 'Open connections', min_value: 0},
+    {name: 'deployment_frequency', kind: 'gauge', description: 'Deployments per day', min_value: 0},
+    {name: 'lead_time', kind: 'gauge', description: 'Time from commit to deployment', min_value: 0},
+    {name: 'mttr', kind: 'gauge', description: 'Mean time to recovery', min_value: 0},
+    {name: 'change_failure_rate', kind: 'gauge', unit: '%', description: 'Share of deployments that failed', min_value: 0, max_value: 100},
+    {name: 'uptime', kind: 'gauge', unit: '%', description: 'Share of time the service was up', min_value: 0, max_value: 100},
+    {name: 'custom', kind: 'gauge', description: 'Samples without a catalog entry; the source name is in metadata.metric_name'},
+];
+
+export class MetricCatalogEntity implements MetricDefinition {
+    name: string;
+    kind: MetricKind;
+    unit?: string;
+    description?: string;
+    min_value?: number;
+    max_value?: number;
+
+    constructor(data: Partial<MetricDefinition>) {
+        this.name = data.name || '';
+        this.kind = data.kind || 'gauge';
+        this.unit = data.unit;
+        this.description = data.description;
+        this.min_value = data.min_value;
+        this.max_value = data.max_value;
+    }
+
+    validate(): string[] {
+        const errors: string[] = [];
+
+        if (!METRIC_NAME.test(this.name) || this.name.length > MAX_METRIC_NAME_LENGTH) {
+            errors.push(`Metric name must be lowercase letters, digits and underscores, starting with a letter, up to ${MAX_METRIC_NAME_LENGTH} characters`);
+        }
+
+        if (!METRIC_KINDS.includes(this.kind)) {
+            errors.push(`Metric kind must be one of: ${METRIC_KINDS.join(', ')}`);
+        }
+
+        if (this.min_value !== undefined && this.max_value !== undefined && this.min_value > this.max_value) {
+            errors.push('Minimum value must not be greater than the maximum value');
+        }
+
+        return errors;
+    }
+}
+
+// The metric names known to the server. Built-in metrics are always present; collectors and the
+// /api/metrics/catalog endpoint add more, and can change a built-in's unit, description or bounds.
+export class MetricCatalog {
+    private definitions = new Map<string, MetricDefinition>();
+
+    constructor(definitions: MetricDefinition[] = BUILT_IN_METRICS) {
+        definitions.forEach(definition => this.register(definition));
+    }
+
+    register(definition: MetricDefinition): void {
+        this.definitions.set(definition.name, definition);
+    }
+
+    get(name: string): MetricDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.definitions.has(name);
+    }
+
+    list(): MetricDefinition[] {
+        return [...this.definitions.values()].sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // The catalog name for a collector's metric name. OpenTelemetry and StatsD names use dots, so "cpu.usage" maps
+    // to cpu_usage; other characters a catalog name can't have become underscores too, and names starting with a
+    // digit get a metric_ prefix. Names not in the catalog yet are registered by the ingesting service (see
+    // MetricCatalogService); a name with nothing usable left is custom.
+    typeFor(name: string): string {
+        const normalized = name.toLowerCase().replace(/[^a-z0-9_]/g, '_').replace(/^_+/, '');
+        if (normalized === '') {
+            return 'custom';
+        }
+        return (/^[0-9]/.test(normalized) ? `metric_${normalized}` : normalized).slice(0, MAX_METRIC_NAME_LENGTH);
+    }
+}
@@ -0,0 +1,734 @@
+export type LabelMatcherOperator = '=' | '!=' | '=~' | '!~';
+export type RangeFunction =
+  | 'avg_over_time'
+  | 'min_over_time'
+  | 'max_over_time'
+  | 'sum_over_time'
+  | 'count_over_time'
+  | 'rate'
+  | 'increase';
+export type AggregateOperator = 'sum' | 'avg' | 'min' | 'max' | 'count';
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+export interface LabelMatcher {
+  label: string;
+  operator: LabelMatcherOperator;
+  value: string;
+}
+
+// A metric name plus label matchers; `project` matches the project ID, other labels match metric tags
+export interface VectorSelector {
+  metric: string;
+  matchers: LabelMatcher[];
+}
+
+export type QueryNode =
+  | { type: 'number'; value: number }
+  | { type: 'selector'; selector: VectorSelector }
+  | { type: 'call'; func: RangeFunction; selector: VectorSelector; range_seconds: number }
+  | { type: 'aggregate'; operator: AggregateOperator; by: string[]; argument: QueryNode }
+  | { type: 'binary'; operator: ArithmeticOperator; left: QueryNode; right: QueryNode };
+
+export type QueryValueType = 'scalar' | 'vector';
+
+export interface QuerySample {
+  timestamp: number; // epoch milliseconds
+  value: number;
+}
+
+// Stored samples for one series, oldest first; labels include __name__ and project
+export interface QuerySeries {
+  labels: Record<string, string>;
+  samples: QuerySample[];
+}
+
+export interface QueryRange {
+  start: Date;
+  end: Date;
+  step_seconds: number;
+}
+
+export interface QueryResultSeries {
+  labels: Record<string, string>;
+  points: [number, number][]; // [unix seconds, value]
+}
+
+export type QueryResult =
+  | { type: 'scalar'; points: [number, number][] }
+  | { type: 'vector'; series: QueryResultSeries[] };
+
+export class InvalidMetricQueryError extends Error {
+  status = 400;
+  code = 'INVALID_QUERY';
+  position: number;
+
+  constructor(position: number, reason: string) {
+    super(`Invalid query at column ${position + 1}: ${reason}`);
+    this.name = 'InvalidMetricQueryError';
+    this.position = position;
+  }
+}
+
+export class QueryLimitError extends Error {
+  status = 422;
+  code = 'QUERY_TOO_LARGE';
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryLimitError';
+  }
+}
+
+// How far back an instant selector looks for the latest sample, as in Prometheus
+export const LOOKBACK_SECONDS = 5 * 60;
+export const MAX_QUERY_LENGTH = 2000;
+
+const RANGE_FUNCTIONS: RangeFunction[] = [
+  'avg_over_time',
+  'min_over_time',
+  'max_over_time',
+  'sum_over_time',
+  'count_over_time',
+  'rate',
+  'increase',
+];
+const AGGREGATE_OPERATORS: AggregateOperator[] = ['sum', 'avg', 'min', 'max', 'count'];
+const DURATION_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+const METRIC_LABEL = '__name__';
+
+type TokenType = 'identifier' | 'number' | 'duration' | 'string' | 'operator' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export class MetricQueryParser {
+  // Parses a PromQL-style expression, e.g.
+  //   avg_over_time(cpu_usage{project="<id>",env="prod"}[5m])
+  //   sum by (region) (rate(request_count[1m]))
+  //   error_count / request_count * 100
+  static parse(query: string): QueryNode {
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new InvalidMetricQueryError(MAX_QUERY_LENGTH, `query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const parser = new QueryParser(tokenize(query));
+    const node = parser.parseExpression();
+    parser.expectEnd();
+
+    return node;
+  }
+
+  static valueType(node: QueryNode): QueryValueType {
+    switch (node.type) {
+      case 'number':
+        return 'scalar';
+      case 'binary':
+        return this.valueType(node.left) === 'scalar' && this.valueType(node.right) === 'scalar' ? 'scalar' : 'vector';
+      default:
+        return 'vector';
+    }
+  }
+
+  // Every selector the query reads, with how much history before each step it needs
+  static selectors(node: QueryNode): { selector: VectorSelector; lookback_seconds: number }[] {
+    switch (node.type) {
+      case 'number':
+        return [];
+      case 'selector':
+        return [{ selector: node.selector, lookback_seconds: LOOKBACK_SECONDS }];
+      case 'call':
+        return [{ selector: node.selector, lookback_seconds: node.range_seconds }];
+      case 'aggregate':
+        return this.selectors(node.argument);
+      case 'binary':
+        return [...this.selectors(node.left), ...this.selectors(node.right)];
+    }
+  }
+
+  static formatSelector(selector: VectorSelector): string {
+    const matchers = selector.matchers
+      .map(matcher => `${matcher.label}${matcher.operator}${JSON.stringify(matcher.value)}`)
+      .join(',');
+
+    return matchers ? `${selector.metric}{${matchers}}` : selector.metric;
+  }
+}
+
+export class MetricQueryEvaluator {
+  // Evaluates the query at every step from start to end. `data` holds the stored series for
+  // each selector, keyed by MetricQueryParser.formatSelector, already filtered by its matchers.
+  static evaluate(node: QueryNode, range: QueryRange, data: Map<string, QuerySeries[]>): QueryResult {
+    const steps = this.steps(range);
+    const evaluator = new StepEvaluator(steps, data);
+
+    if (MetricQueryParser.valueType(node) === 'scalar') {
+      return { type: 'scalar', points: points(steps, evaluator.scalar(node)) };
+    }
+
+    return {
+      type: 'vector',
+      series: evaluator.vector(node)
+        .map(series => ({ labels: series.labels, points: points(steps, series.values) }))
+        .filter(series => series.points.length > 0),
+    };
+  }
+
+  static steps(range: QueryRange): number[] {
+    const stepMs = Math.max(range.step_seconds, 1) * 1000;
+    const steps: number[] = [];
+
+    for (let time = range.start.getTime(); time <= range.end.getTime(); time += stepMs) {
+      steps.push(time);
+    }
+
+    return steps;
+  }
+
+  static matches(labels: Record<string, string>, selector: VectorSelector): boolean {
+    if (labels[METRIC_LABEL] !== selector.metric) {
+      return false;
+    }
+
+    return selector.matchers.every(matcher => {
+      const value = labels[matcher.label] ?? '';
+
+      switch (matcher.operator) {
+        case '=':
+          return value === matcher.value;
+        case '!=':
+          return value !== matcher.value;
+        case '=~':
+          return new RegExp(`^(?:${matcher.value})$`).test(value);
+        case '!~':
+          return !new RegExp(`^(?:${matcher.value})$`).test(value);
+        default:
+          return false;
+      }
+    });
+  }
+}
+
+// Per-step values: a scalar is one number per step, a vector one value per step for each series
+type StepValues = (number | undefined)[];
+type StepVector = { labels: Record<string, string>; values: StepValues }[];
+
+class StepEvaluator {
+  private steps: number[];
+  private data: Map<string, QuerySeries[]>;
+
+  constructor(steps: number[], data: Map<string, QuerySeries[]>) {
+    this.steps = steps;
+    this.data = data;
+  }
+
+  scalar(node: QueryNode): StepValues {
+    switch (node.type) {
+      case 'number':
+        return this.steps.map(() => node.value);
+      case 'binary': {
+        const left = this.scalar(node.left);
+        const right = this.scalar(node.right);
+        return left.map((value, index) => applyArithmetic(node.operator, value, right[index]));
+      }
+      default:
+        throw new Error(`Expected a scalar expression, got ${node.type}`);
+    }
+  }
+
+  vector(node: QueryNode): StepVector {
+    switch (node.type) {
+      case 'selector':
+        return this.series(node.selector).map(series => ({
+          labels: series.labels,
+          values: this.steps.map(step => latestSample(series.samples, step)),
+        }));
+      case 'call':
+        return this.series(node.selector).map(series => ({
+          labels: withoutName(series.labels),
+          values: this.steps.map(step =>
+            applyRangeFunction(node.func, window(series.samples, step, node.range_seconds), node.range_seconds)
+          ),
+        }));
+      case 'aggregate':
+        return this.aggregate(node.operator, node.by, this.vector(node.argument));
+      case 'binary':
+        return this.binary(node.operator, node.left, node.right);
+      default:
+        throw new Error(`Expected a vector expression, got ${node.type}`);
+    }
+  }
+
+  private series(selector: VectorSelector): QuerySeries[] {
+    return this.data.get(MetricQueryParser.formatSelector(selector)) || [];
+  }
+
+  private aggregate(operator: AggregateOperator, by: string[], vector: StepVector): StepVector {
+    const groups = new Map<string, { labels: Record<string, string>; members: StepVector }>();
+
+    for (const series of vector) {
+      const labels = Object.fromEntries(
+        by.filter(label => series.labels[label] !== undefined).map(label => [label, series.labels[label]])
+      );
+      const key = JSON.stringify(labels);
+
+      if (!groups.has(key)) {
+        groups.set(key, { labels, members: [] });
+      }
+      groups.get(key)!.members.push(series);
+    }
+
+    return [...groups.values()].map(group => ({
+      labels: group.labels,
+      values: this.steps.map((_, index) => {
+        const values = group.members
+          .map(member => member.values[index])
+          .filter((value): value is number => value !== undefined);
+
+        return values.length > 0 ? combine(operator, values) : undefined;
+      }),
+    }));
+  }
+
+  // Vector/vector operations match series one-to-one on all labels except the metric name
+  private binary(operator: ArithmeticOperator, leftNode: QueryNode, rightNode: QueryNode): StepVector {
+    if (MetricQueryParser.valueType(leftNode) === 'scalar') {
+      const left = this.scalar(leftNode);
+
+      return this.vector(rightNode).map(series => ({
+        labels: withoutName(series.labels),
+        values: series.values.map((value, index) => applyArithmetic(operator, left[index], value)),
+      }));
+    }
+
+    if (MetricQueryParser.valueType(rightNode) === 'scalar') {
+      const right = this.scalar(rightNode);
+
+      return this.vector(leftNode).map(series => ({
+        labels: withoutName(series.labels),
+        values: series.values.map((value, index) => applyArithmetic(operator, value, right[index])),
+      }));
+    }
+
+    const bySignature = new Map(this.vector(rightNode).map(series => [signature(series.labels), series]));
+
+    return this.vector(leftNode).flatMap(series => {
+      const match = bySignature.get(signature(series.labels));
+      if (!match) return [];
+
+      return [{
+        labels: withoutName(series.labels),
+        values: series.values.map((value, index) => applyArithmetic(operator, value, match.values[index])),
+      }];
+    });
+  }
+}
+
+function points(steps: number[], values: StepValues): [number, number][] {
+  return steps.flatMap((step, index) => {
+    const value = values[index];
+    return value === undefined ? [] : [[step / 1000, value] as [number, number]];
+  });
+}
+
+function withoutName(labels: Record<string, string>): Record<string, string> {
+  const rest = { ...labels };
+  delete rest[METRIC_LABEL];
+  return rest;
+}
+
+function signature(labels: Record<string, string>): string {
+  return JSON.stringify(Object.entries(withoutName(labels)).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function latestSample(samples: QuerySample[], at: number): number | undefined {
+  const recent = window(samples, at, LOOKBACK_SECONDS);
+  return recent.length > 0 ? recent[recent.length - 1].value : undefined;
+}
+
+// Samples in (at - range, at]; samples are sorted, so both ends are found by binary search
+function window(samples: QuerySample[], at: number, rangeSeconds: number): QuerySample[] {
+  return samples.slice(firstAfter(samples, at - rangeSeconds * 1000), firstAfter(samples, at));
+}
+
+function firstAfter(samples: QuerySample[], time: number): number {
+  let low = 0;
+  let high = samples.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (samples[middle].timestamp <= time) low = middle + 1;
+    else high = middle;
+  }
+
+  return low;
+}
+
+function applyRangeFunction(func: RangeFunction, samples: QuerySample[], rangeSeconds: number): number | undefined {
+  if (samples.length === 0) return undefined;
+
+  const values = samples.map(sample => sample.value);
+
+  switch (func) {
+    case 'avg_over_time':
+      return combine('avg', values);
+    case 'min_over_time':
+      return combine('min', values);
+    case 'max_over_time':
+      return combine('max', values);
+    case 'sum_over_time':
+      return combine('sum', values);
+    case 'count_over_time':
+      return values.length;
+    case 'rate':
+    case 'increase': {
+      const perSecond = counterRate(samples);
+      if (perSecond === undefined) return undefined;
+      return func === 'rate' ? perSecond : perSecond * rangeSeconds;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Per-second increase between the first and last samples; a drop is treated as a counter reset
+function counterRate(samples: QuerySample[]): number | undefined {
+  if (samples.length < 2) return undefined;
+
+  let increase = 0;
+  for (let index = 1; index < samples.length; index++) {
+    const previous = samples[index - 1].value;
+    const current = samples[index].value;
+    increase += current >= previous ? current - previous : current;
+  }
+
+  const seconds = (samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000;
+  return seconds > 0 ? increase / seconds : undefined;
+}
+
+function combine(operator: AggregateOperator, values: number[]): number {
+  switch (operator) {
+    case 'sum':
+      return values.reduce((a, b) => a + b, 0);
+    case 'avg':
+      return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'count':
+      return values.length;
+  }
+}
+
+// Missing operands and non-finite results, e.g. division by zero, leave a gap
+function applyArithmetic(operator: ArithmeticOperator, a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined || b === undefined) return undefined;
+
+  let result: number;
+  switch (operator) {
+    case '+':
+      result = a + b;
+      break;
+    case '-':
+      result = a - b;
+      break;
+    case '*':
+      result = a * b;
+      break;
+    case '/':
+      result = a / b;
+      break;
+  }
+
+  return Number.isFinite(result) ? result : undefined;
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /(\d+[smhdw](?![A-Za-z0-9_]))|(\d+(?:\.\d+)?(?:e[+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_.]*)|"((?:[^"\\]|\\.)*)"|(=~|!~|!=|=|\+|-|\*|\/)|([(){}[\],])/y;
+  let position = 0;
+
+  for (;;) {
+    while (position < query.length && /\s/.test(query[position])) position++;
+    if (position >= query.length) break;
+
+    pattern.lastIndex = position;
+    const match = pattern.exec(query);
+    if (!match) {
+      throw new InvalidMetricQueryError(position, `unexpected character "${query[position]}"`);
+    }
+
+    if (match[1] !== undefined) tokens.push({ type: 'duration', value: match[1], position });
+    else if (match[2] !== undefined) tokens.push({ type: 'number', value: match[2], position });
+    else if (match[3] !== undefined) tokens.push({ type: 'identifier', value: match[3], position });
+    else if (match[4] !== undefined) tokens.push({ type: 'string', value: match[4].replace(/\\(.)/g, '$1'), position });
+    else if (match[5] !== undefined) tokens.push({ type: 'operator', value: match[5], position });
+    else tokens.push({ type: 'punctuation', value: match[6], position });
+
+    position = pattern.lastIndex;
+  }
+
+  tokens.push({ type: 'end', value: '', position: query.length });
+  return tokens;
+}
+
+// Recursive descent over:
+//   expression := term (("+" | "-") term)*
+//   term       := unary (("*" | "/") unary)*
+//   unary      := "-" unary | primary
+//   primary    := number | "(" expression ")" | aggregate | call | selector
+//   aggregate  := operator [by] "(" expression ")" [by]     by := "by" "(" label ("," label)* ")"
+//   call       := function "(" selector "[" duration "]" ")"
+//   selector   := metric ["{" label op string ("," label op string)* "}"]
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parseExpression(): QueryNode {
+    let node = this.parseTerm();
+
+    while (this.isOperator('+') || this.isOperator('-')) {
+      const operator = this.next().value as ArithmeticOperator;
+      node = { type: 'binary', operator, left: node, right: this.parseTerm() };
+    }
+
+    return node;
+  }
+
+  expectEnd(): void {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new InvalidMetricQueryError(token.position, `expected an operator or the end of the query but found "${token.value}"`);
+    }
+  }
+
+  private parseTerm(): QueryNode {
+    let node = this.parseUnary();
+
+    while (this.isOperator('*') || this.isOperator('/')) {
+      const operator = this.next().value as ArithmeticOperator;
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() };
+    }
+
+    return node;
+  }
+
+  private parseUnary(): QueryNode {
+    if (this.isOperator('-')) {
+      this.index++;
+      const operand = this.parseUnary();
+
+      return operand.type === 'number'
+        ? { type: 'number', value: -operand.value }
+        : { type: 'binary', operator: '*', left: { type: 'number', value: -1 }, right: operand };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      return { type: 'number', value: parseFloat(token.value) };
+    }
+
+    if (this.isPunctuation('(')) {
+      this.index++;
+      const node = this.parseExpression();
+      this.expectPunctuation(')');
+      return node;
+    }
+
+    if (token.type !== 'identifier') {
+      throw new InvalidMetricQueryError(token.position, token.type === 'end'
+        ? 'expected a metric, function or number but the query ended'
+        : `expected a metric, function or number but found "${token.value}"`);
+    }
+
+    if (AGGREGATE_OPERATORS.includes(token.value as AggregateOperator)) {
+      return this.parseAggregate();
+    }
+
+    if (RANGE_FUNCTIONS.includes(token.value as RangeFunction)) {
+      return this.parseCall();
+    }
+
+    if (this.peekAt(1).type === 'punctuation' && this.peekAt(1).value === '(') {
+      throw new InvalidMetricQueryError(
+        token.position,
+        `unknown function "${token.value}"; expected one of ${[...AGGREGATE_OPERATORS, ...RANGE_FUNCTIONS].join(', ')}`
+      );
+    }
+
+    const selector = this.parseSelector();
+
+    if (this.isPunctuation('[')) {
+      throw new InvalidMetricQueryError(this.peek().position, 'a range selector can only be used inside a function such as rate()');
+    }
+
+    return { type: 'selector', selector };
+  }
+
+  private parseAggregate(): QueryNode {
+    const operator = this.next().value as AggregateOperator;
+    let by = this.parseBy();
+
+    this.expectPunctuation('(');
+    const argumentPosition = this.peek().position;
+    const argument = this.parseExpression();
+    this.expectPunctuation(')');
+
+    if (MetricQueryParser.valueType(argument) !== 'vector') {
+      throw new InvalidMetricQueryError(argumentPosition, `${operator}() needs a vector, not a number`);
+    }
+
+    if (by.length === 0) {
+      by = this.parseBy();
+    }
+
+    return { type: 'aggregate', operator, by, argument };
+  }
+
+  private parseBy(): string[] {
+    const token = this.peek();
+    if (token.type !== 'identifier' || token.value !== 'by') {
+      return [];
+    }
+
+    this.index++;
+    this.expectPunctuation('(');
+
+    const labels: string[] = [];
+    for (;;) {
+      labels.push(this.expectLabel());
+      if (!this.isPunctuation(',')) break;
+      this.index++;
+    }
+
+    this.expectPunctuation(')');
+    return labels;
+  }
+
+  private parseCall(): QueryNode {
+    const func = this.next().value as RangeFunction;
+
+    this.expectPunctuation('(');
+    const selector = this.parseSelector();
+
+    const open = this.next();
+    if (open.type !== 'punctuation' || open.value !== '[') {
+      throw new InvalidMetricQueryError(open.position, `${func}() needs a range selector such as ${selector.metric}[5m]`);
+    }
+
+    const duration = this.next();
+    if (duration.type !== 'duration') {
+      throw new InvalidMetricQueryError(duration.position, 'expected a duration such as 30s, 5m or 1h');
+    }
+
+    this.expectPunctuation(']');
+    this.expectPunctuation(')');
+
+    const unit = duration.value[duration.value.length - 1];
+    const rangeSeconds = parseInt(duration.value, 10) * DURATION_SECONDS[unit];
+    if (rangeSeconds <= 0) {
+      throw new InvalidMetricQueryError(duration.position, 'range must be greater than 0');
+    }
+
+    return { type: 'call', func, selector, range_seconds: rangeSeconds };
+  }
+
+  private parseSelector(): VectorSelector {
+    const name = this.next();
+    if (name.type !== 'identifier') {
+      throw new InvalidMetricQueryError(name.position, 'expected a metric name');
+    }
+
+    const selector: VectorSelector = { metric: name.value, matchers: [] };
+
+    if (!this.isPunctuation('{')) {
+      return selector;
+    }
+
+    this.index++;
+    while (!this.isPunctuation('}')) {
+      const label = this.expectLabel();
+
+      const operator = this.next();
+      if (operator.type !== 'operator' || !['=', '!=', '=~', '!~'].includes(operator.value)) {
+        throw new InvalidMetricQueryError(operator.position, `expected =, !=, =~ or !~ after ${label}`);
+      }
+
+      const value = this.next();
+      if (value.type !== 'string') {
+        throw new InvalidMetricQueryError(value.position, `expected a quoted value for ${label}`);
+      }
+
+      if (operator.value === '=~' || operator.value === '!~') {
+        try {
+          new RegExp(value.value);
+        } catch {
+          throw new InvalidMetricQueryError(value.position, 'value is not a valid regular expression');
+        }
+      }
+
+      selector.matchers.push({ label, operator: operator.value as LabelMatcherOperator, value: value.value });
+
+      if (!this.isPunctuation(',')) break;
+      this.index++;
+    }
+
+    this.expectPunctuation('}');
+    return selector;
+  }
+
+  private expectLabel(): string {
+    const token = this.next();
+    if (token.type !== 'identifier' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(token.value)) {
+      throw new InvalidMetricQueryError(token.position, 'expected a label name');
+    }
+
+    return token.value;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      throw new InvalidMetricQueryError(token.position, token.type === 'end'
+        ? `expected "${value}" but the query ended`
+        : `expected "${value}" but found "${token.value}"`);
+    }
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peekAt(offset: number): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+}
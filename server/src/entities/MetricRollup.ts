@@ -0,0 +1,94 @@
+import {TimeSeriesInterval} from './TimeSeries';
+import {parseDuration} from '../utils/duration';
+
+export type RollupTier = '1m' | '1h' | '1d';
+export type RetentionTier = 'raw' | RollupTier;
+
+export const RETENTION_TIERS: RetentionTier[] = ['raw', '1m', '1h', '1d'];
+
+export interface RollupTierConfig {
+    tier: RollupTier;
+    table: string;
+    unit: 'minute' | 'hour' | 'day'; // date_trunc unit of the tier's buckets
+    seconds: number;
+    refreshSeconds: number; // How often the tier is recomputed
+    lookbackSeconds: number; // Recent buckets are recomputed on every refresh, to take in late samples
+    chunkSeconds: number; // Catching up after downtime rolls this much raw data per statement
+}
+
+// Finest first
+export const ROLLUP_TIERS: RollupTierConfig[] = [
+    {tier: '1m', table: 'metrics_1m', unit: 'minute', seconds: 60, refreshSeconds: 60, lookbackSeconds: 5 * 60, chunkSeconds: 86400},
+    {tier: '1h', table: 'metrics_1h', unit: 'hour', seconds: 3600, refreshSeconds: 300, lookbackSeconds: 2 * 3600, chunkSeconds: 7 * 86400},
+    {tier: '1d', table: 'metrics_1d', unit: 'day', seconds: 86400, refreshSeconds: 3600, lookbackSeconds: 2 * 86400, chunkSeconds: 30 * 86400},
+];
+
+// Durations such as "30d" per tier, as configured in the environment or a project's settings.retention
+export type RetentionSettings = Partial<Record<RetentionTier, string>>;
+
+// Seconds to keep each tier for; null keeps it forever
+export type RetentionPolicy = Record<RetentionTier, number | null>;
+
+// Raw samples are kept forever unless configured, since they cannot be recovered from the rollups
+export const DEFAULT_RETENTION: RetentionSettings = {'1m': '7d', '1h': '90d'};
+
+// Every tier is rolled up from raw samples, so they must outlive the longest lookback
+export const MIN_RAW_RETENTION_SECONDS = Math.max(...ROLLUP_TIERS.map(tier => tier.lookbackSeconds));
+
+export class RetentionPolicies {
+    static fromEnv(env: NodeJS.ProcessEnv = process.env): RetentionSettings {
+        return {
+            raw: env.METRICS_RETENTION_RAW || DEFAULT_RETENTION.raw,
+            '1m': env.METRICS_RETENTION_1M || DEFAULT_RETENTION['1m'],
+            '1h': env.METRICS_RETENTION_1H || DEFAULT_RETENTION['1h'],
+            '1d': env.METRICS_RETENTION_1D || DEFAULT_RETENTION['1d'],
+        };
+    }
+
+    // Project overrides win over the defaults; "forever" in an override keeps a tier the defaults would prune
+    static resolve(defaults: RetentionSettings, overrides: RetentionSettings = {}): RetentionPolicy {
+        const policy = {} as RetentionPolicy;
+
+        for (const tier of RETENTION_TIERS) {
+            const setting = overrides[tier] ?? defaults[tier];
+            const seconds = setting && setting !== 'forever' ? parseDuration(setting) : null;
+            policy[tier] = tier === 'raw' && seconds !== null ? Math.max(seconds, MIN_RAW_RETENTION_SECONDS) : seconds;
+        }
+
+        return policy;
+    }
+
+    // The raw retention every project keeps at most; samples older than that can go for all projects at once.
+    // Null when a project keeps raw samples forever, or there are no projects.
+    static sharedRawRetention(policies: RetentionPolicy[]): number | null {
+        const retentions = policies.map(policy => policy.raw);
+        if (retentions.length === 0 || retentions.some(retention => retention === null)) {
+            return null;
+        }
+        return Math.max(...(retentions as number[]));
+    }
+
+    static isValid(setting: string): boolean {
+        return setting === 'forever' || parseDuration(setting) !== null;
+    }
+}
+
+export class RollupPlanner {
+    // The coarsest tier whose buckets fit evenly into the interval and that is still kept at the start of the range;
+    // null means the range has to be read from raw samples. Months fit daily buckets, which are grouped by the calendar.
+    static pickTier(interval: TimeSeriesInterval, start: Date, now: Date, policy: RetentionPolicy): RollupTierConfig | null {
+        const candidates = ROLLUP_TIERS
+            .filter(tier => tier.seconds <= interval.seconds && interval.seconds % tier.seconds === 0)
+            .reverse();
+
+        return candidates.find(tier => {
+            const retention = policy[tier.tier];
+            return retention === null || start.getTime() >= now.getTime() - retention * 1000;
+        }) || null;
+    }
+
+    // The start of the bucket a time falls in (UTC)
+    static bucketStart(tier: RollupTierConfig, time: Date): Date {
+        return new Date(Math.floor(time.getTime() / (tier.seconds * 1000)) * tier.seconds * 1000);
+    }
+}
@@ -0,0 +1,24 @@
+export interface ProjectNotificationChannel {
+  id: string;
+  project_id: string;
+  name: string;
+  type: string; // a type registered in NotificationChannelRegistry, e.g. pagerduty
+  config: Record<string, unknown>; // credentials and endpoint settings for the channel type
+  enabled: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Types registered by NotificationChannelRegistry.withDefaults
+export const NOTIFICATION_CHANNEL_TYPES = ['email', 'slack', 'webhook', 'pagerduty', 'teams', 'discord', 'opsgenie'];
+
+const CHANNEL_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rules and escalation policies name a channel either by type or by the id of a project channel
+export function isChannelReference(value: string): boolean {
+  return NOTIFICATION_CHANNEL_TYPES.includes(value) || CHANNEL_ID.test(value);
+}
+
+export function isChannelId(value: string): boolean {
+  return CHANNEL_ID.test(value);
+}
@@ -0,0 +1,32 @@
+export type NotificationTemplateEvent = 'triggered' | 'resolved' | 'acknowledged' | 'escalated';
+
+export const NOTIFICATION_TEMPLATE_EVENTS: NotificationTemplateEvent[] = ['triggered', 'resolved', 'acknowledged', 'escalated'];
+
+export interface NotificationTemplate {
+  id: string;
+  project_id?: string; // unset for server-wide templates used when a project has none
+  channel: string; // notification channel type, e.g. email or pagerduty
+  event: NotificationTemplateEvent;
+  subject?: string; // email subject or message title
+  body: string; // Handlebars source; HTML for email, JSON for webhook, text elsewhere
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Maps the event recorded on an outbox notification to the template that renders it
+export function templateEventFor(notificationEvent: string): NotificationTemplateEvent | null {
+  switch (notificationEvent) {
+    case 'alert.triggered':
+    case 'alert_group.firing':
+      return 'triggered';
+    case 'alert.resolved':
+    case 'alert_group.resolved':
+      return 'resolved';
+    case 'alert.acknowledged':
+      return 'acknowledged';
+    case 'alert.escalated':
+      return 'escalated';
+    default:
+      return null;
+  }
+}
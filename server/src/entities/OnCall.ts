@@ -0,0 +1,274 @@
+import { isChannelReference } from './NotificationChannel';
+import {
+  getLocalDayNumber,
+  getZonedParts,
+  isValidTimeZone,
+  isWithinWeeklyWindow,
+  parseLocalDate,
+  parseTimeOfDay,
+  validateWeeklyWindow,
+} from '../utils/timezone';
+
+export type EscalationTargetType = 'schedule' | 'user' | 'channel';
+
+// Restricts a rotation layer to part of the week, e.g. business hours
+export interface OnCallRestriction {
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+}
+
+export interface OnCallRotation {
+  name: string;
+  participants: string[]; // user ids, in hand-off order
+  rotation_days: number; // 1 = daily, 7 = weekly
+  handoff_time: string; // HH:mm in the schedule timezone
+  start_date: string; // YYYY-MM-DD in the schedule timezone; the first participant's first shift
+  restriction?: OnCallRestriction;
+}
+
+export interface OnCallSchedule {
+  id: string;
+  project_id?: string;
+  name: string;
+  description?: string;
+  timezone: string;
+  rotations: OnCallRotation[]; // later rotations take precedence over earlier ones
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OnCallOverride {
+  id: string;
+  schedule_id: string;
+  user_id: string;
+  starts_at: Date;
+  ends_at: Date;
+  reason?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface OnCallShift {
+  schedule_id: string;
+  user_id: string;
+  source: 'rotation' | 'override';
+  rotation?: string;
+  override_id?: string;
+}
+
+export interface EscalationTarget {
+  type: EscalationTargetType;
+  id?: string; // schedule or user id
+  channel?: string; // a channel type such as slack, or the id of a project notification channel
+}
+
+export interface EscalationStep {
+  delay_minutes: number; // wait after the previous step before notifying this one
+  targets: EscalationTarget[];
+}
+
+export interface EscalationPolicy {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  steps: EscalationStep[];
+  repeat_count: number; // times to restart from the first step after the last one
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class OnCallScheduleEntity implements OnCallSchedule {
+  id: string;
+  project_id?: string;
+  name: string;
+  description?: string;
+  timezone: string;
+  rotations: OnCallRotation[];
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: Partial<OnCallSchedule>) {
+    this.id = data.id || '';
+    this.project_id = data.project_id;
+    this.name = data.name || '';
+    this.description = data.description;
+    this.timezone = data.timezone || 'UTC';
+    this.rotations = data.rotations || [];
+    this.created_at = data.created_at || new Date();
+    this.updated_at = data.updated_at || new Date();
+  }
+
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Schedule name is required');
+    }
+
+    if (!isValidTimeZone(this.timezone)) {
+      errors.push(`Invalid schedule timezone: ${this.timezone}`);
+    }
+
+    if (this.rotations.length === 0) {
+      errors.push('At least one rotation is required');
+    }
+
+    this.rotations.forEach((rotation, index) => {
+      const label = `Rotation ${rotation.name || index + 1}`;
+
+      if (!Array.isArray(rotation.participants) || rotation.participants.length === 0) {
+        errors.push(`${label} needs at least one participant`);
+      }
+
+      if (!Number.isInteger(rotation.rotation_days) || rotation.rotation_days < 1) {
+        errors.push(`${label} length must be a whole number of days`);
+      }
+
+      if (parseTimeOfDay(rotation.handoff_time) === null) {
+        errors.push(`${label} hand-off time must use the HH:mm format`);
+      }
+
+      if (parseLocalDate(rotation.start_date) === null) {
+        errors.push(`${label} start date must use the YYYY-MM-DD format`);
+      }
+
+      if (rotation.restriction) {
+        errors.push(...validateWeeklyWindow({ ...rotation.restriction, timezone: this.timezone }, `${label} restriction`));
+      }
+    });
+
+    return errors;
+  }
+
+  // Overrides win, then the last rotation layer that is covering the given time
+  whoIsOnCall(at: Date = new Date(), overrides: OnCallOverride[] = []): OnCallShift | null {
+    const override = overrides
+      .filter(o => o.schedule_id === this.id && o.starts_at <= at && o.ends_at > at)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())[0];
+
+    if (override) {
+      return { schedule_id: this.id, user_id: override.user_id, source: 'override', override_id: override.id };
+    }
+
+    for (let i = this.rotations.length - 1; i >= 0; i--) {
+      const rotation = this.rotations[i];
+      const userId = this.participantAt(rotation, at);
+
+      if (userId) {
+        return { schedule_id: this.id, user_id: userId, source: 'rotation', rotation: rotation.name };
+      }
+    }
+
+    return null;
+  }
+
+  // Shifts are counted in local calendar days so hand-offs stay at the same wall-clock
+  // time across daylight saving changes
+  private participantAt(rotation: OnCallRotation, at: Date): string | null {
+    const handoff = parseTimeOfDay(rotation.handoff_time);
+    const startDay = parseLocalDate(rotation.start_date);
+    if (handoff === null || startDay === null || rotation.participants.length === 0) return null;
+
+    if (rotation.restriction && !isWithinWeeklyWindow(at, { ...rotation.restriction, timezone: this.timezone })) {
+      return null;
+    }
+
+    const local = getZonedParts(at, this.timezone);
+    let day = getLocalDayNumber(at, this.timezone);
+    if (local.hour * 60 + local.minute < handoff) {
+      day -= 1; // Still the previous day's shift until the hand-off time
+    }
+
+    const elapsed = day - startDay;
+    if (elapsed < 0) return null;
+
+    const shift = Math.floor(elapsed / Math.max(rotation.rotation_days, 1));
+    return rotation.participants[shift % rotation.participants.length];
+  }
+}
+
+export class EscalationPolicyEntity implements EscalationPolicy {
+  id: string;
+  project_id: string;
+  name: string;
+  description?: string;
+  steps: EscalationStep[];
+  repeat_count: number;
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: Partial<EscalationPolicy>) {
+    this.id = data.id || '';
+    this.project_id = data.project_id || '';
+    this.name = data.name || '';
+    this.description = data.description;
+    this.steps = data.steps || [];
+    this.repeat_count = data.repeat_count ?? 0;
+    this.created_at = data.created_at || new Date();
+    this.updated_at = data.updated_at || new Date();
+  }
+
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.project_id) {
+      errors.push('Project ID is required');
+    }
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Policy name is required');
+    }
+
+    if (this.steps.length === 0) {
+      errors.push('At least one escalation step is required');
+    }
+
+    if (!Number.isInteger(this.repeat_count) || this.repeat_count < 0) {
+      errors.push('Repeat count must be a non-negative integer');
+    }
+
+    this.steps.forEach((step, index) => {
+      const label = `Step ${index + 1}`;
+
+      if (typeof step.delay_minutes !== 'number' || step.delay_minutes < 0) {
+        errors.push(`${label} delay must not be negative`);
+      }
+
+      if (!Array.isArray(step.targets) || step.targets.length === 0) {
+        errors.push(`${label} needs at least one target`);
+        return;
+      }
+
+      for (const target of step.targets) {
+        if (target.type === 'channel') {
+          if (!target.channel || !isChannelReference(target.channel)) {
+            errors.push(`${label} has an unknown channel: ${target.channel}`);
+          }
+        } else if (target.type === 'schedule' || target.type === 'user') {
+          if (!target.id) {
+            errors.push(`${label} ${target.type} target needs an id`);
+          }
+        } else {
+          errors.push(`${label} has an unknown target type: ${target.type}`);
+        }
+      }
+    });
+
+    return errors;
+  }
+
+  // Works out where the escalation goes after `step` fires; null means it is finished
+  nextStep(step: number, repeat: number): { step: number; repeat: number } | null {
+    if (step + 1 < this.steps.length) {
+      return { step: step + 1, repeat };
+    }
+
+    if (repeat < this.repeat_count) {
+      return { step: 0, repeat: repeat + 1 };
+    }
+
+    return null;
+  }
+}
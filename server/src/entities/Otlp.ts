@@ -0,0 +1,422 @@
+import {HistogramMath, MetricHistogram} from './Histogram';
+import {FieldValue, ProtobufReader, ProtobufWriter} from './Protobuf';
+
+// OTLP metrics (ExportMetricsServiceRequest), decoded from JSON or protobuf into one shape.
+// Gauges, sums and explicit-bucket histograms are kept; exponential histograms and summaries are only counted.
+
+export type Attributes = Record<string, string>;
+
+export type OtlpTemporality = 'unspecified' | 'delta' | 'cumulative';
+
+export interface OtlpDataPoint {
+    attributes: Attributes;
+    startTime?: number; // Unix milliseconds
+    time: number;
+    value?: number; // Gauges and sums
+    histogram?: MetricHistogram;
+}
+
+export interface OtlpMetric {
+    name: string;
+    unit?: string;
+    kind: 'gauge' | 'sum' | 'histogram';
+    temporality: OtlpTemporality;
+    monotonic: boolean;
+    points: OtlpDataPoint[];
+}
+
+export interface OtlpResourceMetrics {
+    attributes: Attributes; // Resource attributes, e.g. service.name
+    metrics: OtlpMetric[];
+    unsupportedPoints: number;
+}
+
+export class InvalidOtlpError extends Error {
+    status = 400;
+    code = 'INVALID_OTLP';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidOtlpError';
+    }
+}
+
+const TEMPORALITIES: OtlpTemporality[] = ['unspecified', 'delta', 'cumulative'];
+
+const fail = (message: string) => new InvalidOtlpError(message);
+
+// JSON-encoded OTLP carries 64-bit integers as strings
+const toNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const number = Number(value);
+        return Number.isNaN(number) && value !== 'NaN' ? undefined : number;
+    }
+    return undefined;
+};
+
+const nanosToMillis = (value: unknown): number | undefined => {
+    const nanos = toNumber(value);
+    return nanos === undefined || nanos === 0 ? undefined : Math.floor(nanos / 1e6);
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const list = (value: unknown, path: string): unknown[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        throw new InvalidOtlpError(`${path} must be an array`);
+    }
+    return value;
+};
+
+const object = (value: unknown, path: string): JsonObject => {
+    if (!isObject(value)) {
+        throw new InvalidOtlpError(`${path} must be an object`);
+    }
+    return value;
+};
+
+export class OtlpDecoder {
+    static fromJson(body: unknown): OtlpResourceMetrics[] {
+        const request = object(body, 'request');
+
+        return list(request.resourceMetrics, 'resourceMetrics').map((entry, resourceIndex) => {
+            const path = `resourceMetrics[${resourceIndex}]`;
+            const resourceMetrics = object(entry, path);
+            const resource = isObject(resourceMetrics.resource) ? resourceMetrics.resource : {};
+            const metrics: OtlpMetric[] = [];
+            let unsupportedPoints = 0;
+
+            list(resourceMetrics.scopeMetrics, `${path}.scopeMetrics`).forEach((scope, scopeIndex) => {
+                const scopePath = `${path}.scopeMetrics[${scopeIndex}]`;
+
+                list(object(scope, scopePath).metrics, `${scopePath}.metrics`).forEach((item, metricIndex) => {
+                    const metricPath = `${scopePath}.metrics[${metricIndex}]`;
+                    const metric = object(item, metricPath);
+                    const decoded = this.jsonMetric(metric, metricPath);
+
+                    if (decoded) {
+                        metrics.push(decoded);
+                    } else {
+                        const data = metric.exponentialHistogram ?? metric.summary;
+                        unsupportedPoints += isObject(data) ? list(data.dataPoints, `${metricPath}.dataPoints`).length : 0;
+                    }
+                });
+            });
+
+            return {attributes: this.jsonAttributes(resource.attributes, `${path}.resource.attributes`), metrics, unsupportedPoints};
+        });
+    }
+
+    // ExportMetricsServiceRequest { repeated ResourceMetrics resource_metrics = 1; }
+    static fromProtobuf(body: Uint8Array): OtlpResourceMetrics[] {
+        const resources: OtlpResourceMetrics[] = [];
+
+        ProtobufReader.fields(body, (field, value) => {
+            if (field === 1 && value instanceof Uint8Array) {
+                resources.push(this.protoResourceMetrics(value));
+            }
+        }, fail);
+
+        return resources;
+    }
+
+    private static jsonMetric(metric: JsonObject, path: string): OtlpMetric | null {
+        const name = typeof metric.name === 'string' ? metric.name : '';
+        const unit = typeof metric.unit === 'string' && metric.unit !== '' ? metric.unit : undefined;
+
+        if (isObject(metric.gauge)) {
+            const points = list(metric.gauge.dataPoints, `${path}.gauge.dataPoints`).map(point => this.jsonNumberPoint(point, path));
+            return {name, unit, kind: 'gauge', temporality: 'unspecified', monotonic: false, points};
+        }
+
+        if (isObject(metric.sum)) {
+            const points = list(metric.sum.dataPoints, `${path}.sum.dataPoints`).map(point => this.jsonNumberPoint(point, path));
+            return {
+                name,
+                unit,
+                kind: 'sum',
+                temporality: this.temporality(metric.sum.aggregationTemporality),
+                monotonic: metric.sum.isMonotonic === true,
+                points,
+            };
+        }
+
+        if (isObject(metric.histogram)) {
+            const points = list(metric.histogram.dataPoints, `${path}.histogram.dataPoints`).map(point => this.jsonHistogramPoint(point, path));
+            return {
+                name,
+                unit,
+                kind: 'histogram',
+                temporality: this.temporality(metric.histogram.aggregationTemporality),
+                monotonic: false,
+                points,
+            };
+        }
+
+        return null;
+    }
+
+    private static jsonNumberPoint(value: unknown, path: string): OtlpDataPoint {
+        const point = object(value, `${path} data point`);
+
+        return {
+            attributes: this.jsonAttributes(point.attributes, `${path} data point attributes`),
+            startTime: nanosToMillis(point.startTimeUnixNano),
+            time: nanosToMillis(point.timeUnixNano) ?? Date.now(),
+            value: toNumber(point.asDouble) ?? toNumber(point.asInt),
+        };
+    }
+
+    private static jsonHistogramPoint(value: unknown, path: string): OtlpDataPoint {
+        const point = object(value, `${path} data point`);
+        const histogram: MetricHistogram = {
+            bounds: list(point.explicitBounds, `${path} explicitBounds`).map(bound => toNumber(bound) ?? NaN),
+            counts: list(point.bucketCounts, `${path} bucketCounts`).map(count => toNumber(count) ?? NaN),
+            count: toNumber(point.count) ?? 0,
+            sum: toNumber(point.sum),
+            min: toNumber(point.min),
+            max: toNumber(point.max),
+        };
+
+        return {
+            attributes: this.jsonAttributes(point.attributes, `${path} data point attributes`),
+            startTime: nanosToMillis(point.startTimeUnixNano),
+            time: nanosToMillis(point.timeUnixNano) ?? Date.now(),
+            histogram: this.checkHistogram(histogram, path),
+        };
+    }
+
+    private static jsonAttributes(value: unknown, path: string): Attributes {
+        const attributes: Attributes = {};
+
+        for (const entry of list(value, path)) {
+            if (isObject(entry) && typeof entry.key === 'string') {
+                attributes[entry.key] = this.jsonAnyValue(entry.value);
+            }
+        }
+
+        return attributes;
+    }
+
+    private static jsonAnyValue(value: unknown): string {
+        if (!isObject(value)) return '';
+        if (typeof value.stringValue === 'string') return value.stringValue;
+        if (value.boolValue !== undefined) return String(value.boolValue === true);
+        if (value.intValue !== undefined) return String(value.intValue);
+        if (value.doubleValue !== undefined) return String(value.doubleValue);
+        if (isObject(value.arrayValue)) {
+            return JSON.stringify(list(value.arrayValue.values, 'arrayValue').map(item => this.jsonAnyValue(item)));
+        }
+        if (isObject(value.kvlistValue)) {
+            return JSON.stringify(this.jsonAttributes(value.kvlistValue.values, 'kvlistValue'));
+        }
+        if (typeof value.bytesValue === 'string') return value.bytesValue;
+        return '';
+    }
+
+    // Enums are integers in OTLP JSON, but some exporters send their names
+    private static temporality(value: unknown): OtlpTemporality {
+        if (typeof value === 'string' && value.startsWith('AGGREGATION_TEMPORALITY_')) {
+            const name = value.slice('AGGREGATION_TEMPORALITY_'.length).toLowerCase();
+            return TEMPORALITIES.includes(name as OtlpTemporality) ? name as OtlpTemporality : 'unspecified';
+        }
+        return TEMPORALITIES[toNumber(value) ?? 0] ?? 'unspecified';
+    }
+
+    // ResourceMetrics { Resource resource = 1; repeated ScopeMetrics scope_metrics = 2; }
+    private static protoResourceMetrics(message: Uint8Array): OtlpResourceMetrics {
+        const resource: OtlpResourceMetrics = {attributes: {}, metrics: [], unsupportedPoints: 0};
+
+        this.fields(message, (field, value) => {
+            if (field === 1) {
+                // Resource { repeated KeyValue attributes = 1; }
+                this.fields(value, (resourceField, attribute) => {
+                    if (resourceField === 1) this.protoKeyValue(attribute, resource.attributes);
+                });
+            } else if (field === 2) {
+                // ScopeMetrics { InstrumentationScope scope = 1; repeated Metric metrics = 2; }
+                this.fields(value, (scopeField, metric) => {
+                    if (scopeField === 2) this.protoMetric(metric, resource);
+                });
+            }
+        });
+
+        return resource;
+    }
+
+    // Metric { string name = 1; string unit = 3; oneof data { Gauge gauge = 5; Sum sum = 7; Histogram histogram = 9;
+    // ExponentialHistogram exponential_histogram = 10; Summary summary = 11; } }
+    private static protoMetric(message: FieldValue, resource: OtlpResourceMetrics): void {
+        let name = '';
+        let unit: string | undefined;
+        const data: OtlpMetric[] = [];
+
+        this.fields(message, (field, value) => {
+            if (field === 1) {
+                name = ProtobufReader.string(value);
+            } else if (field === 3) {
+                unit = ProtobufReader.string(value) || undefined;
+            } else if (field === 5 || field === 7 || field === 9) {
+                data.push(this.protoData(field, value));
+            } else if (field === 10 || field === 11) {
+                // Both keep their data points in field 1
+                this.fields(value, dataField => {
+                    if (dataField === 1) resource.unsupportedPoints++;
+                });
+            }
+        });
+
+        for (const metric of data) {
+            resource.metrics.push({...metric, name, unit});
+        }
+    }
+
+    // Gauge { repeated NumberDataPoint data_points = 1; }
+    // Sum { repeated NumberDataPoint data_points = 1; AggregationTemporality aggregation_temporality = 2; bool is_monotonic = 3; }
+    // Histogram { repeated HistogramDataPoint data_points = 1; AggregationTemporality aggregation_temporality = 2; }
+    private static protoData(field: number, message: FieldValue): OtlpMetric {
+        const kind = field === 5 ? 'gauge' : field === 7 ? 'sum' : 'histogram';
+        const metric: OtlpMetric = {name: '', kind, temporality: 'unspecified', monotonic: false, points: []};
+
+        this.fields(message, (dataField, value) => {
+            if (dataField === 1) {
+                metric.points.push(kind === 'histogram' ? this.protoHistogramPoint(value) : this.protoNumberPoint(value));
+            } else if (dataField === 2 && typeof value === 'number') {
+                metric.temporality = TEMPORALITIES[value] ?? 'unspecified';
+            } else if (dataField === 3 && typeof value === 'number') {
+                metric.monotonic = value === 1;
+            }
+        });
+
+        return metric;
+    }
+
+    // NumberDataPoint { fixed64 start_time_unix_nano = 2; fixed64 time_unix_nano = 3; double as_double = 4;
+    // sfixed64 as_int = 6; repeated KeyValue attributes = 7; }
+    private static protoNumberPoint(message: FieldValue): OtlpDataPoint {
+        const point: OtlpDataPoint = {attributes: {}, time: Date.now()};
+
+        this.fields(message, (field, value) => {
+            if (field === 2) point.startTime = nanosToMillis(ProtobufReader.fixed64(value));
+            else if (field === 3) point.time = nanosToMillis(ProtobufReader.fixed64(value)) ?? point.time;
+            else if (field === 4) point.value = ProtobufReader.double(value);
+            else if (field === 6) point.value = ProtobufReader.fixed64(value, true);
+            else if (field === 7) this.protoKeyValue(value, point.attributes);
+        });
+
+        return point;
+    }
+
+    // HistogramDataPoint { fixed64 start_time_unix_nano = 2; fixed64 time_unix_nano = 3; fixed64 count = 4;
+    // double sum = 5; repeated fixed64 bucket_counts = 6; repeated double explicit_bounds = 7;
+    // repeated KeyValue attributes = 9; double min = 11; double max = 12; }
+    private static protoHistogramPoint(message: FieldValue): OtlpDataPoint {
+        const point: OtlpDataPoint = {attributes: {}, time: Date.now()};
+        const histogram: MetricHistogram = {bounds: [], counts: [], count: 0};
+
+        this.fields(message, (field, value) => {
+            if (field === 2) point.startTime = nanosToMillis(ProtobufReader.fixed64(value));
+            else if (field === 3) point.time = nanosToMillis(ProtobufReader.fixed64(value)) ?? point.time;
+            else if (field === 4) histogram.count = ProtobufReader.fixed64(value) ?? 0;
+            else if (field === 5) histogram.sum = ProtobufReader.double(value);
+            else if (field === 6) histogram.counts.push(...ProtobufReader.packed64(value, item => ProtobufReader.fixed64(item)));
+            else if (field === 7) histogram.bounds.push(...ProtobufReader.packed64(value, item => ProtobufReader.double(item)));
+            else if (field === 9) this.protoKeyValue(value, point.attributes);
+            else if (field === 11) histogram.min = ProtobufReader.double(value);
+            else if (field === 12) histogram.max = ProtobufReader.double(value);
+        });
+
+        point.histogram = this.checkHistogram(histogram, 'histogram');
+        return point;
+    }
+
+    // KeyValue { string key = 1; AnyValue value = 2; }
+    private static protoKeyValue(message: FieldValue, into: Attributes): void {
+        let key = '';
+        let text = '';
+
+        this.fields(message, (field, value) => {
+            if (field === 1) key = ProtobufReader.string(value);
+            else if (field === 2) text = this.protoAnyValue(value);
+        });
+
+        into[key] = text;
+    }
+
+    // AnyValue { oneof value { string string_value = 1; bool bool_value = 2; int64 int_value = 3;
+    // double double_value = 4; ArrayValue array_value = 5; KeyValueList kvlist_value = 6; bytes bytes_value = 7; } }
+    private static protoAnyValue(message: FieldValue): string {
+        let text = '';
+
+        this.fields(message, (field, value) => {
+            if (field === 1) {
+                text = ProtobufReader.string(value);
+            } else if (field === 2) {
+                text = String(value === 1);
+            } else if (field === 3) {
+                text = String(value);
+            } else if (field === 4) {
+                text = String(ProtobufReader.double(value));
+            } else if (field === 5) {
+                const items: string[] = [];
+                this.fields(value, (arrayField, item) => {
+                    if (arrayField === 1) items.push(this.protoAnyValue(item));
+                });
+                text = JSON.stringify(items);
+            } else if (field === 6) {
+                const entries: Attributes = {};
+                this.fields(value, (listField, entry) => {
+                    if (listField === 1) this.protoKeyValue(entry, entries);
+                });
+                text = JSON.stringify(entries);
+            } else if (field === 7 && value instanceof Uint8Array) {
+                text = Buffer.from(value).toString('base64');
+            }
+        });
+
+        return text;
+    }
+
+    // A histogram point with no buckets (only count and sum) is treated as a single bucket
+    private static checkHistogram(histogram: MetricHistogram, path: string): MetricHistogram {
+        const checked = histogram.counts.length === 0 ? {...histogram, counts: [histogram.count]} : histogram;
+
+        if (!HistogramMath.isValid(checked)) {
+            throw new InvalidOtlpError(`${path} has bucket counts that do not match its explicit bounds`);
+        }
+        return checked;
+    }
+
+    private static fields(message: FieldValue, visit: (field: number, value: FieldValue) => void): void {
+        if (message instanceof Uint8Array) {
+            ProtobufReader.fields(message, visit, fail);
+        }
+    }
+}
+
+// ExportMetricsServiceResponse, with partial_success set when some data points were not stored
+export class OtlpResponse {
+    static json(rejectedDataPoints: number, errorMessage: string): Record<string, unknown> {
+        return rejectedDataPoints > 0
+            ? {partialSuccess: {rejectedDataPoints: String(rejectedDataPoints), errorMessage}}
+            : {};
+    }
+
+    // ExportMetricsServiceResponse { ExportMetricsPartialSuccess partial_success = 1; }
+    // ExportMetricsPartialSuccess { int64 rejected_data_points = 1; string error_message = 2; }
+    static protobuf(rejectedDataPoints: number, errorMessage: string): Buffer {
+        if (rejectedDataPoints === 0) {
+            return Buffer.alloc(0);
+        }
+
+        const partialSuccess = new ProtobufWriter()
+            .varintField(1, rejectedDataPoints)
+            .stringField(2, errorMessage)
+            .toBuffer();
+        return new ProtobufWriter().bytesField(1, partialSuccess).toBuffer();
+    }
+}
@@ -1,3 +1,6 @@
+import { AlertGroupingConfig } from './AlertGroup';
+import { RetentionSettings } from './MetricRollup';
+
 export interface Project {
   id: string;
   name: string;
@@ -24,6 +27,16 @@ export interface ProjectSettings {
   alert_thresholds: AlertThresholds;
   deployment_config?: DeploymentConfig;
   notification_preferences?: NotificationPreferences;
+  alert_grouping?: Partial<AlertGroupingConfig>;
+  scrape_targets?: ScrapeTarget[];
+  retention?: RetentionSettings; // Overrides the METRICS_RETENTION_* defaults for the project's samples and rollups
+}
+
+// A Prometheus /metrics endpoint the scrape collector pulls for the project
+export interface ScrapeTarget {
+  url: string;
+  bearer_token?: string;
+  labels?: Record<string, string>; // Added as tags to every scraped sample
 }
 
 export interface AlertThresholds {
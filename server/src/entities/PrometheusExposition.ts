@@ -0,0 +1,354 @@
+// Prometheus text exposition format, version 0.0.4
+
+export type MetricFamilyType = 'counter' | 'gauge' | 'histogram';
+
+export type Labels = Record<string, string>;
+
+export interface ExpositionSample {
+    name: string; // Histograms expose _bucket, _sum and _count samples under one family
+    labels: Labels;
+    value: number;
+}
+
+export interface MetricFamily {
+    name: string;
+    help: string;
+    type: MetricFamilyType;
+    samples: ExpositionSample[];
+}
+
+// Samples read from a scrape or a remote-write request, before they are stored as metrics
+export interface PrometheusSample {
+    value: number;
+    timestamp?: number; // Unix milliseconds; absent when the exposition did not give one
+}
+
+export interface PrometheusSeries {
+    labels: Labels; // Includes __name__
+    samples: PrometheusSample[];
+}
+
+export class InvalidExpositionError extends Error {
+    status = 400;
+    code = 'INVALID_EXPOSITION';
+    line: number;
+
+    constructor(line: number, reason: string) {
+        super(`Invalid exposition at line ${line}: ${reason}`);
+        this.name = 'InvalidExpositionError';
+        this.line = line;
+    }
+}
+
+export const EXPOSITION_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class PrometheusExposition {
+    static format(families: MetricFamily[]): string {
+        const lines: string[] = [];
+
+        for (const family of families) {
+            lines.push(`# HELP ${family.name} ${this.escapeHelp(family.help)}`);
+            lines.push(`# TYPE ${family.name} ${family.type}`);
+
+            for (const sample of family.samples) {
+                lines.push(`${sample.name}${this.formatLabels(sample.labels)} ${this.formatValue(sample.value)}`);
+            }
+        }
+
+        return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    }
+
+    // Metric names may only contain letters, digits, underscores and colons, and not start with a digit
+    static metricName(raw: string): string {
+        const name = raw.replace(/[^A-Za-z0-9_:]/g, '_');
+        return /^[0-9]/.test(name) ? `_${name}` : name;
+    }
+
+    // Label names follow the same rules without colons; names starting with __ are reserved, so callers skip them
+    static labelName(raw: string): string {
+        const name = raw.replace(/[^A-Za-z0-9_]/g, '_');
+        return /^[0-9]/.test(name) ? `_${name}` : name;
+    }
+
+    static formatValue(value: number): string {
+        if (Number.isNaN(value)) return 'NaN';
+        if (value === Infinity) return '+Inf';
+        if (value === -Infinity) return '-Inf';
+        return String(value);
+    }
+
+    private static formatLabels(labels: Labels): string {
+        const pairs = Object.entries(labels).map(([name, value]) => `${name}="${this.escapeLabelValue(value)}"`);
+        return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+    }
+
+    private static escapeLabelValue(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    }
+
+    private static escapeHelp(help: string): string {
+        return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    }
+}
+
+// Reads the text format that /metrics endpoints serve. Comments, including HELP and TYPE, are skipped:
+// histogram and summary samples arrive as their own _bucket, _sum and _count series.
+export class PrometheusTextParser {
+    static parse(text: string): PrometheusSeries[] {
+        const series = new Map<string, PrometheusSeries>();
+
+        text.split('\n').forEach((raw, index) => {
+            const line = raw.trim();
+            if (line === '' || line.startsWith('#')) {
+                return;
+            }
+
+            const {labels, sample} = this.parseLine(line, index + 1);
+            const key = labelKey(labels);
+
+            if (!series.has(key)) {
+                series.set(key, {labels, samples: []});
+            }
+            series.get(key)!.samples.push(sample);
+        });
+
+        return [...series.values()];
+    }
+
+    private static parseLine(line: string, number: number): { labels: Labels; sample: PrometheusSample } {
+        const name = /^[A-Za-z_:][A-Za-z0-9_:]*/.exec(line);
+        if (!name) {
+            throw new InvalidExpositionError(number, 'expected a metric name');
+        }
+
+        const labels: Labels = {__name__: name[0]};
+        let position = name[0].length;
+
+        if (line[position] === '{') {
+            position++;
+
+            for (;;) {
+                position = this.skipSpaces(line, position);
+                if (line[position] === '}') {
+                    position++;
+                    break;
+                }
+
+                const label = /^[A-Za-z_][A-Za-z0-9_]*/.exec(line.slice(position));
+                if (!label) {
+                    throw new InvalidExpositionError(number, `expected a label name at column ${position + 1}`);
+                }
+                position = this.skipSpaces(line, position + label[0].length);
+
+                if (line[position] !== '=' || line[this.skipSpaces(line, position + 1)] !== '"') {
+                    throw new InvalidExpositionError(number, `expected ="value" after label ${label[0]}`);
+                }
+
+                const value = this.readQuoted(line, this.skipSpaces(line, position + 1), number);
+                labels[label[0]] = value.text;
+                position = this.skipSpaces(line, value.end);
+
+                if (line[position] === ',') {
+                    position++;
+                } else if (line[position] !== '}') {
+                    throw new InvalidExpositionError(number, `expected , or } at column ${position + 1}`);
+                }
+            }
+        }
+
+        const fields = line.slice(position).trim().split(/\s+/);
+        if (fields.length < 1 || fields.length > 2 || fields[0] === '') {
+            throw new InvalidExpositionError(number, 'expected a value and an optional timestamp');
+        }
+
+        const value = this.parseValue(fields[0]);
+        if (value === null) {
+            throw new InvalidExpositionError(number, `${fields[0]} is not a number`);
+        }
+
+        const timestamp = fields[1] === undefined ? undefined : Number(fields[1]);
+        if (timestamp !== undefined && !Number.isInteger(timestamp)) {
+            throw new InvalidExpositionError(number, `${fields[1]} is not a millisecond timestamp`);
+        }
+
+        return {labels, sample: {value, timestamp}};
+    }
+
+    private static parseValue(text: string): number | null {
+        if (text === 'NaN') return NaN;
+        if (text === '+Inf' || text === 'Inf') return Infinity;
+        if (text === '-Inf') return -Infinity;
+
+        const value = Number(text);
+        return Number.isNaN(value) ? null : value;
+    }
+
+    // Reads a double-quoted label value starting at the opening quote, undoing \\, \" and \n escapes
+    private static readQuoted(line: string, start: number, number: number): { text: string; end: number } {
+        let text = '';
+
+        for (let position = start + 1; position < line.length; position++) {
+            const char = line[position];
+
+            if (char === '"') {
+                return {text, end: position + 1};
+            }
+            if (char === '\\') {
+                const next = line[++position];
+                text += next === 'n' ? '\n' : next;
+            } else {
+                text += char;
+            }
+        }
+
+        throw new InvalidExpositionError(number, 'unterminated label value');
+    }
+
+    private static skipSpaces(line: string, position: number): number {
+        while (line[position] === ' ' || line[position] === '\t') {
+            position++;
+        }
+        return position;
+    }
+}
+
+// Label sets are keyed independently of the order their labels were given in
+const labelKey = (labels: Labels): string =>
+    JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+export class Counter {
+    readonly name: string;
+    readonly help: string;
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    inc(labels: Labels = {}, by = 1): void {
+        if (by < 0) {
+            throw new Error(`Counter ${this.name} cannot decrease`);
+        }
+
+        const key = labelKey(labels);
+        const current = this.values.get(key);
+        this.values.set(key, {labels, value: (current?.value || 0) + by});
+    }
+
+    collect(): MetricFamily {
+        return {
+            name: this.name,
+            help: this.help,
+            type: 'counter',
+            samples: [...this.values.values()].map(({labels, value}) => ({name: this.name, labels, value})),
+        };
+    }
+}
+
+export class Gauge {
+    readonly name: string;
+    readonly help: string;
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(name: string, help: string) {
+        this.name = name;
+        this.help = help;
+    }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(labelKey(labels), {labels, value});
+    }
+
+    get(labels: Labels = {}): number | undefined {
+        return this.values.get(labelKey(labels))?.value;
+    }
+
+    collect(): MetricFamily {
+        return {
+            name: this.name,
+            help: this.help,
+            type: 'gauge',
+            samples: [...this.values.values()].map(({labels, value}) => ({name: this.name, labels, value})),
+        };
+    }
+}
+
+export class Histogram {
+    readonly name: string;
+    readonly help: string;
+    private buckets: number[];
+    private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+    constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+        this.name = name;
+        this.help = help;
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let series = this.values.get(key);
+
+        if (!series) {
+            series = {labels, counts: this.buckets.map(() => 0), sum: 0, count: 0};
+            this.values.set(key, series);
+        }
+
+        // Buckets are cumulative: an observation counts towards every bucket whose bound it is within
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) {
+                series!.counts[index]++;
+            }
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    collect(): MetricFamily {
+        const samples: ExpositionSample[] = [];
+
+        for (const {labels, counts, sum, count} of this.values.values()) {
+            this.buckets.forEach((bound, index) => {
+                samples.push({name: `${this.name}_bucket`, labels: {...labels, le: PrometheusExposition.formatValue(bound)}, value: counts[index]});
+            });
+            samples.push({name: `${this.name}_bucket`, labels: {...labels, le: '+Inf'}, value: count});
+            samples.push({name: `${this.name}_sum`, labels, value: sum});
+            samples.push({name: `${this.name}_count`, labels, value: count});
+        }
+
+        return {name: this.name, help: this.help, type: 'histogram', samples};
+    }
+}
+
+// Holds instruments for the lifetime of the process, in the order they were registered
+export class MetricsRegistry {
+    private instruments: (Counter | Gauge | Histogram)[] = [];
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    gauge(name: string, help: string): Gauge {
+        return this.register(new Gauge(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    families(): MetricFamily[] {
+        return this.instruments.map(instrument => instrument.collect());
+    }
+
+    private register<T extends Counter | Gauge | Histogram>(instrument: T): T {
+        if (this.instruments.some(existing => existing.name === instrument.name)) {
+            throw new Error(`Metric ${instrument.name} is already registered`);
+        }
+
+        this.instruments.push(instrument);
+        return instrument;
+    }
+}
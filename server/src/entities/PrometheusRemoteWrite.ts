@@ -0,0 +1,149 @@
+import {Labels, PrometheusSample, PrometheusSeries} from './PrometheusExposition';
+import {FieldValue, ProtobufReader} from './Protobuf';
+
+// Decoding of Prometheus remote-write 1.0 requests: a snappy-compressed (block format) protobuf WriteRequest
+
+export class InvalidRemoteWriteError extends Error {
+    status = 400;
+    code = 'INVALID_REMOTE_WRITE';
+
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidRemoteWriteError';
+    }
+}
+
+const fail = (message: string) => new InvalidRemoteWriteError(message);
+
+// Upper bound on the decompressed size of one request, well above what Prometheus sends by default
+export const MAX_REMOTE_WRITE_BYTES = 32 * 1024 * 1024;
+
+export class SnappyDecoder {
+    static decompress(input: Uint8Array): Buffer {
+        const reader = new ProtobufReader(input, fail);
+        const length = reader.varint();
+
+        if (length > MAX_REMOTE_WRITE_BYTES) {
+            throw new InvalidRemoteWriteError(`Decompressed request of ${length} bytes exceeds the limit of ${MAX_REMOTE_WRITE_BYTES}`);
+        }
+
+        const output = Buffer.alloc(length);
+        let written = 0;
+
+        while (!reader.done()) {
+            const tag = reader.byte();
+            let size: number;
+            let offset: number;
+
+            if ((tag & 0x03) === 0) {
+                // Literal: the length is in the tag, or in the 1-4 little-endian bytes after it
+                size = tag >> 2;
+                if (size >= 60) {
+                    size = reader.littleEndian(size - 59);
+                }
+                size += 1;
+
+                if (written + size > length) {
+                    throw new InvalidRemoteWriteError('Snappy literal runs past the declared length');
+                }
+                output.set(reader.bytes(size), written);
+                written += size;
+                continue;
+            }
+
+            if ((tag & 0x03) === 1) {
+                size = ((tag >> 2) & 0x07) + 4;
+                offset = ((tag >> 5) << 8) | reader.byte();
+            } else if ((tag & 0x03) === 2) {
+                size = (tag >> 2) + 1;
+                offset = reader.littleEndian(2);
+            } else {
+                size = (tag >> 2) + 1;
+                offset = reader.littleEndian(4);
+            }
+
+            if (offset === 0 || offset > written || written + size > length) {
+                throw new InvalidRemoteWriteError('Snappy copy refers outside the decompressed data');
+            }
+
+            // Copies may overlap the bytes they produce, so they go one byte at a time
+            for (let index = 0; index < size; index++) {
+                output[written] = output[written - offset];
+                written++;
+            }
+        }
+
+        if (written !== length) {
+            throw new InvalidRemoteWriteError(`Snappy data decompressed to ${written} bytes, expected ${length}`);
+        }
+
+        return output;
+    }
+}
+
+export class RemoteWriteDecoder {
+    // WriteRequest { repeated TimeSeries timeseries = 1; ... }
+    static decode(body: Uint8Array): PrometheusSeries[] {
+        const series: PrometheusSeries[] = [];
+
+        this.fields(body, (field, value) => {
+            if (field === 1 && value instanceof Uint8Array) {
+                series.push(this.timeSeries(value));
+            }
+        });
+
+        return series;
+    }
+
+    // TimeSeries { repeated Label labels = 1; repeated Sample samples = 2; ... }
+    private static timeSeries(message: Uint8Array): PrometheusSeries {
+        const labels: Labels = {};
+        const samples: PrometheusSample[] = [];
+
+        this.fields(message, (field, value) => {
+            if (!(value instanceof Uint8Array)) return;
+
+            if (field === 1) {
+                const label = this.label(value);
+                labels[label.name] = label.value;
+            } else if (field === 2) {
+                samples.push(this.sample(value));
+            }
+        });
+
+        return {labels, samples};
+    }
+
+    // Label { string name = 1; string value = 2; }
+    private static label(message: Uint8Array): { name: string; value: string } {
+        let name = '';
+        let value = '';
+
+        this.fields(message, (field, data) => {
+            if (field === 1) name = ProtobufReader.string(data);
+            if (field === 2) value = ProtobufReader.string(data);
+        });
+
+        return {name, value};
+    }
+
+    // Sample { double value = 1; int64 timestamp = 2; }
+    private static sample(message: Uint8Array): PrometheusSample {
+        let value = 0;
+        let timestamp = 0;
+
+        this.fields(message, (field, data) => {
+            if (field === 1) {
+                value = ProtobufReader.double(data) ?? value;
+            } else if (field === 2 && typeof data === 'number') {
+                timestamp = data;
+            }
+        });
+
+        return {value, timestamp};
+    }
+
+    private static fields(message: Uint8Array, visit: (field: number, value: FieldValue) => void): void {
+        ProtobufReader.fields(message, visit, fail);
+    }
+}
@@ -0,0 +1,156 @@
+// Protocol buffer wire format, read without generated code: decoders walk a message's fields by number.
+// Varints come back as numbers and every other wire type as its raw bytes.
+
+export type FieldValue = number | Uint8Array;
+
+export type DecodeFailure = (message: string) => Error;
+
+export class ProtobufReader {
+    private data: Uint8Array;
+    private position = 0;
+    private fail: DecodeFailure;
+
+    constructor(data: Uint8Array, fail: DecodeFailure = message => new Error(message)) {
+        this.data = data;
+        this.fail = fail;
+    }
+
+    // Calls back with each field of a message in the order they appear
+    static fields(message: Uint8Array, visit: (field: number, value: FieldValue) => void, fail?: DecodeFailure): void {
+        const reader = new ProtobufReader(message, fail);
+
+        while (!reader.done()) {
+            const key = reader.varint();
+            const field = Math.floor(key / 8);
+            const wireType = key & 0x07;
+
+            switch (wireType) {
+                case 0:
+                    visit(field, reader.varint());
+                    break;
+                case 1:
+                    visit(field, reader.bytes(8));
+                    break;
+                case 2:
+                    visit(field, reader.bytes(reader.varint()));
+                    break;
+                case 5:
+                    visit(field, reader.bytes(4));
+                    break;
+                default:
+                    throw reader.fail(`Unsupported protobuf wire type ${wireType}`);
+            }
+        }
+    }
+
+    static string(value: FieldValue): string {
+        return value instanceof Uint8Array ? Buffer.from(value).toString('utf8') : '';
+    }
+
+    static double(value: FieldValue): number | undefined {
+        return value instanceof Uint8Array && value.length === 8 ? Buffer.from(value).readDoubleLE(0) : undefined;
+    }
+
+    // fixed64 and sfixed64 values, as numbers (exact up to 2^53)
+    static fixed64(value: FieldValue, signed = false): number | undefined {
+        if (!(value instanceof Uint8Array) || value.length !== 8) {
+            return undefined;
+        }
+
+        const buffer = Buffer.from(value);
+        return Number(signed ? buffer.readBigInt64LE(0) : buffer.readBigUInt64LE(0));
+    }
+
+    // Repeated fixed64 or double fields may arrive packed (one length-delimited field) or one value per field
+    static packed64(value: FieldValue, read: (item: Uint8Array) => number | undefined): number[] {
+        if (!(value instanceof Uint8Array)) {
+            return [];
+        }
+        if (value.length === 8) {
+            return [read(value)!];
+        }
+
+        const items: number[] = [];
+        for (let offset = 0; offset + 8 <= value.length; offset += 8) {
+            items.push(read(value.subarray(offset, offset + 8))!);
+        }
+        return items;
+    }
+
+    done(): boolean {
+        return this.position >= this.data.length;
+    }
+
+    byte(): number {
+        if (this.done()) {
+            throw this.fail('Unexpected end of data');
+        }
+        return this.data[this.position++];
+    }
+
+    bytes(length: number): Uint8Array {
+        if (this.position + length > this.data.length) {
+            throw this.fail('Unexpected end of data');
+        }
+
+        const slice = this.data.subarray(this.position, this.position + length);
+        this.position += length;
+        return slice;
+    }
+
+    littleEndian(length: number): number {
+        let value = 0;
+        for (let index = 0; index < length; index++) {
+            value += this.byte() * 2 ** (8 * index);
+        }
+        return value;
+    }
+
+    // Varints up to 2^53 are exact, which covers lengths, counts and millisecond timestamps
+    varint(): number {
+        let value = 0;
+        let multiplier = 1;
+
+        for (let index = 0; index < 10; index++) {
+            const byte = this.byte();
+            value += (byte & 0x7f) * multiplier;
+            if ((byte & 0x80) === 0) {
+                return value;
+            }
+            multiplier *= 128;
+        }
+
+        throw this.fail('Malformed varint');
+    }
+}
+
+export class ProtobufWriter {
+    private bytes: number[] = [];
+
+    varintField(field: number, value: number): this {
+        return this.varint(field * 8).varint(value);
+    }
+
+    stringField(field: number, value: string): this {
+        return this.bytesField(field, Buffer.from(value, 'utf8'));
+    }
+
+    bytesField(field: number, value: Uint8Array): this {
+        this.varint(field * 8 + 2).varint(value.length);
+        this.bytes.push(...value);
+        return this;
+    }
+
+    toBuffer(): Buffer {
+        return Buffer.from(this.bytes);
+    }
+
+    private varint(value: number): this {
+        while (value >= 128) {
+            this.bytes.push((value % 128) | 0x80);
+            value = Math.floor(value / 128);
+        }
+        this.bytes.push(value);
+        return this;
+    }
+}
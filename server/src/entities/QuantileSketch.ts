@@ -0,0 +1,83 @@
+// Mergeable quantile sketch with a relative error bound (DDSketch). A positive value v is counted in bin
+// ceil(log_gamma(v)), and every value in a bin is within RELATIVE_ACCURACY of the bin's representative value,
+// so a quantile read back from the sketch is too. Sketches are merged by adding their bin counts, which lets
+// rollup buckets give percentiles over any number of buckets.
+//
+// Bins are keyed "p<index>" for positive values, "n<index>" for negative ones (by magnitude) and "z" for values
+// too close to zero to bin.
+export type QuantileSketch = Record<string, number>;
+
+export class QuantileSketches {
+    static readonly RELATIVE_ACCURACY = 0.01;
+    static readonly GAMMA = (1 + QuantileSketches.RELATIVE_ACCURACY) / (1 - QuantileSketches.RELATIVE_ACCURACY);
+    static readonly MIN_INDEXABLE = 1e-9;
+
+    static key(value: number): string {
+        const magnitude = Math.abs(value);
+        if (magnitude < this.MIN_INDEXABLE) {
+            return 'z';
+        }
+
+        const index = Math.ceil(Math.log(magnitude) / Math.log(this.GAMMA));
+        return `${value > 0 ? 'p' : 'n'}${index}`;
+    }
+
+    static fromValues(values: number[]): QuantileSketch {
+        const sketch: QuantileSketch = {};
+        for (const value of values) {
+            const key = this.key(value);
+            sketch[key] = (sketch[key] || 0) + 1;
+        }
+        return sketch;
+    }
+
+    static merge(sketches: QuantileSketch[]): QuantileSketch {
+        const merged: QuantileSketch = {};
+        for (const sketch of sketches) {
+            for (const [key, count] of Object.entries(sketch)) {
+                merged[key] = (merged[key] || 0) + count;
+            }
+        }
+        return merged;
+    }
+
+    static count(sketch: QuantileSketch): number {
+        return Object.values(sketch).reduce((total, count) => total + count, 0);
+    }
+
+    // Takes the rank like Postgres' percentile_cont, and returns the representative value of the bin it falls in,
+    // kept within min and max when they are known. Null when the sketch is empty.
+    static quantile(sketch: QuantileSketch, q: number, min = -Infinity, max = Infinity): number | null {
+        const bins = Object.entries(sketch)
+            .filter(([, count]) => count > 0)
+            .map(([key, count]) => ({value: this.binValue(key), count}))
+            .sort((a, b) => a.value - b.value);
+
+        const total = bins.reduce((sum, bin) => sum + bin.count, 0);
+        if (total === 0) {
+            return null;
+        }
+
+        const rank = q * (total - 1);
+        let cumulative = 0;
+
+        for (const bin of bins) {
+            cumulative += bin.count;
+            if (cumulative > rank) {
+                return Math.min(Math.max(bin.value, min), max);
+            }
+        }
+
+        return Math.min(Math.max(bins[bins.length - 1].value, min), max);
+    }
+
+    // The value with the same relative distance to both ends of the bin (gamma^(i-1), gamma^i]
+    private static binValue(key: string): number {
+        if (key === 'z') {
+            return 0;
+        }
+
+        const magnitude = (2 * Math.pow(this.GAMMA, parseInt(key.slice(1)))) / (this.GAMMA + 1);
+        return key[0] === 'n' ? -magnitude : magnitude;
+    }
+}
@@ -0,0 +1,53 @@
+const PROTOCOLS = ['http:', 'https:'];
+const DEFAULT_PORTS: Record<string, string> = {'http:': '80', 'https:': '443'};
+
+interface HostPattern {
+    hostname: string;
+    subdomains: boolean;
+    port?: string;
+}
+
+// Scrape targets make the server fetch a URL, so only hosts an operator allowed (SCRAPE_ALLOWED_HOSTS) can be
+// scraped. Patterns are host[:port], e.g. "app.internal:9100" or "*.svc.cluster.local"; "*." allows any
+// subdomain and a pattern without a port allows any port. Without patterns no target is allowed.
+export class ScrapeTargetPolicy {
+    private patterns: HostPattern[];
+
+    constructor(patterns: string[]) {
+        this.patterns = patterns.map(pattern => ScrapeTargetPolicy.parsePattern(pattern));
+    }
+
+    static fromEnv(value: string | undefined): ScrapeTargetPolicy {
+        return new ScrapeTargetPolicy((value || '').split(',').map(pattern => pattern.trim()).filter(Boolean));
+    }
+
+    private static parsePattern(pattern: string): HostPattern {
+        const subdomains = pattern.startsWith('*.');
+        const url = new URL(`http://${subdomains ? pattern.slice(2) : pattern}`);
+        return {hostname: url.hostname, subdomains, port: url.port || undefined};
+    }
+
+    // Why the URL can't be scraped, or null when it can
+    check(target: string): string | null {
+        let url: URL;
+        try {
+            url = new URL(target);
+        } catch {
+            return 'Not a valid URL';
+        }
+
+        if (!PROTOCOLS.includes(url.protocol)) {
+            return 'Only http and https targets can be scraped';
+        }
+        if (url.username || url.password) {
+            return 'Credentials go in bearer_token, not the URL';
+        }
+
+        const port = url.port || DEFAULT_PORTS[url.protocol];
+        const allowed = this.patterns.some(pattern =>
+            (pattern.subdomains ? url.hostname.endsWith(`.${pattern.hostname}`) : url.hostname === pattern.hostname)
+            && (pattern.port === undefined || pattern.port === port));
+
+        return allowed ? null : `Host ${url.host} is not in SCRAPE_ALLOWED_HOSTS`;
+    }
+}
@@ -0,0 +1,186 @@
+import { AlertSeverity } from './Alert';
+import { isWithinWeeklyWindow, validateWeeklyWindow, WeeklyWindow } from '../utils/timezone';
+
+export type SilenceMatcherField = 'project' | 'metric_type' | 'severity' | 'tag';
+export type SilenceMatcherOperator = '=' | '!=' | '=~' | '!~';
+export type SilenceState = 'active' | 'pending' | 'expired';
+
+export interface SilenceMatcher {
+  field: SilenceMatcherField;
+  operator: SilenceMatcherOperator;
+  value: string;
+}
+
+export type SilenceRecurrence = WeeklyWindow;
+
+export interface Silence {
+  id: string;
+  project_id?: string;
+  matchers: SilenceMatcher[];
+  starts_at: Date;
+  ends_at: Date;
+  recurrence?: SilenceRecurrence;
+  comment: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// What a silence is matched against: an alert plus the name of its project
+export interface SilenceTarget {
+  project_id: string;
+  project_name?: string;
+  metric_type?: string;
+  severity: AlertSeverity;
+  tags?: string[];
+}
+
+export class InvalidSilenceMatcherError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid matcher "${expression}": ${reason}`);
+    this.name = 'InvalidSilenceMatcherError';
+  }
+}
+
+export class SilenceMatcherParser {
+  private static pattern = /^\s*(project|metric_type|severity|tag)\s*(=~|!~|!=|=)\s*"((?:[^"\\]|\\.)*)"\s*$/;
+
+  // Parses expressions such as severity="critical" or metric_type=~"cpu_.*"
+  static parse(expression: string): SilenceMatcher {
+    const match = this.pattern.exec(expression);
+    if (!match) {
+      throw new InvalidSilenceMatcherError(
+        expression,
+        'expected <field><operator>"<value>" with field project, metric_type, severity or tag'
+      );
+    }
+
+    const matcher: SilenceMatcher = {
+      field: match[1] as SilenceMatcherField,
+      operator: match[2] as SilenceMatcherOperator,
+      value: match[3].replace(/\\(.)/g, '$1'),
+    };
+
+    if (matcher.operator === '=~' || matcher.operator === '!~') {
+      try {
+        new RegExp(matcher.value);
+      } catch {
+        throw new InvalidSilenceMatcherError(expression, 'value is not a valid regular expression');
+      }
+    }
+
+    return matcher;
+  }
+
+  static format(matcher: SilenceMatcher): string {
+    const value = matcher.value.replace(/(["\\])/g, '\\$1');
+    return `${matcher.field}${matcher.operator}"${value}"`;
+  }
+}
+
+export class SilenceEntity implements Silence {
+  id: string;
+  project_id?: string;
+  matchers: SilenceMatcher[];
+  starts_at: Date;
+  ends_at: Date;
+  recurrence?: SilenceRecurrence;
+  comment: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+
+  constructor(data: Partial<Silence>) {
+    this.id = data.id || '';
+    this.project_id = data.project_id;
+    this.matchers = data.matchers || [];
+    this.starts_at = data.starts_at || new Date();
+    this.ends_at = data.ends_at || new Date();
+    this.recurrence = data.recurrence;
+    this.comment = data.comment || '';
+    this.created_by = data.created_by;
+    this.created_at = data.created_at || new Date();
+    this.updated_at = data.updated_at || new Date();
+  }
+
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (this.matchers.length === 0) {
+      errors.push('At least one matcher is required');
+    }
+
+    if (!this.comment || this.comment.trim().length === 0) {
+      errors.push('Silence comment is required');
+    }
+
+    if (isNaN(this.starts_at.getTime()) || isNaN(this.ends_at.getTime())) {
+      errors.push('Silence start and end must be valid dates');
+    } else if (this.ends_at <= this.starts_at) {
+      errors.push('Silence end must be after its start');
+    }
+
+    if (this.recurrence) {
+      errors.push(...validateWeeklyWindow(this.recurrence, 'Recurrence'));
+    }
+
+    return errors;
+  }
+
+  getState(at: Date = new Date()): SilenceState {
+    if (at >= this.ends_at) return 'expired';
+    if (at < this.starts_at) return 'pending';
+    return 'active';
+  }
+
+  // For recurring silences, starts_at/ends_at bound the period in which the window repeats
+  isActiveAt(at: Date = new Date()): boolean {
+    if (this.getState(at) !== 'active') return false;
+    if (!this.recurrence) return true;
+
+    return isWithinWeeklyWindow(at, this.recurrence);
+  }
+
+  matches(target: SilenceTarget): boolean {
+    if (this.project_id && this.project_id !== target.project_id) {
+      return false;
+    }
+
+    return this.matchers.every(matcher => SilenceEntity.matchesOne(matcher, target));
+  }
+
+  private static matchesOne(matcher: SilenceMatcher, target: SilenceTarget): boolean {
+    const candidates = this.candidatesFor(matcher.field, target);
+    const test = (candidate: string): boolean => {
+      switch (matcher.operator) {
+        case '=':
+        case '!=':
+          return candidate === matcher.value;
+        case '=~':
+        case '!~':
+          return new RegExp(`^(?:${matcher.value})$`).test(candidate);
+        default:
+          return false;
+      }
+    };
+
+    // Positive operators need one candidate to match, negative ones need none to
+    const anyMatch = candidates.some(test);
+    return matcher.operator === '=' || matcher.operator === '=~' ? anyMatch : !anyMatch;
+  }
+
+  private static candidatesFor(field: SilenceMatcherField, target: SilenceTarget): string[] {
+    switch (field) {
+      case 'project':
+        return [target.project_id, target.project_name].filter((v): v is string => !!v);
+      case 'metric_type':
+        return target.metric_type ? [target.metric_type] : [];
+      case 'severity':
+        return [target.severity];
+      case 'tag':
+        return target.tags || [];
+      default:
+        return [];
+    }
+  }
+}
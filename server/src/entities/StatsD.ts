@@ -0,0 +1,285 @@
+import {MetricHistogram} from './Histogram';
+
+// StatsD lines: <name>:<value>[:<value>...]|<type>[|@<sample rate>][|#<tag>,<tag>...]
+// Tags and multiple values are DogStatsD extensions; other DogStatsD fields (|c:, |T) are ignored.
+
+export type StatsDMetricType = 'counter' | 'gauge' | 'timer' | 'set';
+
+export type StatsDTags = Record<string, string>;
+
+export interface StatsDSample {
+    name: string;
+    type: StatsDMetricType;
+    values: number[]; // Empty for sets
+    member?: string; // The value of a set sample
+    relative: boolean; // Gauge values with a leading + or - adjust the current value
+    sampleRate: number;
+    tags: StatsDTags;
+}
+
+export interface StatsDAggregate {
+    name: string;
+    type: StatsDMetricType;
+    tags: StatsDTags;
+    value: number; // Counter total, gauge value, timer mean or set size
+    histogram?: MetricHistogram; // Timers only
+}
+
+export class InvalidStatsDLineError extends Error {
+    line: string;
+
+    constructor(line: string, reason: string) {
+        super(`Invalid StatsD line "${line}": ${reason}`);
+        this.name = 'InvalidStatsDLineError';
+        this.line = line;
+    }
+}
+
+const TYPES: Record<string, StatsDMetricType> = {
+    c: 'counter',
+    g: 'gauge',
+    ms: 'timer',
+    h: 'timer',
+    d: 'timer',
+    s: 'set',
+};
+
+// Timer buckets in milliseconds, so stored timers give percentiles through their histograms
+export const TIMER_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
+
+export class StatsDParser {
+    // Parses every line of a packet; invalid lines are returned separately rather than failing the packet
+    static parsePacket(packet: string): { samples: StatsDSample[]; errors: InvalidStatsDLineError[] } {
+        const samples: StatsDSample[] = [];
+        const errors: InvalidStatsDLineError[] = [];
+
+        for (const line of packet.split('\n')) {
+            if (line.trim() === '') continue;
+
+            try {
+                samples.push(this.parseLine(line.trim()));
+            } catch (error) {
+                if (!(error instanceof InvalidStatsDLineError)) throw error;
+                errors.push(error);
+            }
+        }
+
+        return {samples, errors};
+    }
+
+    static parseLine(line: string): StatsDSample {
+        const [metric, typeField, ...extensions] = line.split('|');
+        const separator = metric.indexOf(':');
+
+        if (separator <= 0) {
+            throw new InvalidStatsDLineError(line, 'expected <name>:<value>');
+        }
+
+        const type = TYPES[typeField];
+        if (!type) {
+            throw new InvalidStatsDLineError(line, `unknown type "${typeField ?? ''}"`);
+        }
+
+        const name = metric.slice(0, separator);
+        const rawValues = metric.slice(separator + 1).split(':');
+        let sampleRate = 1;
+        let tags: StatsDTags = {};
+
+        for (const extension of extensions) {
+            if (extension.startsWith('@')) {
+                sampleRate = Number(extension.slice(1));
+                if (!(sampleRate > 0 && sampleRate <= 1)) {
+                    throw new InvalidStatsDLineError(line, 'sample rate must be greater than 0 and at most 1');
+                }
+            } else if (extension.startsWith('#')) {
+                tags = this.parseTags(extension.slice(1));
+            }
+        }
+
+        if (type === 'set') {
+            return {name, type, values: [], member: rawValues.join(':'), relative: false, sampleRate, tags};
+        }
+
+        const values = rawValues.map(Number);
+        if (rawValues.some(value => value.trim() === '') || values.some(value => !Number.isFinite(value))) {
+            throw new InvalidStatsDLineError(line, 'values must be numbers');
+        }
+
+        const relative = type === 'gauge' && /^[+-]/.test(rawValues[0]);
+        return {name, type, values, relative, sampleRate, tags};
+    }
+
+    // Tags without a value, such as "canary", are kept with an empty value
+    private static parseTags(text: string): StatsDTags {
+        const tags: StatsDTags = {};
+
+        for (const tag of text.split(',')) {
+            if (tag === '') continue;
+
+            const separator = tag.indexOf(':');
+            if (separator === -1) {
+                tags[tag] = '';
+            } else {
+                tags[tag.slice(0, separator)] = tag.slice(separator + 1);
+            }
+        }
+
+        return tags;
+    }
+}
+
+interface SeriesState {
+    name: string;
+    type: StatsDMetricType;
+    tags: StatsDTags;
+    total: number; // Counters: scaled by sample rate. Gauges: current value
+    timings: number[];
+    members: Set<string>;
+    updated: boolean;
+}
+
+// Collects samples between flushes. Counters, timers and sets start again after each flush; gauges keep
+// their value (so relative updates have something to adjust) but are only flushed when they changed.
+export class StatsDAggregator {
+    private series = new Map<string, SeriesState>();
+    private maxSeries: number;
+
+    constructor(maxSeries = 10000) {
+        this.maxSeries = maxSeries;
+    }
+
+    // Returns false when the sample was dropped because too many series are being tracked
+    add(sample: StatsDSample): boolean {
+        const key = JSON.stringify([sample.type, sample.name, Object.entries(sample.tags).sort(([a], [b]) => a.localeCompare(b))]);
+        let state = this.series.get(key);
+
+        if (!state) {
+            if (this.series.size >= this.maxSeries) {
+                return false;
+            }
+
+            state = {name: sample.name, type: sample.type, tags: sample.tags, total: 0, timings: [], members: new Set(), updated: false};
+            this.series.set(key, state);
+        }
+
+        switch (sample.type) {
+            case 'counter':
+                state.total += sample.values.reduce((sum, value) => sum + value, 0) / sample.sampleRate;
+                break;
+            case 'gauge':
+                for (const value of sample.values) {
+                    state.total = sample.relative ? state.total + value : value;
+                }
+                break;
+            case 'timer':
+                // Sampled timings still give the right distribution, so the sample rate is not applied here
+                state.timings.push(...sample.values);
+                break;
+            case 'set':
+                state.members.add(sample.member!);
+                break;
+        }
+
+        state.updated = true;
+        return true;
+    }
+
+    flush(): StatsDAggregate[] {
+        const aggregates: StatsDAggregate[] = [];
+
+        for (const [key, state] of this.series) {
+            if (!state.updated) continue;
+
+            const {name, type, tags} = state;
+            if (type === 'counter' || type === 'gauge') {
+                aggregates.push({name, type, tags, value: state.total});
+            } else if (type === 'set') {
+                aggregates.push({name, type, tags, value: state.members.size});
+            } else {
+                const histogram = this.timerHistogram(state.timings);
+                aggregates.push({name, type, tags, value: histogram.sum! / histogram.count, histogram});
+            }
+
+            if (type === 'gauge') {
+                state.updated = false;
+            } else {
+                this.series.delete(key);
+            }
+        }
+
+        return aggregates;
+    }
+
+    private timerHistogram(timings: number[]): MetricHistogram {
+        const counts = new Array(TIMER_BUCKETS.length + 1).fill(0);
+
+        for (const timing of timings) {
+            const bucket = TIMER_BUCKETS.findIndex(bound => timing <= bound);
+            counts[bucket === -1 ? TIMER_BUCKETS.length : bucket]++;
+        }
+
+        return {
+            bounds: TIMER_BUCKETS,
+            counts,
+            count: timings.length,
+            sum: timings.reduce((sum, timing) => sum + timing, 0),
+            min: Math.min(...timings),
+            max: Math.max(...timings),
+        };
+    }
+}
+
+// Which project a metric belongs to: a "project" tag first, then the first rule whose prefix the name
+// starts with (the prefix is removed from the name unless strip_prefix is false), then the default project
+export interface StatsDProjectRule {
+    prefix: string;
+    project: string; // Project ID or name
+    strip_prefix?: boolean;
+}
+
+export interface StatsDRoute {
+    project: string;
+    name: string;
+    tags: StatsDTags;
+}
+
+export class StatsDProjectRules {
+    private rules: StatsDProjectRule[];
+    private defaultProject?: string;
+
+    constructor(rules: StatsDProjectRule[], defaultProject?: string) {
+        this.rules = rules;
+        this.defaultProject = defaultProject;
+    }
+
+    // Rules are configured as a JSON array, e.g. [{"prefix": "checkout.", "project": "checkout"}]
+    static parse(json: string | undefined): StatsDProjectRule[] {
+        if (!json || json.trim() === '') {
+            return [];
+        }
+
+        const rules: unknown = JSON.parse(json);
+        if (!Array.isArray(rules) || !rules.every(rule =>
+            typeof rule?.prefix === 'string' && typeof rule?.project === 'string'
+            && (rule.strip_prefix === undefined || typeof rule.strip_prefix === 'boolean'))) {
+            throw new Error('StatsD project rules must be an array of {prefix, project, strip_prefix?}');
+        }
+
+        return rules;
+    }
+
+    route(name: string, tags: StatsDTags): StatsDRoute | null {
+        const {project, ...rest} = tags;
+        if (project) {
+            return {project, name, tags: rest};
+        }
+
+        const rule = this.rules.find(candidate => name.startsWith(candidate.prefix));
+        if (rule) {
+            const stripped = rule.strip_prefix === false ? name : name.slice(rule.prefix.length);
+            return {project: rule.project, name: stripped || name, tags};
+        }
+
+        return this.defaultProject ? {project: this.defaultProject, name, tags} : null;
+    }
+}
@@ -0,0 +1,185 @@
+import {Metric, MetricType} from './Metric';
+import {parseDuration} from '../utils/duration';
+
+// The width of a time series point. Calendar intervals follow the calendar in UTC (weeks start on Monday);
+// the others are fixed widths counted from the Unix epoch. seconds is nominal for months.
+export interface TimeSeriesInterval {
+    name: string;
+    seconds: number;
+    calendar?: 'week' | 'month';
+}
+
+// The interval names the timeseries endpoint has always taken
+export const CALENDAR_INTERVALS: Record<string, TimeSeriesInterval> = {
+    minute: {name: 'minute', seconds: 60},
+    hour: {name: 'hour', seconds: 3600},
+    day: {name: 'day', seconds: 86400},
+    week: {name: 'week', seconds: 7 * 86400, calendar: 'week'},
+    month: {name: 'month', seconds: 30 * 86400, calendar: 'month'},
+};
+
+// Fixed widths that can be asked for by duration. Each divides a day evenly, so points line up with days
+// and with the rollup tiers.
+export const FIXED_INTERVALS = [
+    '1s', '5s', '10s', '15s', '30s',
+    '1m', '2m', '5m', '10m', '15m', '30m',
+    '1h', '2h', '3h', '4h', '6h', '8h', '12h',
+    '1d',
+];
+
+// Points one request may return, gaps included
+export const MAX_TIME_SERIES_POINTS = 10000;
+
+// What an empty bucket becomes: left out, a point with a null value, zero, or the previous point's value
+export type GapFillPolicy = 'none' | 'null' | 'zero' | 'previous';
+
+export const GAP_FILL_POLICIES: GapFillPolicy[] = ['none', 'null', 'zero', 'previous'];
+
+// A bucket with no samples, added by gap filling
+export interface TimeSeriesGap {
+    id: string;
+    project_id: string;
+    type: MetricType;
+    value: number | null;
+    timestamp: Date;
+    metadata: {count: 0; filled: true};
+}
+
+export type TimeSeriesPoint = Metric | TimeSeriesGap;
+
+// The points of one group of a grouped time series; null is a missing tag
+export interface TimeSeriesGroup {
+    group: Record<string, string | null>;
+    points: Metric[];
+}
+
+export class InvalidTimeSeriesIntervalError extends Error {
+    status = 400;
+    code = 'INVALID_INTERVAL';
+
+    constructor(interval: string) {
+        super(`Unsupported interval "${interval}"; use ${Object.keys(CALENDAR_INTERVALS).join(', ')} or one of ${FIXED_INTERVALS.join(', ')}`);
+        this.name = 'InvalidTimeSeriesIntervalError';
+    }
+}
+
+export class TimeSeriesLimitError extends Error {
+    status = 422;
+    code = 'TIME_SERIES_TOO_LARGE';
+
+    constructor(points: number) {
+        super(`The range holds ${points} points at this interval; at most ${MAX_TIME_SERIES_POINTS} can be returned`);
+        this.name = 'TimeSeriesLimitError';
+    }
+}
+
+export class TimeSeriesIntervals {
+    // Accepts the calendar names, with or without a leading "1 ", and the allow-listed fixed widths
+    static parse(interval: string): TimeSeriesInterval | null {
+        const value = interval.trim().toLowerCase();
+        const calendar = CALENDAR_INTERVALS[value.replace(/^1\s+/, '')];
+        if (calendar) {
+            return calendar;
+        }
+
+        const seconds = FIXED_INTERVALS.includes(value) ? parseDuration(value) : null;
+        return seconds ? {name: value, seconds} : null;
+    }
+
+    static isValid(interval: string): boolean {
+        return this.parse(interval) !== null;
+    }
+
+    // The start of the point a time falls in, matching the SQL bucket expressions
+    static bucketStart(interval: TimeSeriesInterval, time: Date): Date {
+        if (interval.calendar === 'month') {
+            return new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), 1));
+        }
+        if (interval.calendar === 'week') {
+            const day = new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate()));
+            return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * 86400 * 1000);
+        }
+
+        const width = interval.seconds * 1000;
+        return new Date(Math.floor(time.getTime() / width) * width);
+    }
+
+    static nextBucket(interval: TimeSeriesInterval, bucket: Date): Date {
+        if (interval.calendar === 'month') {
+            return new Date(Date.UTC(bucket.getUTCFullYear(), bucket.getUTCMonth() + 1, 1));
+        }
+        return new Date(bucket.getTime() + interval.seconds * 1000);
+    }
+
+    // Points in [start, end], counting months by their nominal length
+    static pointCount(interval: TimeSeriesInterval, start: Date, end: Date): number {
+        const first = this.bucketStart(interval, start).getTime();
+        return Math.max(0, Math.floor((end.getTime() - first) / (interval.seconds * 1000)) + 1);
+    }
+}
+
+export class TimeSeriesGroups {
+    // Splits points that carry their group's tags into one series per group, in the order they come in
+    static split(points: Metric[], groupBy: string[]): TimeSeriesGroup[] {
+        const groups = new Map<string, TimeSeriesGroup>();
+
+        for (const point of points) {
+            const group = Object.fromEntries(groupBy.map(key => [key, point.tags?.[key] ?? null]));
+            const key = JSON.stringify(groupBy.map(name => group[name]));
+
+            if (!groups.has(key)) {
+                groups.set(key, {group, points: []});
+            }
+            groups.get(key)!.points.push(point);
+        }
+
+        return [...groups.values()];
+    }
+}
+
+export class TimeSeriesGapFill {
+    // Adds a point for every bucket in [start, end] that has none. Under "previous", gaps before the first
+    // point stay null.
+    static fill(
+        points: Metric[],
+        projectId: string,
+        type: MetricType,
+        start: Date,
+        end: Date,
+        interval: TimeSeriesInterval,
+        policy: GapFillPolicy
+    ): TimeSeriesPoint[] {
+        if (policy === 'none') {
+            return points;
+        }
+
+        const byBucket = new Map(points.map(point => [new Date(point.timestamp).getTime(), point]));
+        const filled: TimeSeriesPoint[] = [];
+        let previous: number | null = null;
+
+        for (
+            let bucket = TimeSeriesIntervals.bucketStart(interval, start);
+            bucket <= end;
+            bucket = TimeSeriesIntervals.nextBucket(interval, bucket)
+        ) {
+            const point = byBucket.get(bucket.getTime());
+
+            if (point) {
+                filled.push(point);
+                previous = point.value;
+                continue;
+            }
+
+            filled.push({
+                id: `gap-${bucket.toISOString()}`,
+                project_id: projectId,
+                type,
+                value: policy === 'zero' ? 0 : policy === 'previous' ? previous : null,
+                timestamp: bucket,
+                metadata: {count: 0, filled: true},
+            });
+        }
+
+        return filled;
+    }
+}
@@ -0,0 +1,71 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Bumped whenever a field is removed or changes meaning; receivers should branch on schema_version
+export const WEBHOOK_SCHEMA_VERSION = 1;
+
+export const WEBHOOK_HEADERS = {
+  signature: 'X-DevOps-Signature',
+  timestamp: 'X-DevOps-Timestamp',
+  delivery: 'X-DevOps-Delivery',
+  event: 'X-DevOps-Event',
+  schemaVersion: 'X-DevOps-Schema-Version',
+};
+
+export interface WebhookDelivery {
+  id: string;
+  notification_id?: string;
+  channel_id?: string;
+  redelivery_of?: string; // the delivery this one re-sent
+  url: string;
+  event: string;
+  request_headers: Record<string, string>;
+  request_body: string;
+  response_status?: number;
+  response_headers?: Record<string, string>;
+  response_body?: string;
+  error?: string;
+  success: boolean;
+  duration_ms: number;
+  created_at: Date;
+}
+
+export class WebhookSignature {
+  static readonly TOLERANCE_SECONDS = 300;
+
+  // HMAC-SHA256 over "<timestamp>.<body>" so a captured body cannot be replayed with a fresh timestamp
+  static sign(secret: string, body: string, timestamp: number): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  // What receivers are expected to do: recompute the signature and reject stale timestamps
+  static verify(
+    secret: string,
+    body: string,
+    header: string,
+    now: Date = new Date(),
+    toleranceSeconds: number = this.TOLERANCE_SECONDS
+  ): boolean {
+    const parts = new Map(
+      header.split(',').map(part => {
+        const [key, ...rest] = part.trim().split('=');
+        return [key, rest.join('=')] as [string, string];
+      })
+    );
+    const timestamp = Number(parts.get('t'));
+    const signature = parts.get('v1');
+
+    if (!Number.isInteger(timestamp) || !signature) {
+      return false;
+    }
+
+    if (Math.abs(Math.floor(now.getTime() / 1000) - timestamp) > toleranceSeconds) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(secret, body, timestamp).split('v1=')[1], 'hex');
+    const actual = Buffer.from(signature, 'hex');
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+    AlertExpressionEvaluator,
+    AlertExpressionParser,
+    InvalidAlertExpressionError,
+    MetricReference,
+    referenceKey,
+} from '../AlertExpression';
+import {AlertRuleEntity} from '../Alert';
+
+const OTHER_PROJECT = '6f1c2a7e-3b4d-4e5f-8a9b-0c1d2e3f4a5b';
+
+const lookupFrom = (values: Record<string, number>) =>
+    (reference: MetricReference): number | undefined => values[reference.metric_type];
+
+describe('AlertExpressionParser', () => {
+    it('should bind AND tighter than OR', () => {
+        const node = AlertExpressionParser.parse('cpu_usage > 90 or memory_usage > 95 and disk_usage > 80');
+
+        expect(node.type).toBe('or');
+        expect(AlertExpressionParser.format(node))
+            .toBe('cpu_usage > 90 OR memory_usage > 95 AND disk_usage > 80');
+    });
+
+    it('should keep the parentheses precedence needs when formatting', () => {
+        const node = AlertExpressionParser.parse('(cpu_usage > 90 OR memory_usage >= 95) AND NOT (error_rate == 0)');
+
+        expect(AlertExpressionParser.format(node))
+            .toBe('(cpu_usage > 90 OR memory_usage >= 95) AND NOT error_rate == 0');
+    });
+
+    it('should parse aggregations and project selectors', () => {
+        const node = AlertExpressionParser.parse(`max(cpu_usage{project="${OTHER_PROJECT}"}) > 90 AND error_rate < 1.5`);
+
+        expect(AlertExpressionParser.references(node)).toEqual([
+            {metric_type: 'cpu_usage', aggregation: 'max', project_id: OTHER_PROJECT},
+            {metric_type: 'error_rate'},
+        ]);
+        expect(AlertExpressionParser.format(node))
+            .toBe(`max(cpu_usage{project="${OTHER_PROJECT}"}) > 90 AND error_rate < 1.5`);
+    });
+
+    it('should list each referenced metric once', () => {
+        const node = AlertExpressionParser.parse('error_rate > 5 OR (error_rate > 2 AND request_count > 100)');
+
+        expect(AlertExpressionParser.references(node).map(reference => reference.metric_type))
+            .toEqual(['error_rate', 'request_count']);
+        expect(AlertExpressionParser.comparisons(node)).toHaveLength(3);
+    });
+
+    it('should report where the expression is invalid', () => {
+        const cases: [string, number][] = [
+            ['error_rate > ', 13],
+            ['error_rate >> 5', 12],
+            ['error_rate > 5 AND', 18],
+            ['(error_rate > 5', 15],
+            ['error_rate > 5 request_count > 1', 15],
+            ['median(error_rate) > 5', 0],
+            ['error_rate{project="web"} > 5', 19],
+            ['error_rate = 5', 11],
+            ['error_rate > 5 # comment', 15],
+        ];
+
+        for (const [expression, position] of cases) {
+            let error: unknown;
+
+            try {
+                AlertExpressionParser.parse(expression);
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(InvalidAlertExpressionError);
+            expect((error as InvalidAlertExpressionError).position).toBe(position);
+        }
+    });
+
+    it('should reject expressions that reference too many metrics', () => {
+        const expression = Array.from({length: 11}, (_, index) => `metric_${index} > 1`).join(' OR ');
+
+        expect(() => AlertExpressionParser.parse(expression)).toThrow(/at most 10 metrics/);
+    });
+});
+
+describe('AlertExpressionEvaluator', () => {
+    const expression = AlertExpressionParser.parse('error_rate > 5 AND request_count > 100');
+
+    it('should require both sides of AND', () => {
+        expect(AlertExpressionEvaluator.evaluate(expression, lookupFrom({error_rate: 6, request_count: 150}))).toBe(true);
+        expect(AlertExpressionEvaluator.evaluate(expression, lookupFrom({error_rate: 6, request_count: 50}))).toBe(false);
+    });
+
+    it('should treat metrics without data as unknown', () => {
+        expect(AlertExpressionEvaluator.evaluate(expression, lookupFrom({error_rate: 6}))).toBeNull();
+        expect(AlertExpressionEvaluator.evaluate(expression, lookupFrom({error_rate: 1}))).toBe(false);
+
+        const either = AlertExpressionParser.parse('cpu_usage > 90 OR memory_usage > 95');
+        expect(AlertExpressionEvaluator.evaluate(either, lookupFrom({memory_usage: 97}))).toBe(true);
+        expect(AlertExpressionEvaluator.evaluate(either, lookupFrom({memory_usage: 50}))).toBeNull();
+    });
+
+    it('should negate with NOT', () => {
+        const node = AlertExpressionParser.parse('NOT request_count > 0');
+
+        expect(AlertExpressionEvaluator.evaluate(node, lookupFrom({request_count: 0}))).toBe(true);
+        expect(AlertExpressionEvaluator.evaluate(node, lookupFrom({}))).toBeNull();
+    });
+
+    it('should look up each reference by project and aggregation', () => {
+        const node = AlertExpressionParser.parse(`cpu_usage > 90 AND max(cpu_usage{project="${OTHER_PROJECT}"}) > 90`);
+        const values = new Map([
+            [referenceKey({metric_type: 'cpu_usage'}), 95],
+            [referenceKey({metric_type: 'cpu_usage', aggregation: 'max', project_id: OTHER_PROJECT}), 85],
+        ]);
+
+        expect(AlertExpressionEvaluator.evaluate(node, reference => values.get(referenceKey(reference)))).toBe(false);
+    });
+});
+
+describe('AlertRuleEntity composite conditions', () => {
+    const ruleWith = (expression?: string) => new AlertRuleEntity({
+        project_id: 'project-1',
+        name: 'Errors under load',
+        condition: {kind: 'composite', expression} as AlertRuleEntity['condition'],
+    });
+
+    it('should accept a valid expression without a metric type or threshold', () => {
+        expect(ruleWith('error_rate > 5 AND request_count > 100').validate()).toEqual([]);
+    });
+
+    it('should reject missing and invalid expressions', () => {
+        expect(ruleWith().validate()).toEqual(['Composite conditions need an expression']);
+        expect(ruleWith('error_rate >').validate()).toEqual([
+            'Invalid expression at column 13: expected a number to compare against',
+        ]);
+    });
+});
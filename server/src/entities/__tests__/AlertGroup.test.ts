@@ -0,0 +1,65 @@
+import {AlertEntity} from '../Alert';
+import {AlertGrouper, AlertGroupingConfig, DEFAULT_ALERT_GROUPING} from '../AlertGroup';
+
+const alert = (id: string, data: Partial<AlertEntity> = {}): AlertEntity =>
+    new AlertEntity({id, project_id: 'project-1', title: id, severity: 'high', status: 'firing', ...data});
+
+describe('AlertGrouper', () => {
+    it('should fall back to the defaults for missing or invalid settings', () => {
+        expect(AlertGrouper.configFor(null)).toEqual(DEFAULT_ALERT_GROUPING);
+
+        const config = AlertGrouper.configFor({
+            settings: {
+                monitoring_enabled: true,
+                alert_thresholds: {},
+                alert_grouping: {group_by: ['environment'], group_wait_seconds: -5},
+            },
+        });
+
+        expect(config.group_by).toEqual(['environment']);
+        expect(config.group_wait_seconds).toBe(DEFAULT_ALERT_GROUPING.group_wait_seconds);
+    });
+
+    it('should build the same key for alerts that share the grouping labels', () => {
+        const config: AlertGroupingConfig = {...DEFAULT_ALERT_GROUPING, group_by: ['project', 'affected_services']};
+        const project = {id: 'project-1', environment: 'production' as const};
+
+        const first = AlertGrouper.labelsFor(alert('a', {affected_services: ['db', 'api']}), project, config);
+        const second = AlertGrouper.labelsFor(alert('b', {affected_services: ['api', 'db']}), project, config);
+
+        expect(AlertGrouper.keyFor(first)).toBe('affected_services=api,db;project=project-1');
+        expect(AlertGrouper.keyFor(second)).toBe(AlertGrouper.keyFor(first));
+    });
+
+    it('should wait group_wait before the first notification and group_interval between updates', () => {
+        const now = new Date('2024-01-01T00:00:00Z');
+
+        expect(AlertGrouper.firstFlushAt(DEFAULT_ALERT_GROUPING, now).getTime() - now.getTime()).toBe(30000);
+
+        const lastNotified = new Date(now.getTime() - 60000);
+        const next = AlertGrouper.nextFlushAt({group_interval_seconds: 300, last_notified_at: lastNotified}, now);
+        expect(next.getTime() - lastNotified.getTime()).toBe(300000);
+
+        const scheduled = new Date(now.getTime() + 5000);
+        expect(AlertGrouper.nextFlushAt({group_interval_seconds: 300, next_flush_at: scheduled}, now)).toBe(scheduled);
+    });
+
+    it('should only report changes since the last notification', () => {
+        const alerts = [alert('a'), alert('b', {status: 'resolved'}), alert('c', {status: 'pending'})];
+
+        const first = AlertGrouper.summarize({notified_alerts: {}}, alerts);
+        expect(first.firing.map(a => a.id)).toEqual(['a']);
+        expect(first.resolved).toHaveLength(0); // Never notified as firing, so nothing to resolve
+        expect(first.changed).toBe(true);
+
+        const unchanged = AlertGrouper.summarize({notified_alerts: AlertGrouper.snapshot(first)}, alerts);
+        expect(unchanged.changed).toBe(false);
+
+        const resolved = AlertGrouper.summarize(
+            {notified_alerts: {a: 'firing'}},
+            [alert('a', {status: 'resolved'})]
+        );
+        expect(resolved.resolved.map(a => a.id)).toEqual(['a']);
+        expect(resolved.changed).toBe(true);
+    });
+});
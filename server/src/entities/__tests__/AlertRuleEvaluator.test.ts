@@ -0,0 +1,147 @@
+import {AlertRule, AlertRuleEntity, AlertRuleEvaluator, AlertSample} from '../Alert';
+
+describe('AlertRuleEvaluator', () => {
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    const buildRule = (overrides: Partial<AlertRule['condition']> = {}): AlertRule =>
+        new AlertRuleEntity({
+            id: 'rule-1',
+            project_id: 'project-1',
+            name: 'High CPU',
+            condition: {
+                metric_type: 'cpu_usage',
+                operator: 'gt',
+                threshold: 80,
+                window_seconds: 120,
+                duration_seconds: 300,
+                ...overrides,
+            },
+        });
+
+    // One sample per minute, newest last
+    const samplesEveryMinute = (values: number[]): AlertSample[] =>
+        values.map((value, index) => ({
+            value,
+            timestamp: new Date(now.getTime() - (values.length - 1 - index) * 60 * 1000),
+        }));
+
+    describe('aggregate', () => {
+        it('should compute percentiles with linear interpolation', () => {
+            const values = Array.from({length: 100}, (_, i) => i + 1);
+
+            expect(AlertRuleEvaluator.aggregate(values, 'p95')).toBeCloseTo(95.05);
+            expect(AlertRuleEvaluator.aggregate(values, 'p99')).toBeCloseTo(99.01);
+        });
+
+        it('should not reorder the input values', () => {
+            const values = [3, 1, 2];
+            AlertRuleEvaluator.aggregate(values, 'p95');
+
+            expect(values).toEqual([3, 1, 2]);
+        });
+    });
+
+    describe('breachStartedAt', () => {
+        it('should return null when the condition does not hold now', () => {
+            const rule = buildRule();
+            const samples = samplesEveryMinute([90, 90, 90, 10, 10]);
+
+            expect(AlertRuleEvaluator.breachStartedAt(rule, samples, now, 60)).toBeNull();
+        });
+
+        it('should report the breach start from stored samples', () => {
+            const rule = buildRule();
+            const samples = samplesEveryMinute([10, 10, 10, 10, 95, 95, 95, 95]);
+
+            const breachStart = AlertRuleEvaluator.breachStartedAt(rule, samples, now, 60);
+
+            // The two-minute average only exceeds 80 once both samples in the window are high
+            expect(breachStart).toEqual(new Date(now.getTime() - 2 * 60 * 1000));
+        });
+
+        it('should not let a single spike satisfy the duration', () => {
+            const rule = buildRule({window_seconds: 60});
+            const samples = samplesEveryMinute([10, 10, 10, 10, 10, 99]);
+
+            const breachStart = AlertRuleEvaluator.breachStartedAt(rule, samples, now, 60);
+
+            expect(breachStart).toEqual(now);
+        });
+
+        it('should treat gaps in the data as the end of a breach', () => {
+            const rule = buildRule({window_seconds: 60});
+            const samples = samplesEveryMinute([95, 95]);
+
+            const breachStart = AlertRuleEvaluator.breachStartedAt(rule, samples, now, 60);
+
+            expect(breachStart).toEqual(new Date(now.getTime() - 60 * 1000));
+        });
+
+        it('should compare the scored value and stop where no score is available', () => {
+            const rule = buildRule({kind: 'anomaly', threshold: 3, window_seconds: 60});
+            const samples = samplesEveryMinute([60, 60, 60, 60]);
+            const unscoredBefore = now.getTime() - 2 * 60 * 1000;
+            const score = (value: number, at: Date) => (at.getTime() <= unscoredBefore ? null : (value - 20) / 10);
+
+            const breachStart = AlertRuleEvaluator.breachStartedAt(rule, samples, now, 60, score);
+
+            expect(breachStart).toEqual(new Date(now.getTime() - 60 * 1000));
+        });
+    });
+
+    describe('breachStartedAtSteps', () => {
+        it('should walk windowed aggregates back until one does not breach', () => {
+            const rule = buildRule();
+            const steps = [95, 92, 70, 99].map((value, index) => ({
+                at: new Date(now.getTime() - index * 60 * 1000),
+                value,
+            }));
+
+            expect(AlertRuleEvaluator.breachStartedAtSteps(rule, steps)).toEqual(new Date(now.getTime() - 60 * 1000));
+        });
+
+        it('should stop at a step whose window held no samples', () => {
+            const rule = buildRule();
+            const steps = [
+                {at: now, value: 95},
+                {at: new Date(now.getTime() - 60 * 1000), value: null},
+                {at: new Date(now.getTime() - 120 * 1000), value: 95},
+            ];
+
+            expect(AlertRuleEvaluator.breachStartedAtSteps(rule, steps)).toEqual(now);
+        });
+    });
+
+    describe('isInCooldown', () => {
+        it('should ignore alerts older than the cooldown period', () => {
+            const rule = new AlertRuleEntity({...buildRule(), cooldown_minutes: 10});
+            const alerts = [{triggered_at: new Date(now.getTime() - 15 * 60 * 1000)}];
+
+            expect(AlertRuleEvaluator.isInCooldown(rule, alerts as never, now)).toBe(false);
+        });
+
+        it('should block new alerts during the cooldown period', () => {
+            const rule = new AlertRuleEntity({...buildRule(), cooldown_minutes: 10});
+            const alerts = [{triggered_at: new Date(now.getTime() - 5 * 60 * 1000)}];
+
+            expect(AlertRuleEvaluator.isInCooldown(rule, alerts as never, now)).toBe(true);
+        });
+    });
+
+    describe('AlertRuleEntity.validate', () => {
+        it('should accept a predictive condition with a horizon', () => {
+            const rule = new AlertRuleEntity(buildRule({kind: 'predictive', threshold: 95, horizon_seconds: 4 * 3600}));
+
+            expect(rule.validate()).toEqual([]);
+        });
+
+        it('should require a horizon and a directional operator for predictive conditions', () => {
+            const rule = new AlertRuleEntity(buildRule({kind: 'predictive', operator: 'eq', threshold: 95}));
+
+            expect(rule.validate()).toEqual([
+                'Predictive conditions need a gt, gte, lt or lte operator',
+                'Predictive conditions need a horizon greater than 0 seconds',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,38 @@
+import {AlertEntity, AlertStateMachine, InvalidAlertTransitionError} from '../Alert';
+
+describe('AlertStateMachine', () => {
+    it('should follow the pending to firing to resolved lifecycle', () => {
+        expect(AlertStateMachine.canTransition('inactive', 'pending')).toBe(true);
+        expect(AlertStateMachine.canTransition('pending', 'firing')).toBe(true);
+        expect(AlertStateMachine.canTransition('firing', 'acknowledged')).toBe(true);
+        expect(AlertStateMachine.canTransition('acknowledged', 'resolved')).toBe(true);
+    });
+
+    it('should let a pending alert fall back to inactive', () => {
+        expect(AlertStateMachine.canTransition('pending', 'inactive')).toBe(true);
+        expect(AlertStateMachine.canTransition('pending', 'acknowledged')).toBe(false);
+    });
+
+    it('should treat resolved as terminal', () => {
+        expect(AlertStateMachine.canTransition('resolved', 'firing')).toBe(false);
+        expect(AlertStateMachine.isOpen('resolved')).toBe(false);
+    });
+
+    it('should reject invalid transitions with a conflict error', () => {
+        expect(() => AlertStateMachine.assertTransition('resolved', 'acknowledged'))
+            .toThrow(InvalidAlertTransitionError);
+        expect(() => AlertStateMachine.assertTransition('inactive', 'resolved'))
+            .toThrow(expect.objectContaining({status: 409, code: 'INVALID_ALERT_TRANSITION'}));
+    });
+
+    it('should only allow acknowledging firing alerts', () => {
+        const pending = new AlertEntity({status: 'pending'});
+        const firing = new AlertEntity({status: 'firing'});
+
+        expect(() => pending.acknowledge('user-1')).toThrow(InvalidAlertTransitionError);
+
+        firing.acknowledge('user-1');
+        expect(firing.status).toBe('acknowledged');
+        expect(firing.acknowledged_by).toBe('user-1');
+    });
+});
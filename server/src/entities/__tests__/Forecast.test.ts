@@ -0,0 +1,96 @@
+import {AlertSample} from '../Alert';
+import {Forecaster} from '../Forecast';
+
+describe('Forecaster', () => {
+    const now = new Date('2024-01-08T00:00:00Z');
+    const hour = 60 * 60 * 1000;
+
+    // One sample per hour ending at `now`
+    const hourly = (valueAt: (index: number) => number, count: number): AlertSample[] =>
+        Array.from({length: count}, (_, index) => ({
+            value: valueAt(index),
+            timestamp: new Date(now.getTime() - (count - 1 - index) * hour),
+        }));
+
+    describe('linear', () => {
+        it('should extend a straight-line trend with widening bounds', () => {
+            const samples = hourly(index => 10 + index + (index % 2 === 0 ? 0.5 : -0.5), 48);
+
+            const points = Forecaster.linear(samples, now, 6 * 3600, 3600);
+
+            expect(points).toHaveLength(6);
+            expect(points[0].timestamp).toEqual(new Date(now.getTime() + hour));
+            expect(points[0].predictedValue).toBeCloseTo(58, 0);
+            expect(points[5].predictedValue).toBeCloseTo(63, 0);
+            expect(points[0].confidence).toBe(0.95);
+            expect(points[0].lowerBound).toBeLessThan(points[0].predictedValue);
+            expect(points[5].upperBound - points[5].lowerBound)
+                .toBeGreaterThan(points[0].upperBound - points[0].lowerBound);
+        });
+
+        it('should return no points without at least two samples', () => {
+            expect(Forecaster.linear(hourly(() => 5, 1), now, 3600, 3600)).toEqual([]);
+        });
+    });
+
+    describe('holtWinters', () => {
+        it('should follow a daily season', () => {
+            const daily = (index: number) => 50 + 20 * Math.sin((2 * Math.PI * index) / 24);
+            const samples = hourly(daily, 24 * 7);
+
+            const points = Forecaster.holtWinters(samples, 24, now, 24 * 3600, 3600);
+
+            expect(points).toHaveLength(24);
+            points.forEach((point, i) => {
+                expect(point.predictedValue).toBeCloseTo(daily(24 * 7 + i), 0);
+            });
+        });
+    });
+
+    describe('projectToLimit', () => {
+        it('should project when a rising trend reaches the limit', () => {
+            // disk_usage growing 1% per hour, at 76% now
+            const samples = hourly(index => 52 + index, 25);
+
+            const projection = Forecaster.projectToLimit(samples, 100, now);
+
+            expect(projection?.currentValue).toBeCloseTo(76);
+            expect(projection?.ratePerDay).toBeCloseTo(24);
+            expect(projection?.secondsUntilLimit).toBeCloseTo(24 * 3600);
+            expect(projection?.projectedAt).toEqual(new Date(now.getTime() + 24 * hour));
+        });
+
+        it('should not project a limit the trend moves away from', () => {
+            const projection = Forecaster.projectToLimit(hourly(index => 80 - index, 25), 100, now);
+
+            expect(projection?.secondsUntilLimit).toBeNull();
+            expect(projection?.projectedAt).toBeNull();
+        });
+
+        it('should report a limit that is already crossed as reached now', () => {
+            const projection = Forecaster.projectToLimit(hourly(index => 5 - index * 0.1, 25), 3, now, 'down');
+
+            expect(projection?.secondsUntilLimit).toBe(0);
+        });
+    });
+
+    describe('valueAfter', () => {
+        it('should extend the projection along its rate', () => {
+            const projection = Forecaster.projectToLimit(hourly(index => 52 + index, 25), 95, now);
+
+            // 76% now, rising 1% per hour: 4h ahead is 80%
+            expect(Forecaster.valueAfter(projection!, 4 * 3600)).toBeCloseTo(80);
+        });
+    });
+
+    describe('regularize', () => {
+        it('should carry the previous value across missing buckets', () => {
+            const samples = [
+                {value: 1, timestamp: new Date(now.getTime())},
+                {value: 3, timestamp: new Date(now.getTime() + 3 * hour)},
+            ];
+
+            expect(Forecaster.regularize(samples, 3600)).toEqual([1, 1, 1, 3]);
+        });
+    });
+});
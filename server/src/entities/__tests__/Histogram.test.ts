@@ -0,0 +1,84 @@
+import {CumulativeHistogramTracker, HistogramMath, MetricHistogram} from '../Histogram';
+
+// 100 observations: 50 in (0, 10], 40 in (10, 100], 9 in (100, 1000] and 1 above 1000
+const latency: MetricHistogram = {bounds: [10, 100, 1000], counts: [50, 40, 9, 1], count: 100, sum: 9000};
+
+describe('HistogramMath', () => {
+    it('should interpolate quantiles inside the bucket they fall in', () => {
+        expect(HistogramMath.quantile(latency, 0.5)).toBe(10);
+        expect(HistogramMath.quantile(latency, 0.7)).toBe(55);
+        expect(HistogramMath.quantile(latency, 0.95)).toBe(600);
+        expect(HistogramMath.quantile({...latency, count: 0, counts: [0, 0, 0, 0]}, 0.5)).toBeNull();
+    });
+
+    it('should cap the overflow bucket at max, or the last bound without one', () => {
+        expect(HistogramMath.quantile(latency, 1)).toBe(1000);
+        expect(HistogramMath.quantile({...latency, max: 5000}, 1)).toBe(5000);
+        expect(HistogramMath.quantile({...latency, min: 2, max: 800}, 0.999)).toBe(800);
+    });
+
+    it('should merge histograms with the same bounds and skip the rest', () => {
+        const merged = HistogramMath.merge([
+            latency,
+            {bounds: [10, 100, 1000], counts: [10, 0, 0, 0], count: 10, sum: 50},
+            {bounds: [1, 2], counts: [1, 1, 1], count: 3, sum: 4},
+        ]);
+
+        expect(merged).toEqual({bounds: [10, 100, 1000], counts: [60, 40, 9, 1], count: 110, sum: 9050, min: undefined, max: undefined});
+    });
+
+    it('should count plain samples sorted into the buckets as observations', () => {
+        const combined = HistogramMath.addSamples({...latency, min: 1, max: 2000}, [
+            {bucket: 3, count: 100, sum: 300000, min: 2500, max: 3500},
+        ]);
+
+        expect(combined).toMatchObject({counts: [50, 40, 9, 101], count: 200, sum: 309000, min: 1, max: 3500});
+        expect(HistogramMath.quantile(combined, 0.95)).toBeGreaterThan(1000);
+    });
+
+    it('should subtract cumulative snapshots and refuse counts that went down', () => {
+        const earlier: MetricHistogram = {bounds: [10, 100, 1000], counts: [40, 30, 9, 1], count: 80, sum: 7000};
+
+        expect(HistogramMath.subtract(latency, earlier)).toEqual({
+            bounds: [10, 100, 1000], counts: [10, 10, 0, 0], count: 20, sum: 2000,
+        });
+        expect(HistogramMath.subtract(earlier, latency)).toBeNull();
+    });
+
+    it('should reject bucket counts that do not match the bounds', () => {
+        expect(HistogramMath.isValid(latency)).toBe(true);
+        expect(HistogramMath.isValid({...latency, counts: [1, 2, 3]})).toBe(false);
+        expect(HistogramMath.isValid({...latency, bounds: [10, 5, 1000]})).toBe(false);
+    });
+});
+
+describe('CumulativeHistogramTracker', () => {
+    const snapshot = (counts: number[]): MetricHistogram => ({
+        bounds: [10],
+        counts,
+        count: counts[0] + counts[1],
+    });
+
+    it('should use the first snapshot as a baseline and return the change after it', () => {
+        const tracker = new CumulativeHistogramTracker();
+
+        expect(tracker.delta('checkout', 1000, snapshot([5, 1]), 0)).toBeNull();
+        expect(tracker.delta('checkout', 1000, snapshot([8, 2]), 60000)).toMatchObject({counts: [3, 1], count: 4});
+    });
+
+    it('should take the whole snapshot when the source restarted', () => {
+        const tracker = new CumulativeHistogramTracker();
+        tracker.delta('checkout', 1000, snapshot([5, 1]), 0);
+
+        expect(tracker.delta('checkout', 2000, snapshot([2, 0]), 60000)).toMatchObject({counts: [2, 0]});
+        expect(tracker.delta('checkout', 2000, snapshot([1, 0]), 120000)).toMatchObject({counts: [1, 0]});
+    });
+
+    it('should forget series that stopped reporting', () => {
+        const tracker = new CumulativeHistogramTracker(60000);
+        tracker.delta('checkout', 1000, snapshot([5, 1]), 0);
+        tracker.prune(120000);
+
+        expect(tracker.delta('checkout', 1000, snapshot([8, 2]), 120000)).toBeNull();
+    });
+});
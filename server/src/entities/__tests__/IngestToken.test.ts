@@ -0,0 +1,26 @@
+import {IngestTokens} from '../IngestToken';
+
+describe('IngestTokens', () => {
+    it('should generate distinct prefixed tokens', () => {
+        const token = IngestTokens.generate();
+
+        expect(token.startsWith(IngestTokens.PREFIX)).toBe(true);
+        expect(IngestTokens.generate()).not.toBe(token);
+    });
+
+    it('should hash tokens to a stable hex digest', () => {
+        const token = IngestTokens.generate();
+
+        expect(IngestTokens.hash(token)).toMatch(/^[0-9a-f]{64}$/);
+        expect(IngestTokens.hash(token)).toBe(IngestTokens.hash(token));
+    });
+
+    it('should only read ingest tokens sent as bearer tokens', () => {
+        const token = IngestTokens.generate();
+
+        expect(IngestTokens.fromHeader(`Bearer ${token}`)).toBe(token);
+        expect(IngestTokens.fromHeader(`Basic ${token}`)).toBeNull();
+        expect(IngestTokens.fromHeader('Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig')).toBeNull();
+        expect(IngestTokens.fromHeader(undefined)).toBeNull();
+    });
+});
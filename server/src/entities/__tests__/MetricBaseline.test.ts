@@ -0,0 +1,95 @@
+import {BaselineModel, MetricBaseline} from '../MetricBaseline';
+
+describe('BaselineModel', () => {
+    // Monday 2024-01-01 is day 1, so 12:00 UTC falls in hour-of-week 36
+    const monday = new Date('2024-01-01T12:30:00Z');
+
+    const baseline = (overrides: Partial<MetricBaseline> = {}): MetricBaseline => ({
+        project_id: 'project-1',
+        metric_type: 'response_time',
+        hour_of_week: 36,
+        sample_count: 120,
+        mean: 200,
+        stddev: 20,
+        updated_at: monday,
+        ...overrides,
+    });
+
+    describe('hourOfWeek', () => {
+        it('should count hours from Sunday midnight UTC', () => {
+            expect(BaselineModel.hourOfWeek(new Date('2023-12-31T00:10:00Z'))).toBe(0);
+            expect(BaselineModel.hourOfWeek(monday)).toBe(36);
+            expect(BaselineModel.hourOfWeek(new Date('2024-01-06T23:59:00Z'))).toBe(167);
+        });
+    });
+
+    describe('wholeHours', () => {
+        it('should leave out the partial hours at either end', () => {
+            expect(BaselineModel.wholeHours(new Date('2024-01-01T10:20:00Z'), new Date('2024-01-01T13:05:00Z'))).toEqual({
+                from: new Date('2024-01-01T11:00:00Z'),
+                to: new Date('2024-01-01T13:00:00Z'),
+            });
+            expect(BaselineModel.wholeHours(new Date('2024-01-01T10:00:00Z'), new Date('2024-01-01T11:00:00Z'))).toEqual({
+                from: new Date('2024-01-01T10:00:00Z'),
+                to: new Date('2024-01-01T11:00:00Z'),
+            });
+        });
+
+        it('should find none in a range shorter than an hour', () => {
+            expect(BaselineModel.wholeHours(new Date('2024-01-01T10:20:00Z'), new Date('2024-01-01T11:10:00Z'))).toBeNull();
+        });
+    });
+
+    describe('forTime', () => {
+        it('should pick the slot for the hour of the week', () => {
+            const slots = [baseline({hour_of_week: 35, mean: 100}), baseline()];
+
+            expect(BaselineModel.forTime(slots, monday)?.mean).toBe(200);
+        });
+
+        it('should ignore slots with too few samples', () => {
+            expect(BaselineModel.forTime([baseline({sample_count: 3})], monday)).toBeNull();
+        });
+    });
+
+    describe('score', () => {
+        it('should measure the distance from the mean in standard deviations', () => {
+            expect(BaselineModel.sigma(baseline(), 260)).toBe(3);
+            expect(BaselineModel.sigma(baseline(), 160)).toBe(-2);
+        });
+
+        it('should apply the direction of the condition', () => {
+            expect(BaselineModel.score(baseline(), 160, 'both')).toBe(2);
+            expect(BaselineModel.score(baseline(), 160, 'above')).toBe(-2);
+            expect(BaselineModel.score(baseline(), 160, 'below')).toBe(2);
+        });
+
+        it('should not divide by zero for a flat history', () => {
+            expect(BaselineModel.sigma(baseline({stddev: 0}), 204)).toBe(2);
+            expect(Number.isFinite(BaselineModel.sigma(baseline({mean: 0, stddev: 0}), 1))).toBe(true);
+        });
+    });
+
+    describe('detect', () => {
+        it('should report samples beyond the minimum sigma as anomalies', () => {
+            const samples = [
+                {value: 205, timestamp: monday},
+                {value: 320, timestamp: new Date('2024-01-01T12:45:00Z')},
+                {value: 900, timestamp: new Date('2024-01-01T13:10:00Z')}, // hour 37 has no baseline
+            ];
+
+            const anomalies = BaselineModel.detect(samples, [baseline()], 3);
+
+            expect(anomalies).toHaveLength(1);
+            expect(anomalies[0]).toMatchObject({
+                projectId: 'project-1',
+                metricType: 'response_time',
+                value: 320,
+                expectedValue: 200,
+                sigma: 6,
+                deviation: 60,
+                severity: 'critical',
+            });
+        });
+    });
+});
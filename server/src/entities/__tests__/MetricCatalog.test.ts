@@ -0,0 +1,53 @@
+import {MetricCatalog, MetricCatalogEntity} from '../MetricCatalog';
+import {MetricEntity} from '../Metric';
+
+describe('MetricCatalog', () => {
+    it('should start with the built-in metrics and take registered ones', () => {
+        const catalog = new MetricCatalog();
+        catalog.register({name: 'github_stars', kind: 'gauge', min_value: 0});
+
+        expect(catalog.get('cpu_usage')).toMatchObject({unit: '%', min_value: 0, max_value: 100});
+        expect(catalog.has('github_stars')).toBe(true);
+        expect(catalog.list().map(definition => definition.name)).toContain('request_count');
+    });
+
+    it('should map collector names onto catalog names, known or not', () => {
+        const catalog = new MetricCatalog();
+
+        expect(catalog.typeFor('cpu.usage')).toBe('cpu_usage');
+        expect(catalog.typeFor('http_requests_total')).toBe('http_requests_total');
+        expect(catalog.typeFor('http.server.Duration')).toBe('http_server_duration');
+        expect(catalog.typeFor('node:cpu:rate5m')).toBe('node_cpu_rate5m');
+        expect(catalog.typeFor('5xx.errors')).toBe('metric_5xx_errors');
+        expect(catalog.typeFor('__internal')).toBe('internal');
+        expect(catalog.typeFor('...')).toBe('custom');
+    });
+});
+
+describe('MetricCatalogEntity', () => {
+    it('should require an identifier-like name, a known kind and ordered bounds', () => {
+        expect(new MetricCatalogEntity({name: 'queue_depth', kind: 'gauge'}).validate()).toEqual([]);
+        expect(new MetricCatalogEntity({name: 'Queue-Depth', kind: 'gauge'}).validate()).toHaveLength(1);
+        expect(new MetricCatalogEntity({name: 'queue_depth', kind: 'summary' as never}).validate()).toHaveLength(1);
+        expect(new MetricCatalogEntity({name: 'queue_depth', kind: 'gauge', min_value: 10, max_value: 1}).validate())
+            .toEqual(['Minimum value must not be greater than the maximum value']);
+    });
+});
+
+describe('MetricEntity.validate', () => {
+    const catalog = new MetricCatalog();
+    const metric = (type: string, value: number, unit?: string) =>
+        new MetricEntity({project_id: 'p1', type, name: type, value, unit});
+
+    it('should check values against the bounds of the catalog definition', () => {
+        expect(metric('cpu_usage', 42, '%').validate(catalog.get('cpu_usage'))).toEqual([]);
+        expect(metric('cpu_usage', 120, '%').validate(catalog.get('cpu_usage'))).toEqual(['cpu_usage values must be at most 100']);
+        expect(metric('response_time', -1).validate(catalog.get('response_time'))).toEqual(['response_time values must be at least 0']);
+        expect(metric('network_in', -1).validate(catalog.get('network_in'))).toEqual([]);
+    });
+
+    it('should skip the bounds for samples in a different unit', () => {
+        expect(metric('cpu_usage', 250, 'percent').validate(catalog.get('cpu_usage'))).toEqual([]);
+        expect(metric('cpu_usage', 250).validate(catalog.get('cpu_usage'))).toHaveLength(1);
+    });
+});
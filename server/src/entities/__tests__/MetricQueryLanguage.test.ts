@@ -0,0 +1,168 @@
+import {
+    InvalidMetricQueryError,
+    MetricQueryEvaluator,
+    MetricQueryParser,
+    QueryNode,
+    QueryRange,
+    QuerySeries,
+} from '../MetricQueryLanguage';
+
+const start = new Date('2024-01-01T00:00:00Z');
+const minute = 60 * 1000;
+
+// One sample a minute for the ten minutes before `start` and the ten after
+const series = (labels: Record<string, string>, valueAt: (index: number) => number): QuerySeries => ({
+    labels,
+    samples: Array.from({length: 21}, (_, index) => ({
+        timestamp: start.getTime() + (index - 10) * minute,
+        value: valueAt(index),
+    })),
+});
+
+const evaluate = (query: string, data: QuerySeries[], range: Partial<QueryRange> = {}) => {
+    const node = MetricQueryParser.parse(query);
+    const loaded = new Map(MetricQueryParser.selectors(node).map(({selector}) => [
+        MetricQueryParser.formatSelector(selector),
+        data.filter(candidate => MetricQueryEvaluator.matches(candidate.labels, selector)),
+    ]));
+
+    return MetricQueryEvaluator.evaluate(node, {start, end: start, step_seconds: 60, ...range}, loaded);
+};
+
+const cpuEast = series({__name__: 'cpu_usage', project: 'p1', region: 'east'}, () => 40);
+const cpuWest = series({__name__: 'cpu_usage', project: 'p1', region: 'west'}, () => 80);
+const requests = series({__name__: 'request_count', project: 'p1', region: 'east'}, index => index * 60);
+const errors = series({__name__: 'error_count', project: 'p1', region: 'east'}, index => index * 3);
+
+describe('MetricQueryParser', () => {
+    it('should parse selectors with label matchers', () => {
+        const node = MetricQueryParser.parse('cpu_usage{project="p1", region=~"east|west", env!="dev"}');
+
+        expect(node).toEqual({
+            type: 'selector',
+            selector: {
+                metric: 'cpu_usage',
+                matchers: [
+                    {label: 'project', operator: '=', value: 'p1'},
+                    {label: 'region', operator: '=~', value: 'east|west'},
+                    {label: 'env', operator: '!=', value: 'dev'},
+                ],
+            },
+        });
+    });
+
+    it('should parse range functions, aggregations and arithmetic with precedence', () => {
+        const node = MetricQueryParser.parse('sum by (region) (rate(request_count[5m])) * 60 + 1');
+
+        expect(node.type).toBe('binary');
+        expect((node as Extract<QueryNode, { type: 'binary' }>).operator).toBe('+');
+        expect(MetricQueryParser.selectors(node)).toEqual([
+            {selector: {metric: 'request_count', matchers: []}, lookback_seconds: 300},
+        ]);
+        expect(MetricQueryParser.parse('avg(cpu_usage) by (region)')).toMatchObject({by: ['region']});
+    });
+
+    it('should type numbers as scalars and everything with a selector as a vector', () => {
+        expect(MetricQueryParser.valueType(MetricQueryParser.parse('2 * (3 + 4)'))).toBe('scalar');
+        expect(MetricQueryParser.valueType(MetricQueryParser.parse('-cpu_usage'))).toBe('vector');
+    });
+
+    it('should report where the query is invalid', () => {
+        const cases: [string, number][] = [
+            ['cpu_usage[5m]', 9],
+            ['rate(request_count)', 18],
+            ['rate(request_count[5])', 19],
+            ['median(cpu_usage)', 0],
+            ['sum(1)', 4],
+            ['cpu_usage{region=east}', 17],
+            ['cpu_usage{region=~"("}', 18],
+            ['cpu_usage +', 11],
+            ['cpu_usage memory_usage', 10],
+        ];
+
+        for (const [query, position] of cases) {
+            let error: unknown;
+
+            try {
+                MetricQueryParser.parse(query);
+            } catch (caught) {
+                error = caught;
+            }
+
+            expect(error).toBeInstanceOf(InvalidMetricQueryError);
+            expect((error as InvalidMetricQueryError).position).toBe(position);
+        }
+    });
+});
+
+describe('MetricQueryEvaluator', () => {
+    it('should return the latest sample of each matching series', () => {
+        const result = evaluate('cpu_usage{region="west"}', [cpuEast, cpuWest]);
+
+        expect(result).toEqual({
+            type: 'vector',
+            series: [{labels: cpuWest.labels, points: [[start.getTime() / 1000, 80]]}],
+        });
+    });
+
+    it('should leave steps without a recent sample empty', () => {
+        const result = evaluate('cpu_usage', [cpuEast], {
+            start: new Date(start.getTime() + 10 * minute),
+            end: new Date(start.getTime() + 20 * minute),
+        });
+
+        // Samples stop ten minutes after start and go stale once they are five minutes old
+        expect(result.type === 'vector' && result.series[0].points).toHaveLength(5);
+    });
+
+    it('should apply range functions over the window before each step', () => {
+        const increasing = series({__name__: 'cpu_usage', project: 'p1'}, index => index);
+
+        const average = evaluate('avg_over_time(cpu_usage[5m])', [increasing]);
+        const count = evaluate('count_over_time(cpu_usage[5m])', [increasing]);
+
+        expect(average.type === 'vector' && average.series[0].points[0][1]).toBe(8);
+        expect(count.type === 'vector' && count.series[0].points[0][1]).toBe(5);
+        expect(average.type === 'vector' && average.series[0].labels).toEqual({project: 'p1'});
+    });
+
+    it('should compute rates and treat a drop as a counter reset', () => {
+        const rate = evaluate('rate(request_count[5m])', [requests]);
+        expect(rate.type === 'vector' && rate.series[0].points[0][1]).toBe(1);
+
+        // 60 + 60 + 0 (reset) + 60 over the four minutes between the first and last samples,
+        // scaled to the five-minute range
+        const reset = series({__name__: 'request_count', project: 'p1'}, index => (index <= 8 ? 600 + index * 60 : (index - 9) * 60));
+        const increase = evaluate('increase(request_count[5m])', [reset]);
+        expect(increase.type === 'vector' && increase.series[0].points[0][1]).toBe(225);
+    });
+
+    it('should aggregate by label', () => {
+        const total = evaluate('sum(cpu_usage)', [cpuEast, cpuWest]);
+        const byRegion = evaluate('max by (region) (cpu_usage)', [cpuEast, cpuWest]);
+
+        expect(total.type === 'vector' && total.series).toEqual([{labels: {}, points: [[start.getTime() / 1000, 120]]}]);
+        expect(byRegion.type === 'vector' && byRegion.series.map(result => result.labels))
+            .toEqual([{region: 'east'}, {region: 'west'}]);
+    });
+
+    it('should match series one-to-one for arithmetic between vectors', () => {
+        const result = evaluate('rate(error_count[5m]) / rate(request_count[5m]) * 100', [errors, requests]);
+
+        expect(result.type === 'vector' && result.series).toEqual([
+            {labels: {project: 'p1', region: 'east'}, points: [[start.getTime() / 1000, 5]]},
+        ]);
+    });
+
+    it('should drop points that divide by zero', () => {
+        const result = evaluate('cpu_usage / 0', [cpuEast]);
+
+        expect(result).toEqual({type: 'vector', series: []});
+    });
+
+    it('should evaluate scalar expressions at every step', () => {
+        const result = evaluate('1 + 2 * 3', [], {end: new Date(start.getTime() + 2 * minute)});
+
+        expect(result.type === 'scalar' && result.points.map(([, value]) => value)).toEqual([7, 7, 7]);
+    });
+});
@@ -0,0 +1,74 @@
+import {MIN_RAW_RETENTION_SECONDS, RetentionPolicies, RetentionPolicy, ROLLUP_TIERS, RollupPlanner} from '../MetricRollup';
+import {CALENDAR_INTERVALS, TimeSeriesIntervals} from '../TimeSeries';
+
+const DAY = 86400;
+const now = new Date('2024-06-30T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY * 1000);
+
+describe('RetentionPolicies', () => {
+    it('should let project overrides win over the defaults', () => {
+        const policy = RetentionPolicies.resolve({'1m': '7d', '1h': '90d'}, {'1h': '30d', '1d': '365d'});
+
+        expect(policy).toEqual({raw: null, '1m': 7 * DAY, '1h': 30 * DAY, '1d': 365 * DAY});
+    });
+
+    it('should keep a tier forever when an override says so', () => {
+        expect(RetentionPolicies.resolve({'1m': '7d'}, {'1m': 'forever'})['1m']).toBeNull();
+    });
+
+    it('should keep raw samples for at least as long as the rollups look back', () => {
+        expect(RetentionPolicies.resolve({raw: '1h'}).raw).toBe(MIN_RAW_RETENTION_SECONDS);
+        expect(RetentionPolicies.resolve({raw: '14d'}).raw).toBe(14 * DAY);
+    });
+
+    it('should share the longest raw retention unless a project keeps raw samples forever', () => {
+        const policy = (raw: number | null): RetentionPolicy => ({raw, '1m': null, '1h': null, '1d': null});
+
+        expect(RetentionPolicies.sharedRawRetention([policy(14 * DAY), policy(30 * DAY)])).toBe(30 * DAY);
+        expect(RetentionPolicies.sharedRawRetention([policy(14 * DAY), policy(null)])).toBeNull();
+        expect(RetentionPolicies.sharedRawRetention([])).toBeNull();
+    });
+
+    it('should read defaults from the environment', () => {
+        expect(RetentionPolicies.fromEnv({METRICS_RETENTION_RAW: '30d', METRICS_RETENTION_1D: '730d'})).toEqual({
+            raw: '30d', '1m': '7d', '1h': '90d', '1d': '730d',
+        });
+        expect(RetentionPolicies.isValid('30d')).toBe(true);
+        expect(RetentionPolicies.isValid('30 days')).toBe(false);
+    });
+});
+
+describe('RollupPlanner', () => {
+    const policy: RetentionPolicy = {raw: null, '1m': 7 * DAY, '1h': 90 * DAY, '1d': null};
+
+    const {minute, hour, day, week, month} = CALENDAR_INTERVALS;
+    const fixed = (interval: string) => TimeSeriesIntervals.parse(interval)!;
+
+    it('should pick the coarsest tier that fits the interval', () => {
+        expect(RollupPlanner.pickTier(minute, daysAgo(1), now, policy)?.tier).toBe('1m');
+        expect(RollupPlanner.pickTier(hour, daysAgo(1), now, policy)?.tier).toBe('1h');
+        expect(RollupPlanner.pickTier(week, daysAgo(1), now, policy)?.tier).toBe('1d');
+        expect(RollupPlanner.pickTier(month, daysAgo(1), now, policy)?.tier).toBe('1d');
+        expect(RollupPlanner.pickTier(fixed('5m'), daysAgo(1), now, policy)?.tier).toBe('1m');
+        expect(RollupPlanner.pickTier(fixed('6h'), daysAgo(1), now, policy)?.tier).toBe('1h');
+    });
+
+    it('should read widths finer than every tier from raw samples', () => {
+        expect(RollupPlanner.pickTier(fixed('15s'), daysAgo(1), now, policy)).toBeNull();
+    });
+
+    it('should skip tiers whose retention no longer covers the start of the range', () => {
+        expect(RollupPlanner.pickTier(hour, daysAgo(100), now, policy)).toBeNull();
+        expect(RollupPlanner.pickTier(minute, daysAgo(8), now, policy)).toBeNull();
+        expect(RollupPlanner.pickTier(day, daysAgo(1000), now, policy)?.tier).toBe('1d');
+    });
+
+    it('should align times to the start of their bucket in UTC', () => {
+        const [minute, hour, day] = ROLLUP_TIERS;
+        const time = new Date('2024-06-30T12:34:56.789Z');
+
+        expect(RollupPlanner.bucketStart(minute, time)).toEqual(new Date('2024-06-30T12:34:00Z'));
+        expect(RollupPlanner.bucketStart(hour, time)).toEqual(new Date('2024-06-30T12:00:00Z'));
+        expect(RollupPlanner.bucketStart(day, time)).toEqual(new Date('2024-06-30T00:00:00Z'));
+    });
+});
@@ -0,0 +1,27 @@
+import {NotificationBackoff} from '../Alert';
+
+describe('NotificationBackoff', () => {
+    const now = new Date('2024-01-01T00:00:00Z');
+    const delaySeconds = (retryCount: number, maxRetries = 20) => {
+        const next = NotificationBackoff.nextRetryAt(retryCount, maxRetries, now);
+        return next ? (next.getTime() - now.getTime()) / 1000 : null;
+    };
+
+    it('should double the delay after each failed attempt', () => {
+        expect(delaySeconds(1)).toBe(30);
+        expect(delaySeconds(2)).toBe(60);
+        expect(delaySeconds(3)).toBe(120);
+        expect(delaySeconds(4)).toBe(240);
+    });
+
+    it('should cap the delay at an hour', () => {
+        expect(delaySeconds(8)).toBe(3600);
+        expect(delaySeconds(15)).toBe(3600);
+    });
+
+    it('should dead-letter once the retries are used up', () => {
+        expect(NotificationBackoff.nextRetryAt(4, 5, now)).not.toBeNull();
+        expect(NotificationBackoff.nextRetryAt(5, 5, now)).toBeNull();
+        expect(NotificationBackoff.nextRetryAt(1, 0, now)).toBeNull();
+    });
+});
@@ -0,0 +1,110 @@
+import {EscalationPolicyEntity, OnCallOverride, OnCallScheduleEntity} from '../OnCall';
+
+const weekly = new OnCallScheduleEntity({
+    id: 'schedule-1',
+    name: 'Primary',
+    timezone: 'America/New_York',
+    rotations: [{
+        name: 'Weekly',
+        participants: ['alice', 'bob', 'carol'],
+        rotation_days: 7,
+        handoff_time: '09:00',
+        start_date: '2024-03-04', // a Monday
+    }],
+});
+
+describe('OnCallScheduleEntity', () => {
+    it('should hand off at the local hand-off time', () => {
+        // 08:59 and 09:00 New York time on Monday 2024-03-18
+        expect(weekly.whoIsOnCall(new Date('2024-03-18T12:59:00Z'))?.user_id).toBe('bob');
+        expect(weekly.whoIsOnCall(new Date('2024-03-18T13:00:00Z'))?.user_id).toBe('carol');
+        expect(weekly.whoIsOnCall(new Date('2024-03-25T13:00:00Z'))?.user_id).toBe('alice');
+    });
+
+    it('should keep the local hand-off time across daylight saving changes', () => {
+        // 09:00 New York is 14:00 UTC before DST starts on 2024-03-10 and 13:00 UTC after
+        expect(weekly.whoIsOnCall(new Date('2024-03-04T14:00:00Z'))?.user_id).toBe('alice');
+        expect(weekly.whoIsOnCall(new Date('2024-03-11T12:59:00Z'))?.user_id).toBe('alice');
+        expect(weekly.whoIsOnCall(new Date('2024-03-11T13:00:00Z'))?.user_id).toBe('bob');
+    });
+
+    it('should have nobody on call before the rotation starts', () => {
+        expect(weekly.whoIsOnCall(new Date('2024-03-04T13:59:00Z'))).toBeNull();
+    });
+
+    it('should let overrides and later restricted layers take precedence', () => {
+        const layered = new OnCallScheduleEntity({
+            ...weekly,
+            rotations: [
+                ...weekly.rotations,
+                {
+                    name: 'Weekend',
+                    participants: ['dave'],
+                    rotation_days: 7,
+                    handoff_time: '00:00',
+                    start_date: '2024-03-02',
+                    restriction: {days_of_week: [0, 6], start_time: '00:00', end_time: '23:59'},
+                },
+            ],
+        });
+        const override: OnCallOverride = {
+            id: 'override-1',
+            schedule_id: 'schedule-1',
+            user_id: 'erin',
+            starts_at: new Date('2024-03-12T00:00:00Z'),
+            ends_at: new Date('2024-03-13T00:00:00Z'),
+            created_at: new Date('2024-03-01T00:00:00Z'),
+        };
+
+        // Saturday 2024-03-16 noon in New York
+        expect(layered.whoIsOnCall(new Date('2024-03-16T16:00:00Z'))).toMatchObject({
+            user_id: 'dave',
+            rotation: 'Weekend',
+        });
+        expect(layered.whoIsOnCall(new Date('2024-03-12T12:00:00Z'), [override])).toMatchObject({
+            user_id: 'erin',
+            source: 'override',
+        });
+    });
+
+    it('should validate rotations', () => {
+        const errors = new OnCallScheduleEntity({
+            name: 'Broken',
+            timezone: 'Nowhere/City',
+            rotations: [{name: 'r', participants: [], rotation_days: 0, handoff_time: '9am', start_date: '2024-02-30'}],
+        }).validate();
+
+        expect(errors).toHaveLength(5);
+    });
+});
+
+describe('EscalationPolicyEntity', () => {
+    const policy = new EscalationPolicyEntity({
+        project_id: 'project-1',
+        name: 'Default',
+        repeat_count: 1,
+        steps: [
+            {delay_minutes: 0, targets: [{type: 'schedule', id: 'schedule-1'}]},
+            {delay_minutes: 10, targets: [{type: 'channel', channel: 'slack'}]},
+        ],
+    });
+
+    it('should walk the steps and repeat the policy', () => {
+        expect(policy.nextStep(0, 0)).toEqual({step: 1, repeat: 0});
+        expect(policy.nextStep(1, 0)).toEqual({step: 0, repeat: 1});
+        expect(policy.nextStep(1, 1)).toBeNull();
+    });
+
+    it('should reject targets without an id or with unknown channels', () => {
+        const errors = new EscalationPolicyEntity({
+            project_id: 'project-1',
+            name: 'Broken',
+            steps: [{delay_minutes: 0, targets: [{type: 'user'}, {type: 'channel', channel: 'pager'}]}],
+        }).validate();
+
+        expect(errors).toEqual([
+            'Step 1 user target needs an id',
+            'Step 1 has an unknown channel: pager',
+        ]);
+    });
+});
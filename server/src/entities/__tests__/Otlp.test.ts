@@ -0,0 +1,131 @@
+import {InvalidOtlpError, OtlpDecoder, OtlpResponse} from '../Otlp';
+import {ProtobufReader, ProtobufWriter} from '../Protobuf';
+
+const time = 1704067200000;
+const nanos = `${time}000000`;
+
+// Fixed-width protobuf fields, which the writer does not need outside tests
+const fixed = (field: number, bytes: Buffer): Buffer => Buffer.concat([Buffer.from([field * 8 + 1]), bytes]);
+const double = (field: number, value: number): Buffer => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeDoubleLE(value);
+    return fixed(field, bytes);
+};
+const fixed64 = (field: number, value: bigint): Buffer => {
+    const bytes = Buffer.alloc(8);
+    bytes.writeBigUInt64LE(value);
+    return fixed(field, bytes);
+};
+const packed = (field: number, values: number[], write: (buffer: Buffer, value: number, offset: number) => void): Buffer => {
+    const bytes = Buffer.alloc(values.length * 8);
+    values.forEach((value, index) => write(bytes, value, index * 8));
+    return new ProtobufWriter().bytesField(field, bytes).toBuffer();
+};
+const keyValue = (key: string, value: string): Buffer =>
+    new ProtobufWriter().stringField(1, key).bytesField(2, new ProtobufWriter().stringField(1, value).toBuffer()).toBuffer();
+
+describe('OtlpDecoder', () => {
+    it('should decode gauges, sums and histograms from JSON', () => {
+        const [resource] = OtlpDecoder.fromJson({
+            resourceMetrics: [{
+                resource: {attributes: [{key: 'service.name', value: {stringValue: 'checkout'}}]},
+                scopeMetrics: [{
+                    metrics: [
+                        {
+                            name: 'cpu.usage',
+                            unit: '%',
+                            gauge: {dataPoints: [{timeUnixNano: nanos, asDouble: 42.5, attributes: [{key: 'host', value: {stringValue: 'a'}}]}]},
+                        },
+                        {
+                            name: 'http.requests',
+                            sum: {aggregationTemporality: 2, isMonotonic: true, dataPoints: [{timeUnixNano: nanos, asInt: '1200'}]},
+                        },
+                        {
+                            name: 'http.duration',
+                            histogram: {
+                                aggregationTemporality: 'AGGREGATION_TEMPORALITY_DELTA',
+                                dataPoints: [{timeUnixNano: nanos, count: '3', sum: 35, bucketCounts: ['1', '2'], explicitBounds: [10]}],
+                            },
+                        },
+                        {name: 'http.size', exponentialHistogram: {dataPoints: [{}, {}]}},
+                    ],
+                }],
+            }],
+        });
+
+        expect(resource.attributes).toEqual({'service.name': 'checkout'});
+        expect(resource.unsupportedPoints).toBe(2);
+        expect(resource.metrics).toEqual([
+            {name: 'cpu.usage', unit: '%', kind: 'gauge', temporality: 'unspecified', monotonic: false, points: [
+                {attributes: {host: 'a'}, startTime: undefined, time, value: 42.5},
+            ]},
+            {name: 'http.requests', unit: undefined, kind: 'sum', temporality: 'cumulative', monotonic: true, points: [
+                {attributes: {}, startTime: undefined, time, value: 1200},
+            ]},
+            {name: 'http.duration', unit: undefined, kind: 'histogram', temporality: 'delta', monotonic: false, points: [
+                {attributes: {}, startTime: undefined, time, histogram: {bounds: [10], counts: [1, 2], count: 3, sum: 35, min: undefined, max: undefined}},
+            ]},
+        ]);
+    });
+
+    it('should decode the same histogram from protobuf', () => {
+        const point = Buffer.concat([
+            fixed64(3, BigInt(nanos)),
+            fixed64(4, 3n),
+            double(5, 35),
+            packed(6, [1, 2], (buffer, value, offset) => buffer.writeBigUInt64LE(BigInt(value), offset)),
+            packed(7, [10], (buffer, value, offset) => buffer.writeDoubleLE(value, offset)),
+            new ProtobufWriter().bytesField(9, keyValue('route', '/pay')).toBuffer(),
+        ]);
+        const histogram = new ProtobufWriter().bytesField(1, point).varintField(2, 2).toBuffer();
+        const metric = new ProtobufWriter().stringField(1, 'http.duration').stringField(3, 'ms').bytesField(9, histogram).toBuffer();
+        const scope = new ProtobufWriter().bytesField(2, metric).toBuffer();
+        const resource = new ProtobufWriter().bytesField(1, keyValue('service.name', 'checkout')).toBuffer();
+        const request = new ProtobufWriter()
+            .bytesField(1, new ProtobufWriter().bytesField(1, resource).bytesField(2, scope).toBuffer())
+            .toBuffer();
+
+        const [decoded] = OtlpDecoder.fromProtobuf(request);
+
+        expect(decoded.attributes).toEqual({'service.name': 'checkout'});
+        expect(decoded.metrics).toEqual([{
+            name: 'http.duration',
+            unit: 'ms',
+            kind: 'histogram',
+            temporality: 'cumulative',
+            monotonic: false,
+            points: [{attributes: {route: '/pay'}, time, histogram: {bounds: [10], counts: [1, 2], count: 3, sum: 35}}],
+        }]);
+    });
+
+    it('should reject bucket counts that do not match the bounds', () => {
+        const request = {
+            resourceMetrics: [{scopeMetrics: [{metrics: [{
+                name: 'http.duration',
+                histogram: {dataPoints: [{count: 3, bucketCounts: [1, 2], explicitBounds: [10, 20]}]},
+            }]}]}],
+        };
+
+        expect(() => OtlpDecoder.fromJson(request)).toThrow(InvalidOtlpError);
+        expect(() => OtlpDecoder.fromJson({resourceMetrics: {}})).toThrow('resourceMetrics must be an array');
+    });
+});
+
+describe('OtlpResponse', () => {
+    it('should report rejected data points as a partial success', () => {
+        expect(OtlpResponse.json(0, '')).toEqual({});
+        expect(OtlpResponse.json(2, 'No project named "x"')).toEqual({
+            partialSuccess: {rejectedDataPoints: '2', errorMessage: 'No project named "x"'},
+        });
+
+        const fields: [number, unknown][] = [];
+        ProtobufReader.fields(OtlpResponse.protobuf(2, 'nope'), (field, value) => {
+            ProtobufReader.fields(value as Uint8Array, (inner, data) => {
+                fields.push([field * 10 + inner, typeof data === 'number' ? data : ProtobufReader.string(data)]);
+            });
+        });
+
+        expect(fields).toEqual([[11, 2], [12, 'nope']]);
+        expect(OtlpResponse.protobuf(0, '')).toHaveLength(0);
+    });
+});
@@ -0,0 +1,125 @@
+import {InvalidExpositionError, MetricsRegistry, PrometheusExposition, PrometheusTextParser} from '../PrometheusExposition';
+
+describe('PrometheusExposition', () => {
+    it('should write HELP and TYPE lines before each family', () => {
+        const output = PrometheusExposition.format([{
+            name: 'devops_project_metric',
+            help: 'Latest value',
+            type: 'gauge',
+            samples: [
+                {name: 'devops_project_metric', labels: {project: 'checkout', type: 'cpu_usage'}, value: 42.5},
+                {name: 'devops_project_metric', labels: {}, value: 1},
+            ],
+        }]);
+
+        expect(output).toBe([
+            '# HELP devops_project_metric Latest value',
+            '# TYPE devops_project_metric gauge',
+            'devops_project_metric{project="checkout",type="cpu_usage"} 42.5',
+            'devops_project_metric 1',
+            '',
+        ].join('\n'));
+    });
+
+    it('should escape label values and help text', () => {
+        const output = PrometheusExposition.format([{
+            name: 'm',
+            help: 'Line one\nback\\slash',
+            type: 'gauge',
+            samples: [{name: 'm', labels: {path: 'C:\\tmp\\"x"\n'}, value: NaN}],
+        }]);
+
+        expect(output).toContain('# HELP m Line one\\nback\\\\slash');
+        expect(output).toContain('m{path="C:\\\\tmp\\\\\\"x\\"\\n"} NaN');
+    });
+
+    it('should sanitize metric and label names', () => {
+        expect(PrometheusExposition.metricName('http.requests-total')).toBe('http_requests_total');
+        expect(PrometheusExposition.labelName('k8s:pod')).toBe('k8s_pod');
+        expect(PrometheusExposition.labelName('9lives')).toBe('_9lives');
+        expect(PrometheusExposition.formatValue(-Infinity)).toBe('-Inf');
+    });
+});
+
+describe('PrometheusTextParser', () => {
+    it('should read samples with labels, escapes and timestamps', () => {
+        const series = PrometheusTextParser.parse([
+            '# HELP http_requests_total Requests served',
+            '# TYPE http_requests_total counter',
+            'http_requests_total{method="post",path="/a \\"b\\"\\n"} 1027 1395066363000',
+            'http_requests_total{method="get", } 3',
+            '',
+            'process_up +Inf',
+        ].join('\n'));
+
+        expect(series).toEqual([
+            {labels: {__name__: 'http_requests_total', method: 'post', path: '/a "b"\n'}, samples: [{value: 1027, timestamp: 1395066363000}]},
+            {labels: {__name__: 'http_requests_total', method: 'get'}, samples: [{value: 3, timestamp: undefined}]},
+            {labels: {__name__: 'process_up'}, samples: [{value: Infinity, timestamp: undefined}]},
+        ]);
+    });
+
+    it('should read back what the exposition writes', () => {
+        const registry = new MetricsRegistry();
+        registry.counter('failures_total', 'Failures').inc({channel: 'sla"ck'}, 2);
+
+        expect(PrometheusTextParser.parse(PrometheusExposition.format(registry.families()))).toEqual([
+            {labels: {__name__: 'failures_total', channel: 'sla"ck'}, samples: [{value: 2, timestamp: undefined}]},
+        ]);
+    });
+
+    it('should report the line of a malformed sample', () => {
+        let error: unknown;
+
+        try {
+            PrometheusTextParser.parse('up 1\nup{job=unquoted} 1');
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(InvalidExpositionError);
+        expect((error as InvalidExpositionError).line).toBe(2);
+        expect(() => PrometheusTextParser.parse('up one')).toThrow('one is not a number');
+    });
+});
+
+describe('MetricsRegistry', () => {
+    it('should add counter increments per label set regardless of label order', () => {
+        const registry = new MetricsRegistry();
+        const failures = registry.counter('failures_total', 'Failures');
+
+        failures.inc({channel: 'slack', outcome: 'retry'});
+        failures.inc({outcome: 'retry', channel: 'slack'}, 2);
+        failures.inc({channel: 'email', outcome: 'dead_letter'});
+
+        expect(registry.families()[0].samples.map(sample => sample.value)).toEqual([3, 1]);
+        expect(() => failures.inc({}, -1)).toThrow();
+    });
+
+    it('should expose cumulative histogram buckets with sum and count', () => {
+        const registry = new MetricsRegistry();
+        const duration = registry.histogram('run_seconds', 'Run time', [1, 5]);
+
+        duration.observe({collector: 'github'}, 0.5);
+        duration.observe({collector: 'github'}, 3);
+        duration.observe({collector: 'github'}, 8);
+
+        expect(PrometheusExposition.format(registry.families())).toBe([
+            '# HELP run_seconds Run time',
+            '# TYPE run_seconds histogram',
+            'run_seconds_bucket{collector="github",le="1"} 1',
+            'run_seconds_bucket{collector="github",le="5"} 2',
+            'run_seconds_bucket{collector="github",le="+Inf"} 3',
+            'run_seconds_sum{collector="github"} 11.5',
+            'run_seconds_count{collector="github"} 3',
+            '',
+        ].join('\n'));
+    });
+
+    it('should refuse to register the same name twice', () => {
+        const registry = new MetricsRegistry();
+        registry.gauge('clients', 'Clients');
+
+        expect(() => registry.counter('clients', 'Clients')).toThrow('already registered');
+    });
+});
@@ -0,0 +1,75 @@
+import {InvalidRemoteWriteError, RemoteWriteDecoder, SnappyDecoder} from '../PrometheusRemoteWrite';
+
+// Minimal protobuf encoding, enough to build WriteRequests for the decoder
+const varint = (value: number): number[] => {
+    const bytes: number[] = [];
+    while (value >= 128) {
+        bytes.push((value % 128) | 0x80);
+        value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return bytes;
+};
+const bytesField = (field: number, data: number[]): number[] => [...varint(field * 8 + 2), ...varint(data.length), ...data];
+const text = (value: string): number[] => [...Buffer.from(value, 'utf8')];
+const label = (name: string, value: string) => bytesField(1, [...bytesField(1, text(name)), ...bytesField(2, text(value))]);
+const sample = (value: number, timestamp: number) => {
+    const double = Buffer.alloc(8);
+    double.writeDoubleLE(value);
+    return bytesField(2, [...varint(1 * 8 + 1), ...double, ...varint(2 * 8), ...varint(timestamp)]);
+};
+
+// A valid snappy block made of a single literal
+const snappyLiteral = (data: number[]): Buffer => {
+    const length = data.length - 1;
+    const tag = length < 60 ? [length << 2] : [61 << 2, length & 0xff, length >> 8];
+    return Buffer.from([...varint(data.length), ...tag, ...data]);
+};
+
+describe('SnappyDecoder', () => {
+    it('should decompress literals and overlapping copies', () => {
+        // "ab" then a 1-byte-offset copy of 6 bytes at offset 2, then a 2-byte-offset copy of 3 at offset 8
+        const compressed = Buffer.from([11, 0x04, 0x61, 0x62, 0x09, 0x02, 0x0a, 0x08, 0x00]);
+
+        expect(SnappyDecoder.decompress(compressed).toString()).toBe('abababababa');
+    });
+
+    it('should decompress long literals', () => {
+        const data = Array.from({length: 300}, (_, index) => index % 256);
+
+        expect([...SnappyDecoder.decompress(snappyLiteral(data))]).toEqual(data);
+    });
+
+    it('should reject copies that reach before the start of the output', () => {
+        expect(() => SnappyDecoder.decompress(Buffer.from([4, 0x00, 0x61, 0x01, 0x05]))).toThrow(InvalidRemoteWriteError);
+        expect(() => SnappyDecoder.decompress(Buffer.from([5, 0x04, 0x61]))).toThrow(InvalidRemoteWriteError);
+    });
+});
+
+describe('RemoteWriteDecoder', () => {
+    it('should decode series with their labels and samples', () => {
+        const timeSeries = [
+            ...label('__name__', 'cpu_usage'),
+            ...label('project', 'checkout'),
+            ...sample(42.5, 1704067200000),
+            ...sample(43, 1704067215000),
+        ];
+        const request = [...bytesField(1, timeSeries), ...bytesField(3, text('metadata is skipped'))];
+
+        const series = RemoteWriteDecoder.decode(SnappyDecoder.decompress(snappyLiteral(request)));
+
+        expect(series).toEqual([{
+            labels: {__name__: 'cpu_usage', project: 'checkout'},
+            samples: [
+                {value: 42.5, timestamp: 1704067200000},
+                {value: 43, timestamp: 1704067215000},
+            ],
+        }]);
+    });
+
+    it('should reject truncated messages', () => {
+        const truncated = bytesField(1, label('__name__', 'cpu_usage')).slice(0, -3);
+
+        expect(() => RemoteWriteDecoder.decode(Buffer.from(truncated))).toThrow('Unexpected end of data');
+    });
+});
@@ -0,0 +1,39 @@
+import {QuantileSketches} from '../QuantileSketch';
+
+describe('QuantileSketches', () => {
+    const latencies = Array.from({length: 1000}, (_, index) => index + 1);
+
+    it('should read quantiles back within the relative accuracy', () => {
+        const sketch = QuantileSketches.fromValues(latencies);
+
+        for (const [q, expected] of [[0.5, 500.5], [0.95, 950.05], [0.99, 990.01]]) {
+            const estimate = QuantileSketches.quantile(sketch, q)!;
+            expect(Math.abs(estimate - expected) / expected).toBeLessThanOrEqual(QuantileSketches.RELATIVE_ACCURACY);
+        }
+    });
+
+    it('should give the same quantiles for merged sketches as for one sketch of all values', () => {
+        const merged = QuantileSketches.merge([
+            QuantileSketches.fromValues(latencies.slice(0, 300)),
+            QuantileSketches.fromValues(latencies.slice(300)),
+        ]);
+
+        expect(QuantileSketches.count(merged)).toBe(1000);
+        expect(QuantileSketches.quantile(merged, 0.99)).toBe(QuantileSketches.quantile(QuantileSketches.fromValues(latencies), 0.99));
+    });
+
+    it('should order negative values, zero and positive values', () => {
+        const sketch = QuantileSketches.fromValues([-50, -5, 0, 0, 5, 50]);
+
+        expect(QuantileSketches.quantile(sketch, 0)!).toBeCloseTo(-50, -1);
+        expect(QuantileSketches.quantile(sketch, 0.5)).toBe(0);
+        expect(QuantileSketches.quantile(sketch, 1)!).toBeCloseTo(50, -1);
+    });
+
+    it('should keep quantiles within the known min and max, and have none when empty', () => {
+        const sketch = QuantileSketches.fromValues([100, 100, 100]);
+
+        expect(QuantileSketches.quantile(sketch, 0.5, 100, 100)).toBe(100);
+        expect(QuantileSketches.quantile({}, 0.5)).toBeNull();
+    });
+});
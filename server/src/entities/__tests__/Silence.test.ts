@@ -0,0 +1,99 @@
+import {InvalidSilenceMatcherError, SilenceEntity, SilenceMatcherParser, SilenceTarget} from '../Silence';
+
+const target: SilenceTarget = {
+    project_id: 'project-1',
+    project_name: 'checkout',
+    metric_type: 'cpu_usage',
+    severity: 'critical',
+    tags: ['team:payments', 'env:prod'],
+};
+
+const silenceWith = (expressions: string[], data: Partial<SilenceEntity> = {}): SilenceEntity =>
+    new SilenceEntity({
+        matchers: expressions.map(expression => SilenceMatcherParser.parse(expression)),
+        starts_at: new Date('2024-01-01T00:00:00Z'),
+        ends_at: new Date('2025-01-01T00:00:00Z'),
+        comment: 'Planned maintenance',
+        ...data,
+    });
+
+describe('SilenceMatcherParser', () => {
+    it('should parse each operator', () => {
+        expect(SilenceMatcherParser.parse('severity="critical"'))
+            .toEqual({field: 'severity', operator: '=', value: 'critical'});
+        expect(SilenceMatcherParser.parse('metric_type =~ "cpu_.*"'))
+            .toEqual({field: 'metric_type', operator: '=~', value: 'cpu_.*'});
+        expect(SilenceMatcherParser.parse('tag!~"env:.*"').operator).toBe('!~');
+        expect(SilenceMatcherParser.parse('project!="checkout"').operator).toBe('!=');
+    });
+
+    it('should round-trip escaped quotes', () => {
+        const matcher = SilenceMatcherParser.parse('tag="say \\"hi\\""');
+
+        expect(matcher.value).toBe('say "hi"');
+        expect(SilenceMatcherParser.format(matcher)).toBe('tag="say \\"hi\\""');
+    });
+
+    it('should reject unknown fields and invalid regular expressions', () => {
+        expect(() => SilenceMatcherParser.parse('host="web-1"')).toThrow(InvalidSilenceMatcherError);
+        expect(() => SilenceMatcherParser.parse('metric_type=~"cpu_("')).toThrow(InvalidSilenceMatcherError);
+    });
+});
+
+describe('SilenceEntity', () => {
+    it('should require every matcher to match', () => {
+        expect(silenceWith(['severity="critical"', 'metric_type=~"cpu_.*"']).matches(target)).toBe(true);
+        expect(silenceWith(['severity="critical"', 'metric_type="memory_usage"']).matches(target)).toBe(false);
+    });
+
+    it('should match the project by id or name and tags by any value', () => {
+        expect(silenceWith(['project="checkout"']).matches(target)).toBe(true);
+        expect(silenceWith(['project="project-1"']).matches(target)).toBe(true);
+        expect(silenceWith(['tag="env:prod"']).matches(target)).toBe(true);
+        expect(silenceWith(['tag!~"env:.*"']).matches(target)).toBe(false);
+    });
+
+    it('should only match alerts of its own project when scoped', () => {
+        expect(silenceWith(['severity="critical"'], {project_id: 'project-2'}).matches(target)).toBe(false);
+    });
+
+    it('should report its state relative to the start and end', () => {
+        const silence = silenceWith(['severity="critical"']);
+
+        expect(silence.getState(new Date('2023-12-31T00:00:00Z'))).toBe('pending');
+        expect(silence.getState(new Date('2024-06-01T00:00:00Z'))).toBe('active');
+        expect(silence.getState(new Date('2025-01-01T00:00:00Z'))).toBe('expired');
+    });
+
+    it('should only be active inside a recurring window', () => {
+        const silence = silenceWith(['severity="critical"'], {
+            recurrence: {days_of_week: [0], start_time: '02:00', end_time: '04:00', timezone: 'UTC'},
+        });
+
+        // 2024-03-10 is a Sunday
+        expect(silence.isActiveAt(new Date('2024-03-10T02:30:00Z'))).toBe(true);
+        expect(silence.isActiveAt(new Date('2024-03-10T04:00:00Z'))).toBe(false);
+        expect(silence.isActiveAt(new Date('2024-03-11T02:30:00Z'))).toBe(false);
+    });
+
+    it('should evaluate recurring windows in their timezone and across midnight', () => {
+        const silence = silenceWith(['severity="critical"'], {
+            recurrence: {days_of_week: [6], start_time: '23:00', end_time: '01:00', timezone: 'America/New_York'},
+        });
+
+        // Saturday 23:30 and Sunday 00:30 in New York
+        expect(silence.isActiveAt(new Date('2024-03-03T04:30:00Z'))).toBe(true);
+        expect(silence.isActiveAt(new Date('2024-03-03T05:30:00Z'))).toBe(true);
+        expect(silence.isActiveAt(new Date('2024-03-03T06:30:00Z'))).toBe(false);
+    });
+
+    it('should validate its window and recurrence', () => {
+        const errors = silenceWith([], {
+            ends_at: new Date('2023-01-01T00:00:00Z'),
+            comment: '',
+            recurrence: {days_of_week: [7], start_time: '25:00', end_time: '01:00', timezone: 'Mars/Base'},
+        }).validate();
+
+        expect(errors).toHaveLength(6);
+    });
+});
@@ -0,0 +1,96 @@
+import {InvalidStatsDLineError, StatsDAggregator, StatsDParser, StatsDProjectRules} from '../StatsD';
+
+const aggregate = (packet: string, aggregator = new StatsDAggregator()) => {
+    StatsDParser.parsePacket(packet).samples.forEach(sample => aggregator.add(sample));
+    return aggregator.flush();
+};
+
+describe('StatsDParser', () => {
+    it('should parse every metric type with sample rates and DogStatsD tags', () => {
+        const {samples, errors} = StatsDParser.parsePacket([
+            'checkout.requests:3|c|@0.5|#region:eu,canary',
+            'checkout.queue:-2|g',
+            'checkout.latency:12:30|ms',
+            'checkout.users:alice|s',
+            '',
+        ].join('\n'));
+
+        expect(errors).toEqual([]);
+        expect(samples).toEqual([
+            {name: 'checkout.requests', type: 'counter', values: [3], relative: false, sampleRate: 0.5, tags: {region: 'eu', canary: ''}},
+            {name: 'checkout.queue', type: 'gauge', values: [-2], relative: true, sampleRate: 1, tags: {}},
+            {name: 'checkout.latency', type: 'timer', values: [12, 30], relative: false, sampleRate: 1, tags: {}},
+            {name: 'checkout.users', type: 'set', values: [], member: 'alice', relative: false, sampleRate: 1, tags: {}},
+        ]);
+    });
+
+    it('should report invalid lines without dropping the rest of the packet', () => {
+        const {samples, errors} = StatsDParser.parsePacket('no_value|c\nok:1|c\nbad:abc|ms\nrate:1|c|@2\nkind:1|x');
+
+        expect(samples).toHaveLength(1);
+        expect(errors.map(error => error.line)).toEqual(['no_value|c', 'bad:abc|ms', 'rate:1|c|@2', 'kind:1|x']);
+        expect(errors[0]).toBeInstanceOf(InvalidStatsDLineError);
+    });
+});
+
+describe('StatsDAggregator', () => {
+    it('should sum counters, scaled by their sample rate, per set of tags', () => {
+        expect(aggregate('hits:1|c\nhits:2|c|@0.5\nhits:1|c|#region:eu')).toEqual([
+            {name: 'hits', type: 'counter', tags: {}, value: 5},
+            {name: 'hits', type: 'counter', tags: {region: 'eu'}, value: 1},
+        ]);
+    });
+
+    it('should keep gauges between flushes for relative updates but only flush changed ones', () => {
+        const aggregator = new StatsDAggregator();
+
+        expect(aggregate('queue:10|g\nqueue:+5|g', aggregator)).toMatchObject([{value: 15}]);
+        expect(aggregator.flush()).toEqual([]);
+        expect(aggregate('queue:-3|g', aggregator)).toMatchObject([{value: 12}]);
+    });
+
+    it('should turn timers into a histogram with their mean as the value', () => {
+        const [timer] = aggregate('latency:4|ms\nlatency:20|ms\nlatency:60000|ms');
+
+        expect(timer.value).toBe(20008);
+        expect(timer.histogram).toMatchObject({count: 3, sum: 60024, min: 4, max: 60000});
+        expect(timer.histogram!.counts.filter(count => count > 0)).toEqual([1, 1, 1]);
+        expect(timer.histogram!.counts[timer.histogram!.counts.length - 1]).toBe(1);
+    });
+
+    it('should count the unique members of sets', () => {
+        expect(aggregate('users:a|s\nusers:b|s\nusers:a|s')).toMatchObject([{type: 'set', value: 2}]);
+    });
+
+    it('should drop samples for new series once the limit is reached', () => {
+        const aggregator = new StatsDAggregator(1);
+        const [first, second] = StatsDParser.parsePacket('a:1|c\nb:1|c').samples;
+
+        expect(aggregator.add(first)).toBe(true);
+        expect(aggregator.add(second)).toBe(false);
+        expect(aggregator.add(first)).toBe(true);
+    });
+});
+
+describe('StatsDProjectRules', () => {
+    const rules = new StatsDProjectRules(StatsDProjectRules.parse(JSON.stringify([
+        {prefix: 'checkout.', project: 'checkout'},
+        {prefix: 'payments.', project: 'payments', strip_prefix: false},
+    ])), 'legacy');
+
+    it('should prefer the project tag, then the first matching prefix, then the default project', () => {
+        expect(rules.route('checkout.cpu.usage', {project: 'billing', host: 'a'})).toEqual({
+            project: 'billing', name: 'checkout.cpu.usage', tags: {host: 'a'},
+        });
+        expect(rules.route('checkout.cpu.usage', {})).toEqual({project: 'checkout', name: 'cpu.usage', tags: {}});
+        expect(rules.route('payments.errors', {})).toEqual({project: 'payments', name: 'payments.errors', tags: {}});
+        expect(rules.route('other', {})).toEqual({project: 'legacy', name: 'other', tags: {}});
+        expect(new StatsDProjectRules([]).route('other', {})).toBeNull();
+    });
+
+    it('should reject rules that are not an array of prefixes and projects', () => {
+        expect(StatsDProjectRules.parse(undefined)).toEqual([]);
+        expect(() => StatsDProjectRules.parse('{"prefix": "a."}')).toThrow('must be an array');
+        expect(() => StatsDProjectRules.parse('[{"prefix": "a."}]')).toThrow('must be an array');
+    });
+});
@@ -0,0 +1,73 @@
+import {MetricEntity} from '../Metric';
+import {CALENDAR_INTERVALS, TimeSeriesGapFill, TimeSeriesGroups, TimeSeriesIntervals} from '../TimeSeries';
+
+describe('TimeSeriesIntervals', () => {
+    it('should accept the interval names the endpoint has always taken', () => {
+        expect(TimeSeriesIntervals.parse('1 hour')).toEqual(CALENDAR_INTERVALS.hour);
+        expect(TimeSeriesIntervals.parse('Day')).toEqual(CALENDAR_INTERVALS.day);
+        expect(TimeSeriesIntervals.parse('5 minutes')).toBeNull();
+    });
+
+    it('should accept allow-listed widths and nothing else', () => {
+        expect(TimeSeriesIntervals.parse('15s')).toEqual({name: '15s', seconds: 15});
+        expect(TimeSeriesIntervals.parse('6h')).toEqual({name: '6h', seconds: 6 * 3600});
+        expect(TimeSeriesIntervals.isValid('7m')).toBe(false);
+        expect(TimeSeriesIntervals.isValid("hour', timestamp) --")).toBe(false);
+    });
+
+    it('should align fixed widths to the epoch and calendar intervals to the calendar in UTC', () => {
+        const time = new Date('2024-06-27T13:34:56Z'); // A Thursday
+
+        expect(TimeSeriesIntervals.bucketStart(TimeSeriesIntervals.parse('5m')!, time)).toEqual(new Date('2024-06-27T13:30:00Z'));
+        expect(TimeSeriesIntervals.bucketStart(TimeSeriesIntervals.parse('6h')!, time)).toEqual(new Date('2024-06-27T12:00:00Z'));
+        expect(TimeSeriesIntervals.bucketStart(CALENDAR_INTERVALS.week, time)).toEqual(new Date('2024-06-24T00:00:00Z'));
+        expect(TimeSeriesIntervals.bucketStart(CALENDAR_INTERVALS.month, time)).toEqual(new Date('2024-06-01T00:00:00Z'));
+    });
+
+    it('should count the points a range holds', () => {
+        const start = new Date('2024-06-27T00:00:00Z');
+        const end = new Date('2024-06-28T00:00:00Z');
+
+        expect(TimeSeriesIntervals.pointCount(CALENDAR_INTERVALS.hour, start, end)).toBe(25);
+        expect(TimeSeriesIntervals.pointCount(TimeSeriesIntervals.parse('15s')!, start, end)).toBe(5761);
+    });
+});
+
+describe('TimeSeriesGapFill', () => {
+    const start = new Date('2024-06-27T00:00:00Z');
+    const end = new Date('2024-06-27T04:00:00Z');
+    const point = (hour: number, value: number) =>
+        new MetricEntity({project_id: 'p1', type: 'cpu_usage', value, timestamp: new Date(Date.UTC(2024, 5, 27, hour))});
+    const points = [point(1, 10), point(3, 30)];
+    const fill = (policy: 'none' | 'null' | 'zero' | 'previous') =>
+        TimeSeriesGapFill.fill(points, 'p1', 'cpu_usage', start, end, CALENDAR_INTERVALS.hour, policy).map(p => p.value);
+
+    it('should add a point for every empty bucket under each policy', () => {
+        expect(fill('null')).toEqual([null, 10, null, 30, null]);
+        expect(fill('zero')).toEqual([0, 10, 0, 30, 0]);
+        expect(fill('previous')).toEqual([null, 10, 10, 30, 30]);
+        expect(fill('none')).toEqual([10, 30]);
+    });
+
+    it('should mark filled points', () => {
+        const [gap] = TimeSeriesGapFill.fill(points, 'p1', 'cpu_usage', start, end, CALENDAR_INTERVALS.hour, 'zero');
+
+        expect(gap).toMatchObject({timestamp: start, metadata: {count: 0, filled: true}});
+    });
+});
+
+describe('TimeSeriesGroups', () => {
+    const point = (tags: Record<string, string>, value: number) =>
+        new MetricEntity({project_id: 'p1', type: 'cpu_usage', value, tags, timestamp: new Date('2024-06-27T00:00:00Z')});
+
+    it('should split points into one series per group, keeping missing tags as null', () => {
+        const groups = TimeSeriesGroups.split([
+            point({region: 'eu'}, 1),
+            point({}, 2),
+            point({region: 'eu'}, 3),
+        ], ['region']);
+
+        expect(groups.map(group => group.group)).toEqual([{region: 'eu'}, {region: null}]);
+        expect(groups[0].points.map(p => p.value)).toEqual([1, 3]);
+    });
+});
@@ -0,0 +1,40 @@
+import {createHmac} from 'crypto';
+import {WebhookSignature} from '../WebhookDelivery';
+
+describe('WebhookSignature', () => {
+    const secret = 'whsec_0123456789abcdef';
+    const body = JSON.stringify({schema_version: 1, event: 'alert.triggered'});
+    const timestamp = 1704110400; // 2024-01-01T12:00:00Z
+    const now = new Date(timestamp * 1000);
+
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+        const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+        expect(WebhookSignature.sign(secret, body, timestamp)).toBe(`t=${timestamp},v1=${digest}`);
+    });
+
+    it('should verify a signature made with the same secret', () => {
+        const header = WebhookSignature.sign(secret, body, timestamp);
+
+        expect(WebhookSignature.verify(secret, body, header, now)).toBe(true);
+    });
+
+    it('should reject a tampered body or a different secret', () => {
+        const header = WebhookSignature.sign(secret, body, timestamp);
+
+        expect(WebhookSignature.verify(secret, body.replace('triggered', 'resolved'), header, now)).toBe(false);
+        expect(WebhookSignature.verify('another-secret-value', body, header, now)).toBe(false);
+    });
+
+    it('should reject timestamps outside the tolerance to prevent replays', () => {
+        const header = WebhookSignature.sign(secret, body, timestamp);
+        const later = new Date((timestamp + WebhookSignature.TOLERANCE_SECONDS + 1) * 1000);
+
+        expect(WebhookSignature.verify(secret, body, header, later)).toBe(false);
+    });
+
+    it('should reject malformed headers', () => {
+        expect(WebhookSignature.verify(secret, body, 'v1=abc', now)).toBe(false);
+        expect(WebhookSignature.verify(secret, body, `t=${timestamp}`, now)).toBe(false);
+    });
+});
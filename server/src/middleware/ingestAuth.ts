@@ -0,0 +1,33 @@
+import {Request, Response, NextFunction} from 'express';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {IngestTokens} from '../entities/IngestToken';
+import {Project} from '../entities/Project';
+
+export interface IngestRequest extends Request {
+    ingestProject?: Project;
+}
+
+// Requires a project's ingest token as the bearer token. The request may only write to that project.
+export const authenticateIngestToken = async (req: IngestRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const token = IngestTokens.fromHeader(req.headers.authorization);
+        const projectRepo = new ProjectRepository();
+        const project = token ? await projectRepo.findByIngestTokenHash(IngestTokens.hash(token)) : null;
+
+        if (!project) {
+            res.status(401).json({
+                error: {
+                    code: 'INVALID_INGEST_TOKEN',
+                    message: 'A valid project ingest token is required as the bearer token',
+                    status: 401,
+                },
+            });
+            return;
+        }
+
+        req.ingestProject = project;
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,4 +1,5 @@
 import rateLimit from 'express-rate-limit';
+import {IngestRequest} from './ingestAuth';
 
 export const rateLimiter = rateLimit({
     windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
@@ -6,6 +7,8 @@ export const rateLimiter = rateLimit({
     message: 'Too many requests from this IP, please try again later.',
     standardHeaders: true,
     legacyHeaders: false,
+    // Remote-write has its own, higher limit (ingestRateLimiter)
+    skip: (req) => req.path === '/metrics/remote-write',
     handler: (req, res) => {
         res.status(429).json({
             error: {
@@ -18,6 +21,26 @@ export const rateLimiter = rateLimit({
     },
 });
 
+// Rate limiter for the push endpoints (remote-write, OTLP), per ingest token. Prometheus and OpenTelemetry
+// collectors send a batch every few seconds, so the limit is per minute and much higher.
+export const ingestRateLimiter = rateLimit({
+    windowMs: 60 * 1000,
+    max: parseInt(process.env.INGEST_RATE_LIMIT_MAX || '600'), // limit each token to 600 requests per minute
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req) => (req as IngestRequest).ingestProject?.id || req.ip || '',
+    handler: (_req, res) => {
+        res.status(429).json({
+            error: {
+                code: 'RATE_LIMIT_EXCEEDED',
+                message: 'Too many ingest requests for this project, please try again later.',
+                status: 429,
+                timestamp: new Date().toISOString(),
+            },
+        });
+    },
+});
+
 // Stricter rate limiter for auth endpoints
 export const authRateLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -0,0 +1,36 @@
+import {Request, Response, NextFunction} from 'express';
+
+// Buffers the request body as-is into req.body, for encodings body-parser rejects (such as snappy)
+export const rawBody = (limitBytes: number) => (req: Request, res: Response, next: NextFunction): void => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limitBytes) {
+            tooLarge = true;
+            return;
+        }
+        chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+        if (tooLarge) {
+            res.status(413).json({
+                error: {
+                    code: 'PAYLOAD_TOO_LARGE',
+                    message: `Request body exceeds ${limitBytes} bytes`,
+                    status: 413,
+                    timestamp: new Date().toISOString(),
+                },
+            });
+            return;
+        }
+
+        req.body = Buffer.concat(chunks);
+        next();
+    });
+
+    req.on('error', next);
+};
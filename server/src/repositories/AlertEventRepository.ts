@@ -0,0 +1,53 @@
+import {Knex} from 'knex';
+import {db} from '../database/connection';
+import {AlertEvent, AlertEventActorType, AlertStatus} from '../entities/Alert';
+import {CreateAlertEventDTO, IAlertEventRepository} from './interfaces/IAlertEventRepository';
+
+export class AlertEventRepository implements IAlertEventRepository {
+    private table = 'alert_events';
+
+    async create(data: CreateAlertEventDTO, trx?: Knex.Transaction): Promise<AlertEvent> {
+        const [created] = await (trx || db)(this.table)
+            .insert({
+                alert_id: data.alertId,
+                from_status: data.fromStatus,
+                to_status: data.toStatus,
+                actor_type: data.actorType,
+                actor_id: data.actorId,
+                metric_value: data.metricValue,
+                note: data.note,
+                metadata: JSON.stringify(data.metadata || {}),
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findByAlertId(alertId: string): Promise<AlertEvent[]> {
+        const results = await db(this.table)
+            .leftJoin('users', 'users.id', `${this.table}.actor_id`)
+            .where(`${this.table}.alert_id`, alertId)
+            .select(`${this.table}.*`, 'users.username as actor_name')
+            .orderBy(`${this.table}.created_at`, 'asc');
+
+        return results.map(this.mapToEntity);
+    }
+
+    private mapToEntity(row: Record<string, unknown>): AlertEvent {
+        const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
+
+        return {
+            id: row.id as string,
+            alert_id: row.alert_id as string,
+            from_status: (row.from_status as AlertStatus) || undefined,
+            to_status: row.to_status as AlertStatus,
+            actor_type: row.actor_type as AlertEventActorType,
+            actor_id: (row.actor_id as string) || undefined,
+            actor_name: (row.actor_name as string) || undefined,
+            metric_value: row.metric_value != null ? parseFloat(row.metric_value as string) : undefined,
+            note: (row.note as string) || undefined,
+            metadata,
+            created_at: row.created_at as Date,
+        };
+    }
+}
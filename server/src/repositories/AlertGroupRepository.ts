@@ -0,0 +1,161 @@
+import {db} from '../database/connection';
+import {AlertStatus} from '../entities/Alert';
+import {AlertGroup, AlertGrouper, AlertGroupStatus} from '../entities/AlertGroup';
+import {
+    AlertGroupFilters,
+    AttachAlertDTO,
+    IAlertGroupRepository,
+} from './interfaces/IAlertGroupRepository';
+
+export class AlertGroupRepository implements IAlertGroupRepository {
+    private table = 'alert_groups';
+
+    // Adds the alert to the open group for its labels, opening one if needed, and
+    // schedules the group's next notification
+    async attachAlert(data: AttachAlertDTO, now: Date = new Date()): Promise<AlertGroup> {
+        const groupKey = AlertGrouper.keyFor(data.labels);
+
+        return db.transaction(async (trx) => {
+            const existing = await trx(this.table)
+                .where({group_key: groupKey, status: 'open'})
+                .forUpdate()
+                .first();
+
+            let row: Record<string, unknown>;
+
+            if (existing) {
+                const group = this.mapToEntity(existing);
+                [row] = await trx(this.table)
+                    .where({id: group.id})
+                    .update({
+                        next_flush_at: AlertGrouper.nextFlushAt(group, now),
+                        updated_at: now,
+                    })
+                    .returning('*');
+            } else {
+                [row] = await trx(this.table)
+                    .insert({
+                        group_key: groupKey,
+                        project_id: data.labels.project ? data.projectId : null,
+                        labels: JSON.stringify(data.labels),
+                        group_interval_seconds: data.config.group_interval_seconds,
+                        next_flush_at: AlertGrouper.firstFlushAt(data.config, now),
+                    })
+                    .returning('*');
+            }
+
+            await trx('alerts')
+                .where({id: data.alertId})
+                .update({group_id: row.id, updated_at: now});
+
+            return this.mapToEntity(row);
+        });
+    }
+
+    async scheduleFlush(id: string, now: Date = new Date()): Promise<AlertGroup | null> {
+        return db.transaction(async (trx) => {
+            const existing = await trx(this.table)
+                .where({id, status: 'open'})
+                .forUpdate()
+                .first();
+
+            if (!existing) {
+                return null;
+            }
+
+            const group = this.mapToEntity(existing);
+            const [updated] = await trx(this.table)
+                .where({id})
+                .update({
+                    next_flush_at: AlertGrouper.nextFlushAt(group, now),
+                    updated_at: now,
+                })
+                .returning('*');
+
+            return this.mapToEntity(updated);
+        });
+    }
+
+    async findById(id: string): Promise<AlertGroup | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: AlertGroupFilters): Promise<AlertGroup[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.status) {
+                query = query.where({status: filters.status});
+            }
+        }
+
+        const results = await query.orderBy('updated_at', 'desc');
+        return results.map(this.mapToEntity);
+    }
+
+    async findDue(now: Date = new Date()): Promise<AlertGroup[]> {
+        const results = await db(this.table)
+            .where({status: 'open'})
+            .where('next_flush_at', '<=', now)
+            .orderBy('next_flush_at', 'asc');
+
+        return results.map(this.mapToEntity);
+    }
+
+    async recordNotification(
+        id: string,
+        notifiedAlerts: Record<string, AlertStatus>,
+        resolved: boolean,
+        now: Date = new Date()
+    ): Promise<AlertGroup | null> {
+        const [updated] = await db(this.table)
+            .where({id})
+            .update({
+                notified_alerts: JSON.stringify(notifiedAlerts),
+                notification_count: db.raw('notification_count + 1'),
+                last_notified_at: now,
+                next_flush_at: null,
+                status: resolved ? 'resolved' : 'open',
+                resolved_at: resolved ? now : null,
+                updated_at: now,
+            })
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async clearFlush(id: string): Promise<void> {
+        await db(this.table)
+            .where({id})
+            .update({next_flush_at: null, updated_at: new Date()});
+    }
+
+    private mapToEntity(row: Record<string, unknown>): AlertGroup {
+        const labels = typeof row.labels === 'string'
+            ? JSON.parse(row.labels)
+            : row.labels;
+        const notifiedAlerts = typeof row.notified_alerts === 'string'
+            ? JSON.parse(row.notified_alerts)
+            : row.notified_alerts;
+
+        return {
+            id: row.id as string,
+            group_key: row.group_key as string,
+            project_id: (row.project_id as string) || undefined,
+            labels: labels || {},
+            status: row.status as AlertGroupStatus,
+            notified_alerts: notifiedAlerts || {},
+            notification_count: row.notification_count as number,
+            group_interval_seconds: row.group_interval_seconds as number,
+            next_flush_at: (row.next_flush_at as Date) || undefined,
+            last_notified_at: (row.last_notified_at as Date) || undefined,
+            resolved_at: (row.resolved_at as Date) || undefined,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
@@ -0,0 +1,137 @@
+import {db} from '../database/connection';
+import {AlertNotification, AlertNotificationStatus} from '../entities/Alert';
+import {
+    AlertNotificationFilters,
+    CreateAlertNotificationDTO,
+    IAlertNotificationRepository,
+} from './interfaces/IAlertNotificationRepository';
+
+export class AlertNotificationRepository implements IAlertNotificationRepository {
+    private table = 'alert_notifications';
+
+    async create(data: CreateAlertNotificationDTO): Promise<AlertNotification> {
+        const [created] = await db(this.table)
+            .insert({
+                alert_id: data.alertId,
+                group_id: data.groupId,
+                alert_ids: JSON.stringify(data.alertIds),
+                channel: data.channel,
+                channel_id: data.channelId,
+                event: data.event,
+                destination: JSON.stringify(data.destination || []),
+                payload: JSON.stringify(data.payload),
+                status: 'pending',
+                next_retry: new Date(),
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<AlertNotification | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findByAlertId(alertId: string, filters?: AlertNotificationFilters): Promise<AlertNotification[]> {
+        let query = db(this.table).whereRaw('alert_ids @> ?::jsonb', [JSON.stringify([alertId])]);
+
+        if (filters) {
+            if (filters.status) {
+                query = query.where({status: filters.status});
+            }
+            if (filters.channel) {
+                query = query.where({channel: filters.channel});
+            }
+        }
+
+        const results = await query.orderBy('created_at', 'asc');
+        return results.map(this.mapToEntity);
+    }
+
+    // Leases due notifications by pushing next_retry forward so a crashed worker's batch
+    // is picked up again once the lease expires; SKIP LOCKED keeps workers off each other's rows
+    async claimDue(limit: number, leaseSeconds: number, now: Date = new Date()): Promise<AlertNotification[]> {
+        const due = db(this.table)
+            .select('id')
+            .whereIn('status', ['pending', 'failed'])
+            .where('next_retry', '<=', now)
+            .orderBy('next_retry', 'asc')
+            .limit(limit)
+            .forUpdate()
+            .skipLocked();
+
+        const claimed = await db(this.table)
+            .whereIn('id', due)
+            .update({
+                next_retry: new Date(now.getTime() + leaseSeconds * 1000),
+                updated_at: now,
+            })
+            .returning('*');
+
+        return claimed.map(this.mapToEntity);
+    }
+
+    async markSent(id: string, now: Date = new Date()): Promise<void> {
+        await db(this.table)
+            .where({id})
+            .update({
+                status: 'sent',
+                sent_at: now,
+                next_retry: null,
+                error: null,
+                updated_at: now,
+            });
+    }
+
+    // A null nextRetry means the retries are used up and the notification is dead-lettered
+    async markFailed(id: string, error: string, nextRetry: Date | null, now: Date = new Date()): Promise<void> {
+        await db(this.table)
+            .where({id})
+            .update({
+                status: nextRetry ? 'failed' : 'dead_letter',
+                error,
+                retry_count: db.raw('retry_count + 1'),
+                next_retry: nextRetry,
+                updated_at: now,
+            });
+    }
+
+    async requeue(id: string, now: Date = new Date()): Promise<AlertNotification | null> {
+        const [updated] = await db(this.table)
+            .where({id})
+            .whereIn('status', ['failed', 'dead_letter'])
+            .update({
+                status: 'pending',
+                retry_count: 0,
+                next_retry: now,
+                updated_at: now,
+            })
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): AlertNotification {
+        const parse = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : value;
+
+        return {
+            id: row.id as string,
+            alert_id: (row.alert_id as string) || undefined,
+            group_id: (row.group_id as string) || undefined,
+            alert_ids: parse(row.alert_ids) || [],
+            channel: row.channel as string,
+            channel_id: (row.channel_id as string) || undefined,
+            event: row.event as string,
+            destination: parse(row.destination) || [],
+            payload: parse(row.payload) || {},
+            status: row.status as AlertNotificationStatus,
+            error: (row.error as string) || undefined,
+            retry_count: row.retry_count as number,
+            next_retry: (row.next_retry as Date) || undefined,
+            sent_at: (row.sent_at as Date) || undefined,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
@@ -1,28 +1,57 @@
 import {db} from '../database/connection';
-import {Alert, AlertEntity, AlertStatus} from '../entities/Alert';
-import {AlertFilters, CreateAlertDTO, IAlertRepository, UpdateAlertDTO,} from './interfaces/IAlertRepository';
+import {Alert, AlertEntity, AlertStateMachine, AlertStatus} from '../entities/Alert';
+import {
+    AlertFilters,
+    AlertTransitionDTO,
+    CreateAlertDTO,
+    IAlertRepository,
+    UpdateAlertDTO,
+} from './interfaces/IAlertRepository';
+import {AlertEventRepository} from './AlertEventRepository';
+
+const OPEN_STATUSES: AlertStatus[] = ['pending', 'firing', 'acknowledged', 'silenced'];
 
 export class AlertRepository implements IAlertRepository {
     private table = 'alerts';
+    private alertEventRepo = new AlertEventRepository();
 
     async create(data: CreateAlertDTO): Promise<Alert> {
-        const [created] = await db(this.table)
-            .insert({
-                project_id: data.projectId,
-                name: data.name,
-                description: data.description,
-                severity: data.severity,
-                status: 'active',
-                metric_type: data.metricType,
-                condition: data.condition,
-                threshold: data.threshold,
-                duration_seconds: data.durationSeconds || 60,
-                notification_channels: JSON.stringify(data.notificationChannels || []),
-                metadata: JSON.stringify(data.metadata || {}),
-            })
-            .returning('*');
+        const status = data.status || 'firing';
+        const now = new Date();
+
+        return db.transaction(async (trx) => {
+            const [created] = await trx(this.table)
+                .insert({
+                    project_id: data.projectId,
+                    rule_id: data.ruleId,
+                    name: data.name,
+                    description: data.description,
+                    severity: data.severity,
+                    status,
+                    metric_type: data.metricType,
+                    condition: data.condition,
+                    threshold: data.threshold,
+                    metric_value: data.metricValue,
+                    duration_seconds: data.durationSeconds || 60,
+                    notification_channels: JSON.stringify(data.notificationChannels || []),
+                    metadata: JSON.stringify(data.metadata || {}),
+                    tags: JSON.stringify(data.tags || []),
+                    affected_services: JSON.stringify(data.affectedServices || []),
+                    pending_at: status === 'pending' ? data.pendingAt || now : undefined,
+                    triggered_at: status === 'firing' ? data.triggeredAt || now : undefined,
+                })
+                .returning('*');
 
-        return this.mapToEntity(created);
+            await this.alertEventRepo.create({
+                alertId: created.id,
+                toStatus: status,
+                actorType: data.createdBy ? 'user' : 'system',
+                actorId: data.createdBy,
+                metricValue: data.metricValue,
+            }, trx);
+
+            return this.mapToEntity(created);
+        });
     }
 
     async findById(id: string): Promise<Alert | null> {
@@ -37,6 +66,12 @@ export class AlertRepository implements IAlertRepository {
             if (filters.projectId) {
                 query = query.where({project_id: filters.projectId});
             }
+            if (filters.ruleId) {
+                query = query.where({rule_id: filters.ruleId});
+            }
+            if (filters.groupId) {
+                query = query.where({group_id: filters.groupId});
+            }
             if (filters.status) {
                 query = query.where({status: filters.status});
             }
@@ -57,7 +92,8 @@ export class AlertRepository implements IAlertRepository {
 
     async findActive(projectId: string): Promise<Alert[]> {
         const results = await db(this.table)
-            .where({project_id: projectId, status: 'active'})
+            .where({project_id: projectId})
+            .whereIn('status', OPEN_STATUSES)
             .orderBy('severity', 'asc')
             .orderBy('created_at', 'desc');
 
@@ -70,7 +106,6 @@ export class AlertRepository implements IAlertRepository {
         if (data.name !== undefined) updateData.name = data.name;
         if (data.description !== undefined) updateData.description = data.description;
         if (data.severity !== undefined) updateData.severity = data.severity;
-        if (data.status !== undefined) updateData.status = data.status;
         if (data.metricType !== undefined) updateData.metric_type = data.metricType;
         if (data.condition !== undefined) updateData.condition = data.condition;
         if (data.threshold !== undefined) updateData.threshold = data.threshold;
@@ -81,6 +116,12 @@ export class AlertRepository implements IAlertRepository {
         if (data.metadata !== undefined) {
             updateData.metadata = JSON.stringify(data.metadata);
         }
+        if (data.tags !== undefined) {
+            updateData.tags = JSON.stringify(data.tags);
+        }
+        if (data.affectedServices !== undefined) {
+            updateData.affected_services = JSON.stringify(data.affectedServices);
+        }
         if (data.triggeredAt !== undefined) updateData.triggered_at = data.triggeredAt;
         if (data.acknowledgedAt !== undefined) updateData.acknowledged_at = data.acknowledgedAt;
         if (data.resolvedAt !== undefined) updateData.resolved_at = data.resolvedAt;
@@ -101,44 +142,115 @@ export class AlertRepository implements IAlertRepository {
         return deleted > 0;
     }
 
-    async acknowledge(id: string, userId: string): Promise<Alert | null> {
-        const [updated] = await db(this.table)
-            .where({id})
-            .update({
-                status: 'acknowledged',
-                acknowledged_at: new Date(),
-                acknowledged_by: userId,
-                updated_at: new Date(),
-            })
-            .returning('*');
+    async transition(id: string, to: AlertStatus, options: AlertTransitionDTO = {}): Promise<Alert | null> {
+        return db.transaction(async (trx) => {
+            const current = await trx(this.table).where({id}).forUpdate().first();
 
-        return updated ? this.mapToEntity(updated) : null;
+            if (!current) {
+                return null;
+            }
+
+            AlertStateMachine.assertTransition(current.status, to);
+
+            const now = new Date();
+            const updateData: Record<string, unknown> = {
+                status: to,
+                updated_at: now,
+            };
+
+            if (options.metricValue !== undefined) updateData.metric_value = options.metricValue;
+
+            switch (to) {
+                case 'pending':
+                    updateData.pending_at = options.pendingAt || now;
+                    break;
+                case 'firing':
+                    // Coming back from a silence keeps the original trigger time
+                    if (current.status === 'pending') updateData.triggered_at = now;
+                    break;
+                case 'acknowledged':
+                    updateData.acknowledged_at = now;
+                    updateData.acknowledged_by = options.actorId;
+                    break;
+                case 'resolved':
+                    updateData.resolved_at = now;
+                    updateData.resolved_by = options.actorId;
+                    break;
+            }
+
+            // Only firing alerts escalate, so acknowledging (or resolving) stops the paging
+            if (to !== 'firing') updateData.next_escalation_at = null;
+
+            const [updated] = await trx(this.table)
+                .where({id})
+                .update(updateData)
+                .returning('*');
+
+            await this.alertEventRepo.create({
+                alertId: id,
+                fromStatus: current.status,
+                toStatus: to,
+                actorType: options.actorType || (options.actorId ? 'user' : 'system'),
+                actorId: options.actorId,
+                metricValue: options.metricValue,
+                note: options.note,
+                metadata: options.metadata,
+            }, trx);
+
+            return this.mapToEntity(updated);
+        });
     }
 
-    async resolve(id: string): Promise<Alert | null> {
-        const [updated] = await db(this.table)
-            .where({id})
-            .update({
-                status: 'resolved',
-                resolved_at: new Date(),
-                updated_at: new Date(),
-            })
-            .returning('*');
+    async acknowledge(id: string, userId: string, note?: string): Promise<Alert | null> {
+        return this.transition(id, 'acknowledged', {actorId: userId, note});
+    }
 
-        return updated ? this.mapToEntity(updated) : null;
+    async resolve(id: string, options: AlertTransitionDTO = {}): Promise<Alert | null> {
+        return this.transition(id, 'resolved', options);
     }
 
-    async trigger(id: string): Promise<Alert | null> {
-        const [updated] = await db(this.table)
-            .where({id})
+    async trigger(id: string, options: AlertTransitionDTO = {}): Promise<Alert | null> {
+        return this.transition(id, 'firing', options);
+    }
+
+    async startEscalation(id: string, policyId: string, nextEscalationAt: Date): Promise<void> {
+        await db(this.table)
+            .where({id, status: 'firing'})
             .update({
-                status: 'active',
-                triggered_at: new Date(),
+                escalation_policy_id: policyId,
+                escalation_step: 0,
+                escalation_repeat: 0,
+                next_escalation_at: nextEscalationAt,
                 updated_at: new Date(),
-            })
-            .returning('*');
+            });
+    }
 
-        return updated ? this.mapToEntity(updated) : null;
+    async findDueEscalations(now: Date = new Date()): Promise<Alert[]> {
+        const results = await db(this.table)
+            .where({status: 'firing'})
+            .whereNotNull('escalation_policy_id')
+            .where('next_escalation_at', '<=', now)
+            .orderBy('next_escalation_at', 'asc');
+
+        return results.map(this.mapToEntity);
+    }
+
+    // `next` is null once the policy has run out of steps and repeats
+    async advanceEscalation(
+        id: string,
+        next: { step: number; repeat: number; at: Date } | null
+    ): Promise<void> {
+        await db(this.table)
+            .where({id, status: 'firing'})
+            .update(next ? {
+                escalation_step: next.step,
+                escalation_repeat: next.repeat,
+                next_escalation_at: next.at,
+                updated_at: new Date(),
+            } : {
+                next_escalation_at: null,
+                updated_at: new Date(),
+            });
     }
 
     async countByStatus(projectId?: string): Promise<Record<AlertStatus, number>> {
@@ -154,10 +266,12 @@ export class AlertRepository implements IAlertRepository {
         const results = await query;
 
         const counts: Record<AlertStatus, number> = {
-            active: 0,
             inactive: 0,
+            pending: 0,
+            firing: 0,
             acknowledged: 0,
             resolved: 0,
+            silenced: 0,
         };
 
         results.forEach(row => {
@@ -174,15 +288,29 @@ export class AlertRepository implements IAlertRepository {
         const metadata = typeof row.metadata === 'string'
             ? JSON.parse(row.metadata)
             : row.metadata;
+        const tags = typeof row.tags === 'string'
+            ? JSON.parse(row.tags)
+            : row.tags;
+        const affectedServices = typeof row.affected_services === 'string'
+            ? JSON.parse(row.affected_services)
+            : row.affected_services;
 
         return new AlertEntity({
             id: row.id,
             project_id: row.project_id,
+            rule_id: (row.rule_id as string) || undefined,
+            group_id: (row.group_id as string) || undefined,
+            escalation_policy_id: (row.escalation_policy_id as string) || undefined,
+            escalation_step: (row.escalation_step as number) ?? 0,
+            escalation_repeat: (row.escalation_repeat as number) ?? 0,
+            next_escalation_at: (row.next_escalation_at as Date) || undefined,
+            title: row.name as string,
             name: row.name,
             description: row.description,
             severity: row.severity,
             status: row.status,
             metric_type: row.metric_type,
+            metric_value: row.metric_value != null ? parseFloat(row.metric_value as string) : undefined,
             condition: {
                 type: row.condition,
                 threshold: parseFloat(row.threshold),
@@ -190,10 +318,14 @@ export class AlertRepository implements IAlertRepository {
             },
             notification_channels: notificationChannels,
             metadata,
+            tags: (tags as string[]) || [],
+            affected_services: (affectedServices as string[]) || [],
+            pending_at: (row.pending_at as Date) || undefined,
             triggered_at: row.triggered_at,
             acknowledged_at: row.acknowledged_at,
             resolved_at: row.resolved_at,
             acknowledged_by: row.acknowledged_by,
+            resolved_by: (row.resolved_by as string) || undefined,
             created_at: row.created_at,
             updated_at: row.updated_at,
         });
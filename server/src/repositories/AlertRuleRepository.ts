@@ -0,0 +1,135 @@
+import {db} from '../database/connection';
+import {AlertCondition, AlertRule, AlertRuleEntity, AlertSeverity, AlertType} from '../entities/Alert';
+import {
+    AlertRuleFilters,
+    CreateAlertRuleDTO,
+    IAlertRuleRepository,
+    UpdateAlertRuleDTO,
+} from './interfaces/IAlertRuleRepository';
+
+export class AlertRuleRepository implements IAlertRuleRepository {
+    private table = 'alert_rules';
+
+    async create(data: CreateAlertRuleDTO): Promise<AlertRule> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                name: data.name,
+                description: data.description,
+                enabled: data.enabled ?? true,
+                type: data.type || 'threshold_breach',
+                severity: data.severity,
+                condition: JSON.stringify(data.condition),
+                notification_channels: JSON.stringify(data.notificationChannels || []),
+                cooldown_minutes: data.cooldownMinutes,
+                auto_resolve: data.autoResolve ?? true,
+                auto_resolve_minutes: data.autoResolveMinutes,
+                tags: JSON.stringify(data.tags || []),
+                affected_services: JSON.stringify(data.affectedServices || []),
+                escalation_policy_id: data.escalationPolicyId,
+                created_by: data.createdBy,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<AlertRule | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: AlertRuleFilters): Promise<AlertRule[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.enabled !== undefined) {
+                query = query.where({enabled: filters.enabled});
+            }
+            if (filters.severity) {
+                query = query.where({severity: filters.severity});
+            }
+            if (filters.metricType) {
+                query = query.whereRaw(`condition->>'metric_type' = ?`, [filters.metricType]);
+            }
+        }
+
+        const results = await query.orderBy('created_at', 'desc');
+        return results.map(this.mapToEntity);
+    }
+
+    async update(data: UpdateAlertRuleDTO): Promise<AlertRule | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.name !== undefined) updateData.name = data.name;
+        if (data.description !== undefined) updateData.description = data.description;
+        if (data.enabled !== undefined) updateData.enabled = data.enabled;
+        if (data.type !== undefined) updateData.type = data.type;
+        if (data.severity !== undefined) updateData.severity = data.severity;
+        if (data.condition !== undefined) updateData.condition = JSON.stringify(data.condition);
+        if (data.notificationChannels !== undefined) {
+            updateData.notification_channels = JSON.stringify(data.notificationChannels);
+        }
+        if (data.cooldownMinutes !== undefined) updateData.cooldown_minutes = data.cooldownMinutes;
+        if (data.autoResolve !== undefined) updateData.auto_resolve = data.autoResolve;
+        if (data.autoResolveMinutes !== undefined) updateData.auto_resolve_minutes = data.autoResolveMinutes;
+        if (data.tags !== undefined) updateData.tags = JSON.stringify(data.tags);
+        if (data.affectedServices !== undefined) {
+            updateData.affected_services = JSON.stringify(data.affectedServices);
+        }
+        if (data.escalationPolicyId !== undefined) updateData.escalation_policy_id = data.escalationPolicyId;
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): AlertRule {
+        const condition = typeof row.condition === 'string'
+            ? JSON.parse(row.condition)
+            : row.condition;
+        const notificationChannels = typeof row.notification_channels === 'string'
+            ? JSON.parse(row.notification_channels)
+            : row.notification_channels;
+        const tags = typeof row.tags === 'string'
+            ? JSON.parse(row.tags)
+            : row.tags;
+        const affectedServices = typeof row.affected_services === 'string'
+            ? JSON.parse(row.affected_services)
+            : row.affected_services;
+
+        return new AlertRuleEntity({
+            id: row.id as string,
+            project_id: row.project_id as string,
+            name: row.name as string,
+            description: (row.description as string) || undefined,
+            enabled: row.enabled as boolean,
+            type: row.type as AlertType,
+            severity: row.severity as AlertSeverity,
+            condition: condition as AlertCondition,
+            notification_channels: notificationChannels as string[],
+            cooldown_minutes: (row.cooldown_minutes as number) ?? undefined,
+            auto_resolve: row.auto_resolve as boolean,
+            auto_resolve_minutes: (row.auto_resolve_minutes as number) ?? undefined,
+            tags: (tags as string[]) || [],
+            affected_services: (affectedServices as string[]) || [],
+            escalation_policy_id: (row.escalation_policy_id as string) || undefined,
+            created_by: (row.created_by as string) || undefined,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        });
+    }
+}
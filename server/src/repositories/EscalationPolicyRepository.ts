@@ -0,0 +1,81 @@
+import {db} from '../database/connection';
+import {EscalationPolicyEntity, EscalationStep} from '../entities/OnCall';
+import {
+    CreateEscalationPolicyDTO,
+    IEscalationPolicyRepository,
+    UpdateEscalationPolicyDTO,
+} from './interfaces/IOnCallRepository';
+
+export class EscalationPolicyRepository implements IEscalationPolicyRepository {
+    private table = 'escalation_policies';
+
+    async create(data: CreateEscalationPolicyDTO): Promise<EscalationPolicyEntity> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                name: data.name,
+                description: data.description,
+                steps: JSON.stringify(data.steps),
+                repeat_count: data.repeatCount ?? 0,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<EscalationPolicyEntity | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: { projectId?: string }): Promise<EscalationPolicyEntity[]> {
+        let query = db(this.table);
+
+        if (filters?.projectId) {
+            query = query.where({project_id: filters.projectId});
+        }
+
+        const results = await query.orderBy('name', 'asc');
+        return results.map(this.mapToEntity);
+    }
+
+    async update(data: UpdateEscalationPolicyDTO): Promise<EscalationPolicyEntity | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.name !== undefined) updateData.name = data.name;
+        if (data.description !== undefined) updateData.description = data.description;
+        if (data.steps !== undefined) updateData.steps = JSON.stringify(data.steps);
+        if (data.repeatCount !== undefined) updateData.repeat_count = data.repeatCount;
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): EscalationPolicyEntity {
+        const steps = typeof row.steps === 'string'
+            ? JSON.parse(row.steps)
+            : row.steps;
+
+        return new EscalationPolicyEntity({
+            id: row.id as string,
+            project_id: row.project_id as string,
+            name: row.name as string,
+            description: (row.description as string) || undefined,
+            steps: (steps as EscalationStep[]) || [],
+            repeat_count: row.repeat_count as number,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        });
+    }
+}
@@ -0,0 +1,71 @@
+import {db} from '../database/connection';
+import {MetricBaseline} from '../entities/MetricBaseline';
+import {
+    IMetricBaselineRepository,
+    MetricBaselineFilters,
+    UpsertMetricBaselineDTO,
+} from './interfaces/IMetricBaselineRepository';
+
+// Postgres caps bind parameters per statement, so large upserts are written in chunks
+const UPSERT_CHUNK_SIZE = 1000;
+
+export class MetricBaselineRepository implements IMetricBaselineRepository {
+    private table = 'metric_baselines';
+
+    async findAll(filters?: MetricBaselineFilters): Promise<MetricBaseline[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.metricType) {
+                query = query.where({metric_type: filters.metricType});
+            }
+        }
+
+        const results = await query.orderBy([
+            {column: 'project_id'},
+            {column: 'metric_type'},
+            {column: 'hour_of_week'},
+        ]);
+        return results.map(this.mapToEntity);
+    }
+
+    async findByMetric(projectId: string, metricType: string): Promise<MetricBaseline[]> {
+        return this.findAll({projectId, metricType});
+    }
+
+    async upsertMany(data: UpsertMetricBaselineDTO[], now: Date = new Date()): Promise<number> {
+        const rows = data.map(item => ({
+            project_id: item.projectId,
+            metric_type: item.metricType,
+            hour_of_week: item.hourOfWeek,
+            sample_count: item.sampleCount,
+            mean: item.mean,
+            stddev: item.stddev,
+            updated_at: now,
+        }));
+
+        for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+            await db(this.table)
+                .insert(rows.slice(i, i + UPSERT_CHUNK_SIZE))
+                .onConflict(['project_id', 'metric_type', 'hour_of_week'])
+                .merge();
+        }
+
+        return rows.length;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): MetricBaseline {
+        return {
+            project_id: row.project_id as string,
+            metric_type: row.metric_type as string,
+            hour_of_week: Number(row.hour_of_week),
+            sample_count: Number(row.sample_count),
+            mean: Number(row.mean),
+            stddev: Number(row.stddev),
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
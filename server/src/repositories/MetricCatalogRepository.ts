@@ -0,0 +1,77 @@
+import {db} from '../database/connection';
+import {MetricDefinition, MetricKind} from '../entities/MetricCatalog';
+import {IMetricCatalogRepository} from './interfaces/IMetricCatalogRepository';
+
+export class MetricCatalogRepository implements IMetricCatalogRepository {
+    private table = 'metric_catalog';
+
+    async findAll(): Promise<MetricDefinition[]> {
+        const results = await db(this.table).orderBy('name');
+        return results.map(this.mapToEntity);
+    }
+
+    async findByName(name: string): Promise<MetricDefinition | null> {
+        const result = await db(this.table).where({name}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    // Registering an existing name replaces its unit, description, kind and bounds
+    async upsertMany(definitions: MetricDefinition[], now: Date = new Date()): Promise<MetricDefinition[]> {
+        if (definitions.length === 0) {
+            return [];
+        }
+
+        const rows = definitions.map(definition => ({
+            name: definition.name,
+            kind: definition.kind,
+            unit: definition.unit ?? null,
+            description: definition.description ?? null,
+            min_value: definition.min_value ?? null,
+            max_value: definition.max_value ?? null,
+            updated_at: now,
+        }));
+
+        const results = await db(this.table)
+            .insert(rows)
+            .onConflict('name')
+            .merge(['kind', 'unit', 'description', 'min_value', 'max_value', 'updated_at'])
+            .returning('*');
+
+        return results.map(this.mapToEntity);
+    }
+
+    // Leaves names that are already registered as they are; returns only the definitions it added
+    async insertMissing(definitions: MetricDefinition[]): Promise<MetricDefinition[]> {
+        if (definitions.length === 0) {
+            return [];
+        }
+
+        const rows = definitions.map(definition => ({
+            name: definition.name,
+            kind: definition.kind,
+            unit: definition.unit ?? null,
+            description: definition.description ?? null,
+        }));
+
+        const results = await db(this.table)
+            .insert(rows)
+            .onConflict('name')
+            .ignore()
+            .returning('*');
+
+        return results.map(this.mapToEntity);
+    }
+
+    private mapToEntity(row: Record<string, unknown>): MetricDefinition {
+        return {
+            name: row.name as string,
+            kind: row.kind as MetricKind,
+            unit: (row.unit as string | null) ?? undefined,
+            description: (row.description as string | null) ?? undefined,
+            min_value: row.min_value === null ? undefined : Number(row.min_value),
+            max_value: row.max_value === null ? undefined : Number(row.max_value),
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
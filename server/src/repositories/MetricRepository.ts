@@ -1,9 +1,33 @@
+import {Knex} from 'knex';
 import {db} from '../database/connection';
-import {Metric, MetricEntity, MetricType} from '../entities/Metric';
-import {CreateMetricDTO, IMetricRepository, MetricAggregation, MetricFilters,} from './interfaces/IMetricRepository';
+import {timeBucket} from '../database/timeBucket';
+import {AlertAggregation, AlertStepValue} from '../entities/Alert';
+import {METRIC_PERCENTILES, Metric, MetricAggregator, MetricEntity, MetricType} from '../entities/Metric';
+import {HistogramBucketSamples, HistogramMath, MetricHistogram} from '../entities/Histogram';
+import {TimeSeriesInterval} from '../entities/TimeSeries';
+import {
+    CreateMetricDTO,
+    HourOfWeekStats,
+    IMetricRepository,
+    MetricAggregation,
+    MetricAggregationGroup,
+    MetricFilters,
+    MetricWindowQuery,
+    TagQuery,
+} from './interfaces/IMetricRepository';
+import {TagFilters, parseTags, withoutGroup} from '../utils/metricTags';
+
+const WINDOW_AGGREGATES: Record<AlertAggregation, string> = {
+    avg: 'AVG(value)',
+    min: 'MIN(value)',
+    max: 'MAX(value)',
+    sum: 'SUM(value)',
+    p95: 'percentile_cont(0.95) WITHIN GROUP (ORDER BY value)',
+    p99: 'percentile_cont(0.99) WITHIN GROUP (ORDER BY value)',
+};
 
 export class MetricRepository implements IMetricRepository {
-    private table = 'metrics';
+    protected table = 'metrics';
 
     async create(data: CreateMetricDTO): Promise<Metric> {
         const [created] = await db(this.table)
@@ -13,8 +37,9 @@ export class MetricRepository implements IMetricRepository {
                 value: data.value,
                 unit: data.unit,
                 metadata: JSON.stringify(data.metadata || {}),
-                tags: JSON.stringify(data.tags || []),
+                tags: JSON.stringify(parseTags(data.tags)),
                 timestamp: data.timestamp || new Date(),
+                histogram: data.histogram ? JSON.stringify(data.histogram) : null,
             })
             .returning('*');
 
@@ -28,8 +53,9 @@ export class MetricRepository implements IMetricRepository {
             value: item.value,
             unit: item.unit,
             metadata: JSON.stringify(item.metadata || {}),
-            tags: JSON.stringify(item.tags || []),
+            tags: JSON.stringify(parseTags(item.tags)),
             timestamp: item.timestamp || new Date(),
+            histogram: item.histogram ? JSON.stringify(item.histogram) : null,
         }));
 
         const created = await db(this.table)
@@ -60,8 +86,8 @@ export class MetricRepository implements IMetricRepository {
             if (filters.endDate) {
                 query = query.where('timestamp', '<=', filters.endDate);
             }
-            if (filters.tags && filters.tags.length > 0) {
-                query = query.whereRaw('tags::jsonb \\?| array[?]', [filters.tags]);
+            if (filters.tags) {
+                query = this.whereTags(query, filters.tags);
             }
         }
 
@@ -81,36 +107,137 @@ export class MetricRepository implements IMetricRepository {
         return result ? this.mapToEntity(result) : null;
     }
 
+    // The most recent sample of every project, type and tag set recorded since the given time
+    async findLatestPerSeries(since: Date): Promise<Metric[]> {
+        const results = await db(this.table)
+            .distinctOn('project_id', 'type', 'tags')
+            .where('timestamp', '>=', since)
+            .orderBy([
+                {column: 'project_id'},
+                {column: 'type'},
+                {column: 'tags'},
+                {column: 'timestamp', order: 'desc'},
+            ]);
+
+        return results.map(this.mapToEntity);
+    }
+
     async aggregate(
         projectId: string,
         type: MetricType,
         startDate: Date,
-        endDate: Date
+        endDate: Date,
+        tags?: TagFilters
     ): Promise<MetricAggregation | null> {
-        const [result] = await db(this.table)
+        const [aggregation] = await this.aggregateGroups(projectId, type, startDate, endDate, {tags});
+        if (!aggregation) {
+            return null;
+        }
+
+        return withoutGroup(aggregation);
+    }
+
+    async aggregateGroups(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        query: TagQuery
+    ): Promise<MetricAggregationGroup[]> {
+        const groupBy = query.groupBy || [];
+        const groupAliases = groupBy.map((_, index) => `group_${index}`);
+
+        let builder = this.whereTags(db(this.table), query.tags || {})
             .where({project_id: projectId, type})
             .whereBetween('timestamp', [startDate, endDate])
             .select(
-                db.raw('? as type', [type]),
+                ...this.groupColumns(groupBy),
                 db.raw('AVG(value) as avg'),
                 db.raw('MIN(value) as min'),
                 db.raw('MAX(value) as max'),
                 db.raw('COUNT(*) as count'),
-                db.raw('SUM(value) as sum')
+                db.raw('SUM(value) as sum'),
+                ...this.percentileColumns(),
+                db.raw('COUNT(*) FILTER (WHERE histogram IS NULL) as plain_count'),
+                db.raw('jsonb_agg(histogram) FILTER (WHERE histogram IS NOT NULL) as histograms')
             );
 
-        if (!result || result.count === 0) {
-            return null;
+        if (groupAliases.length > 0) {
+            builder = builder.groupBy(groupAliases).orderBy(groupAliases);
         }
 
-        return {
-            type,
-            avg: parseFloat(result.avg) || 0,
-            min: parseFloat(result.min) || 0,
-            max: parseFloat(result.max) || 0,
-            count: parseInt(result.count) || 0,
-            sum: parseFloat(result.sum) || 0,
-        };
+        const results = await builder;
+
+        const groups: MetricAggregationGroup[] = [];
+
+        for (const row of results) {
+            if (parseInt(row.count) === 0) {
+                continue;
+            }
+
+            const group = Object.fromEntries(groupBy.map((key, index) => [key, row[`group_${index}`] ?? null]));
+
+            // Histogram samples only store their mean as the value, so their buckets give the real distribution.
+            // Plain samples of the same group are counted into those buckets.
+            let merged = row.histograms ? HistogramMath.merge(row.histograms as MetricHistogram[]) : null;
+            if (merged) {
+                if (parseInt(row.plain_count) > 0) {
+                    const samples = await this.plainBucketSamples(projectId, type, startDate, endDate, query, group, merged.bounds);
+                    merged = HistogramMath.addSamples(merged, samples);
+                }
+                if (merged.count > 0) {
+                    groups.push({group, ...this.histogramAggregation(type, merged)});
+                }
+                continue;
+            }
+
+            groups.push({
+                group,
+                type,
+                avg: parseFloat(row.avg) || 0,
+                min: parseFloat(row.min) || 0,
+                max: parseFloat(row.max) || 0,
+                count: parseInt(row.count) || 0,
+                sum: parseFloat(row.sum) || 0,
+                p50: parseFloat(row.p50) || 0,
+                p90: parseFloat(row.p90) || 0,
+                p95: parseFloat(row.p95) || 0,
+                p99: parseFloat(row.p99) || 0,
+            });
+        }
+
+        return groups;
+    }
+
+    // Newest first, like AlertRuleEvaluator.windowedSteps. Each step is its own indexed range scan, so a
+    // breach of any length is replayed without loading the samples.
+    async windowedAggregates(query: MetricWindowQuery): Promise<AlertStepValue[]> {
+        const start = new Date(query.end.getTime() - query.lookbackSeconds * 1000);
+
+        const results = await db.raw(
+            `SELECT step.at, window_values.value
+            FROM generate_series(?::timestamptz, ?::timestamptz, ?::interval) AS step(at)
+            CROSS JOIN LATERAL (
+                SELECT ${WINDOW_AGGREGATES[query.aggregation]} AS value
+                FROM ??
+                WHERE project_id = ? AND type = ? AND timestamp > step.at - ?::interval AND timestamp <= step.at
+            ) AS window_values
+            ORDER BY step.at DESC`,
+            [
+                query.end,
+                start,
+                `-${Math.max(query.stepSeconds, 1)} seconds`,
+                this.table,
+                query.projectId,
+                query.type,
+                `${query.windowSeconds} seconds`,
+            ]
+        );
+
+        return results.rows.map((row: Record<string, unknown>) => ({
+            at: new Date(row.at as string),
+            value: row.value === null ? null : parseFloat(row.value as string),
+        }));
     }
 
     async deleteOldMetrics(beforeDate: Date): Promise<number> {
@@ -121,29 +248,37 @@ export class MetricRepository implements IMetricRepository {
         return deleted;
     }
 
+    // Points of a grouped series carry their group's tags
     async getTimeSeries(
         projectId: string,
         type: MetricType,
         startDate: Date,
         endDate: Date,
-        interval = '1 hour'
+        interval: TimeSeriesInterval,
+        query: TagQuery = {}
     ): Promise<Metric[]> {
-        const results = await db(this.table)
+        const groupBy = query.groupBy || [];
+        const groups = groupBy.map((_, index) => `group_${index}`);
+
+        const results = await this.whereTags(db(this.table), query.tags || {})
             .where({project_id: projectId, type})
             .whereBetween('timestamp', [startDate, endDate])
             .select(
-                db.raw(`date_trunc('${interval}', timestamp) as bucket`),
+                ...this.groupColumns(groupBy),
+                timeBucket(interval, 'timestamp', 'bucket'),
                 db.raw('AVG(value) as value'),
                 db.raw('MIN(value) as min_value'),
                 db.raw('MAX(value) as max_value'),
-                db.raw('COUNT(*) as count')
+                db.raw('COUNT(*) as count'),
+                ...this.percentileColumns(),
+                db.raw('jsonb_agg(histogram) FILTER (WHERE histogram IS NOT NULL) as histograms')
             )
-            .groupByRaw(`date_trunc('${interval}', timestamp)`)
-            .orderBy('bucket', 'asc');
+            .groupBy([...groups, 'bucket'])
+            .orderBy([...groups, 'bucket']);
 
         return results.map(row =>
             new MetricEntity({
-                id: `aggregated-${row.bucket}`,
+                id: `aggregated-${new Date(row.bucket).toISOString()}`,
                 project_id: projectId,
                 type,
                 value: parseFloat(row.value),
@@ -152,16 +287,166 @@ export class MetricRepository implements IMetricRepository {
                     min: parseFloat(row.min_value),
                     max: parseFloat(row.max_value),
                     count: parseInt(row.count),
+                    ...this.bucketPercentiles(row),
                 },
-                tags: [],
+                tags: this.groupTags(row, groupBy),
                 timestamp: new Date(row.bucket),
             })
         );
     }
 
+    async hourOfWeekStats(startDate: Date, endDate: Date, filters?: MetricFilters): Promise<HourOfWeekStats[]> {
+        const hourOfWeek = "(EXTRACT(DOW FROM timestamp AT TIME ZONE 'UTC') * 24 + EXTRACT(HOUR FROM timestamp AT TIME ZONE 'UTC'))::int";
+        let query = db(this.table).whereBetween('timestamp', [startDate, endDate]);
+
+        if (filters?.projectId) {
+            query = query.where({project_id: filters.projectId});
+        }
+        if (filters?.type) {
+            query = query.where({type: filters.type});
+        }
+
+        const results = await query
+            .select(
+                'project_id',
+                'type',
+                db.raw(`${hourOfWeek} as hour_of_week`),
+                db.raw('COUNT(*) as count'),
+                db.raw('AVG(value) as mean'),
+                db.raw('COALESCE(STDDEV_SAMP(value), 0) as stddev')
+            )
+            .groupBy('project_id', 'type')
+            .groupByRaw(hourOfWeek);
+
+        return results.map(row => ({
+            projectId: row.project_id,
+            type: row.type,
+            hourOfWeek: parseInt(row.hour_of_week),
+            count: parseInt(row.count),
+            mean: parseFloat(row.mean),
+            stddev: parseFloat(row.stddev),
+        }));
+    }
+
+    // The group's samples without a histogram, sorted into the buckets of the given bounds. A bucket holds the
+    // values in (bounds[i - 1], bounds[i]], as in MetricHistogram.
+    private async plainBucketSamples(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        query: TagQuery,
+        group: Record<string, string | null>,
+        bounds: number[]
+    ): Promise<HistogramBucketSamples[]> {
+        let builder = this.whereTags(db(this.table), query.tags || {})
+            .where({project_id: projectId, type})
+            .whereBetween('timestamp', [startDate, endDate])
+            .whereNull('histogram');
+
+        for (const [key, value] of Object.entries(group)) {
+            builder = value === null
+                ? builder.whereRaw('tags ->> ? IS NULL', [key])
+                : builder.whereRaw('tags ->> ? = ?', [key, value]);
+        }
+
+        const results = await builder
+            .select(
+                db.raw(
+                    '(SELECT COUNT(*) FROM jsonb_array_elements_text(?::jsonb) AS bound WHERE value > bound::float8) as bucket',
+                    [JSON.stringify(bounds)]
+                ),
+                db.raw('COUNT(*) as count'),
+                db.raw('SUM(value) as sum'),
+                db.raw('MIN(value) as min'),
+                db.raw('MAX(value) as max')
+            )
+            .groupBy('bucket');
+
+        return results.map((row: Record<string, string>) => ({
+            bucket: parseInt(row.bucket),
+            count: parseInt(row.count),
+            sum: parseFloat(row.sum),
+            min: parseFloat(row.min),
+            max: parseFloat(row.max),
+        }));
+    }
+
+    private histogramAggregation(type: MetricType, merged: MetricHistogram): MetricAggregation {
+        const sum = merged.sum ?? (HistogramMath.mean(merged) || 0) * merged.count;
+
+        return {
+            type,
+            avg: sum / merged.count,
+            min: merged.min ?? HistogramMath.quantile(merged, 0) ?? 0,
+            max: merged.max ?? HistogramMath.quantile(merged, 1) ?? 0,
+            count: merged.count,
+            sum,
+            p50: HistogramMath.quantile(merged, 0.5) ?? 0,
+            p90: HistogramMath.quantile(merged, 0.9) ?? 0,
+            p95: HistogramMath.quantile(merged, 0.95) ?? 0,
+            p99: HistogramMath.quantile(merged, 0.99) ?? 0,
+        };
+    }
+
+    // Every key must have one of its values. Each value is a containment test, so the GIN index on tags serves it.
+    protected whereTags(query: Knex.QueryBuilder, tags: TagFilters): Knex.QueryBuilder {
+        for (const [key, values] of Object.entries(tags)) {
+            query = query.whereRaw(
+                `(${values.map(() => 'tags @> ?::jsonb').join(' OR ')})`,
+                values.map(value => JSON.stringify({[key]: value}))
+            );
+        }
+        return query;
+    }
+
+    // The value of each group-by tag, as group_0, group_1, ...; Postgres groups by these aliases
+    protected groupColumns(groupBy: string[]): Knex.Raw[] {
+        return groupBy.map((key, index) => db.raw('tags ->> ? as ??', [key, `group_${index}`]));
+    }
+
+    // The group labels of a grouped row; missing tags are left out
+    protected groupTags(row: Record<string, unknown>, groupBy: string[]): Record<string, string> {
+        const tags: Record<string, string> = {};
+        groupBy.forEach((key, index) => {
+            const value = row[`group_${index}`];
+            if (value !== null && value !== undefined) {
+                tags[key] = value as string;
+            }
+        });
+        return tags;
+    }
+
+    // percentile_cont of the values for each of METRIC_PERCENTILES, named after it
+    protected percentileColumns(): Knex.Raw[] {
+        return Object.entries(METRIC_PERCENTILES).map(([name, q]) =>
+            db.raw(`percentile_cont(${q}) WITHIN GROUP (ORDER BY value) as ${name}`)
+        );
+    }
+
+    // A bucket's percentiles. Histogram samples only store their mean as the value, so when the bucket has
+    // any, their merged buckets are used instead of the values.
+    protected bucketPercentiles(row: Record<string, unknown>): Record<string, number> {
+        const histograms = row.histograms as MetricHistogram[] | null;
+        const merged = histograms ? HistogramMath.merge(histograms) : null;
+
+        if (merged && merged.count > 0) {
+            return MetricAggregator.histogramPercentiles(merged);
+        }
+
+        const percentiles: Record<string, number> = {};
+        for (const name of Object.keys(METRIC_PERCENTILES)) {
+            if (row[name] !== null && row[name] !== undefined) {
+                percentiles[name] = parseFloat(row[name] as string);
+            }
+        }
+        return percentiles;
+    }
+
     private mapToEntity(row: Record<string, unknown>): Metric {
         const metadata = typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata;
-        const tags = typeof row.tags === 'string' ? JSON.parse(row.tags) : row.tags;
+        const tags = parseTags(typeof row.tags === 'string' ? JSON.parse(row.tags) : row.tags);
+        const histogram = typeof row.histogram === 'string' ? JSON.parse(row.histogram) : row.histogram;
 
         return new MetricEntity({
             id: row.id,
@@ -171,6 +456,7 @@ export class MetricRepository implements IMetricRepository {
             unit: row.unit,
             metadata,
             tags,
+            histogram: histogram || undefined,
             timestamp: row.timestamp,
             created_at: row.created_at,
             updated_at: row.updated_at,
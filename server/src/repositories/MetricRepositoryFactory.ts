@@ -0,0 +1,14 @@
+import {IMetricRepository} from './interfaces/IMetricRepository';
+import {MetricRepository} from './MetricRepository';
+import {TimescaleMetricRepository} from './TimescaleMetricRepository';
+
+export type MetricStorage = 'postgres' | 'timescale';
+
+// METRICS_STORAGE picks the backend; it must match the migrations that were run (see knexfile)
+export function metricStorage(): MetricStorage {
+    return process.env.METRICS_STORAGE === 'timescale' ? 'timescale' : 'postgres';
+}
+
+export function createMetricRepository(): IMetricRepository {
+    return metricStorage() === 'timescale' ? new TimescaleMetricRepository() : new MetricRepository();
+}
@@ -0,0 +1,162 @@
+import {db} from '../database/connection';
+import {timeBucket} from '../database/timeBucket';
+import {METRIC_PERCENTILES, MetricAggregator, MetricEntity, Metric, MetricType} from '../entities/Metric';
+import {HistogramMath, MetricHistogram} from '../entities/Histogram';
+import {RollupTierConfig} from '../entities/MetricRollup';
+import {QuantileSketch, QuantileSketches} from '../entities/QuantileSketch';
+import {TimeSeriesInterval} from '../entities/TimeSeries';
+import {IMetricRollupRepository} from './interfaces/IMetricRollupRepository';
+
+// Rollup bucket expressions are built from tier constants, never from input
+const utcTrunc = (unit: string, column: string): string =>
+    `date_trunc('${unit}', ${column} AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`;
+
+// The sketch bin of a value, as QuantileSketches.key computes it
+const sketchBin = (column: string): string => {
+    const lnGamma = Math.log(QuantileSketches.GAMMA);
+    return `CASE WHEN abs(${column}) < ${QuantileSketches.MIN_INDEXABLE} THEN 'z'
+                 WHEN ${column} > 0 THEN 'p' || ceil(ln(${column}) / ${lnGamma})::int
+                 ELSE 'n' || ceil(ln(-${column}) / ${lnGamma})::int END`;
+};
+
+export class MetricRollupRepository implements IMetricRollupRepository {
+    private rawTable = 'metrics';
+
+    // Recomputes every bucket of the tier that starts in [from, to) from raw samples. Besides the statistics, each
+    // bucket keeps a quantile sketch of its values and the merged buckets of its histogram samples.
+    async rollup(tier: RollupTierConfig, from: Date, to: Date, now: Date = new Date()): Promise<number> {
+        const result = await db.raw(
+            `WITH samples AS (
+                SELECT project_id, type, ${utcTrunc(tier.unit, 'timestamp')} AS bucket, value, histogram
+                FROM ${this.rawTable}
+                WHERE timestamp >= ? AND timestamp < ?
+             ), stats AS (
+                SELECT project_id, type, bucket,
+                       MIN(value) AS min, MAX(value) AS max, AVG(value) AS avg, SUM(value) AS sum, COUNT(*) AS count,
+                       percentile_cont(0.5) WITHIN GROUP (ORDER BY value) AS p50,
+                       percentile_cont(0.9) WITHIN GROUP (ORDER BY value) AS p90,
+                       percentile_cont(0.95) WITHIN GROUP (ORDER BY value) AS p95,
+                       percentile_cont(0.99) WITHIN GROUP (ORDER BY value) AS p99,
+                       metric_histogram_merge(histogram) AS histogram
+                FROM samples
+                GROUP BY project_id, type, bucket
+             ), sketches AS (
+                SELECT project_id, type, bucket, jsonb_object_agg(bin, count) AS sketch
+                FROM (
+                    SELECT project_id, type, bucket, ${sketchBin('value')} AS bin, COUNT(*) AS count
+                    FROM samples
+                    GROUP BY 1, 2, 3, 4
+                ) bins
+                GROUP BY project_id, type, bucket
+             )
+             INSERT INTO ${tier.table}
+                (project_id, type, bucket, min, max, avg, sum, count, p50, p90, p95, p99, sketch, histogram, updated_at)
+             SELECT project_id, type, bucket, min, max, avg, sum, count, p50, p90, p95, p99, sketch, histogram, ?
+             FROM stats JOIN sketches USING (project_id, type, bucket)
+             ON CONFLICT (project_id, type, bucket) DO UPDATE SET
+                min = EXCLUDED.min, max = EXCLUDED.max, avg = EXCLUDED.avg, sum = EXCLUDED.sum,
+                count = EXCLUDED.count, p50 = EXCLUDED.p50, p90 = EXCLUDED.p90, p95 = EXCLUDED.p95,
+                p99 = EXCLUDED.p99, sketch = EXCLUDED.sketch, histogram = EXCLUDED.histogram,
+                updated_at = EXCLUDED.updated_at`,
+            [from, to, now]
+        );
+
+        return result.rowCount || 0;
+    }
+
+    async latestBucket(tier: RollupTierConfig): Promise<Date | null> {
+        const result = await db(tier.table).max('bucket as latest').first();
+        return result?.latest ? new Date(result.latest) : null;
+    }
+
+    async oldestSample(): Promise<Date | null> {
+        const result = await db(this.rawTable).min('timestamp as oldest').first();
+        return result?.oldest ? new Date(result.oldest) : null;
+    }
+
+    async deleteBefore(tier: RollupTierConfig | 'raw', projectId: string, cutoff: Date): Promise<number> {
+        const [table, column] = tier === 'raw' ? [this.rawTable, 'timestamp'] : [tier.table, 'bucket'];
+
+        return db(table)
+            .where({project_id: projectId})
+            .where(column, '<', cutoff)
+            .del();
+    }
+
+    // Groups the tier's buckets by the requested interval. A point that is a single stored bucket takes its stored
+    // percentiles; a point spanning several buckets merges their quantile sketches. Histogram samples only store
+    // their mean as the value, so where a point has any, their merged buckets give the percentiles instead.
+    async getTimeSeries(
+        tier: RollupTierConfig,
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        interval: TimeSeriesInterval
+    ): Promise<Metric[]> {
+        const singleBucket = (column: string) => db.raw(`CASE WHEN COUNT(*) = 1 THEN MAX(${column}) END as ${column}`);
+
+        const results = await db(tier.table)
+            .where({project_id: projectId, type})
+            .whereBetween('bucket', [startDate, endDate])
+            .select(
+                timeBucket(interval, 'bucket', 'point'),
+                db.raw('SUM(sum) / SUM(count) as value'),
+                db.raw('MIN(min) as min_value'),
+                db.raw('MAX(max) as max_value'),
+                db.raw('SUM(sum) as sum'),
+                db.raw('SUM(count) as count'),
+                singleBucket('p50'),
+                singleBucket('p90'),
+                singleBucket('p95'),
+                singleBucket('p99'),
+                db.raw('CASE WHEN COUNT(*) > 1 AND COUNT(sketch) = COUNT(*) THEN jsonb_agg(sketch) END as sketches'),
+                db.raw('jsonb_agg(histogram) FILTER (WHERE histogram IS NOT NULL) as histograms')
+            )
+            .groupBy('point')
+            .orderBy('point', 'asc');
+
+        return results.map(row => {
+            const min = parseFloat(row.min_value);
+            const max = parseFloat(row.max_value);
+
+            return new MetricEntity({
+                id: `${tier.tier}-${new Date(row.point).toISOString()}`,
+                project_id: projectId,
+                type,
+                value: parseFloat(row.value),
+                unit: undefined,
+                metadata: {
+                    min,
+                    max,
+                    sum: parseFloat(row.sum),
+                    count: parseInt(row.count),
+                    ...this.pointPercentiles(row, min, max),
+                },
+                tags: {},
+                timestamp: new Date(row.point),
+            });
+        });
+    }
+
+    private pointPercentiles(row: Record<string, unknown>, min: number, max: number): Record<string, number> {
+        const histograms = row.histograms as MetricHistogram[] | null;
+        const merged = histograms ? HistogramMath.merge(histograms) : null;
+        if (merged && merged.count > 0) {
+            return MetricAggregator.histogramPercentiles(merged);
+        }
+
+        const sketches = row.sketches as QuantileSketch[] | null;
+        if (sketches) {
+            return MetricAggregator.sketchPercentiles(QuantileSketches.merge(sketches), min, max);
+        }
+
+        const percentiles: Record<string, number> = {};
+        for (const name of Object.keys(METRIC_PERCENTILES)) {
+            if (row[name] !== null && row[name] !== undefined) {
+                percentiles[name] = parseFloat(row[name] as string);
+            }
+        }
+        return percentiles;
+    }
+}
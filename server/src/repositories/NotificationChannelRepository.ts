@@ -0,0 +1,86 @@
+import {db} from '../database/connection';
+import {ProjectNotificationChannel} from '../entities/NotificationChannel';
+import {
+    CreateNotificationChannelDTO,
+    INotificationChannelRepository,
+    NotificationChannelFilters,
+    UpdateNotificationChannelDTO,
+} from './interfaces/INotificationChannelRepository';
+
+export class NotificationChannelRepository implements INotificationChannelRepository {
+    private table = 'notification_channels';
+
+    async create(data: CreateNotificationChannelDTO): Promise<ProjectNotificationChannel> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                name: data.name,
+                type: data.type,
+                config: JSON.stringify(data.config),
+                enabled: data.enabled ?? true,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<ProjectNotificationChannel | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: NotificationChannelFilters): Promise<ProjectNotificationChannel[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.type) {
+                query = query.where({type: filters.type});
+            }
+            if (filters.enabled !== undefined) {
+                query = query.where({enabled: filters.enabled});
+            }
+        }
+
+        const results = await query.orderBy('name', 'asc');
+        return results.map(this.mapToEntity);
+    }
+
+    async update(data: UpdateNotificationChannelDTO): Promise<ProjectNotificationChannel | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.name !== undefined) updateData.name = data.name;
+        if (data.type !== undefined) updateData.type = data.type;
+        if (data.config !== undefined) updateData.config = JSON.stringify(data.config);
+        if (data.enabled !== undefined) updateData.enabled = data.enabled;
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): ProjectNotificationChannel {
+        return {
+            id: row.id as string,
+            project_id: row.project_id as string,
+            name: row.name as string,
+            type: row.type as string,
+            config: (typeof row.config === 'string' ? JSON.parse(row.config) : row.config) || {},
+            enabled: row.enabled as boolean,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
@@ -0,0 +1,104 @@
+import {db} from '../database/connection';
+import {NotificationTemplate, NotificationTemplateEvent} from '../entities/NotificationTemplate';
+import {
+    CreateNotificationTemplateDTO,
+    INotificationTemplateRepository,
+    NotificationTemplateFilters,
+    UpdateNotificationTemplateDTO,
+} from './interfaces/INotificationTemplateRepository';
+
+export class NotificationTemplateRepository implements INotificationTemplateRepository {
+    private table = 'notification_templates';
+
+    async create(data: CreateNotificationTemplateDTO): Promise<NotificationTemplate> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                channel: data.channel,
+                event: data.event,
+                subject: data.subject,
+                body: data.body,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<NotificationTemplate | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: NotificationTemplateFilters): Promise<NotificationTemplate[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.channel) {
+                query = query.where({channel: filters.channel});
+            }
+            if (filters.event) {
+                query = query.where({event: filters.event});
+            }
+        }
+
+        const results = await query.orderBy(['channel', 'event']);
+        return results.map(this.mapToEntity);
+    }
+
+    // A project's own template wins over the server-wide one
+    async findFor(
+        channel: string,
+        event: NotificationTemplateEvent,
+        projectId?: string
+    ): Promise<NotificationTemplate | null> {
+        const result = await db(this.table)
+            .where({channel, event})
+            .where(query => {
+                query.whereNull('project_id');
+                if (projectId) {
+                    query.orWhere({project_id: projectId});
+                }
+            })
+            .orderByRaw('project_id IS NULL')
+            .first();
+
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async update(data: UpdateNotificationTemplateDTO): Promise<NotificationTemplate | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.subject !== undefined) updateData.subject = data.subject;
+        if (data.body !== undefined) updateData.body = data.body;
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): NotificationTemplate {
+        return {
+            id: row.id as string,
+            project_id: (row.project_id as string) || undefined,
+            channel: row.channel as string,
+            event: row.event as NotificationTemplateEvent,
+            subject: (row.subject as string) || undefined,
+            body: row.body as string,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        };
+    }
+}
@@ -0,0 +1,65 @@
+import {db} from '../database/connection';
+import {OnCallOverride} from '../entities/OnCall';
+import {CreateOnCallOverrideDTO, IOnCallOverrideRepository} from './interfaces/IOnCallRepository';
+
+export class OnCallOverrideRepository implements IOnCallOverrideRepository {
+    private table = 'oncall_overrides';
+
+    async create(data: CreateOnCallOverrideDTO): Promise<OnCallOverride> {
+        const [created] = await db(this.table)
+            .insert({
+                schedule_id: data.scheduleId,
+                user_id: data.userId,
+                starts_at: data.startsAt,
+                ends_at: data.endsAt,
+                reason: data.reason,
+                created_by: data.createdBy,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    // Overrides for a schedule that have not ended yet, or all of them when `from` is omitted
+    async findBySchedule(scheduleId: string, from?: Date): Promise<OnCallOverride[]> {
+        let query = db(this.table).where({schedule_id: scheduleId});
+
+        if (from) {
+            query = query.where('ends_at', '>', from);
+        }
+
+        const results = await query.orderBy('starts_at', 'asc');
+        return results.map(this.mapToEntity);
+    }
+
+    async findActive(scheduleIds: string[], at: Date = new Date()): Promise<OnCallOverride[]> {
+        if (scheduleIds.length === 0) {
+            return [];
+        }
+
+        const results = await db(this.table)
+            .whereIn('schedule_id', scheduleIds)
+            .where('starts_at', '<=', at)
+            .where('ends_at', '>', at);
+
+        return results.map(this.mapToEntity);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): OnCallOverride {
+        return {
+            id: row.id as string,
+            schedule_id: row.schedule_id as string,
+            user_id: row.user_id as string,
+            starts_at: new Date(row.starts_at as string),
+            ends_at: new Date(row.ends_at as string),
+            reason: (row.reason as string) || undefined,
+            created_by: (row.created_by as string) || undefined,
+            created_at: new Date(row.created_at as string),
+        };
+    }
+}
@@ -0,0 +1,82 @@
+import {db} from '../database/connection';
+import {OnCallRotation, OnCallScheduleEntity} from '../entities/OnCall';
+import {
+    CreateOnCallScheduleDTO,
+    IOnCallScheduleRepository,
+    UpdateOnCallScheduleDTO,
+} from './interfaces/IOnCallRepository';
+
+export class OnCallScheduleRepository implements IOnCallScheduleRepository {
+    private table = 'oncall_schedules';
+
+    async create(data: CreateOnCallScheduleDTO): Promise<OnCallScheduleEntity> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                name: data.name,
+                description: data.description,
+                timezone: data.timezone,
+                rotations: JSON.stringify(data.rotations),
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<OnCallScheduleEntity | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: { projectId?: string }): Promise<OnCallScheduleEntity[]> {
+        let query = db(this.table);
+
+        if (filters?.projectId) {
+            query = query.where({project_id: filters.projectId});
+        }
+
+        const results = await query.orderBy('name', 'asc');
+        return results.map(this.mapToEntity);
+    }
+
+    async update(data: UpdateOnCallScheduleDTO): Promise<OnCallScheduleEntity | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.projectId !== undefined) updateData.project_id = data.projectId;
+        if (data.name !== undefined) updateData.name = data.name;
+        if (data.description !== undefined) updateData.description = data.description;
+        if (data.timezone !== undefined) updateData.timezone = data.timezone;
+        if (data.rotations !== undefined) updateData.rotations = JSON.stringify(data.rotations);
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): OnCallScheduleEntity {
+        const rotations = typeof row.rotations === 'string'
+            ? JSON.parse(row.rotations)
+            : row.rotations;
+
+        return new OnCallScheduleEntity({
+            id: row.id as string,
+            project_id: (row.project_id as string) || undefined,
+            name: row.name as string,
+            description: (row.description as string) || undefined,
+            timezone: row.timezone as string,
+            rotations: (rotations as OnCallRotation[]) || [],
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        });
+    }
+}
@@ -84,6 +84,20 @@ export class ProjectRepository implements IProjectRepository {
         return result ? this.mapToEntity(result) : null;
     }
 
+    async findByIngestTokenHash(hash: string): Promise<Project | null> {
+        const result = await db(this.table).where({ingest_token_hash: hash}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    // Replaces the project's ingest token, so the previous one stops working
+    async setIngestTokenHash(id: string, hash: string): Promise<boolean> {
+        const updated = await db(this.table)
+            .where({id})
+            .update({ingest_token_hash: hash, updated_at: new Date()});
+
+        return updated > 0;
+    }
+
     async count(filters?: ProjectFilters): Promise<number> {
         let query = db(this.table);
 
@@ -0,0 +1,125 @@
+import {db} from '../database/connection';
+import {Silence, SilenceEntity, SilenceMatcher, SilenceRecurrence} from '../entities/Silence';
+import {CreateSilenceDTO, ISilenceRepository, SilenceFilters, UpdateSilenceDTO} from './interfaces/ISilenceRepository';
+
+export class SilenceRepository implements ISilenceRepository {
+    private table = 'silences';
+
+    async create(data: CreateSilenceDTO): Promise<Silence> {
+        const [created] = await db(this.table)
+            .insert({
+                project_id: data.projectId,
+                matchers: JSON.stringify(data.matchers),
+                starts_at: data.startsAt,
+                ends_at: data.endsAt,
+                recurrence: data.recurrence ? JSON.stringify(data.recurrence) : null,
+                comment: data.comment,
+                created_by: data.createdBy,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<Silence | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: SilenceFilters): Promise<Silence[]> {
+        let query = db(this.table);
+        const now = new Date();
+
+        if (filters) {
+            if (filters.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters.state === 'active') {
+                query = query.where('starts_at', '<=', now).where('ends_at', '>', now);
+            } else if (filters.state === 'pending') {
+                query = query.where('starts_at', '>', now);
+            } else if (filters.state === 'expired') {
+                query = query.where('ends_at', '<=', now);
+            }
+        }
+
+        const results = await query.orderBy('starts_at', 'desc');
+        return results.map(this.mapToEntity);
+    }
+
+    // Silences in effect at the given time, including only the open window of recurring ones
+    async findActive(at: Date = new Date()): Promise<Silence[]> {
+        const results = await db(this.table)
+            .where('starts_at', '<=', at)
+            .where('ends_at', '>', at);
+
+        return results
+            .map(this.mapToEntity)
+            .filter(silence => silence.isActiveAt(at));
+    }
+
+    async update(data: UpdateSilenceDTO): Promise<Silence | null> {
+        const updateData: Record<string, unknown> = {};
+
+        if (data.projectId !== undefined) updateData.project_id = data.projectId;
+        if (data.matchers !== undefined) updateData.matchers = JSON.stringify(data.matchers);
+        if (data.startsAt !== undefined) updateData.starts_at = data.startsAt;
+        if (data.endsAt !== undefined) updateData.ends_at = data.endsAt;
+        if (data.recurrence !== undefined) {
+            updateData.recurrence = data.recurrence ? JSON.stringify(data.recurrence) : null;
+        }
+        if (data.comment !== undefined) updateData.comment = data.comment;
+
+        updateData.updated_at = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id: data.id})
+            .update(updateData)
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async expire(id: string): Promise<Silence | null> {
+        const now = new Date();
+
+        const [updated] = await db(this.table)
+            .where({id})
+            .update({
+                ends_at: now,
+                // A silence that has not started yet expires without ever applying
+                starts_at: db.raw('LEAST(starts_at, ?)', [now]),
+                updated_at: now,
+            })
+            .returning('*');
+
+        return updated ? this.mapToEntity(updated) : null;
+    }
+
+    async delete(id: string): Promise<boolean> {
+        const deleted = await db(this.table).where({id}).del();
+        return deleted > 0;
+    }
+
+    private mapToEntity(row: Record<string, unknown>): SilenceEntity {
+        const matchers = typeof row.matchers === 'string'
+            ? JSON.parse(row.matchers)
+            : row.matchers;
+        const recurrence = typeof row.recurrence === 'string'
+            ? JSON.parse(row.recurrence)
+            : row.recurrence;
+
+        return new SilenceEntity({
+            id: row.id as string,
+            project_id: (row.project_id as string) || undefined,
+            matchers: matchers as SilenceMatcher[],
+            starts_at: new Date(row.starts_at as string),
+            ends_at: new Date(row.ends_at as string),
+            recurrence: (recurrence as SilenceRecurrence) || undefined,
+            comment: row.comment as string,
+            created_by: (row.created_by as string) || undefined,
+            created_at: row.created_at as Date,
+            updated_at: row.updated_at as Date,
+        });
+    }
+}
@@ -0,0 +1,79 @@
+import {Knex} from 'knex';
+import {db} from '../database/connection';
+import {BaselineModel} from '../entities/MetricBaseline';
+import {MetricRepository} from './MetricRepository';
+import {HourOfWeekStats, MetricFilters} from './interfaces/IMetricRepository';
+
+const hourOfWeek = (column: string): string =>
+    `(EXTRACT(DOW FROM ${column} AT TIME ZONE 'UTC') * 24 + EXTRACT(HOUR FROM ${column} AT TIME ZONE 'UTC'))::int`;
+
+// Metric storage on a TimescaleDB hypertable, selected with METRICS_STORAGE=timescale.
+// Writes and sample queries are the same as on plain Postgres; time series come from the rollup tiers or the
+// hypertable, so their points carry percentiles on either backend. Baselines are learned from the metrics_hourly
+// continuous aggregate, which keeps weeks of history cheap to scan and outlives dropped chunks.
+export class TimescaleMetricRepository extends MetricRepository {
+    protected hourlyView = 'metrics_hourly';
+
+    async deleteOldMetrics(beforeDate: Date): Promise<number> {
+        const [{count}] = await db(this.table).where('timestamp', '<', beforeDate).count('* as count');
+
+        // Whole chunks before the cutoff are dropped, which is much cheaper than deleting their rows
+        await db.raw('SELECT drop_chunks(?, older_than => ?::timestamptz)', [this.table, beforeDate]);
+        await super.deleteOldMetrics(beforeDate);
+
+        return parseInt(count as string);
+    }
+
+    async hourOfWeekStats(startDate: Date, endDate: Date, filters?: MetricFilters): Promise<HourOfWeekStats[]> {
+        const hours = BaselineModel.wholeHours(startDate, endDate);
+        if (!hours) {
+            return super.hourOfWeekStats(startDate, endDate, filters);
+        }
+
+        const filtered = (query: Knex.QueryBuilder): Knex.QueryBuilder => {
+            if (filters?.projectId) {
+                query = query.where({project_id: filters.projectId});
+            }
+            if (filters?.type) {
+                query = query.where({type: filters.type});
+            }
+            return query;
+        };
+
+        // Whole hours come from the aggregate; the partial hours at either edge come from the raw samples, each
+        // counting as a bucket of one so both sides add up the same way
+        const hourly = filtered(db(this.hourlyView)
+            .select('project_id', 'type', 'bucket as at', 'count', 'sum', 'sum_squares')
+            .where('bucket', '>=', hours.from)
+            .where('bucket', '<', hours.to));
+
+        const edges = filtered(db(this.table)
+            .select('project_id', 'type', 'timestamp as at', db.raw('1 as count'), 'value as sum', db.raw('value * value as sum_squares'))
+            .where(query => query
+                .where(edge => edge.where('timestamp', '>=', startDate).where('timestamp', '<', hours.from))
+                .orWhere(edge => edge.where('timestamp', '>=', hours.to).where('timestamp', '<=', endDate))));
+
+        const results = await db.from(hourly.unionAll(edges, true).as('samples'))
+            .select(
+                'project_id',
+                'type',
+                db.raw(`${hourOfWeek('at')} as hour_of_week`),
+                db.raw('SUM(count) as count'),
+                db.raw('SUM(sum) / SUM(count) as mean'),
+                db.raw(`CASE WHEN SUM(count) > 1
+                    THEN SQRT(GREATEST((SUM(sum_squares) - SUM(sum) * SUM(sum) / SUM(count)) / (SUM(count) - 1), 0))
+                    ELSE 0 END as stddev`)
+            )
+            .groupBy('project_id', 'type')
+            .groupByRaw(hourOfWeek('at'));
+
+        return results.map(row => ({
+            projectId: row.project_id,
+            type: row.type,
+            hourOfWeek: parseInt(row.hour_of_week),
+            count: parseInt(row.count),
+            mean: parseFloat(row.mean),
+            stddev: parseFloat(row.stddev),
+        }));
+    }
+}
@@ -0,0 +1,80 @@
+import {db} from '../database/connection';
+import {WebhookDelivery} from '../entities/WebhookDelivery';
+import {
+    CreateWebhookDeliveryDTO,
+    IWebhookDeliveryRepository,
+    WebhookDeliveryFilters,
+} from './interfaces/IWebhookDeliveryRepository';
+
+export class WebhookDeliveryRepository implements IWebhookDeliveryRepository {
+    private table = 'webhook_deliveries';
+
+    async create(data: CreateWebhookDeliveryDTO): Promise<WebhookDelivery> {
+        const [created] = await db(this.table)
+            .insert({
+                id: data.id,
+                notification_id: data.notificationId,
+                channel_id: data.channelId,
+                redelivery_of: data.redeliveryOf,
+                url: data.url,
+                event: data.event,
+                request_headers: JSON.stringify(data.requestHeaders),
+                request_body: data.requestBody,
+                response_status: data.responseStatus,
+                response_headers: data.responseHeaders ? JSON.stringify(data.responseHeaders) : null,
+                response_body: data.responseBody,
+                error: data.error,
+                success: data.success,
+                duration_ms: data.durationMs,
+            })
+            .returning('*');
+
+        return this.mapToEntity(created);
+    }
+
+    async findById(id: string): Promise<WebhookDelivery | null> {
+        const result = await db(this.table).where({id}).first();
+        return result ? this.mapToEntity(result) : null;
+    }
+
+    async findAll(filters?: WebhookDeliveryFilters): Promise<WebhookDelivery[]> {
+        let query = db(this.table);
+
+        if (filters) {
+            if (filters.notificationId) {
+                query = query.where({notification_id: filters.notificationId});
+            }
+            if (filters.channelId) {
+                query = query.where({channel_id: filters.channelId});
+            }
+            if (filters.success !== undefined) {
+                query = query.where({success: filters.success});
+            }
+        }
+
+        const results = await query.orderBy('created_at', 'desc').limit(filters?.limit || 100);
+        return results.map(this.mapToEntity);
+    }
+
+    private mapToEntity(row: Record<string, unknown>): WebhookDelivery {
+        const parse = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : value;
+
+        return {
+            id: row.id as string,
+            notification_id: (row.notification_id as string) || undefined,
+            channel_id: (row.channel_id as string) || undefined,
+            redelivery_of: (row.redelivery_of as string) || undefined,
+            url: row.url as string,
+            event: row.event as string,
+            request_headers: parse(row.request_headers) || {},
+            request_body: row.request_body as string,
+            response_status: (row.response_status as number) ?? undefined,
+            response_headers: parse(row.response_headers) || undefined,
+            response_body: (row.response_body as string) ?? undefined,
+            error: (row.error as string) || undefined,
+            success: row.success as boolean,
+            duration_ms: row.duration_ms as number,
+            created_at: row.created_at as Date,
+        };
+    }
+}
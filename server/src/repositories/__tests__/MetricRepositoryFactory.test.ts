@@ -0,0 +1,39 @@
+import {MetricRepository} from '../MetricRepository';
+import {createMetricRepository, metricStorage} from '../MetricRepositoryFactory';
+import {TimescaleMetricRepository} from '../TimescaleMetricRepository';
+
+// Backend selection only constructs repositories, so no connection is opened
+jest.mock('../../database/connection', () => ({db: {}}));
+
+describe('createMetricRepository', () => {
+    const storage = process.env.METRICS_STORAGE;
+
+    afterEach(() => {
+        if (storage === undefined) {
+            delete process.env.METRICS_STORAGE;
+        } else {
+            process.env.METRICS_STORAGE = storage;
+        }
+    });
+
+    it('should store metrics on plain Postgres by default', () => {
+        delete process.env.METRICS_STORAGE;
+
+        expect(metricStorage()).toBe('postgres');
+        expect(createMetricRepository()).not.toBeInstanceOf(TimescaleMetricRepository);
+        expect(createMetricRepository()).toBeInstanceOf(MetricRepository);
+    });
+
+    it('should store metrics on the hypertable when METRICS_STORAGE is timescale', () => {
+        process.env.METRICS_STORAGE = 'timescale';
+
+        expect(metricStorage()).toBe('timescale');
+        expect(createMetricRepository()).toBeInstanceOf(TimescaleMetricRepository);
+    });
+
+    it('should fall back to plain Postgres for unknown backends', () => {
+        process.env.METRICS_STORAGE = 'influx';
+
+        expect(metricStorage()).toBe('postgres');
+    });
+});
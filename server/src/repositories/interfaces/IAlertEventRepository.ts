@@ -0,0 +1,19 @@
+import {Knex} from 'knex';
+import {AlertEvent, AlertEventActorType, AlertStatus} from '../../entities/Alert';
+
+export interface CreateAlertEventDTO {
+    alertId: string;
+    fromStatus?: AlertStatus;
+    toStatus: AlertStatus;
+    actorType: AlertEventActorType;
+    actorId?: string;
+    metricValue?: number;
+    note?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface IAlertEventRepository {
+    create(data: CreateAlertEventDTO, trx?: Knex.Transaction): Promise<AlertEvent>;
+
+    findByAlertId(alertId: string): Promise<AlertEvent[]>;
+}
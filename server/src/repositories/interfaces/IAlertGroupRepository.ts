@@ -0,0 +1,35 @@
+import {AlertGroup, AlertGroupingConfig, AlertGroupStatus} from '../../entities/AlertGroup';
+import {AlertStatus} from '../../entities/Alert';
+
+export interface AttachAlertDTO {
+    alertId: string;
+    projectId: string;
+    labels: Record<string, string>;
+    config: AlertGroupingConfig;
+}
+
+export interface AlertGroupFilters {
+    projectId?: string;
+    status?: AlertGroupStatus;
+}
+
+export interface IAlertGroupRepository {
+    attachAlert(data: AttachAlertDTO, now?: Date): Promise<AlertGroup>;
+
+    scheduleFlush(id: string, now?: Date): Promise<AlertGroup | null>;
+
+    findById(id: string): Promise<AlertGroup | null>;
+
+    findAll(filters?: AlertGroupFilters): Promise<AlertGroup[]>;
+
+    findDue(now?: Date): Promise<AlertGroup[]>;
+
+    recordNotification(
+        id: string,
+        notifiedAlerts: Record<string, AlertStatus>,
+        resolved: boolean,
+        now?: Date
+    ): Promise<AlertGroup | null>;
+
+    clearFlush(id: string): Promise<void>;
+}
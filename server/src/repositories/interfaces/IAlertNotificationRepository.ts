@@ -0,0 +1,33 @@
+import {AlertNotification, AlertNotificationStatus} from '../../entities/Alert';
+
+export interface CreateAlertNotificationDTO {
+    alertId?: string;
+    groupId?: string;
+    alertIds: string[];
+    channel: string;
+    channelId?: string;
+    event: string;
+    destination?: string[];
+    payload: Record<string, unknown>;
+}
+
+export interface AlertNotificationFilters {
+    status?: AlertNotificationStatus;
+    channel?: string;
+}
+
+export interface IAlertNotificationRepository {
+    create(data: CreateAlertNotificationDTO): Promise<AlertNotification>;
+
+    findById(id: string): Promise<AlertNotification | null>;
+
+    findByAlertId(alertId: string, filters?: AlertNotificationFilters): Promise<AlertNotification[]>;
+
+    claimDue(limit: number, leaseSeconds: number, now?: Date): Promise<AlertNotification[]>;
+
+    markSent(id: string, now?: Date): Promise<void>;
+
+    markFailed(id: string, error: string, nextRetry: Date | null, now?: Date): Promise<void>;
+
+    requeue(id: string, now?: Date): Promise<AlertNotification | null>;
+}
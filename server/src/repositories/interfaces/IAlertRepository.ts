@@ -1,29 +1,48 @@
-import {Alert, AlertSeverity, AlertStatus} from '../../entities/Alert';
+import {Alert, AlertEventActorType, AlertSeverity, AlertStatus} from '../../entities/Alert';
 
 export interface CreateAlertDTO {
     projectId: string;
+    ruleId?: string;
     name: string;
     description?: string;
     severity: AlertSeverity;
     metricType: string;
-    condition: 'greater_than' | 'less_than' | 'equals' | 'not_equals';
-    threshold: number;
+    condition?: 'greater_than' | 'less_than' | 'equals' | 'not_equals';
+    threshold?: number;
+    metricValue?: number;
     durationSeconds?: number;
     notificationChannels?: string[];
     metadata?: Record<string, unknown>;
+    tags?: string[];
+    affectedServices?: string[];
+    status?: 'pending' | 'firing';
+    pendingAt?: Date;
+    triggeredAt?: Date;
+    createdBy?: string;
 }
 
-export interface UpdateAlertDTO extends Partial<CreateAlertDTO> {
+// Status changes go through IAlertRepository.transition so they are recorded in the timeline
+export interface UpdateAlertDTO extends Partial<Omit<CreateAlertDTO, 'status'>> {
     id: string;
-    status?: AlertStatus;
     triggeredAt?: Date;
     acknowledgedAt?: Date;
     resolvedAt?: Date;
     acknowledgedBy?: string;
 }
 
+export interface AlertTransitionDTO {
+    actorType?: AlertEventActorType;
+    actorId?: string;
+    metricValue?: number;
+    note?: string;
+    metadata?: Record<string, unknown>;
+    pendingAt?: Date;
+}
+
 export interface AlertFilters {
     projectId?: string;
+    ruleId?: string;
+    groupId?: string;
     status?: AlertStatus;
     severity?: AlertSeverity;
     startDate?: Date;
@@ -43,11 +62,19 @@ export interface IAlertRepository {
 
     delete(id: string): Promise<boolean>;
 
-    acknowledge(id: string, userId: string): Promise<Alert | null>;
+    transition(id: string, to: AlertStatus, options?: AlertTransitionDTO): Promise<Alert | null>;
+
+    acknowledge(id: string, userId: string, note?: string): Promise<Alert | null>;
+
+    resolve(id: string, options?: AlertTransitionDTO): Promise<Alert | null>;
+
+    trigger(id: string, options?: AlertTransitionDTO): Promise<Alert | null>;
+
+    startEscalation(id: string, policyId: string, nextEscalationAt: Date): Promise<void>;
 
-    resolve(id: string): Promise<Alert | null>;
+    findDueEscalations(now?: Date): Promise<Alert[]>;
 
-    trigger(id: string): Promise<Alert | null>;
+    advanceEscalation(id: string, next: { step: number; repeat: number; at: Date } | null): Promise<void>;
 
     countByStatus(projectId?: string): Promise<Record<AlertStatus, number>>;
 }
\ No newline at end of file
@@ -0,0 +1,42 @@
+import {AlertCondition, AlertRule, AlertSeverity, AlertType} from '../../entities/Alert';
+
+export interface CreateAlertRuleDTO {
+    projectId: string;
+    name: string;
+    description?: string;
+    enabled?: boolean;
+    type?: AlertType;
+    severity: AlertSeverity;
+    condition: AlertCondition;
+    notificationChannels?: string[];
+    cooldownMinutes?: number;
+    autoResolve?: boolean;
+    autoResolveMinutes?: number;
+    tags?: string[];
+    affectedServices?: string[];
+    escalationPolicyId?: string | null;
+    createdBy?: string;
+}
+
+export interface UpdateAlertRuleDTO extends Partial<CreateAlertRuleDTO> {
+    id: string;
+}
+
+export interface AlertRuleFilters {
+    projectId?: string;
+    enabled?: boolean;
+    severity?: AlertSeverity;
+    metricType?: string;
+}
+
+export interface IAlertRuleRepository {
+    create(data: CreateAlertRuleDTO): Promise<AlertRule>;
+
+    findById(id: string): Promise<AlertRule | null>;
+
+    findAll(filters?: AlertRuleFilters): Promise<AlertRule[]>;
+
+    update(data: UpdateAlertRuleDTO): Promise<AlertRule | null>;
+
+    delete(id: string): Promise<boolean>;
+}
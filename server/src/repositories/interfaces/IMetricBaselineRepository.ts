@@ -0,0 +1,23 @@
+import {MetricBaseline} from '../../entities/MetricBaseline';
+
+export interface UpsertMetricBaselineDTO {
+    projectId: string;
+    metricType: string;
+    hourOfWeek: number;
+    sampleCount: number;
+    mean: number;
+    stddev: number;
+}
+
+export interface MetricBaselineFilters {
+    projectId?: string;
+    metricType?: string;
+}
+
+export interface IMetricBaselineRepository {
+    findAll(filters?: MetricBaselineFilters): Promise<MetricBaseline[]>;
+
+    findByMetric(projectId: string, metricType: string): Promise<MetricBaseline[]>;
+
+    upsertMany(data: UpsertMetricBaselineDTO[], now?: Date): Promise<number>;
+}
@@ -0,0 +1,11 @@
+import {MetricDefinition} from '../../entities/MetricCatalog';
+
+export interface IMetricCatalogRepository {
+    findAll(): Promise<MetricDefinition[]>;
+
+    findByName(name: string): Promise<MetricDefinition | null>;
+
+    upsertMany(definitions: MetricDefinition[], now?: Date): Promise<MetricDefinition[]>;
+
+    insertMissing(definitions: MetricDefinition[]): Promise<MetricDefinition[]>;
+}
@@ -1,4 +1,8 @@
+import {AlertAggregation, AlertStepValue} from '../../entities/Alert';
 import {Metric, MetricType} from '../../entities/Metric';
+import {MetricHistogram} from '../../entities/Histogram';
+import {TimeSeriesInterval} from '../../entities/TimeSeries';
+import {MetricTags, TagFilters} from '../../utils/metricTags';
 
 export interface CreateMetricDTO {
     projectId: string;
@@ -6,8 +10,9 @@ export interface CreateMetricDTO {
     value: number;
     unit?: string;
     metadata?: Record<string, unknown>;
-    tags?: string[];
+    tags?: MetricTags | string[]; // "key:value" strings are still accepted
     timestamp?: Date;
+    histogram?: MetricHistogram;
 }
 
 export interface MetricFilters {
@@ -15,7 +20,13 @@ export interface MetricFilters {
     type?: MetricType;
     startDate?: Date;
     endDate?: Date;
-    tags?: string[];
+    tags?: TagFilters;
+}
+
+// Tag filters, and the tag keys to split results by
+export interface TagQuery {
+    tags?: TagFilters;
+    groupBy?: string[];
 }
 
 export interface MetricAggregation {
@@ -25,6 +36,36 @@ export interface MetricAggregation {
     max: number;
     count: number;
     sum: number;
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+// An aggregation of the samples whose tags have the group's values; null is a missing tag
+export interface MetricAggregationGroup extends MetricAggregation {
+    group: Record<string, string | null>;
+}
+
+// Steps every stepSeconds back from end over lookbackSeconds; each aggregates the samples in (step - window, step]
+export interface MetricWindowQuery {
+    projectId: string;
+    type: MetricType;
+    aggregation: AlertAggregation;
+    end: Date;
+    lookbackSeconds: number;
+    windowSeconds: number;
+    stepSeconds: number;
+}
+
+// Sample statistics for one metric in one hour of the week (UTC)
+export interface HourOfWeekStats {
+    projectId: string;
+    type: MetricType;
+    hourOfWeek: number;
+    count: number;
+    mean: number;
+    stddev: number;
 }
 
 export interface IMetricRepository {
@@ -38,9 +79,36 @@ export interface IMetricRepository {
 
     findLatest(projectId: string, type: MetricType): Promise<Metric | null>;
 
-    aggregate(projectId: string, type: MetricType, startDate: Date, endDate: Date): Promise<MetricAggregation | null>;
+    findLatestPerSeries(since: Date): Promise<Metric[]>;
+
+    aggregate(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        tags?: TagFilters
+    ): Promise<MetricAggregation | null>;
+
+    aggregateGroups(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        query: TagQuery
+    ): Promise<MetricAggregationGroup[]>;
+
+    windowedAggregates(query: MetricWindowQuery): Promise<AlertStepValue[]>;
 
     deleteOldMetrics(beforeDate: Date): Promise<number>;
 
-    getTimeSeries(projectId: string, type: MetricType, startDate: Date, endDate: Date, interval?: string): Promise<Metric[]>;
+    getTimeSeries(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        interval: TimeSeriesInterval,
+        query?: TagQuery
+    ): Promise<Metric[]>;
+
+    hourOfWeekStats(startDate: Date, endDate: Date, filters?: MetricFilters): Promise<HourOfWeekStats[]>;
 }
\ No newline at end of file
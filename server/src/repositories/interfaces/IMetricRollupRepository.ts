@@ -0,0 +1,22 @@
+import {Metric, MetricType} from '../../entities/Metric';
+import {RollupTierConfig} from '../../entities/MetricRollup';
+import {TimeSeriesInterval} from '../../entities/TimeSeries';
+
+export interface IMetricRollupRepository {
+    rollup(tier: RollupTierConfig, from: Date, to: Date, now?: Date): Promise<number>;
+
+    latestBucket(tier: RollupTierConfig): Promise<Date | null>;
+
+    oldestSample(): Promise<Date | null>;
+
+    deleteBefore(tier: RollupTierConfig | 'raw', projectId: string, cutoff: Date): Promise<number>;
+
+    getTimeSeries(
+        tier: RollupTierConfig,
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        interval: TimeSeriesInterval
+    ): Promise<Metric[]>;
+}
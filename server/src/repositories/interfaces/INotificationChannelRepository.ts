@@ -0,0 +1,31 @@
+import {ProjectNotificationChannel} from '../../entities/NotificationChannel';
+
+export interface CreateNotificationChannelDTO {
+    projectId: string;
+    name: string;
+    type: string;
+    config: Record<string, unknown>;
+    enabled?: boolean;
+}
+
+export interface UpdateNotificationChannelDTO extends Partial<Omit<CreateNotificationChannelDTO, 'projectId'>> {
+    id: string;
+}
+
+export interface NotificationChannelFilters {
+    projectId?: string;
+    type?: string;
+    enabled?: boolean;
+}
+
+export interface INotificationChannelRepository {
+    create(data: CreateNotificationChannelDTO): Promise<ProjectNotificationChannel>;
+
+    findById(id: string): Promise<ProjectNotificationChannel | null>;
+
+    findAll(filters?: NotificationChannelFilters): Promise<ProjectNotificationChannel[]>;
+
+    update(data: UpdateNotificationChannelDTO): Promise<ProjectNotificationChannel | null>;
+
+    delete(id: string): Promise<boolean>;
+}
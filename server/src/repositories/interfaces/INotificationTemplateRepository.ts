@@ -0,0 +1,35 @@
+import {NotificationTemplate, NotificationTemplateEvent} from '../../entities/NotificationTemplate';
+
+export interface CreateNotificationTemplateDTO {
+    projectId?: string;
+    channel: string;
+    event: NotificationTemplateEvent;
+    subject?: string | null;
+    body: string;
+}
+
+export interface UpdateNotificationTemplateDTO {
+    id: string;
+    subject?: string | null;
+    body?: string;
+}
+
+export interface NotificationTemplateFilters {
+    projectId?: string;
+    channel?: string;
+    event?: NotificationTemplateEvent;
+}
+
+export interface INotificationTemplateRepository {
+    create(data: CreateNotificationTemplateDTO): Promise<NotificationTemplate>;
+
+    findById(id: string): Promise<NotificationTemplate | null>;
+
+    findAll(filters?: NotificationTemplateFilters): Promise<NotificationTemplate[]>;
+
+    findFor(channel: string, event: NotificationTemplateEvent, projectId?: string): Promise<NotificationTemplate | null>;
+
+    update(data: UpdateNotificationTemplateDTO): Promise<NotificationTemplate | null>;
+
+    delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,68 @@
+import {EscalationPolicy, EscalationStep, OnCallOverride, OnCallRotation, OnCallSchedule} from '../../entities/OnCall';
+
+export interface CreateOnCallScheduleDTO {
+    projectId?: string;
+    name: string;
+    description?: string;
+    timezone: string;
+    rotations: OnCallRotation[];
+}
+
+export interface UpdateOnCallScheduleDTO extends Partial<CreateOnCallScheduleDTO> {
+    id: string;
+}
+
+export interface CreateOnCallOverrideDTO {
+    scheduleId: string;
+    userId: string;
+    startsAt: Date;
+    endsAt: Date;
+    reason?: string;
+    createdBy?: string;
+}
+
+export interface CreateEscalationPolicyDTO {
+    projectId: string;
+    name: string;
+    description?: string;
+    steps: EscalationStep[];
+    repeatCount?: number;
+}
+
+export interface UpdateEscalationPolicyDTO extends Partial<Omit<CreateEscalationPolicyDTO, 'projectId'>> {
+    id: string;
+}
+
+export interface IOnCallScheduleRepository {
+    create(data: CreateOnCallScheduleDTO): Promise<OnCallSchedule>;
+
+    findById(id: string): Promise<OnCallSchedule | null>;
+
+    findAll(filters?: { projectId?: string }): Promise<OnCallSchedule[]>;
+
+    update(data: UpdateOnCallScheduleDTO): Promise<OnCallSchedule | null>;
+
+    delete(id: string): Promise<boolean>;
+}
+
+export interface IOnCallOverrideRepository {
+    create(data: CreateOnCallOverrideDTO): Promise<OnCallOverride>;
+
+    findBySchedule(scheduleId: string, from?: Date): Promise<OnCallOverride[]>;
+
+    findActive(scheduleIds: string[], at?: Date): Promise<OnCallOverride[]>;
+
+    delete(id: string): Promise<boolean>;
+}
+
+export interface IEscalationPolicyRepository {
+    create(data: CreateEscalationPolicyDTO): Promise<EscalationPolicy>;
+
+    findById(id: string): Promise<EscalationPolicy | null>;
+
+    findAll(filters?: { projectId?: string }): Promise<EscalationPolicy[]>;
+
+    update(data: UpdateEscalationPolicyDTO): Promise<EscalationPolicy | null>;
+
+    delete(id: string): Promise<boolean>;
+}
@@ -36,5 +36,9 @@ export interface IProjectRepository {
 
     findByName(name: string): Promise<Project | null>;
 
+    findByIngestTokenHash(hash: string): Promise<Project | null>;
+
+    setIngestTokenHash(id: string, hash: string): Promise<boolean>;
+
     count(filters?: ProjectFilters): Promise<number>;
 }
\ No newline at end of file
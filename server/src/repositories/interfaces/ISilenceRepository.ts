@@ -0,0 +1,36 @@
+import {Silence, SilenceMatcher, SilenceRecurrence, SilenceState} from '../../entities/Silence';
+
+export interface CreateSilenceDTO {
+    projectId?: string;
+    matchers: SilenceMatcher[];
+    startsAt: Date;
+    endsAt: Date;
+    recurrence?: SilenceRecurrence | null;
+    comment: string;
+    createdBy?: string;
+}
+
+export interface UpdateSilenceDTO extends Partial<Omit<CreateSilenceDTO, 'createdBy'>> {
+    id: string;
+}
+
+export interface SilenceFilters {
+    projectId?: string;
+    state?: SilenceState;
+}
+
+export interface ISilenceRepository {
+    create(data: CreateSilenceDTO): Promise<Silence>;
+
+    findById(id: string): Promise<Silence | null>;
+
+    findAll(filters?: SilenceFilters): Promise<Silence[]>;
+
+    findActive(at?: Date): Promise<Silence[]>;
+
+    update(data: UpdateSilenceDTO): Promise<Silence | null>;
+
+    expire(id: string): Promise<Silence | null>;
+
+    delete(id: string): Promise<boolean>;
+}
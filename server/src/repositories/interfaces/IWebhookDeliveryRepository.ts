@@ -0,0 +1,33 @@
+import {WebhookDelivery} from '../../entities/WebhookDelivery';
+
+export interface CreateWebhookDeliveryDTO {
+    id?: string; // assigned before sending so the id can go out in the delivery header
+    notificationId?: string;
+    channelId?: string;
+    redeliveryOf?: string;
+    url: string;
+    event: string;
+    requestHeaders: Record<string, string>;
+    requestBody: string;
+    responseStatus?: number;
+    responseHeaders?: Record<string, string>;
+    responseBody?: string;
+    error?: string;
+    success: boolean;
+    durationMs: number;
+}
+
+export interface WebhookDeliveryFilters {
+    notificationId?: string;
+    channelId?: string;
+    success?: boolean;
+    limit?: number;
+}
+
+export interface IWebhookDeliveryRepository {
+    create(data: CreateWebhookDeliveryDTO): Promise<WebhookDelivery>;
+
+    findById(id: string): Promise<WebhookDelivery | null>;
+
+    findAll(filters?: WebhookDeliveryFilters): Promise<WebhookDelivery[]>;
+}
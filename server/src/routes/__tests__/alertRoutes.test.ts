@@ -0,0 +1,54 @@
+import express from 'express';
+import http from 'http';
+import {AddressInfo} from 'net';
+import alertRoutes from '../alertRoutes';
+
+// Unauthenticated requests are rejected before they reach the controller, so every handler is a stub
+jest.mock('../../controllers/AlertController', () => ({
+    AlertController: jest.fn().mockImplementation(() => new Proxy({}, {get: () => jest.fn()})),
+}));
+jest.mock('../../database/connection', () => ({db: {}}));
+
+describe('Alert routes', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    const alertId = '7a2b3c4d-5e6f-4a1b-9c2d-3e4f5a6b7c8d';
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use('/api/alerts', alertRoutes);
+
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/alerts`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const send = async (method: string, path: string, body?: object) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {'Content-Type': 'application/json'},
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        return {status: response.status, body: await response.json()};
+    };
+
+    it.each(['acknowledged', 'silenced', 'resolved'])('should reject setting the status to %s without a token', async status => {
+        const response = await send('PUT', `/${alertId}`, {status});
+
+        expect(response.status).toBe(401);
+        expect(response.body).toEqual({error: 'Access token required'});
+    });
+
+    it('should reject resolving an alert without a token', async () => {
+        const response = await send('POST', `/${alertId}/resolve`, {note: 'Fixed'});
+
+        expect(response.status).toBe(401);
+        expect(response.body).toEqual({error: 'Access token required'});
+    });
+});
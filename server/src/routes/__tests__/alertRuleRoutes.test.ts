@@ -0,0 +1,63 @@
+import express from 'express';
+import http from 'http';
+import {AddressInfo} from 'net';
+import alertRuleRoutes from '../alertRuleRoutes';
+
+// Unauthenticated requests are rejected before any repository is touched
+jest.mock('../../database/connection', () => ({db: {}}));
+
+describe('Alert rule routes', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    const ruleId = '3f1c2a4e-9b7d-4c1e-8a2f-5d6b7c8e9f01';
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        app.use('/api/alert-rules', alertRuleRoutes);
+
+        server = http.createServer(app);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/alert-rules`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const send = async (method: string, path: string, body?: object) => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: {'Content-Type': 'application/json'},
+            body: body ? JSON.stringify(body) : undefined,
+        });
+        return {status: response.status, body: await response.json()};
+    };
+
+    it('should reject creating a rule without a token', async () => {
+        const response = await send('POST', '/', {
+            projectId: ruleId,
+            name: 'High CPU',
+            severity: 'critical',
+            condition: {metric_type: 'cpu_usage', operator: 'gt', threshold: 90},
+        });
+
+        expect(response.status).toBe(401);
+        expect(response.body).toEqual({error: 'Access token required'});
+    });
+
+    it('should reject updating a rule without a token', async () => {
+        const response = await send('PUT', `/${ruleId}`, {enabled: false});
+
+        expect(response.status).toBe(401);
+        expect(response.body).toEqual({error: 'Access token required'});
+    });
+
+    it('should reject deleting a rule without a token', async () => {
+        const response = await send('DELETE', `/${ruleId}`);
+
+        expect(response.status).toBe(401);
+        expect(response.body).toEqual({error: 'Access token required'});
+    });
+});
@@ -0,0 +1,28 @@
+import {Router} from 'express';
+import {param, query} from 'express-validator';
+import {AlertGroupController} from '../controllers/AlertGroupController';
+import {requestValidator} from '../middleware/requestValidator';
+
+const router = Router();
+const controller = new AlertGroupController();
+
+// GET /api/alert-groups - Get all alert groups
+router.get(
+    '/',
+    [
+        query('projectId').optional().isUUID(),
+        query('status').optional().isIn(['open', 'resolved']),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// GET /api/alert-groups/:id - Get alert group with its alerts
+router.get(
+    '/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+export default router;
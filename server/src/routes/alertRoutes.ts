@@ -7,12 +7,14 @@ import {authenticateToken} from '../../middleware/auth';
 const router = Router();
 const controller = new AlertController();
 
+const STATUSES = ['inactive', 'pending', 'firing', 'acknowledged', 'resolved', 'silenced'];
+
 // GET /api/alerts - Get all alerts
 router.get(
     '/',
     [
         query('projectId').optional().isUUID(),
-        query('status').optional().isIn(['active', 'inactive', 'acknowledged', 'resolved']),
+        query('status').optional().isIn(STATUSES),
         query('severity').optional().isIn(['critical', 'high', 'medium', 'low', 'info']),
         query('startDate').optional().isISO8601(),
         query('endDate').optional().isISO8601(),
@@ -47,15 +49,16 @@ router.post(
     controller.create.bind(controller)
 );
 
-// PUT /api/alerts/:id - Update alert
+// PUT /api/alerts/:id - Update alert (requires authentication)
 router.put(
     '/:id',
+    authenticateToken,
     [
         param('id').isUUID(),
         body('name').optional().isString().notEmpty(),
         body('description').optional().isString(),
         body('severity').optional().isIn(['critical', 'high', 'medium', 'low', 'info']),
-        body('status').optional().isIn(['active', 'inactive', 'acknowledged', 'resolved']),
+        body('status').optional().isIn(STATUSES),
         body('threshold').optional().isNumeric(),
     ],
     requestValidator,
@@ -66,19 +69,58 @@ router.put(
 router.post(
     '/:id/acknowledge',
     authenticateToken,
-    [param('id').isUUID()],
+    [
+        param('id').isUUID(),
+        body('note').optional().isString(),
+    ],
     requestValidator,
     controller.acknowledge.bind(controller)
 );
 
-// POST /api/alerts/:id/resolve - Resolve alert
+// POST /api/alerts/:id/resolve - Resolve alert (requires authentication)
 router.post(
     '/:id/resolve',
-    [param('id').isUUID()],
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('note').optional().isString(),
+    ],
     requestValidator,
     controller.resolve.bind(controller)
 );
 
+// GET /api/alerts/:id/timeline - Get alert state transitions
+router.get(
+    '/:id/timeline',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getTimeline.bind(controller)
+);
+
+// GET /api/alerts/:id/notifications - Get notification deliveries for an alert
+router.get(
+    '/:id/notifications',
+    [
+        param('id').isUUID(),
+        query('status').optional().isIn(['pending', 'sent', 'failed', 'dead_letter']),
+        query('channel').optional().isString(),
+    ],
+    requestValidator,
+    controller.getNotifications.bind(controller)
+);
+
+// POST /api/alerts/:id/notifications/:notificationId/retry - Requeue a failed notification
+router.post(
+    '/:id/notifications/:notificationId/retry',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        param('notificationId').isUUID(),
+    ],
+    requestValidator,
+    controller.retryNotification.bind(controller)
+);
+
 // DELETE /api/alerts/:id - Delete alert
 router.delete(
     '/:id',
@@ -0,0 +1,142 @@
+import {Router} from 'express';
+import {body, param, query} from 'express-validator';
+import {AlertRuleController} from '../controllers/AlertRuleController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+
+const router = Router();
+const controller = new AlertRuleController();
+
+const ALERT_TYPES = [
+    'threshold_breach',
+    'service_down',
+    'deployment_failed',
+    'security_issue',
+    'performance_degradation',
+    'error_spike',
+    'custom',
+];
+const SEVERITIES = ['critical', 'high', 'medium', 'low', 'info'];
+const OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq', 'neq'];
+const AGGREGATIONS = ['avg', 'min', 'max', 'sum', 'p95', 'p99'];
+const CONDITION_KINDS = ['threshold', 'anomaly', 'predictive', 'composite', 'query'];
+const ANOMALY_DIRECTIONS = ['above', 'below', 'both'];
+
+// Composite conditions name their metrics, operators and thresholds in the expression instead;
+// query conditions name their metrics in the query but still compare against a threshold
+const hasThreshold = body('condition.kind').not().equals('composite');
+const needsMetricType = body('condition.kind').not().isIn(['composite', 'query']);
+
+// GET /api/alert-rules - Get all alert rules
+router.get(
+    '/',
+    [
+        query('projectId').optional().isUUID(),
+        query('enabled').optional().isBoolean(),
+        query('severity').optional().isIn(SEVERITIES),
+        query('metricType').optional().isString(),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// POST /api/alert-rules/validate-expression - Parse a composite condition expression
+router.post(
+    '/validate-expression',
+    [body('expression').isString().notEmpty()],
+    requestValidator,
+    controller.validateExpression.bind(controller)
+);
+
+// GET /api/alert-rules/:id - Get alert rule by ID
+router.get(
+    '/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+// POST /api/alert-rules - Create new alert rule (requires authentication)
+router.post(
+    '/',
+    authenticateToken,
+    [
+        body('projectId').isUUID(),
+        body('name').isString().notEmpty().isLength({max: 200}),
+        body('description').optional().isString(),
+        body('enabled').optional().isBoolean(),
+        body('type').optional().isIn(ALERT_TYPES),
+        body('severity').isIn(SEVERITIES),
+        body('condition').isObject(),
+        body('condition.metric_type').if(needsMetricType).isString().notEmpty(),
+        body('condition.operator').if(hasThreshold).isIn(OPERATORS),
+        body('condition.threshold').if(hasThreshold).isNumeric().toFloat(),
+        body('condition.duration_seconds').optional().isInt({min: 0}),
+        body('condition.aggregation').optional().isIn(AGGREGATIONS),
+        body('condition.window_seconds').optional().isInt({min: 1}),
+        body('condition.kind').optional().isIn(CONDITION_KINDS),
+        body('condition.direction').optional().isIn(ANOMALY_DIRECTIONS),
+        body('condition.horizon_seconds').optional().isInt({min: 60}),
+        body('condition.expression').if(body('condition.kind').equals('composite')).isString().notEmpty(),
+        body('condition.query').if(body('condition.kind').equals('query')).isString().notEmpty(),
+        body('notificationChannels').optional().isArray(),
+        body('cooldownMinutes').optional().isInt({min: 0}),
+        body('autoResolve').optional().isBoolean(),
+        body('autoResolveMinutes').optional().isInt({min: 1}),
+        body('tags').optional().isArray(),
+        body('tags.*').isString().notEmpty(),
+        body('affectedServices').optional().isArray(),
+        body('affectedServices.*').isString().notEmpty(),
+        body('escalationPolicyId').optional({values: 'null'}).isUUID(),
+    ],
+    requestValidator,
+    controller.create.bind(controller)
+);
+
+// PUT /api/alert-rules/:id - Update alert rule
+router.put(
+    '/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('name').optional().isString().notEmpty().isLength({max: 200}),
+        body('description').optional().isString(),
+        body('enabled').optional().isBoolean(),
+        body('type').optional().isIn(ALERT_TYPES),
+        body('severity').optional().isIn(SEVERITIES),
+        body('condition').optional().isObject(),
+        body('condition.metric_type').if(body('condition').exists()).if(needsMetricType).isString().notEmpty(),
+        body('condition.operator').if(body('condition').exists()).if(hasThreshold).isIn(OPERATORS),
+        body('condition.threshold').if(body('condition').exists()).if(hasThreshold).isNumeric().toFloat(),
+        body('condition.duration_seconds').optional().isInt({min: 0}),
+        body('condition.aggregation').optional().isIn(AGGREGATIONS),
+        body('condition.window_seconds').optional().isInt({min: 1}),
+        body('condition.kind').optional().isIn(CONDITION_KINDS),
+        body('condition.direction').optional().isIn(ANOMALY_DIRECTIONS),
+        body('condition.horizon_seconds').optional().isInt({min: 60}),
+        body('condition.expression').if(body('condition.kind').equals('composite')).isString().notEmpty(),
+        body('condition.query').if(body('condition.kind').equals('query')).isString().notEmpty(),
+        body('notificationChannels').optional().isArray(),
+        body('cooldownMinutes').optional().isInt({min: 0}),
+        body('autoResolve').optional().isBoolean(),
+        body('autoResolveMinutes').optional().isInt({min: 1}),
+        body('tags').optional().isArray(),
+        body('tags.*').isString().notEmpty(),
+        body('affectedServices').optional().isArray(),
+        body('affectedServices.*').isString().notEmpty(),
+        body('escalationPolicyId').optional({values: 'null'}).isUUID(),
+    ],
+    requestValidator,
+    controller.update.bind(controller)
+);
+
+// DELETE /api/alert-rules/:id - Delete alert rule
+router.delete(
+    '/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.delete.bind(controller)
+);
+
+export default router;
@@ -1,11 +1,42 @@
 import {Router} from 'express';
-import {body, query} from 'express-validator';
+import {body, param, query} from 'express-validator';
 import {MetricController} from '../controllers/MetricController';
 import {requestValidator} from '../middleware/requestValidator';
+import {rawBody} from '../middleware/rawBody';
+import {authenticateIngestToken} from '../middleware/ingestAuth';
+import {ingestRateLimiter} from '../middleware/rateLimiter';
+import {parseDuration} from '../utils/duration';
+import {METRIC_KINDS} from '../entities/MetricCatalog';
+import {isTagSet, parseGroupBy, parseTagFilters} from '../utils/metricTags';
+import {CALENDAR_INTERVALS, FIXED_INTERVALS, GAP_FILL_POLICIES, TimeSeriesIntervals} from '../entities/TimeSeries';
 
 const router = Router();
 const controller = new MetricController();
 
+const MAX_FORECAST_HORIZON_SECONDS = 30 * 24 * 60 * 60;
+const MAX_FORECAST_HISTORY_SECONDS = 90 * 24 * 60 * 60;
+const MAX_REMOTE_WRITE_BODY_BYTES = 10 * 1024 * 1024;
+
+// tags[region]=eu-west-1 filters, on every endpoint that reads samples
+const tagFilters = () => query('tags')
+    .optional()
+    .custom((value: unknown) => parseTagFilters(value) !== null)
+    .withMessage('Must be tag filters such as tags[region]=eu-west-1');
+
+// groupBy=tags.region,tags.host, on the aggregate and time series endpoints
+const groupByTags = () => query('groupBy')
+    .optional()
+    .custom((value: unknown) => parseGroupBy(value) !== null)
+    .withMessage('Must be up to 3 tags such as tags.region');
+
+const isDurationUpTo = (maxSeconds: number) => (value: string) => {
+    const seconds = parseDuration(value);
+    if (seconds === null || seconds < 3600 || seconds > maxSeconds) {
+        throw new Error(`Must be a duration such as 6h or 7d, between 1h and ${maxSeconds / 86400}d`);
+    }
+    return true;
+};
+
 // POST /api/metrics - Create new metric
 router.post(
     '/',
@@ -15,7 +46,7 @@ router.post(
         body('value').isNumeric(),
         body('unit').optional().isString(),
         body('timestamp').optional().isISO8601(),
-        body('tags').optional().isArray(),
+        body('tags').optional().custom(isTagSet).withMessage('Must be an object of strings, or "key:value" strings'),
     ],
     requestValidator,
     controller.create.bind(controller)
@@ -29,11 +60,24 @@ router.post(
         body('metrics.*.projectId').isUUID(),
         body('metrics.*.type').isString().notEmpty(),
         body('metrics.*.value').isNumeric(),
+        body('metrics.*.tags').optional().custom(isTagSet).withMessage('Must be an object of strings, or "key:value" strings'),
     ],
     requestValidator,
     controller.createBatch.bind(controller)
 );
 
+// POST /api/metrics/remote-write - Receive a Prometheus remote-write request (snappy-compressed protobuf);
+// requires the project's ingest token
+router.post(
+    '/remote-write',
+    authenticateIngestToken,
+    ingestRateLimiter,
+    [query('project').optional().isString().notEmpty()],
+    requestValidator,
+    rawBody(MAX_REMOTE_WRITE_BODY_BYTES),
+    controller.remoteWrite.bind(controller)
+);
+
 // GET /api/metrics - Get metrics with filters
 router.get(
     '/',
@@ -43,6 +87,7 @@ router.get(
         query('startDate').optional().isISO8601(),
         query('endDate').optional().isISO8601(),
         query('limit').optional().isInt({min: 1, max: 1000}),
+        tagFilters(),
     ],
     requestValidator,
     controller.getAll.bind(controller)
@@ -56,6 +101,8 @@ router.get(
         query('type').isString(),
         query('startDate').isISO8601(),
         query('endDate').isISO8601(),
+        tagFilters(),
+        groupByTags(),
     ],
     requestValidator,
     controller.getAggregated.bind(controller)
@@ -69,12 +116,100 @@ router.get(
         query('type').isString(),
         query('startDate').isISO8601(),
         query('endDate').isISO8601(),
-        query('interval').optional().isString(),
+        query('interval')
+            .optional()
+            .custom((value: string) => TimeSeriesIntervals.isValid(value))
+            .withMessage(`Must be one of ${[...Object.keys(CALENDAR_INTERVALS), ...FIXED_INTERVALS].join(', ')}`),
+        query('fill').optional().isIn(GAP_FILL_POLICIES),
+        tagFilters(),
+        groupByTags(),
     ],
     requestValidator,
     controller.getTimeSeries.bind(controller)
 );
 
+// GET /api/metrics/anomalies - Get samples that deviate from the learned hour-of-week baseline
+router.get(
+    '/anomalies',
+    [
+        query('projectId').isUUID(),
+        query('type').isString(),
+        query('startDate').optional().isISO8601(),
+        query('endDate').optional().isISO8601(),
+        query('minSigma').optional().isFloat({min: 0}),
+        query('direction').optional().isIn(['above', 'below', 'both']),
+        tagFilters(),
+    ],
+    requestValidator,
+    controller.getAnomalies.bind(controller)
+);
+
+// GET /api/metrics/baselines - Get learned per-hour-of-week baselines
+router.get(
+    '/baselines',
+    [
+        query('projectId').isUUID(),
+        query('type').optional().isString(),
+    ],
+    requestValidator,
+    controller.getBaselines.bind(controller)
+);
+
+// GET /api/metrics/forecast - Predict future values with confidence bounds from stored history
+router.get(
+    '/forecast',
+    [
+        query('projectId').isUUID(),
+        query('type').isString(),
+        query('horizon').optional().custom(isDurationUpTo(MAX_FORECAST_HORIZON_SECONDS)),
+        query('history').optional().custom(isDurationUpTo(MAX_FORECAST_HISTORY_SECONDS)),
+        query('method').optional().isIn(['linear', 'holt_winters']),
+        tagFilters(),
+    ],
+    requestValidator,
+    controller.getForecast.bind(controller)
+);
+
+// GET /api/metrics/forecast/capacity - Project when a metric's trend reaches a limit
+router.get(
+    '/forecast/capacity',
+    [
+        query('projectId').isUUID(),
+        query('type').isString(),
+        query('limit').optional().isFloat(),
+        query('history').optional().custom(isDurationUpTo(MAX_FORECAST_HISTORY_SECONDS)),
+        tagFilters(),
+    ],
+    requestValidator,
+    controller.getCapacity.bind(controller)
+);
+
+// GET /api/metrics/catalog - List the metric names the server knows
+router.get('/catalog', controller.getCatalog.bind(controller));
+
+// GET /api/metrics/catalog/:name - Get a metric's catalog definition
+router.get(
+    '/catalog/:name',
+    [param('name').isString().notEmpty()],
+    requestValidator,
+    controller.getCatalogEntry.bind(controller)
+);
+
+// PUT /api/metrics/catalog/:name - Register a metric name or replace its definition
+router.put(
+    '/catalog/:name',
+    [
+        param('name').isString().notEmpty(),
+        body('kind').isIn(METRIC_KINDS),
+        body('unit').optional({values: 'null'}).isString().isLength({max: 50}),
+        body('description').optional({values: 'null'}).isString(),
+        body('minValue').optional({values: 'null'}).isFloat(),
+        body('maxValue').optional({values: 'null'}).isFloat(),
+    ],
+    requestValidator,
+    controller.registerCatalogEntry.bind(controller)
+);
+
 // DELETE /api/metrics/old - Delete old metrics
 router.delete(
     '/old',
@@ -0,0 +1,10 @@
+import {Router} from 'express';
+import {MetricsExportController} from '../controllers/MetricsExportController';
+
+const router = Router();
+const controller = new MetricsExportController();
+
+// GET /metrics - Project metrics and server health in the Prometheus text format
+router.get('/', controller.export.bind(controller));
+
+export default router;
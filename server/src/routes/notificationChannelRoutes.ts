@@ -0,0 +1,83 @@
+import {Router} from 'express';
+import {body, param, query} from 'express-validator';
+import {NotificationChannelController} from '../controllers/NotificationChannelController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+
+const router = Router();
+const controller = new NotificationChannelController();
+
+// GET /api/notification-channels/types - Get registered channel types
+router.get(
+    '/types',
+    controller.getTypes.bind(controller)
+);
+
+// GET /api/notification-channels - Get all notification channels
+router.get(
+    '/',
+    [
+        query('projectId').optional().isUUID(),
+        query('type').optional().isString(),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// GET /api/notification-channels/:id - Get notification channel by ID
+router.get(
+    '/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+// POST /api/notification-channels - Create new notification channel (requires authentication)
+router.post(
+    '/',
+    authenticateToken,
+    [
+        body('projectId').isUUID(),
+        body('name').isString().notEmpty(),
+        body('type').isString().notEmpty(),
+        body('config').isObject(),
+        body('enabled').optional().isBoolean(),
+    ],
+    requestValidator,
+    controller.create.bind(controller)
+);
+
+// PUT /api/notification-channels/:id - Update notification channel
+router.put(
+    '/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('name').optional().isString().notEmpty(),
+        body('type').optional().isString().notEmpty(),
+        body('config').optional().isObject(),
+        body('enabled').optional().isBoolean(),
+    ],
+    requestValidator,
+    controller.update.bind(controller)
+);
+
+// POST /api/notification-channels/:id/test - Send a test notification through the channel
+router.post(
+    '/:id/test',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.test.bind(controller)
+);
+
+// DELETE /api/notification-channels/:id - Delete notification channel
+router.delete(
+    '/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.delete.bind(controller)
+);
+
+export default router;
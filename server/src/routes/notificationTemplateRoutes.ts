@@ -0,0 +1,83 @@
+import {Router} from 'express';
+import {body, param, query} from 'express-validator';
+import {NotificationTemplateController} from '../controllers/NotificationTemplateController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+import {NOTIFICATION_TEMPLATE_EVENTS} from '../entities/NotificationTemplate';
+
+const router = Router();
+const controller = new NotificationTemplateController();
+
+// GET /api/notification-templates - Get all notification templates
+router.get(
+    '/',
+    [
+        query('projectId').optional().isUUID(),
+        query('channel').optional().isString(),
+        query('event').optional().isIn(NOTIFICATION_TEMPLATE_EVENTS),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// POST /api/notification-templates/preview - Render a template against a sample or existing alert
+router.post(
+    '/preview',
+    [
+        body('templateId').optional().isUUID(),
+        body('alertId').optional().isUUID(),
+        body('channel').if(body('templateId').not().exists()).isString().notEmpty(),
+        body('event').if(body('templateId').not().exists()).isIn(NOTIFICATION_TEMPLATE_EVENTS),
+        body('subject').optional().isString(),
+        body('body').if(body('templateId').not().exists()).isString().notEmpty(),
+    ],
+    requestValidator,
+    controller.preview.bind(controller)
+);
+
+// GET /api/notification-templates/:id - Get notification template by ID
+router.get(
+    '/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+// POST /api/notification-templates - Create new notification template (requires authentication)
+router.post(
+    '/',
+    authenticateToken,
+    [
+        body('projectId').optional().isUUID(),
+        body('channel').isString().notEmpty(),
+        body('event').isIn(NOTIFICATION_TEMPLATE_EVENTS),
+        body('subject').optional().isString(),
+        body('body').isString().notEmpty(),
+    ],
+    requestValidator,
+    controller.create.bind(controller)
+);
+
+// PUT /api/notification-templates/:id - Update notification template
+router.put(
+    '/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('subject').optional({values: 'null'}).isString(),
+        body('body').optional().isString().notEmpty(),
+    ],
+    requestValidator,
+    controller.update.bind(controller)
+);
+
+// DELETE /api/notification-templates/:id - Delete notification template
+router.delete(
+    '/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.delete.bind(controller)
+);
+
+export default router;
@@ -0,0 +1,206 @@
+import {Router} from 'express';
+import {body, param, query} from 'express-validator';
+import {OnCallController} from '../controllers/OnCallController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+
+const router = Router();
+const controller = new OnCallController();
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TARGET_TYPES = ['schedule', 'user', 'channel'];
+
+const rotationValidators = (optional: boolean) => {
+    const rotations = optional ? body('rotations').optional() : body('rotations');
+
+    return [
+        rotations.isArray({min: 1}),
+        body('rotations.*.name').isString().notEmpty(),
+        body('rotations.*.participants').isArray({min: 1}),
+        body('rotations.*.participants.*').isUUID(),
+        body('rotations.*.rotation_days').isInt({min: 1}).toInt(),
+        body('rotations.*.handoff_time').matches(TIME_OF_DAY),
+        body('rotations.*.start_date').matches(LOCAL_DATE),
+        body('rotations.*.restriction').optional().isObject(),
+    ];
+};
+
+const stepValidators = (optional: boolean) => {
+    const steps = optional ? body('steps').optional() : body('steps');
+
+    return [
+        steps.isArray({min: 1}),
+        body('steps.*.delay_minutes').isInt({min: 0}).toInt(),
+        body('steps.*.targets').isArray({min: 1}),
+        body('steps.*.targets.*.type').isIn(TARGET_TYPES),
+        body('repeatCount').optional().isInt({min: 0}).toInt(),
+    ];
+};
+
+// GET /api/oncall - Get who is on call for a project
+router.get(
+    '/',
+    [
+        query('projectId').isUUID(),
+        query('at').optional().isISO8601(),
+    ],
+    requestValidator,
+    controller.getCurrent.bind(controller)
+);
+
+// GET /api/oncall/schedules - Get all on-call schedules
+router.get(
+    '/schedules',
+    [query('projectId').optional().isUUID()],
+    requestValidator,
+    controller.getSchedules.bind(controller)
+);
+
+// GET /api/oncall/schedules/:id - Get on-call schedule by ID
+router.get(
+    '/schedules/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getSchedule.bind(controller)
+);
+
+// GET /api/oncall/schedules/:id/current - Get who is on call for a schedule
+router.get(
+    '/schedules/:id/current',
+    [
+        param('id').isUUID(),
+        query('at').optional().isISO8601(),
+    ],
+    requestValidator,
+    controller.getScheduleCurrent.bind(controller)
+);
+
+// POST /api/oncall/schedules - Create on-call schedule
+router.post(
+    '/schedules',
+    authenticateToken,
+    [
+        body('projectId').optional().isUUID(),
+        body('name').isString().notEmpty().isLength({max: 255}),
+        body('description').optional().isString(),
+        body('timezone').isString().notEmpty(),
+        ...rotationValidators(false),
+    ],
+    requestValidator,
+    controller.createSchedule.bind(controller)
+);
+
+// PUT /api/oncall/schedules/:id - Update on-call schedule
+router.put(
+    '/schedules/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('name').optional().isString().notEmpty().isLength({max: 255}),
+        body('description').optional().isString(),
+        body('timezone').optional().isString().notEmpty(),
+        ...rotationValidators(true),
+    ],
+    requestValidator,
+    controller.updateSchedule.bind(controller)
+);
+
+// DELETE /api/oncall/schedules/:id - Delete on-call schedule
+router.delete(
+    '/schedules/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.deleteSchedule.bind(controller)
+);
+
+// GET /api/oncall/schedules/:id/overrides - Get upcoming overrides for a schedule
+router.get(
+    '/schedules/:id/overrides',
+    [
+        param('id').isUUID(),
+        query('includePast').optional().isBoolean(),
+    ],
+    requestValidator,
+    controller.getOverrides.bind(controller)
+);
+
+// POST /api/oncall/schedules/:id/overrides - Put someone else on call for a period
+router.post(
+    '/schedules/:id/overrides',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('userId').isUUID(),
+        body('startsAt').isISO8601(),
+        body('endsAt').isISO8601(),
+        body('reason').optional().isString(),
+    ],
+    requestValidator,
+    controller.createOverride.bind(controller)
+);
+
+// DELETE /api/oncall/overrides/:id - Delete override
+router.delete(
+    '/overrides/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.deleteOverride.bind(controller)
+);
+
+// GET /api/oncall/escalation-policies - Get all escalation policies
+router.get(
+    '/escalation-policies',
+    [query('projectId').optional().isUUID()],
+    requestValidator,
+    controller.getPolicies.bind(controller)
+);
+
+// GET /api/oncall/escalation-policies/:id - Get escalation policy by ID
+router.get(
+    '/escalation-policies/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getPolicy.bind(controller)
+);
+
+// POST /api/oncall/escalation-policies - Create escalation policy
+router.post(
+    '/escalation-policies',
+    authenticateToken,
+    [
+        body('projectId').isUUID(),
+        body('name').isString().notEmpty().isLength({max: 255}),
+        body('description').optional().isString(),
+        ...stepValidators(false),
+    ],
+    requestValidator,
+    controller.createPolicy.bind(controller)
+);
+
+// PUT /api/oncall/escalation-policies/:id - Update escalation policy
+router.put(
+    '/escalation-policies/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('name').optional().isString().notEmpty().isLength({max: 255}),
+        body('description').optional().isString(),
+        ...stepValidators(true),
+    ],
+    requestValidator,
+    controller.updatePolicy.bind(controller)
+);
+
+// DELETE /api/oncall/escalation-policies/:id - Delete escalation policy
+router.delete(
+    '/escalation-policies/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.deletePolicy.bind(controller)
+);
+
+export default router;
@@ -0,0 +1,19 @@
+import express, {Router} from 'express';
+import {OtlpController} from '../controllers/OtlpController';
+import {authenticateIngestToken} from '../middleware/ingestAuth';
+import {ingestRateLimiter} from '../middleware/rateLimiter';
+
+const router = Router();
+const controller = new OtlpController();
+
+// POST /v1/metrics - OTLP/HTTP metrics export, in JSON or protobuf (JSON bodies are parsed by the app);
+// requires the project's ingest token
+router.post(
+    '/metrics',
+    authenticateIngestToken,
+    ingestRateLimiter,
+    express.raw({type: 'application/x-protobuf', limit: '10mb'}),
+    controller.exportMetrics.bind(controller)
+);
+
+export default router;
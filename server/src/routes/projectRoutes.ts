@@ -1,11 +1,41 @@
-import {Router} from 'express';
+import {NextFunction, Request, Response, Router} from 'express';
 import {body, param, query} from 'express-validator';
 import {ProjectController} from '../controllers/ProjectController';
 import {requestValidator} from '../middleware/requestValidator';
+import {RETENTION_TIERS, RetentionPolicies} from '../entities/MetricRollup';
+import {ScrapeTargetPolicy} from '../entities/ScrapeTargetPolicy';
+import {authenticateToken} from '../../middleware/auth';
 
 const router = Router();
 const controller = new ProjectController();
 
+// Settings point the scrape collector at URLs, so changing them requires authentication
+const authenticateSettings = (req: Request, res: Response, next: NextFunction) =>
+    req.body?.settings === undefined ? next() : authenticateToken(req, res, next);
+
+// Prometheus endpoints the scrape collector pulls for the project, on hosts allowed by SCRAPE_ALLOWED_HOSTS
+const scrapeTargetValidators = [
+    body('settings.scrape_targets').optional().isArray({max: 20}),
+    body('settings.scrape_targets.*.url').isString().custom((url: string) => {
+        const reason = ScrapeTargetPolicy.fromEnv(process.env.SCRAPE_ALLOWED_HOSTS).check(url);
+        if (reason) {
+            throw new Error(reason);
+        }
+        return true;
+    }),
+    body('settings.scrape_targets.*.bearer_token').optional().isString(),
+    body('settings.scrape_targets.*.labels').optional().isObject(),
+];
+
+// How long raw samples and each rollup tier are kept for the project
+const retentionValidators = [
+    body('settings.retention').optional().isObject(),
+    ...RETENTION_TIERS.map(tier => body(`settings.retention.${tier}`)
+        .optional()
+        .custom((value: unknown) => typeof value === 'string' && RetentionPolicies.isValid(value))
+        .withMessage('Must be a duration such as 30d, or "forever"')),
+];
+
 // GET /api/projects - Get all projects
 router.get(
     '/',
@@ -25,9 +55,10 @@ router.get(
     controller.getById.bind(controller)
 );
 
-// POST /api/projects - Create new project
+// POST /api/projects - Create new project (requires authentication with settings)
 router.post(
     '/',
+    authenticateSettings,
     [
         body('name').isString().notEmpty().isLength({max: 255}),
         body('description').optional().isString(),
@@ -35,14 +66,17 @@ router.post(
         body('dockerImage').optional().isString(),
         body('status').optional().isIn(['active', 'inactive', 'archived']),
         body('environment').optional().isIn(['development', 'staging', 'production']),
+        ...scrapeTargetValidators,
+        ...retentionValidators,
     ],
     requestValidator,
     controller.create.bind(controller)
 );
 
-// PUT /api/projects/:id - Update project
+// PUT /api/projects/:id - Update project (requires authentication with settings)
 router.put(
     '/:id',
+    authenticateSettings,
     [
         param('id').isUUID(),
         body('name').optional().isString().notEmpty().isLength({max: 255}),
@@ -51,6 +85,8 @@ router.put(
         body('dockerImage').optional().isString(),
         body('status').optional().isIn(['active', 'inactive', 'archived']),
         body('environment').optional().isIn(['development', 'staging', 'production']),
+        ...scrapeTargetValidators,
+        ...retentionValidators,
     ],
     requestValidator,
     controller.update.bind(controller)
@@ -64,6 +100,15 @@ router.delete(
     controller.delete.bind(controller)
 );
 
+// POST /api/projects/:id/ingest-token - Issue the project's ingest token, revoking the previous one (requires authentication)
+router.post(
+    '/:id/ingest-token',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.issueIngestToken.bind(controller)
+);
+
 // GET /api/projects/:id/metrics - Get project metrics
 router.get(
     '/:id/metrics',
@@ -82,7 +127,7 @@ router.get(
     '/:id/alerts',
     [
         param('id').isUUID(),
-        query('status').optional().isIn(['active', 'inactive', 'acknowledged', 'resolved']),
+        query('status').optional().isIn(['inactive', 'pending', 'firing', 'acknowledged', 'resolved', 'silenced']),
     ],
     requestValidator,
     controller.getAlerts.bind(controller)
@@ -0,0 +1,42 @@
+import {Router} from 'express';
+import {query} from 'express-validator';
+import {QueryController} from '../controllers/QueryController';
+import {requestValidator} from '../middleware/requestValidator';
+import {parseDuration} from '../utils/duration';
+
+const router = Router();
+const controller = new QueryController();
+
+const isStep = (value: string) => {
+    const seconds = parseDuration(value) ?? Number(value);
+    if (!Number.isFinite(seconds) || seconds < 1) {
+        throw new Error('Must be a duration such as 30s or 5m, or a number of seconds of at least 1');
+    }
+    return true;
+};
+
+// GET /api/query - Evaluate a query at one point in time
+router.get(
+    '/',
+    [
+        query('query').isString().notEmpty(),
+        query('time').optional().isISO8601(),
+    ],
+    requestValidator,
+    controller.instant.bind(controller)
+);
+
+// GET /api/query/range - Evaluate a query at every step between start and end
+router.get(
+    '/range',
+    [
+        query('query').isString().notEmpty(),
+        query('start').isISO8601(),
+        query('end').isISO8601(),
+        query('step').custom(isStep),
+    ],
+    requestValidator,
+    controller.range.bind(controller)
+);
+
+export default router;
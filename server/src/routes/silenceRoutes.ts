@@ -0,0 +1,94 @@
+import {Router} from 'express';
+import {body, param, query} from 'express-validator';
+import {SilenceController} from '../controllers/SilenceController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+
+const router = Router();
+const controller = new SilenceController();
+
+const STATES = ['active', 'pending', 'expired'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// GET /api/silences - Get all silences
+router.get(
+    '/',
+    [
+        query('projectId').optional().isUUID(),
+        query('state').optional().isIn(STATES),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// GET /api/silences/:id - Get silence by ID
+router.get(
+    '/:id',
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+// POST /api/silences - Create new silence (requires authentication)
+router.post(
+    '/',
+    authenticateToken,
+    [
+        body('projectId').optional().isUUID(),
+        body('matchers').isArray({min: 1}),
+        body('matchers.*').isString().notEmpty(),
+        body('startsAt').optional().isISO8601(),
+        body('endsAt').isISO8601(),
+        body('comment').isString().notEmpty(),
+        body('recurrence').optional({values: 'null'}).isObject(),
+        body('recurrence.days_of_week').if(body('recurrence').exists({values: 'null'})).isArray({min: 1}),
+        body('recurrence.days_of_week.*').optional().isInt({min: 0, max: 6}).toInt(),
+        body('recurrence.start_time').if(body('recurrence').exists({values: 'null'})).matches(TIME_OF_DAY),
+        body('recurrence.end_time').if(body('recurrence').exists({values: 'null'})).matches(TIME_OF_DAY),
+        body('recurrence.timezone').if(body('recurrence').exists({values: 'null'})).isString().notEmpty(),
+    ],
+    requestValidator,
+    controller.create.bind(controller)
+);
+
+// PUT /api/silences/:id - Update silence
+router.put(
+    '/:id',
+    authenticateToken,
+    [
+        param('id').isUUID(),
+        body('matchers').optional().isArray({min: 1}),
+        body('matchers.*').isString().notEmpty(),
+        body('startsAt').optional().isISO8601(),
+        body('endsAt').optional().isISO8601(),
+        body('comment').optional().isString().notEmpty(),
+        body('recurrence').optional({values: 'null'}).isObject(),
+        body('recurrence.days_of_week').if(body('recurrence').exists({values: 'null'})).isArray({min: 1}),
+        body('recurrence.days_of_week.*').optional().isInt({min: 0, max: 6}).toInt(),
+        body('recurrence.start_time').if(body('recurrence').exists({values: 'null'})).matches(TIME_OF_DAY),
+        body('recurrence.end_time').if(body('recurrence').exists({values: 'null'})).matches(TIME_OF_DAY),
+        body('recurrence.timezone').if(body('recurrence').exists({values: 'null'})).isString().notEmpty(),
+    ],
+    requestValidator,
+    controller.update.bind(controller)
+);
+
+// POST /api/silences/:id/expire - End a silence immediately
+router.post(
+    '/:id/expire',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.expire.bind(controller)
+);
+
+// DELETE /api/silences/:id - Delete silence
+router.delete(
+    '/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.delete.bind(controller)
+);
+
+export default router;
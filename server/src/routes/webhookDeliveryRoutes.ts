@@ -0,0 +1,42 @@
+import {Router} from 'express';
+import {param, query} from 'express-validator';
+import {WebhookDeliveryController} from '../controllers/WebhookDeliveryController';
+import {requestValidator} from '../middleware/requestValidator';
+import {authenticateToken} from '../../middleware/auth';
+
+const router = Router();
+const controller = new WebhookDeliveryController();
+
+// GET /api/webhook-deliveries - Get webhook delivery log (requires authentication)
+router.get(
+    '/',
+    authenticateToken,
+    [
+        query('notificationId').optional().isUUID(),
+        query('channelId').optional().isUUID(),
+        query('success').optional().isBoolean(),
+        query('limit').optional().isInt({min: 1, max: 500}),
+    ],
+    requestValidator,
+    controller.getAll.bind(controller)
+);
+
+// GET /api/webhook-deliveries/:id - Get webhook delivery with request and response bodies (requires authentication)
+router.get(
+    '/:id',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.getById.bind(controller)
+);
+
+// POST /api/webhook-deliveries/:id/redeliver - Send the logged request again with a fresh signature
+router.post(
+    '/:id/redeliver',
+    authenticateToken,
+    [param('id').isUUID()],
+    requestValidator,
+    controller.redeliver.bind(controller)
+);
+
+export default router;
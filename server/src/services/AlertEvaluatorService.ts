@@ -1,26 +1,48 @@
 import cron from 'node-cron';
 import {AlertRepository} from '../repositories/AlertRepository';
-import {MetricRepository} from '../repositories/MetricRepository';
-import {ProjectRepository} from '../repositories/ProjectRepository';
+import {AlertRuleRepository} from '../repositories/AlertRuleRepository';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository, MetricAggregation} from '../repositories/interfaces/IMetricRepository';
 import {Server} from 'socket.io';
-import {Alert} from '../entities/Alert';
+import {Alert, AlertRule, AlertRuleEvaluator, AlertStateMachine} from '../entities/Alert';
+import {AlertExpressionEvaluator, AlertExpressionParser, referenceKey} from '../entities/AlertExpression';
+import {Forecaster, LimitProjection, projectionOf} from '../entities/Forecast';
 import {MetricType} from '../entities/Metric';
-import {NotificationService} from './NotificationService';
+import {AlertGroupingService} from './AlertGroupingService';
+import {BaselineService} from './BaselineService';
+import {EscalationService} from './EscalationService';
+import {ForecastService} from './ForecastService';
+import {MetricQueryService} from './MetricQueryService';
+import {SilenceService} from './SilenceService';
+import {alertEvaluationDuration, alertEvaluationLastRun} from './ServerMetrics';
+
+// Granularity used when replaying stored samples to work out how long a breach has held
+const EVALUATION_STEP_SECONDS = 60;
+const DEFAULT_PREDICTIVE_WINDOW_SECONDS = 6 * 60 * 60;
 
 export class AlertEvaluatorService {
     private alertRepo: AlertRepository;
-    private metricRepo: MetricRepository;
-    private projectRepo: ProjectRepository;
-    private notificationService: NotificationService;
+    private alertRuleRepo: AlertRuleRepository;
+    private metricRepo: IMetricRepository;
+    private alertGroupingService: AlertGroupingService;
+    private baselineService: BaselineService;
+    private escalationService: EscalationService;
+    private forecastService: ForecastService;
+    private metricQueryService: MetricQueryService;
+    private silenceService: SilenceService;
     private io: Server | null = null;
     private evaluationTask: cron.ScheduledTask | null = null;
-    private alertStates: Map<string, { triggered: boolean; since: Date }> = new Map();
 
     constructor(io?: Server) {
         this.alertRepo = new AlertRepository();
-        this.metricRepo = new MetricRepository();
-        this.projectRepo = new ProjectRepository();
-        this.notificationService = new NotificationService();
+        this.alertRuleRepo = new AlertRuleRepository();
+        this.metricRepo = createMetricRepository();
+        this.alertGroupingService = new AlertGroupingService(io);
+        this.baselineService = new BaselineService();
+        this.escalationService = new EscalationService(io);
+        this.forecastService = new ForecastService();
+        this.metricQueryService = new MetricQueryService();
+        this.silenceService = new SilenceService();
         this.io = io || null;
     }
 
@@ -30,7 +52,7 @@ export class AlertEvaluatorService {
         }
 
         this.evaluationTask = cron.schedule(interval, async () => {
-            await this.evaluateAllAlerts();
+            await this.evaluateAllRules();
         });
 
         this.evaluationTask.start();
@@ -45,107 +67,337 @@ export class AlertEvaluatorService {
         }
     }
 
-    async evaluateAllAlerts(): Promise<void> {
+    async evaluateAllRules(): Promise<void> {
+        const started = Date.now();
+
         try {
-            const activeAlerts = await this.alertRepo.findAll({status: 'active'});
+            const rules = await this.alertRuleRepo.findAll({enabled: true});
 
-            for (const alert of activeAlerts) {
-                await this.evaluateAlert(alert);
+            for (const rule of rules) {
+                await this.evaluateRule(rule);
             }
+
+            alertEvaluationDuration.observe({}, (Date.now() - started) / 1000);
+            alertEvaluationLastRun.set({}, Date.now() / 1000);
         } catch (error) {
-            console.error('Failed to evaluate alerts:', error);
+            console.error('Failed to evaluate alert rules:', error);
         }
     }
 
-    async evaluateAlert(alert: Alert): Promise<void> {
+    async evaluateRule(rule: AlertRule, now: Date = new Date()): Promise<void> {
         try {
-            // Get latest metric for this alert
-            const latestMetric = await this.metricRepo.findLatest(
-                alert.project_id,
-                alert.metric_type as MetricType
-            );
-
-            if (!latestMetric) {
-                return; // No metrics to evaluate
+            const {condition} = rule;
+            const windowSeconds = condition.window_seconds || 300;
+            const score = await this.scorerFor(rule);
+            let currentValue: number | null;
+            let expressionMet: boolean | null = null;
+            let projection: LimitProjection | null = null;
+
+            if (condition.kind === 'composite') {
+                const outcome = await this.evaluateExpression(rule, now);
+                if (!outcome) {
+                    return; // Too little data to decide the expression either way
+                }
+
+                expressionMet = outcome.met;
+                currentValue = outcome.value;
+            } else if (condition.kind === 'query') {
+                const outcome = await this.evaluateQuery(rule, now);
+                if (!outcome) {
+                    return; // The query returned no series
+                }
+
+                expressionMet = outcome.met;
+                currentValue = outcome.value;
+            } else if (condition.kind === 'predictive') {
+                projection = await this.projectRule(rule, now);
+                if (!projection) {
+                    return; // Not enough history to fit a trend
+                }
+
+                currentValue = Forecaster.valueAfter(projection, condition.horizon_seconds || 0);
+            } else {
+                const aggregation = await this.metricRepo.aggregate(
+                    rule.project_id,
+                    condition.metric_type as MetricType,
+                    new Date(now.getTime() - windowSeconds * 1000),
+                    now
+                );
+
+                if (!aggregation) {
+                    return; // No recent metrics to evaluate
+                }
+
+                currentValue = score(aggregation[condition.aggregation || 'avg'], now);
             }
 
-            // Check if metric is stale (older than 10 minutes)
-            const metricAge = Date.now() - new Date(latestMetric.timestamp).getTime();
-            if (metricAge > 10 * 60 * 1000) {
-                return; // Metric too old, skip evaluation
+            if (currentValue === null) {
+                return; // No baseline learned for this hour of the week yet
             }
 
-            const conditionMet = this.checkCondition(
-                latestMetric.value,
-                alert.condition.type,
-                alert.condition.threshold
-            );
+            const conditionMet = expressionMet ?? AlertRuleEvaluator.evaluate(rule, currentValue);
 
-            const alertStateKey = alert.id;
-            const currentState = this.alertStates.get(alertStateKey);
+            const ruleAlerts = await this.alertRepo.findAll({ruleId: rule.id});
+            const openAlert = ruleAlerts.find(alert => AlertStateMachine.isOpen(alert.status));
 
             if (conditionMet) {
-                if (!currentState || !currentState.triggered) {
-                    // New alert trigger
-                    this.alertStates.set(alertStateKey, {
-                        triggered: true,
-                        since: new Date(),
-                    });
-
-                    // Check if duration requirement is met
-                    setTimeout(async () => {
-                        const state = this.alertStates.get(alertStateKey);
-                        if (state && state.triggered) {
-                            const duration = Date.now() - state.since.getTime();
-                            if (duration >= (alert.condition.duration_seconds || 60) * 1000) {
-                                await this.triggerAlert(alert, latestMetric.value);
-                            }
-                        }
-                    }, (alert.condition.duration_seconds || 60) * 1000);
+                if (openAlert?.status === 'firing' || openAlert?.status === 'silenced') {
+                    await this.reconcileSilence(openAlert, rule, currentValue, now);
+                    return;
                 }
-            } else {
-                // Condition not met, clear alert state
-                if (currentState && currentState.triggered) {
-                    this.alertStates.delete(alertStateKey);
-                    await this.resolveAlert(alert);
+
+                if (openAlert?.status === 'acknowledged') {
+                    return;
+                }
+
+                if (!openAlert && AlertRuleEvaluator.isInCooldown(rule, ruleAlerts, now)) {
+                    return;
                 }
+
+                // Projections, multi-metric expressions and queries are not replayed from stored samples,
+                // so those breaches have to hold across evaluations while the alert is pending
+                const breachStart = projection || expressionMet !== null
+                    ? openAlert?.pending_at || now
+                    : await this.findBreachStart(rule, now, score);
+                if (!breachStart) {
+                    return;
+                }
+
+                let alert = openAlert || await this.markPending(rule, ruleAlerts, currentValue, breachStart);
+
+                // The breach must hold for the whole duration before the rule fires
+                const durationMs = (condition.duration_seconds || 0) * 1000;
+                if (now.getTime() - breachStart.getTime() >= durationMs) {
+                    if (projection) {
+                        alert = await this.recordProjection(alert, rule, projection);
+                    }
+
+                    await this.triggerAlert(alert, rule, currentValue);
+                }
+            } else if (openAlert?.status === 'pending') {
+                await this.alertRepo.transition(openAlert.id, 'inactive', {
+                    metricValue: currentValue,
+                    note: 'Condition cleared before the duration elapsed',
+                });
+            } else if (openAlert && rule.auto_resolve) {
+                await this.resolveAlert(openAlert, currentValue);
             }
         } catch (error) {
-            console.error(`Failed to evaluate alert ${alert.id}:`, error);
+            console.error(`Failed to evaluate alert rule ${rule.id}:`, error);
+        }
+    }
+
+    // Aggregates each metric the expression references over the condition's window. Alerts
+    // report the value of the first referenced metric that has data.
+    private async evaluateExpression(rule: AlertRule, now: Date): Promise<{ met: boolean; value: number } | null> {
+        const {condition} = rule;
+        const expression = AlertExpressionParser.parse(condition.expression || '');
+        const windowStart = new Date(now.getTime() - (condition.window_seconds || 300) * 1000);
+        const aggregations = new Map<string, MetricAggregation | null>();
+        const values = new Map<string, number>();
+
+        for (const reference of AlertExpressionParser.references(expression)) {
+            const projectId = reference.project_id || rule.project_id;
+            const series = `${projectId}|${reference.metric_type}`;
+
+            if (!aggregations.has(series)) {
+                aggregations.set(series, await this.metricRepo.aggregate(
+                    projectId,
+                    reference.metric_type as MetricType,
+                    windowStart,
+                    now
+                ));
+            }
+
+            const value = aggregations.get(series)?.[reference.aggregation || condition.aggregation || 'avg'];
+            if (value !== undefined && value !== null) {
+                values.set(referenceKey(reference), value);
+            }
+        }
+
+        const met = AlertExpressionEvaluator.evaluate(expression, reference => values.get(referenceKey(reference)));
+        const [value] = values.values();
+
+        return met === null || value === undefined ? null : {met, value};
+    }
+
+    // The rule breaches when any series the query returns does; alerts report the first breaching
+    // series, or the first series while nothing breaches
+    private async evaluateQuery(rule: AlertRule, now: Date): Promise<{ met: boolean; value: number } | null> {
+        const result = await this.metricQueryService.instant(rule.condition.query || '', now);
+        const values = result.type === 'vector'
+            ? result.series.map(series => series.points[series.points.length - 1][1])
+            : result.points.map(([, value]) => value);
+
+        if (values.length === 0) {
+            return null;
+        }
+
+        const breaching = values.find(value => AlertRuleEvaluator.evaluate(rule, value));
+        return {met: breaching !== undefined, value: breaching ?? values[0]};
+    }
+
+    // Fits the trend over the condition's window (default six hours) towards its threshold
+    private async projectRule(rule: AlertRule, now: Date): Promise<LimitProjection | null> {
+        const {condition} = rule;
+        const historySeconds = condition.window_seconds || DEFAULT_PREDICTIVE_WINDOW_SECONDS;
+
+        return this.forecastService.projectToLimit({
+            projectId: rule.project_id,
+            type: condition.metric_type as MetricType,
+            limit: condition.threshold,
+            historySeconds,
+            direction: condition.operator === 'lt' || condition.operator === 'lte' ? 'down' : 'up',
+            interval: historySeconds <= 24 * 60 * 60 ? 'minute' : 'hour',
+        }, now);
+    }
+
+    // Notifications read the projected crossing time from the alert's metadata
+    private async recordProjection(alert: Alert, rule: AlertRule, projection: LimitProjection): Promise<Alert> {
+        const updated = await this.alertRepo.update({
+            id: alert.id,
+            metadata: {
+                ...alert.metadata,
+                projection: {
+                    limit: projection.limit,
+                    projected_at: projection.projectedAt?.toISOString() ?? null,
+                    seconds_until_limit: projection.secondsUntilLimit,
+                    rate_per_day: projection.ratePerDay,
+                    horizon_seconds: rule.condition.horizon_seconds,
+                },
+            },
+        });
+
+        return updated || alert;
+    }
+
+    // Anomaly conditions compare sigmas from the learned baseline instead of the raw value
+    private async scorerFor(rule: AlertRule): Promise<(value: number, at: Date) => number | null> {
+        const {condition} = rule;
+
+        if (condition.kind === 'anomaly') {
+            return this.baselineService.scorer(rule.project_id, condition.metric_type, condition.direction);
+        }
+
+        return value => value;
+    }
+
+    private async findBreachStart(
+        rule: AlertRule,
+        now: Date,
+        score: (value: number, at: Date) => number | null
+    ): Promise<Date | null> {
+        const {condition} = rule;
+
+        if (!condition.duration_seconds) {
+            return now;
         }
+
+        const windowSeconds = condition.window_seconds || 300;
+
+        // The windowed aggregates are computed in the database, so busy series are not cut off
+        const steps = await this.metricRepo.windowedAggregates({
+            projectId: rule.project_id,
+            type: condition.metric_type as MetricType,
+            aggregation: condition.aggregation || 'avg',
+            end: now,
+            lookbackSeconds: condition.duration_seconds,
+            windowSeconds,
+            stepSeconds: Math.min(windowSeconds, EVALUATION_STEP_SECONDS),
+        });
+
+        return AlertRuleEvaluator.breachStartedAtSteps(rule, steps, score);
     }
 
-    private checkCondition(value: number, condition: string, threshold: number): boolean {
-        switch (condition) {
-            case 'greater_than':
-                return value > threshold;
-            case 'less_than':
-                return value < threshold;
-            case 'equals':
-                return Math.abs(value - threshold) < 0.001;
-            case 'not_equals':
-                return Math.abs(value - threshold) >= 0.001;
-            default:
-                return false;
+    private async markPending(
+        rule: AlertRule,
+        ruleAlerts: Alert[],
+        currentValue: number,
+        breachStart: Date
+    ): Promise<Alert> {
+        // Re-arm the latest alert if it went back to inactive instead of opening a new one
+        const [latest] = ruleAlerts;
+        if (latest && latest.status === 'inactive') {
+            const rearmed = await this.alertRepo.transition(latest.id, 'pending', {
+                metricValue: currentValue,
+                pendingAt: breachStart,
+            });
+
+            if (rearmed) {
+                return rearmed;
+            }
         }
+
+        return this.alertRepo.create({
+            projectId: rule.project_id,
+            ruleId: rule.id,
+            name: rule.name,
+            description: rule.description,
+            severity: rule.severity,
+            metricType: rule.condition.metric_type,
+            threshold: rule.condition.threshold,
+            metricValue: currentValue,
+            notificationChannels: rule.notification_channels,
+            metadata: {condition: rule.condition},
+            tags: rule.tags,
+            affectedServices: rule.affected_services,
+            status: 'pending',
+            pendingAt: breachStart,
+        });
     }
 
-    private async triggerAlert(alert: Alert, currentValue: number): Promise<void> {
+    // Moves firing alerts into silenced while a silence matches them and back out once it ends
+    private async reconcileSilence(alert: Alert, rule: AlertRule, currentValue: number, now: Date): Promise<void> {
+        const silence = await this.silenceService.findMatchingAlert(alert, now);
+
+        if (alert.status === 'firing' && silence) {
+            await this.silenceAlert(alert, silence.id, currentValue);
+        } else if (alert.status === 'silenced' && !silence) {
+            await this.triggerAlert(alert, rule, currentValue);
+        }
+    }
+
+    private async silenceAlert(alert: Alert, silenceId: string, currentValue: number): Promise<void> {
+        await this.alertRepo.transition(alert.id, 'silenced', {
+            metricValue: currentValue,
+            note: 'Matched an active silence',
+            metadata: {silence_id: silenceId},
+        });
+        await this.alertGroupingService.alertChanged(alert);
+
+        console.log(`Alert silenced: ${alert.title} (ID: ${alert.id}, Silence: ${silenceId})`);
+    }
+
+    private async triggerAlert(pendingAlert: Alert, rule: AlertRule, currentValue: number): Promise<void> {
         try {
-            // Update alert status
-            await this.alertRepo.trigger(alert.id);
+            const alert = await this.alertRepo.trigger(pendingAlert.id, {metricValue: currentValue});
+            if (!alert) {
+                return;
+            }
+
+            // A silence that matches at fire time swallows the alert before anyone is notified
+            const silence = await this.silenceService.findMatchingAlert(alert);
+            if (silence) {
+                await this.silenceAlert(alert, silence.id, currentValue);
+                return;
+            }
 
-            // Send notifications
-            await this.sendNotifications(alert, currentValue);
+            // Notifications go out when the alert's group is flushed
+            await this.alertGroupingService.addAlert(alert);
+
+            // Pages go to on-call responders until someone acknowledges the alert
+            await this.escalationService.beginEscalation(alert, rule);
 
             // Emit WebSocket event
             if (this.io) {
                 const notification = {
                     alertId: alert.id,
+                    ruleId: rule.id,
                     projectId: alert.project_id,
-                    name: alert.name,
+                    name: rule.name,
                     severity: alert.severity,
-                    message: `Alert triggered: ${alert.name}. Current value: ${currentValue}, Threshold: ${alert.condition.threshold}`,
+                    message: `Alert triggered: ${rule.name}. Current value: ${currentValue}, Threshold: ${rule.condition.threshold}`,
+                    projectedAt: projectionOf(alert)?.projected_at,
                     timestamp: new Date(),
                 };
 
@@ -153,111 +405,38 @@ export class AlertEvaluatorService {
                 this.io.emit('alert:triggered', notification); // Global notification
             }
 
-            console.log(`Alert triggered: ${alert.name} (ID: ${alert.id})`);
-        } catch (error) {
-            console.error(`Failed to trigger alert ${alert.id}:`, error);
-        }
-    }
-
-    private async resolveAlert(alert: Alert): Promise<void> {
-        try {
-            // Only resolve if alert was triggered
-            if (alert.status === 'active' && alert.triggered_at) {
-                await this.alertRepo.resolve(alert.id);
-
-                // Emit WebSocket event
-                if (this.io) {
-                    const notification = {
-                        alertId: alert.id,
-                        projectId: alert.project_id,
-                        name: alert.name,
-                        message: `Alert resolved: ${alert.name}`,
-                        timestamp: new Date(),
-                    };
-
-                    this.io.to(`project-${alert.project_id}`).emit('alert:resolved', notification);
-                    this.io.emit('alert:resolved', notification); // Global notification
-                }
-
-                console.log(`Alert resolved: ${alert.name} (ID: ${alert.id})`);
-            }
+            console.log(`Alert triggered: ${rule.name} (Rule: ${rule.id}, Alert: ${alert.id})`);
         } catch (error) {
-            console.error(`Failed to resolve alert ${alert.id}:`, error);
+            console.error(`Failed to trigger alert for rule ${rule.id}:`, error);
         }
     }
 
-    private async sendNotifications(alert: Alert, currentValue: number): Promise<void> {
+    private async resolveAlert(alert: Alert, currentValue: number): Promise<void> {
         try {
-            // Get project name for context
-            const project = await this.projectRepo.findById(alert.project_id);
-            const projectName = project?.name;
-
-            const context = {
-                alert,
-                currentValue,
-                threshold: alert.condition.threshold,
-                timestamp: new Date(),
-                projectName,
-            };
-
-            // Process each notification channel
-            const promises: Promise<void>[] = [];
-
-            for (const channel of alert.notification_channels) {
-                switch (channel) {
-                    case 'email': {
-                        // Get email recipients from notification config
-                        const emailRecipients = alert.notification_config?.email_recipients ||
-                            process.env.DEFAULT_EMAIL_RECIPIENTS?.split(',') || [];
-
-                        if (emailRecipients.length > 0) {
-                            promises.push(
-                                this.notificationService.sendEmailNotification(context, emailRecipients)
-                                    .catch(err => console.error(`Email notification failed for alert ${alert.id}:`, err))
-                            );
-                        } else {
-                            console.warn(`No email recipients configured for alert: ${alert.name}`);
-                        }
-                        break;
-                    }
+            await this.alertRepo.resolve(alert.id, {
+                metricValue: currentValue,
+                note: 'Condition cleared',
+            });
+            await this.alertGroupingService.alertChanged(alert);
 
-                    case 'slack': {
-                        promises.push(
-                            this.notificationService.sendSlackNotification(context)
-                                .catch(err => console.error(`Slack notification failed for alert ${alert.id}:`, err))
-                        );
-                        break;
-                    }
-
-                    case 'webhook': {
-                        // Get webhook URL from notification config
-                        const webhookUrl = alert.notification_config?.webhook_url ||
-                            process.env.DEFAULT_WEBHOOK_URL;
-
-                        if (webhookUrl) {
-                            promises.push(
-                                this.notificationService.sendWebhookNotification(context, webhookUrl)
-                                    .catch(err => console.error(`Webhook notification failed for alert ${alert.id}:`, err))
-                            );
-                        } else {
-                            console.warn(`No webhook URL configured for alert: ${alert.name}`);
-                        }
-                        break;
-                    }
+            // Emit WebSocket event
+            if (this.io) {
+                const notification = {
+                    alertId: alert.id,
+                    ruleId: alert.rule_id,
+                    projectId: alert.project_id,
+                    name: alert.title,
+                    message: `Alert resolved: ${alert.title}`,
+                    timestamp: new Date(),
+                };
 
-                    default: {
-                        console.warn(`Unknown notification channel: ${channel}`);
-                        break;
-                    }
-                }
+                this.io.to(`project-${alert.project_id}`).emit('alert:resolved', notification);
+                this.io.emit('alert:resolved', notification); // Global notification
             }
 
-            // Send all notifications in parallel
-            await Promise.all(promises);
-
-            console.log(`Notifications sent for alert: ${alert.name} (${promises.length} channels)`);
+            console.log(`Alert resolved: ${alert.title} (ID: ${alert.id})`);
         } catch (error) {
-            console.error(`Failed to send notifications for alert ${alert.id}:`, error);
+            console.error(`Failed to resolve alert ${alert.id}:`, error);
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,159 @@
+import cron from 'node-cron';
+import {Server} from 'socket.io';
+import {AlertRepository} from '../repositories/AlertRepository';
+import {AlertGroupRepository} from '../repositories/AlertGroupRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Alert} from '../entities/Alert';
+import {AlertGroup, AlertGrouper} from '../entities/AlertGroup';
+import {GroupNotificationContext} from './NotificationService';
+import {NotificationChannelService} from './NotificationChannelService';
+import {NotificationOutboxService} from './NotificationOutboxService';
+import {SilenceService} from './SilenceService';
+
+export class AlertGroupingService {
+    private alertRepo: AlertRepository;
+    private alertGroupRepo: AlertGroupRepository;
+    private projectRepo: ProjectRepository;
+    private notificationChannelService: NotificationChannelService;
+    private notificationOutbox: NotificationOutboxService;
+    private silenceService: SilenceService;
+    private io: Server | null = null;
+    private flushTask: cron.ScheduledTask | null = null;
+
+    constructor(io?: Server) {
+        this.alertRepo = new AlertRepository();
+        this.alertGroupRepo = new AlertGroupRepository();
+        this.projectRepo = new ProjectRepository();
+        this.notificationChannelService = new NotificationChannelService();
+        this.notificationOutbox = new NotificationOutboxService(io);
+        this.silenceService = new SilenceService();
+        this.io = io || null;
+    }
+
+    startFlushing(interval = '*/10 * * * * *'): void {
+        if (this.flushTask) {
+            this.flushTask.stop();
+        }
+
+        this.flushTask = cron.schedule(interval, async () => {
+            await this.flushDueGroups();
+        });
+
+        this.flushTask.start();
+        console.log(`Started alert group flushing with interval: ${interval}`);
+    }
+
+    stopFlushing(): void {
+        if (this.flushTask) {
+            this.flushTask.stop();
+            this.flushTask = null;
+            console.log('Stopped alert group flushing');
+        }
+    }
+
+    // Called when an alert starts firing; the group sends the notification on its next flush
+    async addAlert(alert: Alert, now: Date = new Date()): Promise<AlertGroup> {
+        const project = await this.projectRepo.findById(alert.project_id);
+        const config = AlertGrouper.configFor(project);
+
+        return this.alertGroupRepo.attachAlert({
+            alertId: alert.id,
+            projectId: alert.project_id,
+            labels: AlertGrouper.labelsFor(alert, project, config),
+            config,
+        }, now);
+    }
+
+    // Called when a grouped alert resolves or is silenced so the group notification is updated
+    async alertChanged(alert: Alert, now: Date = new Date()): Promise<void> {
+        if (alert.group_id) {
+            await this.alertGroupRepo.scheduleFlush(alert.group_id, now);
+        }
+    }
+
+    async flushDueGroups(now: Date = new Date()): Promise<void> {
+        try {
+            const groups = await this.alertGroupRepo.findDue(now);
+
+            for (const group of groups) {
+                await this.flushGroup(group, now);
+            }
+        } catch (error) {
+            console.error('Failed to flush alert groups:', error);
+        }
+    }
+
+    private async flushGroup(group: AlertGroup, now: Date): Promise<void> {
+        try {
+            const alerts = await this.withoutSilenced(await this.alertRepo.findAll({groupId: group.id}), now);
+            const summary = AlertGrouper.summarize(group, alerts);
+
+            if (!summary.changed) {
+                await this.alertGroupRepo.clearFlush(group.id);
+                return;
+            }
+
+            const project = group.project_id ? await this.projectRepo.findById(group.project_id) : null;
+            const context: GroupNotificationContext = {
+                group,
+                firing: summary.firing,
+                resolved: summary.resolved,
+                timestamp: now,
+                projectName: project?.name,
+            };
+
+            await this.sendNotifications(context, [...summary.firing, ...summary.resolved]);
+
+            const updated = await this.alertGroupRepo.recordNotification(
+                group.id,
+                AlertGrouper.snapshot(summary),
+                summary.firing.length === 0,
+                now
+            );
+
+            // Emit WebSocket event
+            if (this.io && updated) {
+                const notification = {
+                    groupId: updated.id,
+                    projectId: updated.project_id,
+                    labels: updated.labels,
+                    status: updated.status,
+                    firing: summary.firing.map(alert => alert.id),
+                    resolved: summary.resolved.map(alert => alert.id),
+                    timestamp: now,
+                };
+
+                if (updated.project_id) {
+                    this.io.to(`project-${updated.project_id}`).emit('alert-group:updated', notification);
+                }
+                this.io.emit('alert-group:updated', notification); // Global notification
+            }
+        } catch (error) {
+            console.error(`Failed to flush alert group ${group.id}:`, error);
+        }
+    }
+
+    // Silences are checked again at send time in case one was created after the alert joined
+    private async withoutSilenced(alerts: Alert[], now: Date): Promise<Alert[]> {
+        const kept: Alert[] = [];
+
+        for (const alert of alerts) {
+            if (alert.status !== 'firing' || !(await this.silenceService.findMatchingAlert(alert, now))) {
+                kept.push(alert);
+            }
+        }
+
+        return kept;
+    }
+
+    // Messages go through the outbox, which retries failed deliveries until they are sent or dead-lettered
+    private async sendNotifications(context: GroupNotificationContext, alerts: Alert[]): Promise<void> {
+        const targets = await this.notificationChannelService.resolve(alerts);
+
+        for (const target of targets) {
+            await this.notificationOutbox.enqueueGroup(context, target);
+        }
+
+        console.log(`Notifications queued for alert group: ${context.group.id} (${targets.length} channels)`);
+    }
+}
@@ -0,0 +1,120 @@
+import cron from 'node-cron';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {MetricBaselineRepository} from '../repositories/MetricBaselineRepository';
+import {MetricBaselineFilters} from '../repositories/interfaces/IMetricBaselineRepository';
+import {MetricType} from '../entities/Metric';
+import {Anomaly, AnomalyDirection, BaselineModel, MetricBaseline} from '../entities/MetricBaseline';
+import {TagFilters} from '../utils/metricTags';
+
+export interface AnomalyQuery {
+    projectId: string;
+    type: MetricType;
+    startDate: Date;
+    endDate: Date;
+    minSigma?: number;
+    direction?: AnomalyDirection;
+    tags?: TagFilters; // Compares only the samples with these tags against the project-wide baseline
+}
+
+const DEFAULT_LOOKBACK_DAYS = 28;
+const DEFAULT_MIN_SIGMA = 3;
+const MAX_ANOMALY_SAMPLES = 10000;
+
+export class BaselineService {
+    private metricRepo: IMetricRepository;
+    private metricBaselineRepo: MetricBaselineRepository;
+    private learningTask: cron.ScheduledTask | null = null;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.metricBaselineRepo = new MetricBaselineRepository();
+    }
+
+    startLearning(interval = '5 * * * *'): void {
+        if (this.learningTask) {
+            this.learningTask.stop();
+        }
+
+        this.learningTask = cron.schedule(interval, async () => {
+            await this.learn();
+        });
+
+        this.learningTask.start();
+        console.log(`Started baseline learning with interval: ${interval}`);
+
+        // Anomaly rules have nothing to compare against until the first pass, so do not wait for the schedule
+        void this.learn();
+    }
+
+    stopLearning(): void {
+        if (this.learningTask) {
+            this.learningTask.stop();
+            this.learningTask = null;
+            console.log('Stopped baseline learning');
+        }
+    }
+
+    // Recomputes every hour-of-week slot from the trailing lookback window; slots without samples keep their old values
+    async learn(now: Date = new Date(), filters?: MetricBaselineFilters): Promise<number> {
+        try {
+            const lookbackDays = parseInt(process.env.BASELINE_LOOKBACK_DAYS || '') || DEFAULT_LOOKBACK_DAYS;
+            const stats = await this.metricRepo.hourOfWeekStats(
+                new Date(now.getTime() - lookbackDays * 24 * 60 * 60 * 1000),
+                now,
+                {projectId: filters?.projectId, type: filters?.metricType as MetricType}
+            );
+
+            const updated = await this.metricBaselineRepo.upsertMany(stats.map(slot => ({
+                projectId: slot.projectId,
+                metricType: slot.type,
+                hourOfWeek: slot.hourOfWeek,
+                sampleCount: slot.count,
+                mean: slot.mean,
+                stddev: slot.stddev,
+            })), now);
+
+            console.log(`Learned ${updated} metric baseline slots from the last ${lookbackDays} days`);
+            return updated;
+        } catch (error) {
+            console.error('Failed to learn metric baselines:', error);
+            return 0;
+        }
+    }
+
+    async getBaselines(filters?: MetricBaselineFilters): Promise<MetricBaseline[]> {
+        return this.metricBaselineRepo.findAll(filters);
+    }
+
+    async findAnomalies(query: AnomalyQuery): Promise<Anomaly[]> {
+        const baselines = await this.metricBaselineRepo.findByMetric(query.projectId, query.type);
+
+        if (baselines.length === 0) {
+            return [];
+        }
+
+        const samples = await this.metricRepo.findAll({
+            projectId: query.projectId,
+            type: query.type,
+            startDate: query.startDate,
+            endDate: query.endDate,
+            tags: query.tags,
+        }, MAX_ANOMALY_SAMPLES);
+
+        return BaselineModel.detect(samples, baselines, query.minSigma ?? DEFAULT_MIN_SIGMA, query.direction);
+    }
+
+    // Scores a value by how far it sits from the baseline for the hour it was seen in; null when that hour is unlearned
+    async scorer(
+        projectId: string,
+        metricType: string,
+        direction?: AnomalyDirection
+    ): Promise<(value: number, at: Date) => number | null> {
+        const baselines = await this.metricBaselineRepo.findByMetric(projectId, metricType);
+
+        return (value, at) => {
+            const baseline = BaselineModel.forTime(baselines, at);
+            return baseline ? BaselineModel.score(baseline, value, direction) : null;
+        };
+    }
+}
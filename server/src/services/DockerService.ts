@@ -1,6 +1,6 @@
 import Docker from 'dockerode';
-import {MetricRepository} from '../repositories/MetricRepository';
-import {MetricType} from '../entities/Metric';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
 
 export interface ContainerStats {
     id: string;
@@ -32,13 +32,13 @@ export interface ContainerInfo {
 
 export class DockerService {
     private docker: Docker;
-    private metricRepo: MetricRepository;
+    private metricRepo: IMetricRepository;
 
     constructor() {
         this.docker = new Docker({
             socketPath: process.env.DOCKER_SOCKET || '/var/run/docker.sock',
         });
-        this.metricRepo = new MetricRepository();
+        this.metricRepo = createMetricRepository();
     }
 
     async listContainers(all = false): Promise<ContainerInfo[]> {
@@ -191,11 +191,11 @@ export class DockerService {
 
             // Store metrics in database
             const metricsToStore = [
-                {projectId, type: 'cpu_usage' as MetricType, value: stats.cpuPercent, unit: 'percent'},
-                {projectId, type: 'memory_usage' as MetricType, value: stats.memoryUsageMB, unit: 'MB'},
-                {projectId, type: 'memory_percent' as MetricType, value: stats.memoryPercent, unit: 'percent'},
-                {projectId, type: 'network_rx' as MetricType, value: stats.networkRxMB, unit: 'MB'},
-                {projectId, type: 'network_tx' as MetricType, value: stats.networkTxMB, unit: 'MB'},
+                {projectId, type: 'cpu_usage', value: stats.cpuPercent, unit: 'percent'},
+                {projectId, type: 'memory_usage', value: stats.memoryUsageMB, unit: 'MB'},
+                {projectId, type: 'memory_percent', value: stats.memoryPercent, unit: 'percent'},
+                {projectId, type: 'network_rx', value: stats.networkRxMB, unit: 'MB'},
+                {projectId, type: 'network_tx', value: stats.networkTxMB, unit: 'MB'},
             ];
 
             await this.metricRepo.createBatch(metricsToStore);
@@ -0,0 +1,206 @@
+import cron from 'node-cron';
+import {Server} from 'socket.io';
+import {AlertRepository} from '../repositories/AlertRepository';
+import {AlertEventRepository} from '../repositories/AlertEventRepository';
+import {EscalationPolicyRepository} from '../repositories/EscalationPolicyRepository';
+import {UserRepository} from '../repositories/UserRepository';
+import {Alert, AlertRule} from '../entities/Alert';
+import {EscalationTarget} from '../entities/OnCall';
+import {NotificationChannelService} from './NotificationChannelService';
+import {NotificationOutboxService} from './NotificationOutboxService';
+import {OnCallService} from './OnCallService';
+
+interface ResolvedTargets {
+    emails: string[];
+    channels: string[];
+    notified: string[]; // human-readable list for the alert timeline
+}
+
+export class EscalationService {
+    private alertRepo: AlertRepository;
+    private alertEventRepo: AlertEventRepository;
+    private escalationPolicyRepo: EscalationPolicyRepository;
+    private userRepo: UserRepository;
+    private notificationChannelService: NotificationChannelService;
+    private notificationOutbox: NotificationOutboxService;
+    private onCallService: OnCallService;
+    private io: Server | null = null;
+    private escalationTask: cron.ScheduledTask | null = null;
+
+    constructor(io?: Server) {
+        this.alertRepo = new AlertRepository();
+        this.alertEventRepo = new AlertEventRepository();
+        this.escalationPolicyRepo = new EscalationPolicyRepository();
+        this.userRepo = new UserRepository();
+        this.notificationChannelService = new NotificationChannelService();
+        this.notificationOutbox = new NotificationOutboxService(io);
+        this.onCallService = new OnCallService();
+        this.io = io || null;
+    }
+
+    startEscalation(interval = '*/1 * * * *'): void {
+        if (this.escalationTask) {
+            this.escalationTask.stop();
+        }
+
+        this.escalationTask = cron.schedule(interval, async () => {
+            await this.processDueEscalations();
+        });
+
+        this.escalationTask.start();
+        console.log(`Started alert escalation with interval: ${interval}`);
+    }
+
+    stopEscalation(): void {
+        if (this.escalationTask) {
+            this.escalationTask.stop();
+            this.escalationTask = null;
+            console.log('Stopped alert escalation');
+        }
+    }
+
+    // Called when an alert starts firing; the first step runs after its own delay
+    async beginEscalation(alert: Alert, rule: AlertRule, now: Date = new Date()): Promise<void> {
+        if (!rule.escalation_policy_id) {
+            return;
+        }
+
+        const policy = await this.escalationPolicyRepo.findById(rule.escalation_policy_id);
+        if (!policy || policy.steps.length === 0) {
+            console.warn(`Escalation policy ${rule.escalation_policy_id} not found for rule: ${rule.name}`);
+            return;
+        }
+
+        await this.alertRepo.startEscalation(
+            alert.id,
+            policy.id,
+            new Date(now.getTime() + policy.steps[0].delay_minutes * 60 * 1000)
+        );
+    }
+
+    async processDueEscalations(now: Date = new Date()): Promise<void> {
+        try {
+            const alerts = await this.alertRepo.findDueEscalations(now);
+
+            for (const alert of alerts) {
+                await this.escalate(alert, now);
+            }
+        } catch (error) {
+            console.error('Failed to process alert escalations:', error);
+        }
+    }
+
+    private async escalate(alert: Alert, now: Date): Promise<void> {
+        try {
+            const policy = alert.escalation_policy_id
+                ? await this.escalationPolicyRepo.findById(alert.escalation_policy_id)
+                : null;
+            const stepIndex = alert.escalation_step || 0;
+            const repeat = alert.escalation_repeat || 0;
+            const step = policy?.steps[stepIndex];
+
+            if (!policy || !step) {
+                await this.alertRepo.advanceEscalation(alert.id, null);
+                return;
+            }
+
+            const targets = await this.resolveTargets(step.targets, now);
+            await this.notify(alert, targets, now);
+
+            await this.alertEventRepo.create({
+                alertId: alert.id,
+                fromStatus: alert.status,
+                toStatus: alert.status,
+                actorType: 'system',
+                note: `Escalated to step ${stepIndex + 1} of ${policy.name}: ${targets.notified.join(', ') || 'nobody on call'}`,
+                metadata: {
+                    escalation_policy_id: policy.id,
+                    step: stepIndex,
+                    repeat,
+                    targets: step.targets,
+                },
+            });
+
+            const next = policy.nextStep(stepIndex, repeat);
+            await this.alertRepo.advanceEscalation(alert.id, next ? {
+                ...next,
+                at: new Date(now.getTime() + policy.steps[next.step].delay_minutes * 60 * 1000),
+            } : null);
+
+            // Emit WebSocket event
+            if (this.io) {
+                const notification = {
+                    alertId: alert.id,
+                    projectId: alert.project_id,
+                    name: alert.title,
+                    step: stepIndex + 1,
+                    notified: targets.notified,
+                    timestamp: now,
+                };
+
+                this.io.to(`project-${alert.project_id}`).emit('alert:escalated', notification);
+            }
+
+            console.log(`Alert escalated: ${alert.title} (ID: ${alert.id}, Step: ${stepIndex + 1})`);
+        } catch (error) {
+            console.error(`Failed to escalate alert ${alert.id}:`, error);
+        }
+    }
+
+    private async resolveTargets(targets: EscalationTarget[], now: Date): Promise<ResolvedTargets> {
+        const resolved: ResolvedTargets = {emails: [], channels: [], notified: []};
+
+        for (const target of targets) {
+            switch (target.type) {
+                case 'schedule': {
+                    const user = await this.onCallService.findOnCallUser(target.id as string, now);
+
+                    if (user) {
+                        resolved.emails.push(user.email);
+                        resolved.notified.push(user.username);
+                    } else {
+                        console.warn(`Nobody is on call for schedule: ${target.id}`);
+                    }
+                    break;
+                }
+
+                case 'user': {
+                    const user = await this.userRepo.findById(target.id as string);
+
+                    if (user && user.is_active) {
+                        resolved.emails.push(user.email);
+                        resolved.notified.push(user.username);
+                    }
+                    break;
+                }
+
+                case 'channel': {
+                    resolved.channels.push(target.channel as string);
+                    resolved.notified.push(`#${target.channel}`);
+                    break;
+                }
+            }
+        }
+
+        resolved.emails = [...new Set(resolved.emails)];
+        return resolved;
+    }
+
+    private async notify(alert: Alert, targets: ResolvedTargets, now: Date): Promise<void> {
+        const context = await this.notificationOutbox.alertContext(alert, now);
+
+        if (targets.emails.length > 0) {
+            await this.notificationOutbox.enqueueAlert(
+                context,
+                {type: 'email', destination: targets.emails},
+                'alert.escalated'
+            );
+        }
+
+        for (const channel of targets.channels) {
+            for (const target of await this.notificationChannelService.resolveEntry(alert.project_id, channel)) {
+                await this.notificationOutbox.enqueueAlert(context, target, 'alert.escalated');
+            }
+        }
+    }
+}
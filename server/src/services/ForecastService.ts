@@ -0,0 +1,81 @@
+import {AlertSample} from '../entities/Alert';
+import {MetricType} from '../entities/Metric';
+import {ForecastMethod, Forecaster, ForecastPoint, LimitProjection} from '../entities/Forecast';
+import {MetricRollupService} from './MetricRollupService';
+import {TagFilters} from '../utils/metricTags';
+
+export interface ForecastQuery {
+    projectId: string;
+    type: MetricType;
+    horizonSeconds: number;
+    historySeconds?: number;
+    method?: ForecastMethod;
+    tags?: TagFilters;
+}
+
+export interface ProjectionQuery {
+    projectId: string;
+    type: MetricType;
+    limit: number;
+    historySeconds?: number;
+    direction?: 'up' | 'down';
+    interval?: 'minute' | 'hour'; // bucket width of the fitted history
+    tags?: TagFilters;
+}
+
+export interface ForecastResult {
+    method: ForecastMethod; // what was actually used; holt_winters falls back to linear on short histories
+    actual: AlertSample[];
+    predictions: ForecastPoint[];
+}
+
+// Forecasts run over hourly averages with a daily season
+const STEP_SECONDS = 60 * 60;
+const SEASON_LENGTH = 24;
+const DEFAULT_HISTORY_SECONDS = 7 * 24 * 60 * 60;
+
+export class ForecastService {
+    private metricRollupService: MetricRollupService;
+
+    constructor() {
+        this.metricRollupService = new MetricRollupService();
+    }
+
+    async forecast(query: ForecastQuery, now: Date = new Date()): Promise<ForecastResult> {
+        const actual = await this.history(query.projectId, query.type, query.historySeconds, now, 'hour', query.tags);
+        const seasonal = query.method === 'holt_winters'
+            && Forecaster.regularize(actual, STEP_SECONDS).length >= SEASON_LENGTH * 2;
+
+        const predictions = seasonal
+            ? Forecaster.holtWinters(actual, SEASON_LENGTH, now, query.horizonSeconds, STEP_SECONDS)
+            : Forecaster.linear(actual, now, query.horizonSeconds, STEP_SECONDS);
+
+        return {method: seasonal ? 'holt_winters' : 'linear', actual, predictions};
+    }
+
+    async projectToLimit(query: ProjectionQuery, now: Date = new Date()): Promise<LimitProjection | null> {
+        const actual = await this.history(query.projectId, query.type, query.historySeconds, now, query.interval, query.tags);
+        return Forecaster.projectToLimit(actual, query.limit, now, query.direction);
+    }
+
+    private async history(
+        projectId: string,
+        type: MetricType,
+        historySeconds = DEFAULT_HISTORY_SECONDS,
+        now: Date,
+        interval: 'minute' | 'hour' = 'hour',
+        tags?: TagFilters
+    ): Promise<AlertSample[]> {
+        const series = await this.metricRollupService.getTimeSeries(
+            projectId,
+            type,
+            new Date(now.getTime() - historySeconds * 1000),
+            now,
+            interval,
+            now,
+            {tags}
+        );
+
+        return series.points.map(point => ({value: point.value, timestamp: point.timestamp}));
+    }
+}
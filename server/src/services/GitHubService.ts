@@ -1,6 +1,6 @@
 import {Octokit} from '@octokit/rest';
-import {MetricRepository} from '../repositories/MetricRepository';
-import {MetricType} from '../entities/Metric';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
 
 export interface GitHubRepoMetrics {
     stars: number;
@@ -28,13 +28,13 @@ export interface GitHubWorkflowRun {
 
 export class GitHubService {
     private octokit: Octokit;
-    private metricRepo: MetricRepository;
+    private metricRepo: IMetricRepository;
 
     constructor(token?: string) {
         this.octokit = new Octokit({
             auth: token || process.env.GITHUB_TOKEN,
         });
-        this.metricRepo = new MetricRepository();
+        this.metricRepo = createMetricRepository();
     }
 
     async getRepositoryMetrics(owner: string, repo: string): Promise<GitHubRepoMetrics> {
@@ -173,10 +173,10 @@ export class GitHubService {
 
             // Store metrics in database
             const metricsToStore = [
-                {projectId, type: 'github_stars' as MetricType, value: metrics.stars},
-                {projectId, type: 'github_forks' as MetricType, value: metrics.forks},
-                {projectId, type: 'github_issues' as MetricType, value: metrics.openIssues},
-                {projectId, type: 'github_prs' as MetricType, value: metrics.openPullRequests},
+                {projectId, type: 'github_stars', value: metrics.stars},
+                {projectId, type: 'github_forks', value: metrics.forks},
+                {projectId, type: 'github_issues', value: metrics.openIssues},
+                {projectId, type: 'github_prs', value: metrics.openPullRequests},
             ];
 
             await this.metricRepo.createBatch(metricsToStore);
@@ -0,0 +1,76 @@
+import {MetricCatalogRepository} from '../repositories/MetricCatalogRepository';
+import {CreateMetricDTO} from '../repositories/interfaces/IMetricRepository';
+import {MetricEntity} from '../entities/Metric';
+import {MetricCatalog, MetricDefinition} from '../entities/MetricCatalog';
+
+// The catalog shared by every service in the process. It starts with the built-in metrics so ingestion
+// works before the database is read, and load() adds the names registered since.
+export const metricCatalog = new MetricCatalog();
+
+export class MetricCatalogService {
+    private catalogRepo: MetricCatalogRepository;
+
+    constructor() {
+        this.catalogRepo = new MetricCatalogRepository();
+    }
+
+    async load(): Promise<number> {
+        const definitions = await this.catalogRepo.findAll();
+        definitions.forEach(definition => metricCatalog.register(definition));
+        return definitions.length;
+    }
+
+    list(): MetricDefinition[] {
+        return metricCatalog.list();
+    }
+
+    get(name: string): MetricDefinition | undefined {
+        return metricCatalog.get(name);
+    }
+
+    // Stores definitions and makes them available straight away. A name registered twice keeps the last definition.
+    async register(definitions: MetricDefinition[]): Promise<MetricDefinition[]> {
+        const unique = [...new Map(definitions.map(definition => [definition.name, definition])).values()];
+        const stored = await this.catalogRepo.upsertMany(unique);
+
+        stored.forEach(definition => metricCatalog.register(definition));
+        return stored;
+    }
+
+    // Adds the names collectors ingest for the first time, so every name is its own series. A name that is
+    // already registered, e.g. by an operator with a unit and bounds, keeps its definition.
+    async registerDiscovered(definitions: MetricDefinition[]): Promise<void> {
+        const missing = definitions.filter(definition => !metricCatalog.has(definition.name));
+        if (missing.length === 0) {
+            return;
+        }
+
+        const unique = [...new Map(missing.map(definition => [definition.name, definition])).values()];
+        const inserted = await this.catalogRepo.insertMissing(unique);
+        inserted.forEach(definition => metricCatalog.register(definition));
+
+        // Names another server process registered first
+        for (const definition of unique) {
+            if (!metricCatalog.has(definition.name)) {
+                const stored = await this.catalogRepo.findByName(definition.name);
+                metricCatalog.register(stored || definition);
+            }
+        }
+    }
+
+    // Errors for a metric written through the API: its type must be in the catalog and its value within the bounds
+    validateMetric(data: CreateMetricDTO): string[] {
+        const definition = metricCatalog.get(data.type);
+        if (!definition) {
+            return [`Unknown metric type "${data.type}". Register it in the metric catalog first.`];
+        }
+
+        return new MetricEntity({
+            project_id: data.projectId,
+            type: data.type,
+            name: data.type,
+            value: Number(data.value),
+            unit: data.unit,
+        }).validate(definition);
+    }
+}
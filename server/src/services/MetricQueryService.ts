@@ -0,0 +1,119 @@
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Metric, MetricType} from '../entities/Metric';
+import {
+    MetricQueryEvaluator,
+    MetricQueryParser,
+    QueryLimitError,
+    QueryNode,
+    QueryRange,
+    QueryResult,
+    QuerySeries,
+    VectorSelector,
+} from '../entities/MetricQueryLanguage';
+import {tagLabels} from '../utils/metricTags';
+
+// Bounds on what one query may evaluate, so a dashboard cannot load the whole metrics table
+export const MAX_QUERY_POINTS = 11000;
+export const MAX_QUERY_SAMPLES = 50000;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class MetricQueryService {
+    private metricRepo: IMetricRepository;
+    private projectRepo: ProjectRepository;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.projectRepo = new ProjectRepository();
+    }
+
+    async range(query: string, range: QueryRange): Promise<QueryResult> {
+        const node = MetricQueryParser.parse(query);
+        const points = Math.floor((range.end.getTime() - range.start.getTime()) / (range.step_seconds * 1000)) + 1;
+
+        if (points > MAX_QUERY_POINTS) {
+            throw new QueryLimitError(`Query would return ${points} points per series; the limit is ${MAX_QUERY_POINTS}. Use a larger step.`);
+        }
+
+        await this.resolveProjects(node);
+        return MetricQueryEvaluator.evaluate(node, range, await this.load(node, range));
+    }
+
+    async instant(query: string, at: Date = new Date()): Promise<QueryResult> {
+        return this.range(query, {start: at, end: at, step_seconds: 1});
+    }
+
+    // project="<name>" is accepted as well as the project ID; names are swapped for IDs up front
+    private async resolveProjects(node: QueryNode): Promise<void> {
+        for (const {selector} of MetricQueryParser.selectors(node)) {
+            for (const matcher of selector.matchers) {
+                if (matcher.label !== 'project' || (matcher.operator !== '=' && matcher.operator !== '!=') || UUID.test(matcher.value)) {
+                    continue;
+                }
+
+                const project = await this.projectRepo.findByName(matcher.value);
+                if (project) {
+                    matcher.value = project.id;
+                }
+            }
+        }
+    }
+
+    private async load(node: QueryNode, range: QueryRange): Promise<Map<string, QuerySeries[]>> {
+        // A selector used more than once is loaded once, with the longest history any use needs
+        const lookbacks = new Map<string, { selector: VectorSelector; seconds: number }>();
+        for (const {selector, lookback_seconds} of MetricQueryParser.selectors(node)) {
+            const key = MetricQueryParser.formatSelector(selector);
+            lookbacks.set(key, {selector, seconds: Math.max(lookbacks.get(key)?.seconds || 0, lookback_seconds)});
+        }
+
+        const data = new Map<string, QuerySeries[]>();
+        let loaded = 0;
+
+        for (const [key, {selector, seconds}] of lookbacks) {
+            const project = selector.matchers.find(matcher => matcher.label === 'project' && matcher.operator === '=');
+            if (project && !UUID.test(project.value)) {
+                data.set(key, []); // No project by that name
+                continue;
+            }
+
+            const metrics = await this.metricRepo.findAll({
+                projectId: project?.value,
+                type: selector.metric as MetricType,
+                startDate: new Date(range.start.getTime() - seconds * 1000),
+                endDate: range.end,
+            }, MAX_QUERY_SAMPLES - loaded + 1);
+
+            loaded += metrics.length;
+            if (loaded > MAX_QUERY_SAMPLES) {
+                throw new QueryLimitError(`Query would load more than ${MAX_QUERY_SAMPLES} samples. Narrow the time range or add label matchers.`);
+            }
+
+            data.set(key, this.toSeries(metrics).filter(series => MetricQueryEvaluator.matches(series.labels, selector)));
+        }
+
+        return data;
+    }
+
+    private toSeries(metrics: Metric[]): QuerySeries[] {
+        const series = new Map<string, QuerySeries>();
+
+        for (const metric of metrics) {
+            const labels = {...tagLabels(metric.tags), __name__: metric.type, project: metric.project_id};
+            const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+            if (!series.has(key)) {
+                series.set(key, {labels, samples: []});
+            }
+            series.get(key)!.samples.push({timestamp: new Date(metric.timestamp).getTime(), value: metric.value});
+        }
+
+        for (const {samples} of series.values()) {
+            samples.sort((a, b) => a.timestamp - b.timestamp);
+        }
+
+        return [...series.values()];
+    }
+}
@@ -0,0 +1,196 @@
+import cron from 'node-cron';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository, TagQuery} from '../repositories/interfaces/IMetricRepository';
+import {MetricRollupRepository} from '../repositories/MetricRollupRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Metric, MetricType} from '../entities/Metric';
+import {
+    RetentionPolicies,
+    RetentionPolicy,
+    RetentionSettings,
+    ROLLUP_TIERS,
+    RollupPlanner,
+    RollupTier,
+    RollupTierConfig,
+} from '../entities/MetricRollup';
+import {InvalidTimeSeriesIntervalError, TimeSeriesInterval, TimeSeriesIntervals} from '../entities/TimeSeries';
+
+const RETENTION_INTERVAL_SECONDS = 3600;
+const SCHEDULE_SLACK_MS = 5000; // Ticks do not fire exactly on the minute, so a period is due slightly early
+
+export interface TimeSeriesResult {
+    points: Metric[];
+    source: RollupTier | 'raw';
+    interval: TimeSeriesInterval;
+}
+
+export class MetricRollupService {
+    private metricRepo: IMetricRepository;
+    private rollupRepo: MetricRollupRepository;
+    private projectRepo: ProjectRepository;
+    private defaults: RetentionSettings;
+    private rollupTask: cron.ScheduledTask | null = null;
+    private lastRuns = new Map<string, number>();
+    private running = false;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.rollupRepo = new MetricRollupRepository();
+        this.projectRepo = new ProjectRepository();
+        this.defaults = RetentionPolicies.fromEnv();
+    }
+
+    // Ticks every minute by default; each tier and the retention pass run when their own refresh period is due
+    startRollups(interval = '* * * * *'): void {
+        if (this.rollupTask) {
+            this.rollupTask.stop();
+        }
+
+        this.rollupTask = cron.schedule(interval, async () => {
+            await this.tick();
+        });
+
+        this.rollupTask.start();
+        console.log(`Started metric rollups with interval: ${interval}`);
+
+        // Catch up on whatever was written while the server was down
+        void this.tick();
+    }
+
+    stopRollups(): void {
+        if (this.rollupTask) {
+            this.rollupTask.stop();
+            this.rollupTask = null;
+            console.log('Stopped metric rollups');
+        }
+    }
+
+    async tick(now: Date = new Date()): Promise<void> {
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            for (const tier of ROLLUP_TIERS) {
+                if (this.isDue(tier.tier, tier.refreshSeconds, now)) {
+                    await this.rollupTier(tier.tier, now);
+                }
+            }
+
+            if (this.isDue('retention', RETENTION_INTERVAL_SECONDS, now)) {
+                await this.applyRetention(now);
+            }
+        } catch (error) {
+            console.error('Failed to roll up metrics:', error);
+        } finally {
+            this.running = false;
+        }
+    }
+
+    // Recomputes the tier's recent buckets, and every bucket since the last one stored when the tier fell behind
+    async rollupTier(name: RollupTier, now: Date = new Date()): Promise<number> {
+        const tier = ROLLUP_TIERS.find(candidate => candidate.tier === name)!;
+        const recent = new Date(now.getTime() - tier.lookbackSeconds * 1000);
+        const latest = await this.rollupRepo.latestBucket(tier) ?? await this.rollupRepo.oldestSample();
+
+        let from = RollupPlanner.bucketStart(tier, latest && latest < recent ? latest : recent);
+        let buckets = 0;
+
+        while (from < now) {
+            const to = new Date(Math.min(from.getTime() + tier.chunkSeconds * 1000, now.getTime()));
+            buckets += await this.rollupRepo.rollup(tier, from, to, now);
+            from = to;
+        }
+
+        this.lastRuns.set(name, now.getTime());
+        return buckets;
+    }
+
+    // Deletes samples and buckets older than each project's retention for the tier. Raw samples past every
+    // project's retention go through the metric storage, which drops whole chunks on TimescaleDB; only projects
+    // that keep them for less have rows deleted.
+    async applyRetention(now: Date = new Date()): Promise<number> {
+        const projects = await this.projectRepo.findAll();
+        const policies = projects.map(project => this.policyFor(project.settings?.retention));
+        const sharedRaw = RetentionPolicies.sharedRawRetention(policies);
+        let deleted = 0;
+
+        if (sharedRaw !== null) {
+            deleted += await this.metricRepo.deleteOldMetrics(new Date(now.getTime() - sharedRaw * 1000));
+        }
+
+        for (const [index, project] of projects.entries()) {
+            const policy = policies[index];
+
+            for (const tier of ['raw' as const, ...ROLLUP_TIERS]) {
+                const retention = policy[tier === 'raw' ? tier : tier.tier];
+                if (retention === null || (tier === 'raw' && retention === sharedRaw)) {
+                    continue;
+                }
+                deleted += await this.rollupRepo.deleteBefore(tier, project.id, new Date(now.getTime() - retention * 1000));
+            }
+        }
+
+        this.lastRuns.set('retention', now.getTime());
+        if (deleted > 0) {
+            console.log(`Deleted ${deleted} metric samples and rollup buckets past their retention`);
+        }
+        return deleted;
+    }
+
+    // Reads from the coarsest tier that fits the interval and still covers the range. Intervals no tier fits,
+    // ranges older than every tier's retention, and tag filters or group-bys (the tiers keep no tags) read
+    // raw samples.
+    async getTimeSeries(
+        projectId: string,
+        type: MetricType,
+        startDate: Date,
+        endDate: Date,
+        interval = 'hour',
+        now: Date = new Date(),
+        query: TagQuery = {}
+    ): Promise<TimeSeriesResult> {
+        const spec = TimeSeriesIntervals.parse(interval);
+        if (!spec) {
+            throw new InvalidTimeSeriesIntervalError(interval);
+        }
+
+        const tagged = Object.keys(query.tags || {}).length > 0 || (query.groupBy || []).length > 0;
+        const tier = tagged ? null : await this.pickTier(projectId, spec, startDate, now);
+
+        if (tier) {
+            const points = await this.rollupRepo.getTimeSeries(
+                tier,
+                projectId,
+                type,
+                RollupPlanner.bucketStart(tier, startDate),
+                endDate,
+                spec
+            );
+            return {points, source: tier.tier, interval: spec};
+        }
+
+        const points = await this.metricRepo.getTimeSeries(projectId, type, startDate, endDate, spec, query);
+        return {points, source: 'raw', interval: spec};
+    }
+
+    private async pickTier(
+        projectId: string,
+        interval: TimeSeriesInterval,
+        startDate: Date,
+        now: Date
+    ): Promise<RollupTierConfig | null> {
+        const project = await this.projectRepo.findById(projectId);
+        return RollupPlanner.pickTier(interval, startDate, now, this.policyFor(project?.settings?.retention));
+    }
+
+    private policyFor(overrides?: RetentionSettings): RetentionPolicy {
+        return RetentionPolicies.resolve(this.defaults, overrides);
+    }
+
+    private isDue(key: string, periodSeconds: number, now: Date): boolean {
+        const lastRun = this.lastRuns.get(key);
+        return lastRun === undefined || now.getTime() - lastRun >= periodSeconds * 1000 - SCHEDULE_SLACK_MS;
+    }
+}
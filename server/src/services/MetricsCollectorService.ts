@@ -1,20 +1,24 @@
 import cron from 'node-cron';
 import {ProjectRepository} from '../repositories/ProjectRepository';
-import {GitHubService} from './GitHubService';
-import {DockerService} from './DockerService';
 import {Server} from 'socket.io';
+import {MetricCollector} from './collectors/MetricCollector';
+import {GitHubCollector} from './collectors/GitHubCollector';
+import {DockerCollector} from './collectors/DockerCollector';
+import {ScrapeCollector} from './collectors/ScrapeCollector';
+import {MetricCatalogService} from './MetricCatalogService';
+import {collectorFailures, collectorRunDuration} from './ServerMetrics';
 
 export class MetricsCollectorService {
     private projectRepo: ProjectRepository;
-    private githubService: GitHubService;
-    private dockerService: DockerService;
+    private metricCatalogService: MetricCatalogService;
+    private collectors: MetricCollector[];
     private io: Server | null = null;
     private collectionTasks: Map<string, cron.ScheduledTask> = new Map();
 
     constructor(io?: Server) {
         this.projectRepo = new ProjectRepository();
-        this.githubService = new GitHubService();
-        this.dockerService = new DockerService();
+        this.metricCatalogService = new MetricCatalogService();
+        this.collectors = [new GitHubCollector(), new DockerCollector(), new ScrapeCollector()];
         this.io = io || null;
     }
 
@@ -50,37 +54,10 @@ export class MetricsCollectorService {
                 return;
             }
 
-            const collectionPromises: Promise<void>[] = [];
-
-            // Collect GitHub metrics if configured
-            if (project.github_repo) {
-                const match = project.github_repo.match(/github\.com\/([^/]+)\/([^/]+)/);
-                if (match) {
-                    const [, owner, repo] = match;
-                    collectionPromises.push(
-                        this.githubService.collectAndStoreMetrics(projectId, owner, repo)
-                            .catch(err => console.error(`GitHub metrics collection failed for ${projectId}:`, err))
-                    );
-                }
-            }
-
-            // Collect Docker metrics if configured
-            if (project.docker_image) {
-                // Try to find running container with this image
-                try {
-                    const containers = await this.dockerService.listContainers();
-                    const container = containers.find(c => c.image.includes(project.docker_image!));
-
-                    if (container) {
-                        collectionPromises.push(
-                            this.dockerService.collectAndStoreMetrics(projectId, container.id)
-                                .catch(err => console.error(`Docker metrics collection failed for ${projectId}:`, err))
-                        );
-                    }
-                } catch (err) {
-                    console.error(`Failed to list Docker containers for ${projectId}:`, err);
-                }
-            }
+            const collectionPromises = this.collectors
+                .filter(collector => collector.appliesTo(project))
+                .map(collector => this.track(collector.name, collector.collect(project))
+                    .catch(err => console.error(`${collector.name} metrics collection failed for ${projectId}:`, err)));
 
             // Wait for all collections to complete
             await Promise.all(collectionPromises);
@@ -101,6 +78,8 @@ export class MetricsCollectorService {
 
     async startAllActiveProjects(): Promise<void> {
         try {
+            await this.registerMetrics();
+
             const projects = await this.projectRepo.findAll({status: 'active'});
 
             for (const project of projects) {
@@ -123,7 +102,26 @@ export class MetricsCollectorService {
         this.collectionTasks.clear();
     }
 
+    // Adds the metrics each collector writes to the catalog, so they can be listed and written through the API
+    async registerMetrics(): Promise<void> {
+        await this.metricCatalogService.register(this.collectors.flatMap(collector => collector.metrics));
+    }
+
     getActiveCollectors(): string[] {
         return Array.from(this.collectionTasks.keys());
     }
-}
\ No newline at end of file
+
+    // Records how long a collector run took, and whether it failed, for the /metrics endpoint
+    private async track(collector: string, run: Promise<void>): Promise<void> {
+        const started = Date.now();
+
+        try {
+            await run;
+        } catch (error) {
+            collectorFailures.inc({collector});
+            throw error;
+        } finally {
+            collectorRunDuration.observe({collector}, (Date.now() - started) / 1000);
+        }
+    }
+}
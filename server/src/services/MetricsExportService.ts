@@ -0,0 +1,98 @@
+import {Server} from 'socket.io';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Labels, MetricFamily, PrometheusExposition} from '../entities/PrometheusExposition';
+import {alertEvaluationLastRun, serverMetrics} from './ServerMetrics';
+import {parseDuration} from '../utils/duration';
+import {tagLabels} from '../utils/metricTags';
+
+// Labels every project metric carries; tags with these names are left out rather than overriding them
+const RESERVED_LABELS = ['project', 'project_id', 'type', 'environment'];
+
+export class MetricsExportService {
+    private metricRepo: IMetricRepository;
+    private projectRepo: ProjectRepository;
+    private maxAgeSeconds: number;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.projectRepo = new ProjectRepository();
+        this.maxAgeSeconds = parseDuration(process.env.METRICS_EXPORT_MAX_AGE || '1h') ?? 60 * 60;
+    }
+
+    async render(io?: Server, now: Date = new Date()): Promise<string> {
+        return PrometheusExposition.format([
+            await this.projectMetrics(now),
+            ...serverMetrics.families(),
+            this.evaluatorLag(now),
+            this.socketClients(io),
+        ]);
+    }
+
+    // The latest value of each series, leaving out series that have not reported within the max age
+    private async projectMetrics(now: Date): Promise<MetricFamily> {
+        const since = new Date(now.getTime() - this.maxAgeSeconds * 1000);
+        const [metrics, projects] = await Promise.all([
+            this.metricRepo.findLatestPerSeries(since),
+            this.projectRepo.findAll(),
+        ]);
+        const projectsById = new Map(projects.map(project => [project.id, project]));
+
+        // Tags that differ only in spelling (e.g. "a:1" and "a=1") become the same label set; keep the newest
+        const latest = new Map<string, { labels: Labels; value: number; timestamp: number }>();
+
+        for (const metric of metrics) {
+            const project = projectsById.get(metric.project_id);
+            const labels: Labels = {
+                project: project?.name || metric.project_id,
+                project_id: metric.project_id,
+                type: metric.type,
+                environment: project?.environment || '',
+            };
+
+            for (const [key, value] of Object.entries(tagLabels(metric.tags))) {
+                const name = PrometheusExposition.labelName(key);
+                if (!name.startsWith('__') && !RESERVED_LABELS.includes(name)) {
+                    labels[name] = value;
+                }
+            }
+
+            const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+            const timestamp = new Date(metric.timestamp).getTime();
+            if ((latest.get(key)?.timestamp ?? -Infinity) < timestamp) {
+                latest.set(key, {labels, value: metric.value, timestamp});
+            }
+        }
+
+        return {
+            name: 'devops_project_metric',
+            help: 'Latest value of each metric collected for a project',
+            type: 'gauge',
+            samples: [...latest.values()].map(({labels, value}) => ({name: 'devops_project_metric', labels, value})),
+        };
+    }
+
+    // Seconds since the last evaluation cycle finished; absent until the first cycle has run
+    private evaluatorLag(now: Date): MetricFamily {
+        const lastRun = alertEvaluationLastRun.get();
+
+        return {
+            name: 'devops_alert_evaluator_lag_seconds',
+            help: 'Seconds since the alert evaluator last finished a cycle',
+            type: 'gauge',
+            samples: lastRun === undefined
+                ? []
+                : [{name: 'devops_alert_evaluator_lag_seconds', labels: {}, value: Math.max(0, now.getTime() / 1000 - lastRun)}],
+        };
+    }
+
+    private socketClients(io?: Server): MetricFamily {
+        return {
+            name: 'devops_socket_clients',
+            help: 'WebSocket clients currently connected',
+            type: 'gauge',
+            samples: io ? [{name: 'devops_socket_clients', labels: {}, value: io.engine.clientsCount}] : [],
+        };
+    }
+}
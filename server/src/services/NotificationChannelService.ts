@@ -0,0 +1,154 @@
+import {NotificationChannelRepository} from '../repositories/NotificationChannelRepository';
+import {NotificationTemplateRepository} from '../repositories/NotificationTemplateRepository';
+import {Alert, AlertNotification} from '../entities/Alert';
+import {isChannelId, ProjectNotificationChannel} from '../entities/NotificationChannel';
+import {templateEventFor} from '../entities/NotificationTemplate';
+import {ChannelConfig, ChannelMessage, RenderedTemplate, summarizeMessage} from './channels/NotificationChannel';
+import {NotificationChannelRegistry} from './channels/NotificationChannelRegistry';
+import {NotificationService} from './NotificationService';
+import {NotificationTemplateRenderer} from './NotificationTemplateRenderer';
+
+// Where one notification goes: a configured project channel, or a bare type using the server defaults
+export interface ChannelTarget {
+    type: string;
+    channelId?: string;
+    destination?: string[];
+}
+
+// Channel types that can still be used without a project channel, configured through environment variables
+const DEFAULT_CHANNEL_TYPES = ['email', 'slack', 'webhook'];
+
+export class NotificationChannelService {
+    private notificationChannelRepo: NotificationChannelRepository;
+    private notificationTemplateRepo: NotificationTemplateRepository;
+    private registry: NotificationChannelRegistry;
+
+    constructor(registry?: NotificationChannelRegistry) {
+        this.notificationChannelRepo = new NotificationChannelRepository();
+        this.notificationTemplateRepo = new NotificationTemplateRepository();
+        this.registry = registry || NotificationChannelRegistry.withDefaults(new NotificationService());
+    }
+
+    getRegistry(): NotificationChannelRegistry {
+        return this.registry;
+    }
+
+    // Entries in an alert's notification_channels are either a project channel id or a channel type;
+    // a type fans out to every enabled channel of that type in the alert's project
+    async resolve(alerts: Alert[]): Promise<ChannelTarget[]> {
+        const targets = new Map<string, ChannelTarget>();
+
+        for (const alert of alerts) {
+            for (const entry of alert.notification_channels || []) {
+                for (const target of await this.resolveEntry(alert.project_id, entry)) {
+                    targets.set(target.channelId || target.type, target);
+                }
+            }
+        }
+
+        return [...targets.values()];
+    }
+
+    async resolveEntry(projectId: string, entry: string): Promise<ChannelTarget[]> {
+        if (isChannelId(entry)) {
+            const channel = await this.notificationChannelRepo.findById(entry);
+
+            if (!channel || channel.project_id !== projectId || !channel.enabled) {
+                console.warn(`Notification channel ${entry} is missing or disabled for project: ${projectId}`);
+                return [];
+            }
+
+            return [{type: channel.type, channelId: channel.id}];
+        }
+
+        const channels = await this.notificationChannelRepo.findAll({projectId, type: entry, enabled: true});
+        if (channels.length > 0) {
+            return channels.map(channel => ({type: channel.type, channelId: channel.id}));
+        }
+
+        if (DEFAULT_CHANNEL_TYPES.includes(entry)) {
+            return [{type: entry, destination: this.defaultDestination(entry)}];
+        }
+
+        console.warn(`No ${entry} notification channel configured for project: ${projectId}`);
+        return [];
+    }
+
+    async deliver(notification: AlertNotification, message: ChannelMessage): Promise<void> {
+        const adapter = this.registry.get(notification.channel);
+
+        if (!adapter) {
+            throw new Error(`Unknown notification channel: ${notification.channel}`);
+        }
+
+        const rendered = await this.render(notification, message);
+        const delivery = {
+            notificationId: notification.id,
+            channelId: notification.channel_id,
+            event: notification.event,
+        };
+
+        await adapter.send({...message, rendered, delivery}, await this.configFor(notification));
+    }
+
+    async send(channel: ProjectNotificationChannel, message: ChannelMessage): Promise<void> {
+        const adapter = this.registry.get(channel.type);
+
+        if (!adapter) {
+            throw new Error(`Unknown notification channel: ${channel.type}`);
+        }
+
+        await adapter.send(message, channel.config);
+    }
+
+    // Templates are looked up at send time; without one the adapter's built-in layout is used
+    private async render(notification: AlertNotification, message: ChannelMessage): Promise<RenderedTemplate | undefined> {
+        const event = templateEventFor(notification.event);
+        if (!event) {
+            return undefined;
+        }
+
+        const template = await this.notificationTemplateRepo.findFor(
+            notification.channel,
+            event,
+            summarizeMessage(message).projectId
+        );
+
+        return template
+            ? NotificationTemplateRenderer.render(template, NotificationTemplateRenderer.variablesFor(message, event))
+            : undefined;
+    }
+
+    // Credentials are read at send time so retries pick up a rotated key
+    private async configFor(notification: AlertNotification): Promise<ChannelConfig> {
+        if (notification.channel_id) {
+            const channel = await this.notificationChannelRepo.findById(notification.channel_id);
+
+            if (!channel || !channel.enabled) {
+                throw new Error(`Notification channel ${notification.channel_id} is missing or disabled`);
+            }
+
+            return channel.config;
+        }
+
+        switch (notification.channel) {
+            case 'email':
+                return {recipients: notification.destination};
+            case 'webhook':
+                return {url: notification.destination[0], secret: process.env.DEFAULT_WEBHOOK_SECRET};
+            default:
+                return {};
+        }
+    }
+
+    private defaultDestination(type: string): string[] {
+        switch (type) {
+            case 'email':
+                return process.env.DEFAULT_EMAIL_RECIPIENTS?.split(',').filter(Boolean) || [];
+            case 'webhook':
+                return process.env.DEFAULT_WEBHOOK_URL ? [process.env.DEFAULT_WEBHOOK_URL] : [];
+            default:
+                return [];
+        }
+    }
+}
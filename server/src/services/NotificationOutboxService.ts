@@ -0,0 +1,162 @@
+import cron from 'node-cron';
+import {Server} from 'socket.io';
+import {AlertNotificationRepository} from '../repositories/AlertNotificationRepository';
+import {AlertRuleRepository} from '../repositories/AlertRuleRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Alert, AlertNotification, NotificationBackoff} from '../entities/Alert';
+import {GroupNotificationContext, NotificationContext} from './NotificationService';
+import {ChannelTarget, NotificationChannelService} from './NotificationChannelService';
+import {ChannelMessage} from './channels/NotificationChannel';
+import {notificationFailures} from './ServerMetrics';
+
+const BATCH_SIZE = 50;
+const LEASE_SECONDS = 300;
+
+export class NotificationOutboxService {
+    private alertNotificationRepo: AlertNotificationRepository;
+    private alertRuleRepo: AlertRuleRepository;
+    private projectRepo: ProjectRepository;
+    private notificationChannelService: NotificationChannelService;
+    private maxRetries: number;
+    private io: Server | null = null;
+    private processTask: cron.ScheduledTask | null = null;
+
+    constructor(io?: Server) {
+        this.alertNotificationRepo = new AlertNotificationRepository();
+        this.alertRuleRepo = new AlertRuleRepository();
+        this.projectRepo = new ProjectRepository();
+        this.notificationChannelService = new NotificationChannelService();
+        this.maxRetries = parseInt(process.env.NOTIFICATION_MAX_RETRIES || '5');
+        this.io = io || null;
+    }
+
+    startProcessing(interval = '*/10 * * * * *'): void {
+        if (this.processTask) {
+            this.processTask.stop();
+        }
+
+        this.processTask = cron.schedule(interval, async () => {
+            await this.processDue();
+        });
+
+        this.processTask.start();
+        console.log(`Started notification outbox processing with interval: ${interval}`);
+    }
+
+    stopProcessing(): void {
+        if (this.processTask) {
+            this.processTask.stop();
+            this.processTask = null;
+            console.log('Stopped notification outbox processing');
+        }
+    }
+
+    // Payloads keep a snapshot of the context at enqueue time so retries send the same message
+    async enqueueAlert(
+        context: NotificationContext,
+        target: ChannelTarget,
+        event: string
+    ): Promise<AlertNotification> {
+        return this.alertNotificationRepo.create({
+            alertId: context.alert.id,
+            alertIds: [context.alert.id],
+            channel: target.type,
+            channelId: target.channelId,
+            event,
+            destination: target.destination,
+            payload: {kind: 'alert', context},
+        });
+    }
+
+    // Queues a single-alert notification, e.g. alert.acknowledged, for every channel on the alert
+    async enqueueAlertEvent(alert: Alert, event: string, now: Date = new Date()): Promise<AlertNotification[]> {
+        const targets = await this.notificationChannelService.resolve([alert]);
+        const context = await this.alertContext(alert, now);
+        const queued: AlertNotification[] = [];
+
+        for (const target of targets) {
+            queued.push(await this.enqueueAlert(context, target, event));
+        }
+
+        return queued;
+    }
+
+    async alertContext(alert: Alert, now: Date = new Date()): Promise<NotificationContext> {
+        const project = await this.projectRepo.findById(alert.project_id);
+        const rule = alert.rule_id ? await this.alertRuleRepo.findById(alert.rule_id) : null;
+
+        return {
+            alert,
+            condition: rule?.condition,
+            currentValue: alert.metric_value ?? 0,
+            threshold: rule?.condition.threshold ?? alert.threshold_value ?? 0,
+            timestamp: now,
+            projectName: project?.name,
+        };
+    }
+
+    async enqueueGroup(context: GroupNotificationContext, target: ChannelTarget): Promise<AlertNotification> {
+        return this.alertNotificationRepo.create({
+            groupId: context.group.id,
+            alertIds: [...context.firing, ...context.resolved].map(alert => alert.id),
+            channel: target.type,
+            channelId: target.channelId,
+            event: context.firing.length > 0 ? 'alert_group.firing' : 'alert_group.resolved',
+            destination: target.destination,
+            payload: {kind: 'group', context},
+        });
+    }
+
+    async processDue(now: Date = new Date()): Promise<void> {
+        try {
+            const notifications = await this.alertNotificationRepo.claimDue(BATCH_SIZE, LEASE_SECONDS, now);
+
+            for (const notification of notifications) {
+                await this.attempt(notification);
+            }
+        } catch (error) {
+            console.error('Failed to process notification outbox:', error);
+        }
+    }
+
+    private async attempt(notification: AlertNotification): Promise<void> {
+        try {
+            await this.deliver(notification);
+            await this.alertNotificationRepo.markSent(notification.id);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const nextRetry = NotificationBackoff.nextRetryAt(notification.retry_count + 1, this.maxRetries);
+
+            await this.alertNotificationRepo.markFailed(notification.id, message, nextRetry);
+            notificationFailures.inc({channel: notification.channel, outcome: nextRetry ? 'retry' : 'dead_letter'});
+
+            if (nextRetry) {
+                console.warn(`Notification ${notification.id} (${notification.channel}) failed, retrying at ${nextRetry.toISOString()}: ${message}`);
+                return;
+            }
+
+            console.error(`Notification ${notification.id} (${notification.channel}) moved to dead letter: ${message}`);
+
+            // Emit WebSocket event
+            if (this.io) {
+                this.io.emit('notification:dead_letter', {
+                    notificationId: notification.id,
+                    alertIds: notification.alert_ids,
+                    groupId: notification.group_id,
+                    channel: notification.channel,
+                    error: message,
+                    timestamp: new Date(),
+                });
+            }
+        }
+    }
+
+    private async deliver(notification: AlertNotification): Promise<void> {
+        const payload = notification.payload as unknown as ChannelMessage;
+        const message: ChannelMessage = payload.kind === 'group'
+            ? {kind: 'group', context: {...payload.context, timestamp: new Date(payload.context.timestamp)}}
+            : {kind: 'alert', context: {...payload.context, timestamp: new Date(payload.context.timestamp)}};
+
+        await this.notificationChannelService.deliver(notification, message);
+    }
+}
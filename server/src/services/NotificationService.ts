@@ -1,6 +1,11 @@
 import nodemailer from 'nodemailer';
 import axios from 'axios';
-import {Alert} from '../entities/Alert';
+import {Alert, AlertCondition} from '../entities/Alert';
+import {AlertGroup} from '../entities/AlertGroup';
+import {projectionOf} from '../entities/Forecast';
+import {WEBHOOK_SCHEMA_VERSION} from '../entities/WebhookDelivery';
+import {RenderedTemplate} from './channels/NotificationChannel';
+import {WebhookDeliveryService, WebhookOptions} from './WebhookDeliveryService';
 
 interface EmailConfig {
     host: string;
@@ -20,20 +25,31 @@ interface EmailConfig {
 //     iconEmoji?: string;
 // }
 
-interface NotificationContext {
+export interface NotificationContext {
     alert: Alert;
+    condition?: AlertCondition;
     currentValue: number;
     threshold: number;
     timestamp: Date;
     projectName?: string;
 }
 
+export interface GroupNotificationContext {
+    group: AlertGroup;
+    firing: Alert[];
+    resolved: Alert[];
+    timestamp: Date;
+    projectName?: string;
+}
+
 export class NotificationService {
     private emailTransporter: nodemailer.Transporter | null = null;
     private slackWebhookUrl: string | null = null;
     private notificationWebhooks: Map<string, string> = new Map();
+    private webhookDelivery: WebhookDeliveryService;
 
     constructor() {
+        this.webhookDelivery = new WebhookDeliveryService();
         this.initializeEmailTransporter();
         this.initializeSlackWebhook();
     }
@@ -96,13 +112,12 @@ export class NotificationService {
 
     async sendEmailNotification(context: NotificationContext, recipients: string[]): Promise<void> {
         if (!this.emailTransporter) {
-            console.warn('Email transporter not configured, skipping email notification');
-            return;
+            throw new Error('Email transporter not configured');
         }
 
         const {alert, currentValue, threshold, timestamp, projectName} = context;
 
-        const subject = `[Alert] ${alert.severity.toUpperCase()}: ${alert.name}`;
+        const subject = `[Alert] ${alert.severity.toUpperCase()}: ${alert.title}`;
 
         const html = `
             <!DOCTYPE html>
@@ -138,7 +153,7 @@ export class NotificationService {
             </head>
             <body>
                 <div class="alert-container">
-                    <h2>Alert Triggered: ${alert.name}</h2>
+                    <h2>Alert Triggered: ${alert.title}</h2>
                     <p><span class="severity">${alert.severity}</span> Alert</p>
                     ${projectName ? `<p><strong>Project:</strong> ${projectName}</p>` : ''}
                     ${alert.description ? `<p><strong>Description:</strong> ${alert.description}</p>` : ''}
@@ -147,7 +162,8 @@ export class NotificationService {
                         <p><strong>Metric Type:</strong> ${alert.metric_type}</p>
                         <p><strong>Current Value:</strong> ${currentValue.toFixed(2)}</p>
                         <p><strong>Threshold:</strong> ${threshold.toFixed(2)}</p>
-                        <p><strong>Condition:</strong> ${alert.condition.type.replace('_', ' ')}</p>
+                        <p><strong>Condition:</strong> ${this.describeCondition(context)}</p>
+                        ${this.describeProjection(alert) ? `<p><strong>Projected crossing:</strong> ${this.describeProjection(alert)}</p>` : ''}
                     </div>
                     
                     <p><strong>Triggered at:</strong> ${timestamp.toLocaleString()}</p>
@@ -162,7 +178,7 @@ export class NotificationService {
         `;
 
         const text = `
-Alert Triggered: ${alert.name}
+Alert Triggered: ${alert.title}
 Severity: ${alert.severity.toUpperCase()}
 ${projectName ? `Project: ${projectName}` : ''}
 ${alert.description ? `Description: ${alert.description}` : ''}
@@ -170,7 +186,8 @@ ${alert.description ? `Description: ${alert.description}` : ''}
 Metric Type: ${alert.metric_type}
 Current Value: ${currentValue.toFixed(2)}
 Threshold: ${threshold.toFixed(2)}
-Condition: ${alert.condition.type.replace('_', ' ')}
+Condition: ${this.describeCondition(context)}
+${this.describeProjection(alert) ? `Projected crossing: ${this.describeProjection(alert)}` : ''}
 
 Triggered at: ${timestamp.toLocaleString()}
 
@@ -186,17 +203,16 @@ This is an automated notification from DevOps Dashboard.
                 html,
             });
 
-            console.log(`Email notification sent for alert: ${alert.name} to ${recipients.length} recipients`);
+            console.log(`Email notification sent for alert: ${alert.title} to ${recipients.length} recipients`);
         } catch (error) {
             console.error('Failed to send email notification:', error);
             throw new Error(`Email notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
-    async sendSlackNotification(context: NotificationContext): Promise<void> {
-        if (!this.slackWebhookUrl) {
-            console.warn('Slack webhook not configured, skipping Slack notification');
-            return;
+    async sendSlackNotification(context: NotificationContext, webhookUrl = this.slackWebhookUrl): Promise<void> {
+        if (!webhookUrl) {
+            throw new Error('Slack webhook not configured');
         }
 
         const {alert, currentValue, threshold, timestamp, projectName} = context;
@@ -211,7 +227,7 @@ This is an automated notification from DevOps Dashboard.
             attachments: [
                 {
                     color,
-                    title: `${emoji} Alert: ${alert.name}`,
+                    title: `${emoji} Alert: ${alert.title}`,
                     text: alert.description || '',
                     fields: [
                         {
@@ -241,9 +257,14 @@ This is an automated notification from DevOps Dashboard.
                         },
                         {
                             title: 'Condition',
-                            value: alert.condition.type.replace('_', ' '),
+                            value: this.describeCondition(context),
                             short: true,
                         },
+                        ...(this.describeProjection(alert) ? [{
+                            title: 'Projected Crossing',
+                            value: this.describeProjection(alert),
+                            short: false,
+                        }] : []),
                     ],
                     footer: 'DevOps Dashboard',
                     ts: Math.floor(timestamp.getTime() / 1000),
@@ -252,10 +273,10 @@ This is an automated notification from DevOps Dashboard.
         };
 
         try {
-            const response = await axios.post(this.slackWebhookUrl, payload);
+            const response = await axios.post(webhookUrl, payload);
 
             if (response.status === 200) {
-                console.log(`Slack notification sent for alert: ${alert.name}`);
+                console.log(`Slack notification sent for alert: ${alert.title}`);
             } else {
                 throw new Error(`Unexpected response status: ${response.status}`);
             }
@@ -265,15 +286,23 @@ This is an automated notification from DevOps Dashboard.
         }
     }
 
-    async sendWebhookNotification(context: NotificationContext, webhookUrl: string): Promise<void> {
+    async sendWebhookNotification(
+        context: NotificationContext,
+        webhookUrl: string,
+        options: WebhookOptions = {}
+    ): Promise<void> {
         const {alert, currentValue, threshold, timestamp, projectName} = context;
 
         const payload = {
-            event: 'alert.triggered',
+            schema_version: WEBHOOK_SCHEMA_VERSION,
+            // Stable across retries and redeliveries, so receivers can drop duplicates
+            notification_id: options.notificationId,
+            event: options.event || (alert.status === 'resolved' ? 'alert.resolved' : 'alert.triggered'),
             timestamp: timestamp.toISOString(),
             alert: {
                 id: alert.id,
-                name: alert.name,
+                rule_id: alert.rule_id,
+                name: alert.title,
                 description: alert.description,
                 severity: alert.severity,
                 metric_type: alert.metric_type,
@@ -281,46 +310,236 @@ This is an automated notification from DevOps Dashboard.
                 project_name: projectName,
             },
             condition: {
-                type: alert.condition.type,
+                operator: context.condition?.operator,
+                aggregation: context.condition?.aggregation,
                 threshold: threshold,
                 current_value: currentValue,
-                duration_seconds: alert.condition.duration_seconds,
+                duration_seconds: context.condition?.duration_seconds,
+                kind: context.condition?.kind || 'threshold',
+                expression: context.condition?.expression,
+                query: context.condition?.query,
             },
+            projection: projectionOf(alert),
             metadata: {
                 source: 'devops-dashboard',
                 version: '1.0.0',
             },
         };
 
+        await this.postWebhook(webhookUrl, payload, options);
+        console.log(`Webhook notification sent for alert: ${alert.title} to ${webhookUrl}`);
+    }
+
+    async sendGroupEmailNotification(context: GroupNotificationContext, recipients: string[]): Promise<void> {
+        if (!this.emailTransporter) {
+            throw new Error('Email transporter not configured');
+        }
+
+        const {firing, resolved, timestamp} = context;
+        const subject = `[${this.describeGroupState(context)}] ${this.describeGroup(context)}`;
+        const describe = (alert: Alert): string =>
+            `${alert.severity.toUpperCase()}: ${alert.title}${alert.metric_value !== undefined
+                ? ` (current value ${alert.metric_value.toFixed(2)})` : ''}`;
+
+        const html = `
+            <!DOCTYPE html>
+            <html>
+            <body style="font-family: Arial, sans-serif;">
+                <h2>${this.describeGroup(context)}</h2>
+                ${firing.length > 0 ? `
+                <h3>Firing (${firing.length})</h3>
+                <ul>${firing.map(alert => `<li style="color: ${this.getSeverityColor(alert.severity)}">${describe(alert)}</li>`).join('')}</ul>` : ''}
+                ${resolved.length > 0 ? `
+                <h3>Resolved (${resolved.length})</h3>
+                <ul>${resolved.map(alert => `<li>${describe(alert)}</li>`).join('')}</ul>` : ''}
+                <p><strong>Updated at:</strong> ${timestamp.toLocaleString()}</p>
+                <p style="font-size: 12px; color: #666;">This is an automated notification from DevOps Dashboard.</p>
+            </body>
+            </html>
+        `;
+
+        const text = [
+            this.describeGroup(context),
+            ...(firing.length > 0 ? ['', `Firing (${firing.length}):`, ...firing.map(alert => `- ${describe(alert)}`)] : []),
+            ...(resolved.length > 0 ? ['', `Resolved (${resolved.length}):`, ...resolved.map(alert => `- ${describe(alert)}`)] : []),
+            '',
+            `Updated at: ${timestamp.toLocaleString()}`,
+        ].join('\n');
+
         try {
-            const response = await axios.post(webhookUrl, payload, {
-                headers: {
-                    'Content-Type': 'application/json',
-                    'User-Agent': 'DevOps-Dashboard/1.0',
-                },
-                timeout: 10000, // 10 second timeout
+            await this.emailTransporter.sendMail({
+                from: process.env.EMAIL_FROM || 'DevOps Dashboard <noreply@devops.local>',
+                to: recipients.join(', '),
+                subject,
+                text,
+                html,
             });
 
-            if (response.status >= 200 && response.status < 300) {
-                console.log(`Webhook notification sent for alert: ${alert.name} to ${webhookUrl}`);
+            console.log(`Email notification sent for alert group: ${context.group.id} to ${recipients.length} recipients`);
+        } catch (error) {
+            console.error('Failed to send email notification:', error);
+            throw new Error(`Email notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async sendGroupSlackNotification(context: GroupNotificationContext, webhookUrl = this.slackWebhookUrl): Promise<void> {
+        if (!webhookUrl) {
+            throw new Error('Slack webhook not configured');
+        }
+
+        const {firing, resolved, timestamp} = context;
+        const worst = [...firing].sort((a, b) => this.severityRank(a.severity) - this.severityRank(b.severity))[0];
+        const line = (alert: Alert): string =>
+            `• *${alert.title}* (${alert.severity})${alert.metric_value !== undefined
+                ? ` — ${alert.metric_value.toFixed(2)}` : ''}`;
+
+        const attachments = [];
+
+        if (firing.length > 0) {
+            attachments.push({
+                color: this.getSeverityColor(worst.severity),
+                title: `${this.getSeverityEmoji(worst.severity)} ${this.describeGroupState(context)}: ${this.describeGroup(context)}`,
+                text: firing.map(line).join('\n'),
+                footer: 'DevOps Dashboard',
+                ts: Math.floor(timestamp.getTime() / 1000),
+            });
+        }
+
+        if (resolved.length > 0) {
+            attachments.push({
+                color: '#36A64F',
+                title: `✅ Resolved (${resolved.length})${firing.length === 0 ? `: ${this.describeGroup(context)}` : ''}`,
+                text: resolved.map(line).join('\n'),
+                footer: 'DevOps Dashboard',
+                ts: Math.floor(timestamp.getTime() / 1000),
+            });
+        }
+
+        const payload = {
+            channel: process.env.SLACK_CHANNEL,
+            username: process.env.SLACK_USERNAME || 'DevOps Dashboard',
+            icon_emoji: process.env.SLACK_ICON || ':warning:',
+            attachments,
+        };
+
+        try {
+            const response = await axios.post(webhookUrl, payload);
+
+            if (response.status === 200) {
+                console.log(`Slack notification sent for alert group: ${context.group.id}`);
             } else {
-                throw new Error(`Webhook returned status ${response.status}`);
+                throw new Error(`Unexpected response status: ${response.status}`);
             }
         } catch (error) {
-            console.error('Failed to send webhook notification:', error);
+            console.error('Failed to send Slack notification:', error);
+            throw new Error(`Slack notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
 
-            if (axios.isAxiosError(error)) {
-                if (error.response) {
-                    throw new Error(`Webhook failed with status ${error.response.status}: ${error.response.data}`);
-                } else if (error.request) {
-                    throw new Error('Webhook request failed: No response received');
-                } else {
-                    throw new Error(`Webhook request setup failed: ${error.message}`);
-                }
-            }
+    async sendGroupWebhookNotification(
+        context: GroupNotificationContext,
+        webhookUrl: string,
+        options: WebhookOptions = {}
+    ): Promise<void> {
+        const {group, firing, resolved, timestamp, projectName} = context;
+        const alertPayload = (alert: Alert) => ({
+            id: alert.id,
+            rule_id: alert.rule_id,
+            name: alert.title,
+            severity: alert.severity,
+            status: alert.status,
+            metric_type: alert.metric_type,
+            current_value: alert.metric_value,
+            triggered_at: alert.triggered_at,
+            resolved_at: alert.resolved_at,
+        });
 
-            throw new Error(`Webhook notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        const payload = {
+            schema_version: WEBHOOK_SCHEMA_VERSION,
+            notification_id: options.notificationId,
+            event: firing.length > 0 ? 'alert_group.firing' : 'alert_group.resolved',
+            timestamp: timestamp.toISOString(),
+            group: {
+                id: group.id,
+                key: group.group_key,
+                labels: group.labels,
+                project_id: group.project_id,
+                project_name: projectName,
+                // Receivers can replace the previous message for this group instead of posting a new one
+                is_update: group.notification_count > 0,
+                sequence: group.notification_count + 1,
+            },
+            alerts: {
+                firing: firing.map(alertPayload),
+                resolved: resolved.map(alertPayload),
+            },
+            metadata: {
+                source: 'devops-dashboard',
+                version: '1.0.0',
+            },
+        };
+
+        await this.postWebhook(webhookUrl, payload, options);
+        console.log(`Webhook notification sent for alert group: ${group.id} to ${webhookUrl}`);
+    }
+
+    // Templated notifications: the template has already produced the subject and body
+    async sendRenderedEmailNotification(rendered: RenderedTemplate, recipients: string[]): Promise<void> {
+        if (!this.emailTransporter) {
+            throw new Error('Email transporter not configured');
+        }
+
+        try {
+            await this.emailTransporter.sendMail({
+                from: process.env.EMAIL_FROM || 'DevOps Dashboard <noreply@devops.local>',
+                to: recipients.join(', '),
+                subject: rendered.subject || 'DevOps Dashboard notification',
+                html: rendered.body,
+            });
+
+            console.log(`Templated email notification sent to ${recipients.length} recipients`);
+        } catch (error) {
+            console.error('Failed to send email notification:', error);
+            throw new Error(`Email notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async sendRenderedSlackNotification(rendered: RenderedTemplate, webhookUrl = this.slackWebhookUrl): Promise<void> {
+        if (!webhookUrl) {
+            throw new Error('Slack webhook not configured');
+        }
+
+        const payload = {
+            channel: process.env.SLACK_CHANNEL,
+            username: process.env.SLACK_USERNAME || 'DevOps Dashboard',
+            icon_emoji: process.env.SLACK_ICON || ':warning:',
+            text: rendered.subject ? `*${rendered.subject}*\n${rendered.body}` : rendered.body,
+        };
+
+        try {
+            await axios.post(webhookUrl, payload);
+            console.log('Templated Slack notification sent');
+        } catch (error) {
+            console.error('Failed to send Slack notification:', error);
+            throw new Error(`Slack notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    async sendRenderedWebhookNotification(
+        rendered: RenderedTemplate,
+        webhookUrl: string,
+        options: WebhookOptions = {}
+    ): Promise<void> {
+        let payload: Record<string, unknown>;
+
+        try {
+            payload = JSON.parse(rendered.body);
+        } catch {
+            throw new Error('Webhook template did not render valid JSON');
         }
+
+        await this.postWebhook(webhookUrl, payload, options);
+        console.log(`Templated webhook notification sent to ${webhookUrl}`);
     }
 
     async sendTestNotification(channel: 'email' | 'slack' | 'webhook', config?: Record<string, unknown>): Promise<boolean> {
@@ -336,7 +555,7 @@ This is an automated notification from DevOps Dashboard.
                 duration_seconds: 60,
             },
             severity: 'info',
-            status: 'active',
+            status: 'firing',
             notification_channels: [channel],
             notification_config: config || {},
             triggered_count: 0,
@@ -383,6 +602,89 @@ This is an automated notification from DevOps Dashboard.
         }
     }
 
+    private async postWebhook(
+        webhookUrl: string,
+        payload: Record<string, unknown>,
+        options: WebhookOptions = {}
+    ): Promise<void> {
+        try {
+            await this.webhookDelivery.send(webhookUrl, payload, options);
+        } catch (error) {
+            console.error('Failed to send webhook notification:', error);
+            throw new Error(`Webhook notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private describeGroup(context: GroupNotificationContext): string {
+        const {labels} = context.group;
+        const parts = Object.keys(labels)
+            .filter(label => label !== 'project' && labels[label])
+            .map(label => `${label}=${labels[label]}`);
+
+        return [context.projectName || (labels.project ? undefined : 'All projects'), ...parts]
+            .filter(Boolean)
+            .join(' · ') || 'Alert group';
+    }
+
+    private describeGroupState(context: GroupNotificationContext): string {
+        return context.firing.length > 0 ? `FIRING:${context.firing.length}` : 'RESOLVED';
+    }
+
+    private severityRank(severity: string): number {
+        return ['critical', 'high', 'medium', 'low', 'info'].indexOf(severity);
+    }
+
+    private describeCondition(context: NotificationContext): string {
+        const operators: Record<AlertCondition['operator'], string> = {
+            gt: 'greater than',
+            gte: 'greater than or equal to',
+            lt: 'less than',
+            lte: 'less than or equal to',
+            eq: 'equal to',
+            neq: 'not equal to',
+        };
+
+        if (!context.condition) {
+            return 'threshold breach';
+        }
+
+        const {condition} = context;
+        const aggregation = condition.aggregation || 'avg';
+
+        switch (condition.kind) {
+            case 'anomaly':
+                return `${aggregation} ${operators[condition.operator]} ${context.threshold} standard deviations from baseline`;
+            case 'predictive':
+                return `projected ${operators[condition.operator]} ${context.threshold} within ${this.describeDuration(condition.horizon_seconds || 0)}`;
+            case 'composite':
+                return condition.expression || 'composite condition';
+            case 'query':
+                return `${condition.query} ${operators[condition.operator]} ${context.threshold}`;
+            default:
+                return `${aggregation} ${operators[condition.operator]} ${context.threshold}`;
+        }
+    }
+
+    // When a predictive alert's trend reaches its limit, e.g. "2024-01-01T16:00:00.000Z (in 3h 20m)"
+    private describeProjection(alert: Alert): string {
+        const projection = projectionOf(alert);
+
+        if (!projection || !projection.projected_at) {
+            return '';
+        }
+
+        return `${projection.projected_at} (in ${this.describeDuration(projection.seconds_until_limit || 0)})`;
+    }
+
+    private describeDuration(seconds: number): string {
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.round((seconds % 3600) / 60);
+
+        if (hours >= 48) return `${Math.round(hours / 24)}d`;
+        if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+        return `${minutes}m`;
+    }
+
     private getSeverityColor(severity: string): string {
         switch (severity) {
             case 'critical':
@@ -0,0 +1,213 @@
+import Handlebars from 'handlebars';
+import {Alert} from '../entities/Alert';
+import {AlertProjection, projectionOf} from '../entities/Forecast';
+import {NotificationTemplate, NotificationTemplateEvent} from '../entities/NotificationTemplate';
+import {ChannelMessage, RenderedTemplate, summarizeMessage} from './channels/NotificationChannel';
+
+interface TemplateAlert {
+    id: string;
+    title: string;
+    description: string;
+    severity: string;
+    status: string;
+    metric_type?: string;
+    metric_value?: number;
+    threshold?: number;
+    triggered_at?: Date | string;
+    acknowledged_at?: Date | string;
+    resolved_at?: Date | string;
+    tags: string[];
+    affected_services: string[];
+    runbook_url?: string;
+}
+
+export interface TemplateVariables {
+    event: NotificationTemplateEvent;
+    timestamp: string;
+    alert: TemplateAlert; // the alert, or the most severe one for a group
+    alerts: TemplateAlert[];
+    resolved_alerts: TemplateAlert[];
+    project: { id?: string; name?: string };
+    metric: {
+        type?: string;
+        value?: number;
+        threshold?: number;
+        aggregation?: string;
+        operator?: string;
+        window_seconds?: number;
+        expression?: string; // composite conditions
+    };
+    runbook: { url?: string };
+    projection?: AlertProjection; // predictive alerts: when the trend crosses the limit
+    group?: {
+        id: string;
+        key: string;
+        labels: Record<string, string>;
+        firing_count: number;
+        resolved_count: number;
+    };
+}
+
+type TemplateSource = Pick<NotificationTemplate, 'channel' | 'subject' | 'body'>;
+
+export class NotificationTemplateRenderer {
+    private static handlebars = NotificationTemplateRenderer.createEnvironment();
+
+    static variablesFor(message: ChannelMessage, event: NotificationTemplateEvent): TemplateVariables {
+        const summary = summarizeMessage(message);
+        const [primary] = [...summary.firing, ...summary.resolved];
+        const alert = this.alertVariables(primary);
+
+        const variables: TemplateVariables = {
+            event,
+            timestamp: summary.timestamp.toISOString(),
+            alert,
+            alerts: summary.firing.map(firing => this.alertVariables(firing)),
+            resolved_alerts: summary.resolved.map(resolved => this.alertVariables(resolved)),
+            project: {id: summary.projectId, name: summary.projectName},
+            metric: {type: alert.metric_type, value: alert.metric_value, threshold: alert.threshold},
+            runbook: {url: alert.runbook_url},
+            projection: primary ? projectionOf(primary) ?? undefined : undefined,
+        };
+
+        if (message.kind === 'alert') {
+            const {condition, currentValue, threshold} = message.context;
+
+            variables.metric = {
+                type: alert.metric_type,
+                value: currentValue,
+                threshold,
+                aggregation: condition?.aggregation,
+                operator: condition?.operator,
+                window_seconds: condition?.window_seconds,
+                expression: condition?.expression,
+            };
+        } else {
+            const {group} = message.context;
+
+            variables.group = {
+                id: group.id,
+                key: group.group_key,
+                labels: group.labels,
+                firing_count: summary.firing.length,
+                resolved_count: summary.resolved.length,
+            };
+        }
+
+        return variables;
+    }
+
+    // Only email bodies are HTML-escaped; other channels render plain text or JSON
+    static render(template: TemplateSource, variables: TemplateVariables): RenderedTemplate {
+        const body = this.handlebars.compile(template.body, {noEscape: template.channel !== 'email', strict: false});
+        const subject = template.subject
+            ? this.handlebars.compile(template.subject, {noEscape: true})(variables).trim()
+            : undefined;
+
+        return {subject, body: body(variables)};
+    }
+
+    // Renders against the sample alert so errors show up when the template is saved, not when a page fails
+    static validate(template: TemplateSource): string[] {
+        let rendered: RenderedTemplate;
+
+        try {
+            rendered = this.render(template, this.variablesFor(this.sampleMessage(), 'triggered'));
+        } catch (error) {
+            return [`Template does not compile: ${error instanceof Error ? error.message : 'Unknown error'}`];
+        }
+
+        if (template.channel === 'webhook') {
+            try {
+                JSON.parse(rendered.body);
+            } catch {
+                return ['Webhook templates must render valid JSON; use {{json value}} to embed values'];
+            }
+        }
+
+        return [];
+    }
+
+    static sampleMessage(overrides: Partial<Alert> = {}): ChannelMessage {
+        const now = new Date();
+        const alert: Alert = {
+            id: '00000000-0000-0000-0000-000000000000',
+            project_id: '00000000-0000-0000-0000-000000000001',
+            type: 'threshold_breach',
+            severity: 'critical',
+            status: 'firing',
+            title: 'High CPU usage',
+            description: 'CPU usage is above 90% on api-1',
+            metric_type: 'cpu_usage',
+            metric_value: 97.25,
+            threshold_value: 90,
+            triggered_at: now,
+            tags: ['team:platform', 'service:api'],
+            affected_services: ['api'],
+            runbook_url: 'https://runbooks.example.com/high-cpu',
+            notification_sent: false,
+            ...overrides,
+        };
+
+        return {
+            kind: 'alert',
+            context: {
+                alert,
+                condition: {
+                    metric_type: 'cpu_usage',
+                    operator: 'gt',
+                    threshold: 90,
+                    aggregation: 'avg',
+                    window_seconds: 300,
+                },
+                currentValue: alert.metric_value ?? 0,
+                threshold: alert.threshold_value ?? 0,
+                timestamp: now,
+                projectName: 'Sample Project',
+            },
+        };
+    }
+
+    private static alertVariables(alert?: Alert): TemplateAlert {
+        return {
+            id: alert?.id || '',
+            title: alert?.title || '',
+            description: alert?.description || '',
+            severity: alert?.severity || 'info',
+            status: alert?.status || '',
+            metric_type: alert?.metric_type,
+            metric_value: alert?.metric_value,
+            threshold: alert?.threshold_value,
+            triggered_at: alert?.triggered_at,
+            acknowledged_at: alert?.acknowledged_at,
+            resolved_at: alert?.resolved_at,
+            tags: alert?.tags || [],
+            affected_services: alert?.affected_services || [],
+            runbook_url: alert?.runbook_url,
+        };
+    }
+
+    private static createEnvironment(): typeof Handlebars {
+        const env = Handlebars.create();
+        const isOptions = (value: unknown) => typeof value === 'object' && value !== null && 'hash' in value;
+
+        env.registerHelper('upper', (value: unknown) => String(value ?? '').toUpperCase());
+        env.registerHelper('lower', (value: unknown) => String(value ?? '').toLowerCase());
+        env.registerHelper('fixed', (value: unknown, digits: unknown) => {
+            if (value === undefined || value === null || value === '') return '';
+            return Number(value).toFixed(isOptions(digits) ? 2 : Number(digits));
+        });
+        env.registerHelper('date', (value: unknown) => {
+            if (!value) return '';
+            const date = new Date(value as string);
+            return isNaN(date.getTime()) ? '' : date.toISOString();
+        });
+        env.registerHelper('json', (value: unknown) => new Handlebars.SafeString(JSON.stringify(value ?? null)));
+        env.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+        env.registerHelper('default', (value: unknown, fallback: unknown) =>
+            value === undefined || value === null || value === '' ? fallback : value
+        );
+
+        return env;
+    }
+}
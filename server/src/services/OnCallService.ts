@@ -0,0 +1,66 @@
+import {OnCallScheduleRepository} from '../repositories/OnCallScheduleRepository';
+import {OnCallOverrideRepository} from '../repositories/OnCallOverrideRepository';
+import {UserRepository} from '../repositories/UserRepository';
+import {OnCallScheduleEntity, OnCallShift} from '../entities/OnCall';
+import {User, UserEntity} from '../entities/User';
+
+export interface OnCallAssignment {
+    schedule: {
+        id: string;
+        name: string;
+        timezone: string;
+    };
+    shift: OnCallShift | null;
+    user: Omit<UserEntity, 'password_hash'> | null;
+}
+
+export class OnCallService {
+    private scheduleRepo: OnCallScheduleRepository;
+    private overrideRepo: OnCallOverrideRepository;
+    private userRepo: UserRepository;
+
+    constructor() {
+        this.scheduleRepo = new OnCallScheduleRepository();
+        this.overrideRepo = new OnCallOverrideRepository();
+        this.userRepo = new UserRepository();
+    }
+
+    async whoIsOnCall(schedule: OnCallScheduleEntity, at: Date = new Date()): Promise<OnCallAssignment> {
+        const overrides = await this.overrideRepo.findActive([schedule.id], at);
+        const shift = schedule.whoIsOnCall(at, overrides);
+        const user = shift ? await this.userRepo.findById(shift.user_id) : null;
+
+        return {
+            schedule: {
+                id: schedule.id,
+                name: schedule.name,
+                timezone: schedule.timezone,
+            },
+            shift,
+            user: user ? user.toJSON() : null,
+        };
+    }
+
+    async whoIsOnCallForProject(projectId: string, at: Date = new Date()): Promise<OnCallAssignment[]> {
+        const schedules = await this.scheduleRepo.findAll({projectId});
+        const assignments: OnCallAssignment[] = [];
+
+        for (const schedule of schedules) {
+            assignments.push(await this.whoIsOnCall(schedule, at));
+        }
+
+        return assignments;
+    }
+
+    async findOnCallUser(scheduleId: string, at: Date = new Date()): Promise<User | null> {
+        const schedule = await this.scheduleRepo.findById(scheduleId);
+        if (!schedule) {
+            return null;
+        }
+
+        const overrides = await this.overrideRepo.findActive([schedule.id], at);
+        const shift = schedule.whoIsOnCall(at, overrides);
+
+        return shift ? this.userRepo.findById(shift.user_id) : null;
+    }
+}
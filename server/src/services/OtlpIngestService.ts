@@ -0,0 +1,112 @@
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {CreateMetricDTO, IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {CumulativeHistogramTracker, HistogramMath} from '../entities/Histogram';
+import {MetricDefinition, MetricKind} from '../entities/MetricCatalog';
+import {OtlpMetric, OtlpResourceMetrics} from '../entities/Otlp';
+import {Project} from '../entities/Project';
+import {MetricCatalogService, metricCatalog} from './MetricCatalogService';
+
+const BATCH_SIZE = 1000;
+
+// Last cumulative histogram snapshot per series, kept for as long as the process runs
+const cumulativeHistograms = new CumulativeHistogramTracker();
+
+export interface OtlpIngestResult {
+    projectIds: string[];
+    accepted: number;
+    rejected: number;
+    errors: string[];
+}
+
+export class OtlpIngestService {
+    private metricRepo: IMetricRepository;
+    private catalogService: MetricCatalogService;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.catalogService = new MetricCatalogService();
+    }
+
+    // Stores data points in the project the ingest token belongs to, tagged with the resource's service.name as
+    // service_name. Metric kinds that are not stored (exponential histograms and summaries) are rejected.
+    async ingest(resources: OtlpResourceMetrics[], project: Project, now: Date = new Date()): Promise<OtlpIngestResult> {
+        const metrics: CreateMetricDTO[] = [];
+        const definitions: MetricDefinition[] = [];
+        const errors = new Set<string>();
+        let rejected = 0;
+
+        cumulativeHistograms.prune(now.getTime());
+
+        for (const resource of resources) {
+            const service = resource.attributes['service.name'];
+
+            if (resource.unsupportedPoints > 0) {
+                rejected += resource.unsupportedPoints;
+                errors.add('Exponential histograms and summaries are not supported');
+            }
+
+            for (const metric of resource.metrics) {
+                metrics.push(...this.toMetrics(project.id, metric, service, now));
+                definitions.push({name: metricCatalog.typeFor(metric.name), kind: this.kindOf(metric), unit: metric.unit || undefined});
+            }
+        }
+
+        await this.catalogService.registerDiscovered(definitions);
+
+        for (let start = 0; start < metrics.length; start += BATCH_SIZE) {
+            await this.metricRepo.createBatch(metrics.slice(start, start + BATCH_SIZE));
+        }
+
+        return {
+            projectIds: [...new Set(metrics.map(metric => metric.projectId))],
+            accepted: metrics.length,
+            rejected,
+            errors: [...errors],
+        };
+    }
+
+    // Monotonic sums count up like Prometheus counters; other sums go up and down like gauges
+    private kindOf(metric: OtlpMetric): MetricKind {
+        if (metric.kind === 'sum') {
+            return metric.monotonic ? 'counter' : 'gauge';
+        }
+        return metric.kind;
+    }
+
+    // Gauges and sums are stored as they come (cumulative sums behave like Prometheus counters).
+    // Histograms are stored per interval, with their mean as the value and their buckets alongside.
+    private toMetrics(projectId: string, metric: OtlpMetric, service: string | undefined, now: Date): CreateMetricDTO[] {
+        const type = metricCatalog.typeFor(metric.name);
+        const metadata = {source: 'otlp', metric_name: metric.name, kind: metric.kind, temporality: metric.temporality};
+        const metrics: CreateMetricDTO[] = [];
+
+        for (const point of metric.points) {
+            const tags = service ? {service_name: service, ...point.attributes} : point.attributes;
+            const timestamp = new Date(point.time || now.getTime());
+
+            if (metric.kind !== 'histogram') {
+                if (point.value !== undefined && Number.isFinite(point.value)) {
+                    metrics.push({projectId, type, value: point.value, unit: metric.unit, metadata, tags, timestamp});
+                }
+                continue;
+            }
+
+            let histogram = point.histogram!;
+            if (metric.temporality === 'cumulative') {
+                const series = JSON.stringify([projectId, metric.name, Object.entries(tags).sort(([a], [b]) => a.localeCompare(b))]);
+                const delta = cumulativeHistograms.delta(series, point.startTime || 0, histogram, now.getTime());
+                if (!delta) {
+                    continue; // First snapshot of the series: only a baseline
+                }
+                histogram = delta;
+            }
+
+            const mean = HistogramMath.mean(histogram);
+            if (mean !== null && Number.isFinite(mean)) {
+                metrics.push({projectId, type, value: mean, unit: metric.unit, metadata, tags, timestamp, histogram});
+            }
+        }
+
+        return metrics;
+    }
+}
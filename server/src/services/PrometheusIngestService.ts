@@ -0,0 +1,99 @@
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {CreateMetricDTO, IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {Labels, PrometheusSeries} from '../entities/PrometheusExposition';
+import {RemoteWriteDecoder, SnappyDecoder} from '../entities/PrometheusRemoteWrite';
+import {MetricCatalogService, metricCatalog} from './MetricCatalogService';
+
+const BATCH_SIZE = 1000;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface IngestResult {
+    projectIds: string[];
+    samples: number;
+}
+
+export class PrometheusIngestService {
+    private metricRepo: IMetricRepository;
+    private projectRepo: ProjectRepository;
+    private catalogService: MetricCatalogService;
+
+    constructor() {
+        this.metricRepo = createMetricRepository();
+        this.projectRepo = new ProjectRepository();
+        this.catalogService = new MetricCatalogService();
+    }
+
+    // Accepts a project ID or name
+    async resolveProject(reference: string): Promise<string | null> {
+        const project = UUID.test(reference)
+            ? await this.projectRepo.findById(reference)
+            : await this.projectRepo.findByName(reference);
+
+        return project?.id || null;
+    }
+
+    // Stores a remote-write request for the project its ingest token belongs to
+    async remoteWrite(body: Uint8Array, projectId: string, now: Date = new Date()): Promise<IngestResult> {
+        const series = RemoteWriteDecoder.decode(SnappyDecoder.decompress(body));
+        const metrics = this.toMetrics(projectId, series, 'prometheus_remote_write', now);
+
+        await this.store(metrics);
+
+        return {
+            projectIds: metrics.length > 0 ? [projectId] : [],
+            samples: metrics.length,
+        };
+    }
+
+    // Stores scraped series for one project, with the target's own labels added to each
+    async storeScrape(projectId: string, series: PrometheusSeries[], extraLabels: Labels = {}, now: Date = new Date()): Promise<number> {
+        const metrics = this.toMetrics(
+            projectId,
+            series.map(({labels, samples}) => ({labels: {...labels, ...extraLabels}, samples})),
+            'prometheus_scrape',
+            now
+        );
+
+        await this.store(metrics);
+        return metrics.length;
+    }
+
+    // Each series is stored under its catalog name, with the name as sent in metadata. Labels become tags, and
+    // non-finite values (such as staleness markers) are skipped.
+    private toMetrics(projectId: string, series: PrometheusSeries[], source: string, now: Date): CreateMetricDTO[] {
+        const metrics: CreateMetricDTO[] = [];
+
+        for (const {labels, samples} of series) {
+            const {__name__: name = '', ...tags} = labels;
+            const type = metricCatalog.typeFor(name);
+
+            for (const sample of samples) {
+                if (!Number.isFinite(sample.value)) continue;
+
+                metrics.push({
+                    projectId,
+                    type,
+                    value: sample.value,
+                    metadata: {source, metric_name: name},
+                    tags,
+                    timestamp: sample.timestamp ? new Date(sample.timestamp) : now,
+                });
+            }
+        }
+
+        return metrics;
+    }
+
+    // Names seen for the first time join the catalog; Prometheus counters end in _total by convention
+    private async store(metrics: CreateMetricDTO[]): Promise<void> {
+        await this.catalogService.registerDiscovered(metrics.map(metric => ({
+            name: metric.type,
+            kind: metric.type.endsWith('_total') ? 'counter' : 'gauge',
+        })));
+
+        for (let start = 0; start < metrics.length; start += BATCH_SIZE) {
+            await this.metricRepo.createBatch(metrics.slice(start, start + BATCH_SIZE));
+        }
+    }
+}
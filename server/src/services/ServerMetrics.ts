@@ -0,0 +1,37 @@
+import {MetricsRegistry} from '../entities/PrometheusExposition';
+
+// The server's own health, exported on /metrics. Values live in process memory,
+// so counters start again from zero when the server restarts.
+export const serverMetrics = new MetricsRegistry();
+
+export const collectorRunDuration = serverMetrics.histogram(
+    'devops_collector_run_duration_seconds',
+    'Time taken by each metrics collector run',
+    [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+);
+
+export const collectorFailures = serverMetrics.counter(
+    'devops_collector_failures_total',
+    'Metrics collector runs that failed'
+);
+
+export const alertEvaluationDuration = serverMetrics.histogram(
+    'devops_alert_evaluation_duration_seconds',
+    'Time taken by each alert evaluation cycle',
+    [0.1, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+export const alertEvaluationLastRun = serverMetrics.gauge(
+    'devops_alert_evaluation_last_run_timestamp_seconds',
+    'Unix time the last alert evaluation cycle finished'
+);
+
+export const notificationFailures = serverMetrics.counter(
+    'devops_notification_failures_total',
+    'Failed notification delivery attempts, by channel and whether the notification will be retried'
+);
+
+export const statsdDroppedSamples = serverMetrics.counter(
+    'devops_statsd_dropped_samples_total',
+    'StatsD samples that were not stored, by reason'
+);
@@ -0,0 +1,31 @@
+import {SilenceRepository} from '../repositories/SilenceRepository';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {Alert} from '../entities/Alert';
+import {Silence, SilenceEntity, SilenceTarget} from '../entities/Silence';
+
+export class SilenceService {
+    private silenceRepo: SilenceRepository;
+    private projectRepo: ProjectRepository;
+
+    constructor() {
+        this.silenceRepo = new SilenceRepository();
+        this.projectRepo = new ProjectRepository();
+    }
+
+    async findMatching(target: SilenceTarget, at: Date = new Date()): Promise<Silence | null> {
+        const silences = await this.silenceRepo.findActive(at);
+        return silences.find(silence => new SilenceEntity(silence).matches(target)) || null;
+    }
+
+    async findMatchingAlert(alert: Alert, at: Date = new Date()): Promise<Silence | null> {
+        const project = await this.projectRepo.findById(alert.project_id);
+
+        return this.findMatching({
+            project_id: alert.project_id,
+            project_name: project?.name,
+            metric_type: alert.metric_type,
+            severity: alert.severity,
+            tags: alert.tags,
+        }, at);
+    }
+}
@@ -0,0 +1,145 @@
+import dgram from 'dgram';
+import {Server} from 'socket.io';
+import {createMetricRepository} from '../repositories/MetricRepositoryFactory';
+import {ProjectRepository} from '../repositories/ProjectRepository';
+import {CreateMetricDTO, IMetricRepository} from '../repositories/interfaces/IMetricRepository';
+import {MetricDefinition, MetricKind} from '../entities/MetricCatalog';
+import {StatsDAggregator, StatsDMetricType, StatsDParser, StatsDProjectRules} from '../entities/StatsD';
+import {statsdDroppedSamples} from './ServerMetrics';
+import {MetricCatalogService, metricCatalog} from './MetricCatalogService';
+
+const BATCH_SIZE = 1000;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The catalog kind a StatsD name registers as; timers are stored with their histogram
+const KINDS: Record<StatsDMetricType, MetricKind> = {counter: 'counter', gauge: 'gauge', timer: 'histogram', set: 'gauge'};
+
+// Receives StatsD packets over UDP and stores one aggregate per series every flush interval
+export class StatsDService {
+    private metricRepo: IMetricRepository;
+    private projectRepo: ProjectRepository;
+    private catalogService: MetricCatalogService;
+    private aggregator: StatsDAggregator;
+    private rules: StatsDProjectRules;
+    private io: Server | null = null;
+    private socket: dgram.Socket | null = null;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private flushing = false;
+
+    constructor(io?: Server) {
+        this.metricRepo = createMetricRepository();
+        this.projectRepo = new ProjectRepository();
+        this.catalogService = new MetricCatalogService();
+        this.aggregator = new StatsDAggregator(parseInt(process.env.STATSD_MAX_SERIES || '10000'));
+        this.rules = new StatsDProjectRules(
+            StatsDProjectRules.parse(process.env.STATSD_PROJECT_RULES),
+            process.env.STATSD_DEFAULT_PROJECT
+        );
+        this.io = io || null;
+    }
+
+    startListening(port: number, flushSeconds = 10): void {
+        this.stopListening();
+
+        this.socket = dgram.createSocket('udp4');
+        this.socket.on('message', message => this.receive(message.toString('utf8')));
+        this.socket.on('error', error => console.error('StatsD listener error:', error));
+        this.socket.bind(port);
+
+        this.flushTimer = setInterval(() => {
+            this.flush().catch(error => console.error('Error flushing StatsD metrics:', error));
+        }, flushSeconds * 1000);
+
+        console.log(`Started StatsD listener on UDP port ${port}, flushing every ${flushSeconds}s`);
+    }
+
+    stopListening(): void {
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+
+        if (this.socket) {
+            this.socket.close();
+            this.socket = null;
+            console.log('Stopped StatsD listener');
+        }
+    }
+
+    receive(packet: string): void {
+        const {samples, errors} = StatsDParser.parsePacket(packet);
+
+        if (errors.length > 0) {
+            statsdDroppedSamples.inc({reason: 'invalid'}, errors.length);
+        }
+
+        for (const sample of samples) {
+            if (!this.aggregator.add(sample)) {
+                statsdDroppedSamples.inc({reason: 'series_limit'});
+            }
+        }
+    }
+
+    // Aggregates are taken before the database writes, so packets arriving during a flush count towards the next one
+    async flush(now: Date = new Date()): Promise<void> {
+        if (this.flushing) {
+            return;
+        }
+
+        this.flushing = true;
+        try {
+            const aggregates = this.aggregator.flush();
+            const projects = new Map<string, string | null>();
+            const metrics: CreateMetricDTO[] = [];
+            const definitions: MetricDefinition[] = [];
+
+            for (const aggregate of aggregates) {
+                const route = this.rules.route(aggregate.name, aggregate.tags);
+                if (route && !projects.has(route.project)) {
+                    projects.set(route.project, await this.resolveProject(route.project));
+                }
+
+                const projectId = route ? projects.get(route.project) : null;
+                if (!route || !projectId) {
+                    statsdDroppedSamples.inc({reason: 'unmapped'});
+                    continue;
+                }
+
+                const type = metricCatalog.typeFor(route.name);
+                const unit = aggregate.type === 'timer' ? 'ms' : undefined;
+                definitions.push({name: type, kind: KINDS[aggregate.type], unit});
+
+                metrics.push({
+                    projectId,
+                    type,
+                    value: aggregate.value,
+                    unit,
+                    metadata: {source: 'statsd', metric_name: route.name, statsd_type: aggregate.type},
+                    tags: route.tags,
+                    timestamp: now,
+                    histogram: aggregate.histogram,
+                });
+            }
+
+            await this.catalogService.registerDiscovered(definitions);
+
+            for (let start = 0; start < metrics.length; start += BATCH_SIZE) {
+                await this.metricRepo.createBatch(metrics.slice(start, start + BATCH_SIZE));
+            }
+
+            new Set(metrics.map(metric => metric.projectId)).forEach(projectId => {
+                this.io?.to(`project-${projectId}`).emit('metrics:updated', {projectId, timestamp: now});
+            });
+        } finally {
+            this.flushing = false;
+        }
+    }
+
+    private async resolveProject(reference: string): Promise<string | null> {
+        const project = UUID.test(reference)
+            ? await this.projectRepo.findById(reference)
+            : await this.projectRepo.findByName(reference);
+
+        return project?.id || null;
+    }
+}
@@ -0,0 +1,171 @@
+import axios from 'axios';
+import {randomUUID} from 'crypto';
+import {WebhookDeliveryRepository} from '../repositories/WebhookDeliveryRepository';
+import {NotificationChannelRepository} from '../repositories/NotificationChannelRepository';
+import {WEBHOOK_HEADERS, WebhookDelivery, WebhookSignature} from '../entities/WebhookDelivery';
+
+export interface WebhookOptions {
+    secret?: string; // signs the request when set; the endpoint's own secret, or DEFAULT_WEBHOOK_SECRET
+    event?: string;
+    notificationId?: string;
+    channelId?: string;
+}
+
+interface WebhookRequest extends WebhookOptions {
+    url: string;
+    event: string;
+    body: string;
+    schemaVersion?: number;
+    redeliveryOf?: string;
+}
+
+// Response bodies beyond this are cut off in the delivery log
+const MAX_LOGGED_BODY = 64 * 1024;
+
+export class WebhookDeliveryService {
+    private webhookDeliveryRepo: WebhookDeliveryRepository;
+    private notificationChannelRepo: NotificationChannelRepository;
+
+    constructor() {
+        this.webhookDeliveryRepo = new WebhookDeliveryRepository();
+        this.notificationChannelRepo = new NotificationChannelRepository();
+    }
+
+    // Throws when the receiver does not answer 2xx so the outbox schedules a retry
+    async send(url: string, payload: Record<string, unknown>, options: WebhookOptions = {}): Promise<WebhookDelivery> {
+        const delivery = await this.post({
+            ...options,
+            url,
+            event: options.event || (payload.event as string) || 'notification',
+            body: JSON.stringify(payload),
+            schemaVersion: payload.schema_version as number | undefined,
+        });
+
+        if (!delivery.success) {
+            throw new Error(delivery.error || 'Webhook delivery failed');
+        }
+
+        return delivery;
+    }
+
+    // Re-sends the logged body with a fresh timestamp and signature; the result is logged as a new delivery
+    async redeliver(id: string): Promise<WebhookDelivery | null> {
+        const original = await this.webhookDeliveryRepo.findById(id);
+
+        if (!original) {
+            return null;
+        }
+
+        const schemaVersion = Number(original.request_headers[WEBHOOK_HEADERS.schemaVersion]);
+
+        return this.post({
+            url: original.url,
+            event: original.event,
+            body: original.request_body,
+            schemaVersion: Number.isNaN(schemaVersion) ? undefined : schemaVersion,
+            secret: await this.secretFor(original),
+            notificationId: original.notification_id,
+            channelId: original.channel_id,
+            redeliveryOf: original.id,
+        });
+    }
+
+    private async post(request: WebhookRequest): Promise<WebhookDelivery> {
+        const id = randomUUID();
+        const timestamp = Math.floor(Date.now() / 1000);
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'User-Agent': 'DevOps-Dashboard/1.0',
+            [WEBHOOK_HEADERS.delivery]: id,
+            [WEBHOOK_HEADERS.event]: request.event,
+            [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        };
+
+        if (request.schemaVersion !== undefined) {
+            headers[WEBHOOK_HEADERS.schemaVersion] = String(request.schemaVersion);
+        }
+        if (request.secret) {
+            headers[WEBHOOK_HEADERS.signature] = WebhookSignature.sign(request.secret, request.body, timestamp);
+        }
+
+        const started = Date.now();
+        let responseStatus: number | undefined;
+        let responseHeaders: Record<string, string> | undefined;
+        let responseBody: string | undefined;
+        let error: string | undefined;
+
+        try {
+            const response = await axios.post(request.url, request.body, {
+                headers,
+                timeout: 10000, // 10 second timeout
+                responseType: 'text',
+                transformResponse: data => data,
+                validateStatus: () => true,
+            });
+
+            responseStatus = response.status;
+            responseHeaders = Object.fromEntries(
+                Object.entries(response.headers).map(([name, value]) => [name, String(value)])
+            );
+            responseBody = String(response.data ?? '').slice(0, MAX_LOGGED_BODY);
+
+            if (response.status < 200 || response.status >= 300) {
+                error = `Webhook returned status ${response.status}`;
+            }
+        } catch (requestError) {
+            error = axios.isAxiosError(requestError) && !requestError.response
+                ? `Webhook request failed: ${requestError.code || requestError.message}`
+                : `Webhook request failed: ${requestError instanceof Error ? requestError.message : 'Unknown error'}`;
+        }
+
+        const delivery: WebhookDelivery = {
+            id,
+            notification_id: request.notificationId,
+            channel_id: request.channelId,
+            redelivery_of: request.redeliveryOf,
+            url: request.url,
+            event: request.event,
+            request_headers: headers,
+            request_body: request.body,
+            response_status: responseStatus,
+            response_headers: responseHeaders,
+            response_body: responseBody,
+            error,
+            success: !error,
+            duration_ms: Date.now() - started,
+            created_at: new Date(started),
+        };
+
+        // A lost log entry must not turn a delivered webhook into a retry, so logging failures are swallowed
+        try {
+            return await this.webhookDeliveryRepo.create({
+                id,
+                notificationId: delivery.notification_id,
+                channelId: delivery.channel_id,
+                redeliveryOf: delivery.redelivery_of,
+                url: delivery.url,
+                event: delivery.event,
+                requestHeaders: delivery.request_headers,
+                requestBody: delivery.request_body,
+                responseStatus,
+                responseHeaders,
+                responseBody,
+                error,
+                success: delivery.success,
+                durationMs: delivery.duration_ms,
+            });
+        } catch (logError) {
+            console.error(`Failed to log webhook delivery ${id}:`, logError);
+            return delivery;
+        }
+    }
+
+    private async secretFor(delivery: WebhookDelivery): Promise<string | undefined> {
+        if (delivery.channel_id) {
+            const channel = await this.notificationChannelRepo.findById(delivery.channel_id);
+            return (channel?.config.secret as string) || undefined;
+        }
+
+        return process.env.DEFAULT_WEBHOOK_SECRET || undefined;
+    }
+}
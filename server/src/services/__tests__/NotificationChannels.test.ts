@@ -0,0 +1,210 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import {Alert} from '../../entities/Alert';
+import {AlertGroup} from '../../entities/AlertGroup';
+import {ChannelMessage} from '../channels/NotificationChannel';
+import {DiscordChannel} from '../channels/DiscordChannel';
+import {OpsgenieChannel} from '../channels/OpsgenieChannel';
+import {PagerDutyChannel} from '../channels/PagerDutyChannel';
+import {TeamsChannel} from '../channels/TeamsChannel';
+
+interface StubRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: Record<string, unknown>;
+}
+
+interface TeamsAttachment {
+    contentType: string;
+    content: {type: string; body: Array<{text: string; color?: string}>};
+}
+
+interface DiscordEmbed {
+    title: string;
+    color: number;
+    timestamp: string;
+    fields: Array<{name: string; value: string; inline: boolean}>;
+}
+
+describe('Notification channel adapters', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: StubRequest[];
+    let responseStatus: number;
+
+    const now = new Date('2024-01-01T12:00:00Z');
+
+    const alert = (overrides: Partial<Alert> = {}): Alert => ({
+        id: 'alert-1',
+        project_id: 'project-1',
+        type: 'threshold_breach',
+        severity: 'critical',
+        status: 'firing',
+        title: 'High CPU',
+        description: 'CPU above threshold',
+        metric_type: 'cpu_usage',
+        metric_value: 97.5,
+        triggered_at: now,
+        notification_sent: false,
+        tags: ['team:payments'],
+        ...overrides,
+    });
+
+    const group: AlertGroup = {
+        id: 'group-1',
+        group_key: 'project=project-1',
+        project_id: 'project-1',
+        labels: {project: 'project-1'},
+        status: 'open',
+        notified_alerts: {},
+        notification_count: 0,
+        group_interval_seconds: 300,
+        created_at: now,
+        updated_at: now,
+    };
+
+    const alertMessage = (overrides: Partial<Alert> = {}): ChannelMessage => ({
+        kind: 'alert',
+        context: {alert: alert(overrides), currentValue: 97.5, threshold: 90, timestamp: now, projectName: 'Checkout'},
+    });
+
+    const groupMessage = (firing: Alert[], resolved: Alert[]): ChannelMessage => ({
+        kind: 'group',
+        context: {group, firing, resolved, timestamp: now, projectName: 'Checkout'},
+    });
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let data = '';
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => {
+                requests.push({method: req.method, url: req.url, headers: req.headers, body: JSON.parse(data || '{}')});
+                res.writeHead(responseStatus, {'Content-Type': 'application/json'});
+                res.end(JSON.stringify({status: responseStatus < 300 ? 'success' : 'error'}));
+            });
+        });
+
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        responseStatus = 202;
+    });
+
+    describe('PagerDutyChannel', () => {
+        const channel = new PagerDutyChannel();
+
+        it('should send an Events v2 trigger with a dedup key', async () => {
+            await channel.send(alertMessage(), {routing_key: 'abc123', events_url: `${baseUrl}/v2/enqueue`});
+
+            expect(requests).toHaveLength(1);
+            expect(requests[0].url).toBe('/v2/enqueue');
+            expect(requests[0].body).toMatchObject({
+                routing_key: 'abc123',
+                event_action: 'trigger',
+                dedup_key: 'alert-alert-1',
+                payload: {
+                    summary: 'High CPU',
+                    source: 'Checkout',
+                    severity: 'critical',
+                    timestamp: '2024-01-01T12:00:00.000Z',
+                    component: 'cpu_usage',
+                },
+            });
+        });
+
+        it('should resolve the incident once a group has no firing alerts', async () => {
+            await channel.send(
+                groupMessage([], [alert({status: 'resolved'})]),
+                {routing_key: 'abc123', events_url: `${baseUrl}/v2/enqueue`}
+            );
+
+            expect(requests[0].body).toEqual({
+                routing_key: 'abc123',
+                event_action: 'resolve',
+                dedup_key: 'alert-group-group-1',
+            });
+        });
+
+        it('should require a routing key', () => {
+            expect(channel.validateConfig({})).toEqual(['routing_key is required']);
+        });
+
+        it('should surface error responses', async () => {
+            responseStatus = 400;
+
+            await expect(channel.send(alertMessage(), {routing_key: 'bad', events_url: `${baseUrl}/v2/enqueue`}))
+                .rejects.toThrow('Request failed with status 400');
+        });
+    });
+
+    describe('TeamsChannel', () => {
+        const channel = new TeamsChannel();
+
+        it('should post an adaptive card', async () => {
+            await channel.send(groupMessage([alert()], []), {webhook_url: `${baseUrl}/teams`});
+
+            const [attachment] = requests[0].body.attachments as TeamsAttachment[];
+            expect(requests[0].body.type).toBe('message');
+            expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive');
+            expect(attachment.content.type).toBe('AdaptiveCard');
+            expect(attachment.content.body[0]).toMatchObject({text: 'FIRING:1 Checkout', color: 'Attention'});
+            expect(attachment.content.body[2].text).toContain('High CPU (critical)');
+        });
+
+        it('should reject webhook URLs that are not http(s)', () => {
+            expect(channel.validateConfig({webhook_url: 'ftp://teams'})).toEqual(['webhook_url must be an http(s) URL']);
+        });
+    });
+
+    describe('DiscordChannel', () => {
+        const channel = new DiscordChannel();
+
+        it('should post an embed coloured by severity', async () => {
+            responseStatus = 204;
+
+            await channel.send(alertMessage(), {webhook_url: `${baseUrl}/discord`});
+
+            const [embed] = requests[0].body.embeds as DiscordEmbed[];
+            expect(embed.title).toBe('High CPU');
+            expect(embed.color).toBe(0xFF0000);
+            expect(embed.timestamp).toBe('2024-01-01T12:00:00.000Z');
+            expect(embed.fields).toContainEqual({name: 'Firing (1)', value: '• High CPU (critical) — 97.50', inline: false});
+        });
+    });
+
+    describe('OpsgenieChannel', () => {
+        const channel = new OpsgenieChannel();
+
+        it('should create an alert by alias with a GenieKey header', async () => {
+            await channel.send(alertMessage(), {api_key: 'key-1', api_url: baseUrl, team: 'SRE'});
+
+            expect(requests[0].url).toBe('/v2/alerts');
+            expect(requests[0].headers.authorization).toBe('GenieKey key-1');
+            expect(requests[0].body).toMatchObject({
+                message: 'High CPU',
+                alias: 'alert-alert-1',
+                priority: 'P1',
+                tags: ['team:payments'],
+                responders: [{type: 'team', name: 'SRE'}],
+            });
+        });
+
+        it('should close the alert by alias when resolved', async () => {
+            await channel.send(groupMessage([], [alert({status: 'resolved'})]), {api_key: 'key-1', api_url: baseUrl});
+
+            expect(requests[0].url).toBe('/v2/alerts/alert-group-group-1/close?identifierType=alias');
+        });
+
+        it('should reject unknown regions', () => {
+            expect(channel.validateConfig({api_key: 'key-1', region: 'apac'})).toEqual(['region must be one of: us, eu']);
+        });
+    });
+});
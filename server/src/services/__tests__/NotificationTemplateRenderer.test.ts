@@ -0,0 +1,72 @@
+import {NotificationTemplateRenderer} from '../NotificationTemplateRenderer';
+
+describe('NotificationTemplateRenderer', () => {
+    const message = NotificationTemplateRenderer.sampleMessage({
+        title: 'CPU <high>',
+        triggered_at: new Date('2024-01-01T12:00:00Z'),
+    });
+
+    it('should expose alert, project, metric and runbook variables', () => {
+        const variables = NotificationTemplateRenderer.variablesFor(message, 'triggered');
+
+        expect(variables.event).toBe('triggered');
+        expect(variables.alert.title).toBe('CPU <high>');
+        expect(variables.project.name).toBe('Sample Project');
+        expect(variables.metric).toMatchObject({type: 'cpu_usage', value: 97.25, threshold: 90, aggregation: 'avg'});
+        expect(variables.runbook.url).toBe('https://runbooks.example.com/high-cpu');
+    });
+
+    it('should expose the projected crossing of predictive alerts', () => {
+        const projection = {
+            limit: 95,
+            projected_at: '2024-01-01T16:00:00.000Z',
+            seconds_until_limit: 4 * 3600,
+            rate_per_day: 30,
+            horizon_seconds: 6 * 3600,
+        };
+        const predictive = NotificationTemplateRenderer.sampleMessage({metadata: {projection}});
+
+        const rendered = NotificationTemplateRenderer.render(
+            {channel: 'slack', body: 'reaches {{projection.limit}} at {{projection.projected_at}}'},
+            NotificationTemplateRenderer.variablesFor(predictive, 'triggered')
+        );
+
+        expect(rendered.body).toBe('reaches 95 at 2024-01-01T16:00:00.000Z');
+    });
+
+    it('should render subject and body with helpers', () => {
+        const rendered = NotificationTemplateRenderer.render(
+            {
+                channel: 'slack',
+                subject: '[{{upper alert.severity}}] {{alert.title}}',
+                body: '{{metric.type}} at {{fixed metric.value 1}} ({{default metric.unit "n/a"}}) since {{date alert.triggered_at}}',
+            },
+            NotificationTemplateRenderer.variablesFor(message, 'triggered')
+        );
+
+        expect(rendered.subject).toBe('[CRITICAL] CPU <high>');
+        expect(rendered.body).toBe('cpu_usage at 97.3 (n/a) since 2024-01-01T12:00:00.000Z');
+    });
+
+    it('should only HTML-escape email bodies', () => {
+        const variables = NotificationTemplateRenderer.variablesFor(message, 'triggered');
+
+        expect(NotificationTemplateRenderer.render({channel: 'email', body: '{{alert.title}}'}, variables).body)
+            .toBe('CPU &lt;high&gt;');
+        expect(NotificationTemplateRenderer.render({channel: 'teams', body: '{{alert.title}}'}, variables).body)
+            .toBe('CPU <high>');
+    });
+
+    it('should require webhook templates to render valid JSON', () => {
+        expect(NotificationTemplateRenderer.validate({channel: 'webhook', body: '{"title": {{json alert.title}} }'}))
+            .toEqual([]);
+        expect(NotificationTemplateRenderer.validate({channel: 'webhook', body: '{"title": {{alert.title}} }'}))
+            .toHaveLength(1);
+    });
+
+    it('should report templates that do not compile', () => {
+        const errors = NotificationTemplateRenderer.validate({channel: 'slack', body: '{{#if alert.title}}open'});
+
+        expect(errors[0]).toMatch(/does not compile/);
+    });
+});
@@ -0,0 +1,63 @@
+import {
+    ChannelConfig,
+    ChannelMessage,
+    describeAlert,
+    invalidUrls,
+    missingFields,
+    NotificationChannel,
+    postJson,
+    SEVERITY_COLORS,
+    summarizeMessage,
+} from './NotificationChannel';
+
+// Discord rejects embed field values and descriptions longer than these
+const MAX_FIELD_LENGTH = 1024;
+const MAX_DESCRIPTION_LENGTH = 4096;
+
+export class DiscordChannel implements NotificationChannel {
+    readonly type = 'discord';
+    readonly displayName = 'Discord';
+    readonly secretFields = ['webhook_url'];
+
+    validateConfig(config: ChannelConfig): string[] {
+        return [...missingFields(config, ['webhook_url']), ...invalidUrls(config, ['webhook_url'])];
+    }
+
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        await postJson(config.webhook_url as string, this.buildEmbed(message, config));
+    }
+
+    private buildEmbed(message: ChannelMessage, config: ChannelConfig): Record<string, unknown> {
+        const summary = summarizeMessage(message);
+        const list = (alerts: typeof summary.firing) =>
+            alerts.map(alert => `• ${describeAlert(alert)}`).join('\n').slice(0, MAX_FIELD_LENGTH);
+        const fields = [
+            {name: 'Severity', value: summary.severity.toUpperCase(), inline: true},
+            {name: 'Project', value: summary.projectName || summary.projectId || 'N/A', inline: true},
+        ];
+
+        if (summary.firing.length > 0) {
+            fields.push({name: `Firing (${summary.firing.length})`, value: list(summary.firing), inline: false});
+        }
+        if (summary.resolved.length > 0) {
+            fields.push({name: `Resolved (${summary.resolved.length})`, value: list(summary.resolved), inline: false});
+        }
+
+        const color = summary.status === 'firing' ? SEVERITY_COLORS[summary.severity] : '#36A64F';
+        const rendered = message.rendered;
+
+        return {
+            username: (config.username as string) || 'DevOps Dashboard',
+            embeds: [
+                {
+                    title: rendered?.subject || summary.title,
+                    description: rendered?.body.slice(0, MAX_DESCRIPTION_LENGTH),
+                    color: parseInt(color.slice(1), 16),
+                    fields: rendered ? [] : fields,
+                    timestamp: summary.timestamp.toISOString(),
+                    footer: {text: 'DevOps Dashboard'},
+                },
+            ],
+        };
+    }
+}
@@ -0,0 +1,42 @@
+import {NotificationService} from '../NotificationService';
+import {ChannelConfig, ChannelMessage, NotificationChannel} from './NotificationChannel';
+
+export class EmailChannel implements NotificationChannel {
+    readonly type = 'email';
+    readonly displayName = 'Email';
+    readonly secretFields: string[] = [];
+
+    private notificationService: NotificationService;
+
+    constructor(notificationService: NotificationService) {
+        this.notificationService = notificationService;
+    }
+
+    validateConfig(config: ChannelConfig): string[] {
+        const recipients = config.recipients;
+
+        if (!Array.isArray(recipients) || recipients.length === 0) {
+            return ['recipients must be a non-empty list of email addresses'];
+        }
+
+        return recipients
+            .filter(recipient => typeof recipient !== 'string' || !/^[^\s@]+@[^\s@]+$/.test(recipient))
+            .map(recipient => `Invalid email recipient: ${recipient}`);
+    }
+
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        const recipients = (config.recipients as string[] | undefined) || [];
+
+        if (recipients.length === 0) {
+            throw new Error('No email recipients configured');
+        }
+
+        if (message.rendered) {
+            await this.notificationService.sendRenderedEmailNotification(message.rendered, recipients);
+        } else if (message.kind === 'group') {
+            await this.notificationService.sendGroupEmailNotification(message.context, recipients);
+        } else {
+            await this.notificationService.sendEmailNotification(message.context, recipients);
+        }
+    }
+}
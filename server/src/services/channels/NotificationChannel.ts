@@ -0,0 +1,147 @@
+import axios from 'axios';
+import {Alert, AlertSeverity} from '../../entities/Alert';
+import {projectionOf} from '../../entities/Forecast';
+import {GroupNotificationContext, NotificationContext} from '../NotificationService';
+
+export type ChannelConfig = Record<string, unknown>;
+
+// Output of a user-defined notification template; adapters fall back to their built-in layout without one
+export interface RenderedTemplate {
+    subject?: string;
+    body: string;
+}
+
+// The outbox row a message is delivered for; absent for test sends
+export interface DeliveryReference {
+    notificationId: string;
+    channelId?: string;
+    event: string;
+}
+
+export type ChannelMessage =
+    | { kind: 'alert'; context: NotificationContext; rendered?: RenderedTemplate; delivery?: DeliveryReference }
+    | { kind: 'group'; context: GroupNotificationContext; rendered?: RenderedTemplate; delivery?: DeliveryReference };
+
+// Channel-neutral view of a message that adapters render into their own payload format
+export interface MessageSummary {
+    status: 'firing' | 'resolved';
+    title: string;
+    severity: AlertSeverity;
+    firing: Alert[];
+    resolved: Alert[];
+    projectId?: string;
+    projectName?: string;
+    dedupKey: string; // stable per alert or group so receivers can update or close the same incident
+    timestamp: Date;
+}
+
+export interface NotificationChannel {
+    readonly type: string;
+    readonly displayName: string;
+    readonly secretFields: string[]; // config fields masked when channels are returned by the API
+
+    validateConfig(config: ChannelConfig): string[];
+
+    send(message: ChannelMessage, config: ChannelConfig): Promise<void>;
+}
+
+const SEVERITIES: AlertSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+    critical: '#FF0000',
+    high: '#FF6B00',
+    medium: '#FFA500',
+    low: '#FFD700',
+    info: '#00BFFF',
+};
+
+export function summarizeMessage(message: ChannelMessage): MessageSummary {
+    if (message.kind === 'alert') {
+        const {alert, timestamp, projectName} = message.context;
+        const resolved = alert.status === 'resolved';
+
+        return {
+            status: resolved ? 'resolved' : 'firing',
+            title: alert.title,
+            severity: alert.severity,
+            firing: resolved ? [] : [alert],
+            resolved: resolved ? [alert] : [],
+            projectId: alert.project_id,
+            projectName,
+            dedupKey: `alert-${alert.id}`,
+            timestamp,
+        };
+    }
+
+    const {group, firing, resolved, timestamp, projectName} = message.context;
+    const worst = [...firing, ...resolved]
+        .map(alert => alert.severity)
+        .sort((a, b) => SEVERITIES.indexOf(a) - SEVERITIES.indexOf(b))[0];
+    const labels = Object.entries(group.labels)
+        .filter(([label, value]) => label !== 'project' && value)
+        .map(([label, value]) => `${label}=${value}`);
+    const scope = [projectName, ...labels].filter(Boolean).join(' · ') || 'Alert group';
+
+    return {
+        status: firing.length > 0 ? 'firing' : 'resolved',
+        title: firing.length > 0 ? `FIRING:${firing.length} ${scope}` : `RESOLVED ${scope}`,
+        severity: worst || 'info',
+        firing,
+        resolved,
+        projectId: group.project_id,
+        projectName,
+        dedupKey: `alert-group-${group.id}`,
+        timestamp,
+    };
+}
+
+export function describeAlert(alert: Alert): string {
+    const value = alert.metric_value !== undefined && alert.metric_value !== null
+        ? ` — ${Number(alert.metric_value).toFixed(2)}`
+        : '';
+    const projection = projectionOf(alert);
+    const crossing = projection?.projected_at ? `, projected to reach ${projection.limit} at ${projection.projected_at}` : '';
+
+    return `${alert.title} (${alert.severity})${value}${crossing}`;
+}
+
+export function missingFields(config: ChannelConfig, fields: string[]): string[] {
+    return fields
+        .filter(field => typeof config[field] !== 'string' || (config[field] as string).trim().length === 0)
+        .map(field => `${field} is required`);
+}
+
+export function invalidUrls(config: ChannelConfig, fields: string[]): string[] {
+    return fields
+        .filter(field => typeof config[field] === 'string' && !/^https?:\/\/\S+$/.test(config[field] as string))
+        .map(field => `${field} must be an http(s) URL`);
+}
+
+export async function postJson(
+    url: string,
+    payload: unknown,
+    headers: Record<string, string> = {}
+): Promise<void> {
+    try {
+        await axios.post(url, payload, {
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'DevOps-Dashboard/1.0',
+                ...headers,
+            },
+            timeout: 10000,
+        });
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            if (error.response) {
+                const body = typeof error.response.data === 'string'
+                    ? error.response.data
+                    : JSON.stringify(error.response.data);
+                throw new Error(`Request failed with status ${error.response.status}: ${body}`);
+            }
+            throw new Error(`Request failed: ${error.message}`);
+        }
+
+        throw error;
+    }
+}
@@ -0,0 +1,47 @@
+import {NotificationService} from '../NotificationService';
+import {NotificationChannel} from './NotificationChannel';
+import {DiscordChannel} from './DiscordChannel';
+import {EmailChannel} from './EmailChannel';
+import {OpsgenieChannel} from './OpsgenieChannel';
+import {PagerDutyChannel} from './PagerDutyChannel';
+import {SlackChannel} from './SlackChannel';
+import {TeamsChannel} from './TeamsChannel';
+import {WebhookChannel} from './WebhookChannel';
+
+export class NotificationChannelRegistry {
+    private channels: Map<string, NotificationChannel> = new Map();
+
+    static withDefaults(notificationService: NotificationService = new NotificationService()): NotificationChannelRegistry {
+        const registry = new NotificationChannelRegistry();
+
+        registry.register(new EmailChannel(notificationService));
+        registry.register(new SlackChannel(notificationService));
+        registry.register(new WebhookChannel(notificationService));
+        registry.register(new PagerDutyChannel());
+        registry.register(new TeamsChannel());
+        registry.register(new DiscordChannel());
+        registry.register(new OpsgenieChannel());
+
+        return registry;
+    }
+
+    register(channel: NotificationChannel): void {
+        if (this.channels.has(channel.type)) {
+            throw new Error(`Notification channel type already registered: ${channel.type}`);
+        }
+
+        this.channels.set(channel.type, channel);
+    }
+
+    get(type: string): NotificationChannel | undefined {
+        return this.channels.get(type);
+    }
+
+    has(type: string): boolean {
+        return this.channels.has(type);
+    }
+
+    list(): NotificationChannel[] {
+        return [...this.channels.values()];
+    }
+}
@@ -0,0 +1,87 @@
+import {AlertSeverity} from '../../entities/Alert';
+import {
+    ChannelConfig,
+    ChannelMessage,
+    describeAlert,
+    invalidUrls,
+    missingFields,
+    NotificationChannel,
+    postJson,
+    summarizeMessage,
+} from './NotificationChannel';
+
+const API_URLS: Record<string, string> = {
+    us: 'https://api.opsgenie.com',
+    eu: 'https://api.eu.opsgenie.com',
+};
+
+const OPSGENIE_PRIORITIES: Record<AlertSeverity, string> = {
+    critical: 'P1',
+    high: 'P2',
+    medium: 'P3',
+    low: 'P4',
+    info: 'P5',
+};
+
+export class OpsgenieChannel implements NotificationChannel {
+    readonly type = 'opsgenie';
+    readonly displayName = 'Opsgenie';
+    readonly secretFields = ['api_key'];
+
+    validateConfig(config: ChannelConfig): string[] {
+        const errors = [...missingFields(config, ['api_key']), ...invalidUrls(config, ['api_url'])];
+
+        if (config.region !== undefined && !API_URLS[config.region as string]) {
+            errors.push(`region must be one of: ${Object.keys(API_URLS).join(', ')}`);
+        }
+
+        return errors;
+    }
+
+    // Alerts are created, acknowledged and closed by alias so repeated sends update the same Opsgenie alert
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        const summary = summarizeMessage(message);
+        const baseUrl = (config.api_url as string) || API_URLS[(config.region as string) || 'us'];
+        const headers = {Authorization: `GenieKey ${config.api_key}`};
+        const alias = encodeURIComponent(summary.dedupKey);
+
+        if (message.kind === 'alert' && message.context.alert.status === 'acknowledged') {
+            await postJson(
+                `${baseUrl}/v2/alerts/${alias}/acknowledge?identifierType=alias`,
+                {source: 'DevOps Dashboard', note: message.rendered?.body},
+                headers
+            );
+            return;
+        }
+
+        if (summary.status === 'resolved') {
+            await postJson(
+                `${baseUrl}/v2/alerts/${alias}/close?identifierType=alias`,
+                {
+                    source: 'DevOps Dashboard',
+                    note: message.rendered?.body || `Resolved: ${summary.resolved.map(describeAlert).join(', ')}`,
+                },
+                headers
+            );
+            return;
+        }
+
+        const tags = [...new Set(summary.firing.flatMap(alert => alert.tags || []))];
+
+        await postJson(`${baseUrl}/v2/alerts`, {
+            message: (message.rendered?.subject || summary.title).slice(0, 130),
+            alias: summary.dedupKey,
+            description: (message.rendered?.body || summary.firing.map(describeAlert).join('\n')).slice(0, 15000),
+            priority: OPSGENIE_PRIORITIES[summary.severity],
+            source: 'DevOps Dashboard',
+            entity: summary.projectName,
+            tags,
+            responders: config.team ? [{type: 'team', name: config.team}] : undefined,
+            details: {
+                project_id: summary.projectId || '',
+                firing: String(summary.firing.length),
+                resolved: String(summary.resolved.length),
+            },
+        }, headers);
+    }
+}
@@ -0,0 +1,76 @@
+import {AlertSeverity} from '../../entities/Alert';
+import {
+    ChannelConfig,
+    ChannelMessage,
+    describeAlert,
+    invalidUrls,
+    missingFields,
+    NotificationChannel,
+    postJson,
+    summarizeMessage,
+} from './NotificationChannel';
+
+const EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+// PagerDuty Events API v2 only knows four severities
+const PAGERDUTY_SEVERITIES: Record<AlertSeverity, string> = {
+    critical: 'critical',
+    high: 'error',
+    medium: 'warning',
+    low: 'warning',
+    info: 'info',
+};
+
+export class PagerDutyChannel implements NotificationChannel {
+    readonly type = 'pagerduty';
+    readonly displayName = 'PagerDuty';
+    readonly secretFields = ['routing_key'];
+
+    validateConfig(config: ChannelConfig): string[] {
+        return [...missingFields(config, ['routing_key']), ...invalidUrls(config, ['events_url'])];
+    }
+
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        await postJson((config.events_url as string) || EVENTS_URL, this.buildEvent(message, config));
+    }
+
+    // The dedup key ties trigger, acknowledge and resolve events to the same PagerDuty incident
+    private buildEvent(message: ChannelMessage, config: ChannelConfig): Record<string, unknown> {
+        const summary = summarizeMessage(message);
+        const acknowledged = message.kind === 'alert' && message.context.alert.status === 'acknowledged';
+
+        if (summary.status === 'resolved' || acknowledged) {
+            return {
+                routing_key: config.routing_key,
+                event_action: acknowledged ? 'acknowledge' : 'resolve',
+                dedup_key: summary.dedupKey,
+            };
+        }
+
+        const title = message.rendered?.subject || message.rendered?.body.split('\n')[0] || summary.title;
+        const details: Record<string, unknown> = {
+            firing: summary.firing.map(describeAlert),
+            resolved: summary.resolved.map(describeAlert),
+        };
+
+        if (message.rendered) {
+            details.message = message.rendered.body;
+        }
+
+        return {
+            routing_key: config.routing_key,
+            event_action: 'trigger',
+            dedup_key: summary.dedupKey,
+            payload: {
+                summary: title.slice(0, 1024),
+                source: summary.projectName || summary.projectId || 'devops-dashboard',
+                severity: PAGERDUTY_SEVERITIES[summary.severity],
+                timestamp: summary.timestamp.toISOString(),
+                component: summary.firing[0]?.metric_type,
+                group: summary.projectName,
+                custom_details: details,
+            },
+            client: 'DevOps Dashboard',
+        };
+    }
+}
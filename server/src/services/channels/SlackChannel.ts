@@ -0,0 +1,31 @@
+import {NotificationService} from '../NotificationService';
+import {ChannelConfig, ChannelMessage, invalidUrls, missingFields, NotificationChannel} from './NotificationChannel';
+
+export class SlackChannel implements NotificationChannel {
+    readonly type = 'slack';
+    readonly displayName = 'Slack';
+    readonly secretFields = ['webhook_url'];
+
+    private notificationService: NotificationService;
+
+    constructor(notificationService: NotificationService) {
+        this.notificationService = notificationService;
+    }
+
+    validateConfig(config: ChannelConfig): string[] {
+        return [...missingFields(config, ['webhook_url']), ...invalidUrls(config, ['webhook_url'])];
+    }
+
+    // Without a webhook_url the service falls back to SLACK_WEBHOOK_URL
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        const webhookUrl = config.webhook_url as string | undefined;
+
+        if (message.rendered) {
+            await this.notificationService.sendRenderedSlackNotification(message.rendered, webhookUrl);
+        } else if (message.kind === 'group') {
+            await this.notificationService.sendGroupSlackNotification(message.context, webhookUrl);
+        } else {
+            await this.notificationService.sendSlackNotification(message.context, webhookUrl);
+        }
+    }
+}
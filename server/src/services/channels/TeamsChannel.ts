@@ -0,0 +1,96 @@
+import {
+    ChannelConfig,
+    ChannelMessage,
+    describeAlert,
+    invalidUrls,
+    missingFields,
+    NotificationChannel,
+    postJson,
+    summarizeMessage,
+} from './NotificationChannel';
+
+export class TeamsChannel implements NotificationChannel {
+    readonly type = 'teams';
+    readonly displayName = 'Microsoft Teams';
+    readonly secretFields = ['webhook_url'];
+
+    validateConfig(config: ChannelConfig): string[] {
+        return [...missingFields(config, ['webhook_url']), ...invalidUrls(config, ['webhook_url'])];
+    }
+
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        await postJson(config.webhook_url as string, this.buildCard(message));
+    }
+
+    // Adaptive Card wrapped in a message, as accepted by Teams incoming webhooks and Workflows
+    private buildCard(message: ChannelMessage): Record<string, unknown> {
+        const summary = summarizeMessage(message);
+
+        if (message.rendered) {
+            return this.wrap([
+                {type: 'TextBlock', text: message.rendered.subject || summary.title, weight: 'Bolder', size: 'Medium', wrap: true},
+                {type: 'TextBlock', text: message.rendered.body, wrap: true},
+            ]);
+        }
+
+        const body: Record<string, unknown>[] = [
+            {
+                type: 'TextBlock',
+                text: summary.title,
+                weight: 'Bolder',
+                size: 'Medium',
+                color: summary.status === 'firing' ? 'Attention' : 'Good',
+                wrap: true,
+            },
+            {
+                type: 'FactSet',
+                facts: [
+                    {title: 'Status', value: summary.status.toUpperCase()},
+                    {title: 'Severity', value: summary.severity.toUpperCase()},
+                    {title: 'Project', value: summary.projectName || summary.projectId || 'N/A'},
+                    {title: 'Time', value: summary.timestamp.toISOString()},
+                ],
+            },
+        ];
+
+        if (summary.firing.length > 0) {
+            body.push({
+                type: 'TextBlock',
+                text: summary.firing.map(alert => `- ${describeAlert(alert)}`).join('\n'),
+                wrap: true,
+            });
+        }
+
+        if (summary.resolved.length > 0) {
+            body.push({
+                type: 'TextBlock',
+                text: `Resolved (${summary.resolved.length})`,
+                weight: 'Bolder',
+                color: 'Good',
+            }, {
+                type: 'TextBlock',
+                text: summary.resolved.map(alert => `- ${describeAlert(alert)}`).join('\n'),
+                wrap: true,
+            });
+        }
+
+        return this.wrap(body);
+    }
+
+    private wrap(body: Record<string, unknown>[]): Record<string, unknown> {
+        return {
+            type: 'message',
+            attachments: [
+                {
+                    contentType: 'application/vnd.microsoft.card.adaptive',
+                    content: {
+                        $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                        type: 'AdaptiveCard',
+                        version: '1.4',
+                        body,
+                    },
+                },
+            ],
+        };
+    }
+}
@@ -0,0 +1,47 @@
+import {NotificationService} from '../NotificationService';
+import {ChannelConfig, ChannelMessage, invalidUrls, missingFields, NotificationChannel} from './NotificationChannel';
+
+export class WebhookChannel implements NotificationChannel {
+    readonly type = 'webhook';
+    readonly displayName = 'Webhook';
+    readonly secretFields = ['secret'];
+
+    private notificationService: NotificationService;
+
+    constructor(notificationService: NotificationService) {
+        this.notificationService = notificationService;
+    }
+
+    validateConfig(config: ChannelConfig): string[] {
+        const errors = [...missingFields(config, ['url']), ...invalidUrls(config, ['url'])];
+
+        if (config.secret !== undefined && (typeof config.secret !== 'string' || config.secret.length < 16)) {
+            errors.push('secret must be at least 16 characters');
+        }
+
+        return errors;
+    }
+
+    async send(message: ChannelMessage, config: ChannelConfig): Promise<void> {
+        const url = config.url as string | undefined;
+
+        if (!url) {
+            throw new Error('No webhook URL configured');
+        }
+
+        const options = {
+            secret: (config.secret as string) || undefined,
+            event: message.delivery?.event,
+            notificationId: message.delivery?.notificationId,
+            channelId: message.delivery?.channelId,
+        };
+
+        if (message.rendered) {
+            await this.notificationService.sendRenderedWebhookNotification(message.rendered, url, options);
+        } else if (message.kind === 'group') {
+            await this.notificationService.sendGroupWebhookNotification(message.context, url, options);
+        } else {
+            await this.notificationService.sendWebhookNotification(message.context, url, options);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+import {Project} from '../../entities/Project';
+import {MetricDefinition} from '../../entities/MetricCatalog';
+import {DockerService} from '../DockerService';
+import {MetricCollector} from './MetricCollector';
+
+export class DockerCollector implements MetricCollector {
+    readonly name = 'docker';
+    // cpu_usage and memory_usage are built in; the collector writes them in percent and MB
+    readonly metrics: MetricDefinition[] = [
+        {name: 'memory_percent', kind: 'gauge', unit: 'percent', description: 'Container memory utilisation', min_value: 0, max_value: 100},
+        {name: 'network_rx', kind: 'counter', unit: 'MB', description: 'Container network traffic received', min_value: 0},
+        {name: 'network_tx', kind: 'counter', unit: 'MB', description: 'Container network traffic sent', min_value: 0},
+    ];
+    private dockerService: DockerService;
+
+    constructor() {
+        this.dockerService = new DockerService();
+    }
+
+    appliesTo(project: Project): boolean {
+        return !!project.docker_image;
+    }
+
+    // Collects from the first running container of the project's image, if there is one
+    async collect(project: Project): Promise<void> {
+        const containers = await this.dockerService.listContainers();
+        const container = containers.find(c => c.image.includes(project.docker_image!));
+
+        if (container) {
+            await this.dockerService.collectAndStoreMetrics(project.id, container.id);
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import {Project} from '../../entities/Project';
+import {MetricDefinition} from '../../entities/MetricCatalog';
+import {GitHubService} from '../GitHubService';
+import {MetricCollector} from './MetricCollector';
+
+const GITHUB_REPO = /github\.com\/([^/]+)\/([^/]+)/;
+
+export class GitHubCollector implements MetricCollector {
+    readonly name = 'github';
+    readonly metrics: MetricDefinition[] = [
+        {name: 'github_stars', kind: 'gauge', description: 'GitHub stargazers', min_value: 0},
+        {name: 'github_forks', kind: 'gauge', description: 'GitHub forks', min_value: 0},
+        {name: 'github_issues', kind: 'gauge', description: 'Open GitHub issues', min_value: 0},
+        {name: 'github_prs', kind: 'gauge', description: 'Open GitHub pull requests', min_value: 0},
+    ];
+    private githubService: GitHubService;
+
+    constructor() {
+        this.githubService = new GitHubService();
+    }
+
+    appliesTo(project: Project): boolean {
+        return !!project.github_repo && GITHUB_REPO.test(project.github_repo);
+    }
+
+    async collect(project: Project): Promise<void> {
+        const [, owner, repo] = project.github_repo!.match(GITHUB_REPO)!;
+        await this.githubService.collectAndStoreMetrics(project.id, owner, repo);
+    }
+}
@@ -0,0 +1,12 @@
+import {Project} from '../../entities/Project';
+import {MetricDefinition} from '../../entities/MetricCatalog';
+
+// A source of project metrics, run by MetricsCollectorService on each project's collection schedule
+export interface MetricCollector {
+    readonly name: string; // Label for the collector's run metrics on /metrics
+    readonly metrics: MetricDefinition[]; // Registered in the metric catalog before the collector runs
+
+    appliesTo(project: Project): boolean;
+
+    collect(project: Project): Promise<void>;
+}
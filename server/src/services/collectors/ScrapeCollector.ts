@@ -0,0 +1,69 @@
+import axios from 'axios';
+import {Project, ScrapeTarget} from '../../entities/Project';
+import {MetricDefinition} from '../../entities/MetricCatalog';
+import {PrometheusTextParser} from '../../entities/PrometheusExposition';
+import {ScrapeTargetPolicy} from '../../entities/ScrapeTargetPolicy';
+import {PrometheusIngestService} from '../PrometheusIngestService';
+import {MetricCollector} from './MetricCollector';
+
+const SCRAPE_TIMEOUT_MS = 10000;
+const MAX_SCRAPE_BYTES = 10 * 1024 * 1024;
+
+// Pulls the Prometheus /metrics endpoints configured in a project's settings.scrape_targets
+export class ScrapeCollector implements MetricCollector {
+    readonly name = 'scrape';
+    readonly metrics: MetricDefinition[] = []; // Scraped names are registered as they are first ingested
+    private ingestService: PrometheusIngestService;
+    private policy: ScrapeTargetPolicy;
+
+    constructor() {
+        this.ingestService = new PrometheusIngestService();
+        this.policy = ScrapeTargetPolicy.fromEnv(process.env.SCRAPE_ALLOWED_HOSTS);
+    }
+
+    appliesTo(project: Project): boolean {
+        return (project.settings?.scrape_targets?.length || 0) > 0;
+    }
+
+    // Every target is scraped even when one fails; the run fails if any target did
+    async collect(project: Project): Promise<void> {
+        const failures: string[] = [];
+
+        for (const target of project.settings!.scrape_targets!) {
+            try {
+                await this.scrape(project.id, target);
+            } catch (error) {
+                failures.push(`${target.url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new Error(`Scrape failed for ${failures.join('; ')}`);
+        }
+    }
+
+    // Targets saved before their host was removed from SCRAPE_ALLOWED_HOSTS are skipped as failures, and
+    // redirects are not followed, so a target can't lead the server to a host that isn't allowed
+    private async scrape(projectId: string, target: ScrapeTarget): Promise<void> {
+        const reason = this.policy.check(target.url);
+        if (reason) {
+            throw new Error(reason);
+        }
+
+        const now = new Date();
+        const response = await axios.get<string>(target.url, {
+            timeout: SCRAPE_TIMEOUT_MS,
+            maxContentLength: MAX_SCRAPE_BYTES,
+            maxRedirects: 0,
+            responseType: 'text',
+            transformResponse: data => data, // Keep the body as text even when it parses as JSON
+            headers: {
+                Accept: 'text/plain;version=0.0.4',
+                ...(target.bearer_token ? {Authorization: `Bearer ${target.bearer_token}`} : {}),
+            },
+        });
+
+        const series = PrometheusTextParser.parse(response.data);
+        await this.ingestService.storeScrape(projectId, series, {instance: new URL(target.url).host, ...target.labels}, now);
+    }
+}
@@ -0,0 +1,50 @@
+import {parseGroupBy, parseTagFilters, parseTags, tagLabels, withoutGroup} from '../metricTags';
+
+describe('parseTags', () => {
+    it('should read the "key:value" strings tags used to be stored as', () => {
+        expect(parseTags(['region:eu-west-1', 'env=prod', 'canary', ''])).toEqual({region: 'eu-west-1', env: 'prod', canary: ''});
+    });
+
+    it('should keep objects and drop anything else', () => {
+        expect(parseTags({region: 'eu-west-1', shard: 3})).toEqual({region: 'eu-west-1', shard: '3'});
+        expect(parseTags('region:eu-west-1')).toEqual({});
+    });
+});
+
+describe('tagLabels', () => {
+    it('should keep identifier-like keys with a value', () => {
+        expect(tagLabels({region: 'eu', canary: '', 'k8s.pod': 'api-1'})).toEqual({region: 'eu'});
+    });
+});
+
+describe('parseTagFilters', () => {
+    it('should read single and repeated values', () => {
+        expect(parseTagFilters({region: ['eu', 'us'], env: 'prod'})).toEqual({region: ['eu', 'us'], env: ['prod']});
+        expect(parseTagFilters(undefined)).toEqual({});
+    });
+
+    it('should reject anything but tags[key]=value', () => {
+        expect(parseTagFilters('region')).toBeNull();
+        expect(parseTagFilters({region: {nested: 'eu'}})).toBeNull();
+        expect(parseTagFilters({'bad key': 'eu'})).toBeNull();
+    });
+});
+
+describe('parseGroupBy', () => {
+    it('should read comma lists and repeated parameters', () => {
+        expect(parseGroupBy('tags.region, tags.host')).toEqual(['region', 'host']);
+        expect(parseGroupBy(['tags.region', 'tags.region'])).toEqual(['region']);
+        expect(parseGroupBy(undefined)).toEqual([]);
+    });
+
+    it('should only group by up to three tags', () => {
+        expect(parseGroupBy('region')).toBeNull();
+        expect(parseGroupBy('tags.a,tags.b,tags.c,tags.d')).toBeNull();
+    });
+});
+
+describe('withoutGroup', () => {
+    it('should drop only the group values', () => {
+        expect(withoutGroup({group: {region: 'eu'}, avg: 2, count: 3})).toEqual({avg: 2, count: 3});
+    });
+});
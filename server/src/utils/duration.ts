@@ -0,0 +1,16 @@
+const UNIT_SECONDS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 60 * 60,
+    d: 24 * 60 * 60,
+    w: 7 * 24 * 60 * 60,
+};
+
+// Parses durations such as "90s", "15m", "6h" or "7d" into seconds, or null when malformed
+export function parseDuration(value: string): number | null {
+    const match = /^(\d+)([smhdw])$/.exec(value.trim());
+    if (!match) return null;
+
+    const seconds = parseInt(match[1], 10) * UNIT_SECONDS[match[2]];
+    return seconds > 0 ? seconds : null;
+}
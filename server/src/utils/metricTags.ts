@@ -0,0 +1,106 @@
+// Metric tags are key=value dimensions, stored as a JSON object
+export type MetricTags = Record<string, string>;
+
+// Tag filters from a query string: a sample matches when, for every key, its tag has one of the values
+export type TagFilters = Record<string, string[]>;
+
+const MAX_TAG_KEY_LENGTH = 100;
+const MAX_GROUP_BY_TAGS = 3;
+const TAG_KEY = /^[A-Za-z0-9_][A-Za-z0-9_.\-/]*$/;
+const LABEL_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Accepts an object, or the "key:value" (or "key=value") strings tags used to be stored as. A tag without a value
+// keeps its key with an empty value.
+export function parseTags(tags: unknown): MetricTags {
+    if (!Array.isArray(tags)) {
+        if (typeof tags !== 'object' || tags === null) {
+            return {};
+        }
+        return Object.fromEntries(Object.entries(tags).map(([key, value]) => [key, String(value ?? '')]));
+    }
+
+    const parsed: MetricTags = {};
+    for (const tag of tags) {
+        if (typeof tag !== 'string' || tag === '') {
+            continue;
+        }
+
+        const separator = tag.search(/[:=]/);
+        if (separator > 0) {
+            parsed[tag.slice(0, separator)] = tag.slice(separator + 1);
+        } else {
+            parsed[tag] = '';
+        }
+    }
+
+    return parsed;
+}
+
+// Tags usable as Prometheus-style labels: identifier-like keys with a value
+export function tagLabels(tags: unknown): Record<string, string> {
+    return Object.fromEntries(Object.entries(parseTags(tags)).filter(([key, value]) => LABEL_NAME.test(key) && value !== ''));
+}
+
+export function isTagKey(key: string): boolean {
+    return key.length <= MAX_TAG_KEY_LENGTH && TAG_KEY.test(key);
+}
+
+// Tags as sent when creating metrics: an object of strings, or an array of "key:value" strings
+export function isTagSet(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.every(tag => typeof tag === 'string');
+    }
+    return typeof value === 'object' && value !== null && Object.values(value).every(tag => typeof tag === 'string');
+}
+
+// Reads tags[region]=eu-west-1 query parameters, parsed by Express into {region: 'eu-west-1'}. A repeated
+// parameter gives a list of values. Null when malformed.
+export function parseTagFilters(query: unknown): TagFilters | null {
+    if (query === undefined) {
+        return {};
+    }
+    if (typeof query !== 'object' || query === null || Array.isArray(query)) {
+        return null;
+    }
+
+    const filters: TagFilters = {};
+    for (const [key, value] of Object.entries(query)) {
+        const values = Array.isArray(value) ? value : [value];
+        if (!isTagKey(key) || values.length === 0 || !values.every(item => typeof item === 'string')) {
+            return null;
+        }
+        filters[key] = values as string[];
+    }
+
+    return filters;
+}
+
+// Reads groupBy=tags.region,tags.host (or a repeated groupBy) into tag keys. Null when malformed.
+export function parseGroupBy(query: unknown): string[] | null {
+    if (query === undefined) {
+        return [];
+    }
+
+    const values = Array.isArray(query) ? query : [query];
+    if (!values.every(value => typeof value === 'string')) {
+        return null;
+    }
+
+    const keys: string[] = [];
+    for (const field of (values as string[]).flatMap(value => value.split(','))) {
+        const key = field.trim().replace(/^tags\./, '');
+        if (!field.trim().startsWith('tags.') || !isTagKey(key)) {
+            return null;
+        }
+        if (!keys.includes(key)) {
+            keys.push(key);
+        }
+    }
+
+    return keys.length <= MAX_GROUP_BY_TAGS ? keys : null;
+}
+
+// An aggregation without the tag values it was grouped by, for requests that don't group by tags
+export function withoutGroup<T extends {group: unknown}>(aggregation: T): Omit<T, 'group'> {
+    return Object.fromEntries(Object.entries(aggregation).filter(([key]) => key !== 'group')) as Omit<T, 'group'>;
+}
@@ -0,0 +1,125 @@
+export interface ZonedParts {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number; // 0 = Sunday
+    hour: number;
+    minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric',
+        });
+        formatters.set(timeZone, formatter);
+    }
+
+    return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        getFormatter(timeZone);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Wall-clock fields of `date` as seen in `timeZone`
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts = getFormatter(timeZone).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes): string =>
+        parts.find(part => part.type === type)?.value || '';
+
+    return {
+        year: parseInt(get('year'), 10),
+        month: parseInt(get('month'), 10),
+        day: parseInt(get('day'), 10),
+        weekday: WEEKDAYS.indexOf(get('weekday')),
+        hour: parseInt(get('hour'), 10),
+        minute: parseInt(get('minute'), 10),
+    };
+}
+
+// Parses "HH:mm" into minutes after midnight, or null when malformed
+export function parseTimeOfDay(value: string): number | null {
+    const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+    return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+export interface WeeklyWindow {
+    days_of_week: number[]; // 0 = Sunday, in the window's timezone
+    start_time: string; // HH:mm
+    end_time: string; // HH:mm, may be earlier than start_time to cross midnight
+    timezone: string;
+}
+
+export function isWithinWeeklyWindow(at: Date, window: WeeklyWindow): boolean {
+    const start = parseTimeOfDay(window.start_time);
+    const end = parseTimeOfDay(window.end_time);
+    if (start === null || end === null) return false;
+
+    const local = getZonedParts(at, window.timezone);
+    const minutes = local.hour * 60 + local.minute;
+
+    if (start < end) {
+        return window.days_of_week.includes(local.weekday) && minutes >= start && minutes < end;
+    }
+
+    // The window crosses midnight: it belongs to the day on which it started
+    const previousDay = (local.weekday + 6) % 7;
+    return (window.days_of_week.includes(local.weekday) && minutes >= start)
+        || (window.days_of_week.includes(previousDay) && minutes < end);
+}
+
+// Days since 1970-01-01 of the calendar date `date` falls on in `timeZone`
+export function getLocalDayNumber(date: Date, timeZone: string): number {
+    const local = getZonedParts(date, timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day) / 86400000;
+}
+
+// Parses "YYYY-MM-DD" into days since 1970-01-01, or null when malformed
+export function parseLocalDate(value: string): number | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+
+    const time = Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    const check = new Date(time);
+    return check.getUTCDate() === parseInt(match[3], 10) ? time / 86400000 : null;
+}
+
+export function validateWeeklyWindow(window: WeeklyWindow, label: string): string[] {
+    const errors: string[] = [];
+    const {days_of_week, start_time, end_time, timezone} = window;
+
+    if (!Array.isArray(days_of_week) || days_of_week.length === 0
+        || days_of_week.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        errors.push(`${label} days of week must be integers between 0 (Sunday) and 6`);
+    }
+
+    if (parseTimeOfDay(start_time) === null || parseTimeOfDay(end_time) === null) {
+        errors.push(`${label} start and end times must use the HH:mm format`);
+    } else if (start_time === end_time) {
+        errors.push(`${label} start and end times must differ`);
+    }
+
+    if (!timezone || !isValidTimeZone(timezone)) {
+        errors.push(`Invalid ${label.toLowerCase()} timezone: ${timezone}`);
+    }
+
+    return errors;
+}
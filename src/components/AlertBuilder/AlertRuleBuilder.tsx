@@ -26,20 +26,58 @@ interface AlertRule {
     cooldownMinutes?: number;
     notificationChannels: string[];
     tags?: string[];
+    // Composite condition, e.g. error_rate > 5 AND request_count > 100; replaces metricType/condition/threshold
+    expression?: string;
 }
 
+type ConditionMode = 'simple' | 'expression';
+
 interface AlertRuleBuilderProps {
     initialRule?: AlertRule;
     onSave: (rule: AlertRule) => void;
     onCancel: () => void;
+    // Server-side parse of a composite expression; resolves to an error message, or null when valid
+    onValidateExpression?: (expression: string) => Promise<string | null>;
     availableMetrics?: string[];
     availableChannels?: { id: string; name: string; type: string }[];
 }
 
+const EXPRESSION_OPERATORS: Partial<Record<AlertRule['condition'], string>> = {
+    greater_than: '>',
+    less_than: '<',
+    equals: '==',
+    not_equals: '!=',
+};
+
+// Catches the common mistakes before a round trip; the server parser has the final say
+const checkExpression = (expression: string): string | null => {
+    if (!expression.trim()) {
+        return 'Expression is required';
+    }
+
+    let depth = 0;
+    for (const char of expression) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (depth < 0) return 'Unexpected closing parenthesis';
+    }
+
+    if (depth > 0) {
+        return 'Missing closing parenthesis';
+    }
+
+    if (/\b(and|or|not)\s*$/i.test(expression.trim())) {
+        return 'Expression cannot end with AND, OR or NOT';
+    }
+
+    return null;
+};
+
 export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
                                                                       initialRule,
                                                                       onSave,
                                                                       onCancel,
+                                                                      onValidateExpression,
                                                                       availableMetrics = ['cpu', 'memory', 'disk', 'network', 'response_time', 'error_rate'],
                                                                       availableChannels = [
                                                                           {id: '1', name: 'Email', type: 'email'},
@@ -65,6 +103,9 @@ export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
         tags: [],
     });
 
+    const [conditionMode, setConditionMode] = useState<ConditionMode>(initialRule?.expression ? 'expression' : 'simple');
+    const [joinWith, setJoinWith] = useState<'AND' | 'OR'>('AND');
+    const [expressionStatus, setExpressionStatus] = useState<'checking' | 'valid' | null>(null);
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isTesting, setIsTesting] = useState(false);
     const [testResult, setTestResult] = useState<'success' | 'failure' | null>(null);
@@ -80,10 +121,17 @@ export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
             newErrors.description = 'Description is required';
         }
 
-        if (rule.threshold === '' || rule.threshold === undefined) {
+        if (conditionMode === 'simple' && (rule.threshold === '' || rule.threshold === undefined)) {
             newErrors.threshold = 'Threshold value is required';
         }
 
+        if (conditionMode === 'expression') {
+            const expressionError = checkExpression(rule.expression || '');
+            if (expressionError) {
+                newErrors.expression = expressionError;
+            }
+        }
+
         if (rule.notificationChannels.length === 0) {
             newErrors.channels = 'At least one notification channel is required';
         }
@@ -94,8 +142,34 @@ export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
 
     const handleSave = () => {
         if (validateRule()) {
-            onSave(rule);
+            onSave(conditionMode === 'expression' ? rule : {...rule, expression: undefined});
+        }
+    };
+
+    // Appends the metric, operator and threshold picked above as one more clause
+    const addClause = () => {
+        const operator = EXPRESSION_OPERATORS[rule.condition] || '>';
+        const clause = `${rule.metricType} ${operator} ${rule.threshold}`;
+        const current = (rule.expression || '').trim();
+
+        setRule({...rule, expression: current ? `${current} ${joinWith} ${clause}` : clause});
+        setExpressionStatus(null);
+    };
+
+    const handleCheckExpression = async () => {
+        const expression = rule.expression || '';
+        const localError = checkExpression(expression);
+
+        if (localError || !onValidateExpression) {
+            setErrors({...errors, expression: localError || ''});
+            setExpressionStatus(localError ? null : 'valid');
+            return;
         }
+
+        setExpressionStatus('checking');
+        const serverError = await onValidateExpression(expression);
+        setErrors({...errors, expression: serverError || ''});
+        setExpressionStatus(serverError ? null : 'valid');
     };
 
     const handleTest = async () => {
@@ -182,7 +256,25 @@ export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
 
                 {/* Condition Configuration */}
                 <div className="space-y-4">
-                    <h3 className="text-lg font-semibold text-white">Alert Condition</h3>
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-lg font-semibold text-white">Alert Condition</h3>
+                        <div className="flex rounded-lg border border-neutral-700 overflow-hidden">
+                            {(['simple', 'expression'] as const).map((mode) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setConditionMode(mode)}
+                                    className={cn(
+                                        'px-3 py-1 text-sm capitalize transition-colors',
+                                        conditionMode === mode
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-neutral-800 text-neutral-400 hover:text-white'
+                                    )}
+                                >
+                                    {mode}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
 
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <div>
@@ -237,6 +329,61 @@ export const AlertRuleBuilder: React.FC<AlertRuleBuilderProps> = ({
                             )}
                         </div>
                     </div>
+
+                    {conditionMode === 'expression' && (
+                        <div className="space-y-3">
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={joinWith}
+                                    onChange={(e) => setJoinWith(e.target.value as 'AND' | 'OR')}
+                                    className="px-3 py-1 bg-neutral-800 border border-neutral-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                    <option value="AND">AND</option>
+                                    <option value="OR">OR</option>
+                                </select>
+                                <button
+                                    onClick={addClause}
+                                    className="px-3 py-1 bg-neutral-800 hover:bg-neutral-700 text-white text-sm rounded-lg transition-colors flex items-center gap-1"
+                                >
+                                    <Plus size={14}/>
+                                    Add clause
+                                </button>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-neutral-300 mb-2">
+                                    Expression *
+                                </label>
+                                <textarea
+                                    value={rule.expression || ''}
+                                    onChange={(e) => {
+                                        setRule({...rule, expression: e.target.value});
+                                        setExpressionStatus(null);
+                                    }}
+                                    className={cn(
+                                        'w-full px-4 py-2 bg-neutral-800 border rounded-lg text-white font-mono text-sm placeholder-neutral-500 focus:outline-none focus:ring-2',
+                                        errors.expression ? 'border-red-500 focus:ring-red-500' : 'border-neutral-700 focus:ring-blue-500'
+                                    )}
+                                    rows={3}
+                                    placeholder='e.g., error_rate > 5 AND request_count > 100, or max(cpu_usage{project="<id>"}) > 90'
+                                />
+                                {errors.expression && (
+                                    <p className="mt-1 text-sm text-red-500">{errors.expression}</p>
+                                )}
+                                {expressionStatus === 'valid' && !errors.expression && (
+                                    <p className="mt-1 text-sm text-green-400">Expression is valid</p>
+                                )}
+                            </div>
+
+                            <button
+                                onClick={handleCheckExpression}
+                                disabled={expressionStatus === 'checking'}
+                                className="px-3 py-1 bg-neutral-800 hover:bg-neutral-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {expressionStatus === 'checking' ? 'Checking...' : 'Check expression'}
+                            </button>
+                        </div>
+                    )}
                 </div>
 
                 {/* Severity and Settings */}